@@ -4,7 +4,7 @@
  * This example shows how to sell excess solar energy on the P2P market
  */
 
-import { createClient, EnergySource } from '../src';
+import { createClient, DeviceSimulator, EnergySource } from '../src';
 
 async function main() {
   const voltnet = createClient({
@@ -43,33 +43,21 @@ async function main() {
     // Monitor production and create offers
     console.log('📊 Starting production monitoring...\n');
 
-    // Simulate monitoring loop
+    // Simulate the panel: 5-minute readings, one every 5 seconds
+    const simulator = new DeviceSimulator({ devices: [device], intervalMinutes: 5, speed: 60 });
+
     let iteration = 0;
     const monitoringInterval = setInterval(async () => {
       iteration++;
 
-      // Simulate current production (varies by time of day)
-      const hour = new Date().getHours();
-      let currentProduction = 0;
-
-      if (hour >= 8 && hour <= 18) {
-        // Daytime production (peak at noon)
-        const hoursSinceSunrise = hour - 8;
-        const hoursUntilSunset = 18 - hour;
-        const peakFactor = Math.min(hoursSinceSunrise, hoursUntilSunset) / 5;
-        currentProduction = 8 * peakFactor; // Up to 8 kW
-      }
+      // Simulated production (clear-sky curve with passing clouds)
+      const [reading] = simulator.step();
+      const currentProduction = reading.power || 0;
 
       console.log(`⚡ Current production: ${currentProduction.toFixed(2)} kW`);
 
       // Submit measurement
-      const measurement = await voltnet.meter.submitMeasurement({
-        deviceId: device.deviceId,
-        timestamp: new Date().toISOString(),
-        energy: currentProduction / 12, // Convert to kWh (5-minute interval)
-        power: currentProduction,
-        source: EnergySource.SOLAR
-      });
+      await voltnet.meter.submitMeasurement(reading);
 
       // If producing excess energy, create sell offer
       if (currentProduction > 2) {
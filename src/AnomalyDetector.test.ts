@@ -0,0 +1,122 @@
+/**
+ * Tests for the anomaly detector
+ */
+
+import { AnomalyDetector } from './AnomalyDetector';
+import { EnergyMeter } from './EnergyMeter';
+import { DeviceRegistration, EnergyMeasurement, EnergySource } from './types';
+
+const device: DeviceRegistration = {
+  deviceId: 'inverter-001',
+  type: 'solar_panel',
+  ownerId: 'participant-001',
+  capabilities: { canProduce: true, canConsume: false, maxPower: 10 }
+};
+
+// 15-minute interval reading ending at the given time
+function reading(time: string, fields: Partial<EnergyMeasurement> = {}): EnergyMeasurement {
+  const end = new Date(`2024-01-15T${time}:00.000Z`);
+  return {
+    deviceId: 'inverter-001',
+    timestamp: end.toISOString(),
+    energy: 1,
+    power: 4,
+    voltage: 230,
+    current: 20,
+    source: EnergySource.SOLAR,
+    metadata: { intervalStart: new Date(end.getTime() - 15 * 60 * 1000).toISOString() },
+    ...fields
+  };
+}
+
+describe('AnomalyDetector', () => {
+  let submitted: EnergyMeasurement[][];
+  let getDevice: jest.Mock;
+  let detector: AnomalyDetector;
+
+  beforeEach(() => {
+    submitted = [];
+    getDevice = jest.fn(async () => device);
+    const meter = {
+      getDevice,
+      submitBatch: async (measurements: EnergyMeasurement[]) => {
+        submitted.push(measurements);
+        return { success: true, count: measurements.length };
+      }
+    } as unknown as EnergyMeter;
+    detector = new AnomalyDetector(meter);
+  });
+
+  test('accepts consistent readings unchanged', async () => {
+    const measurement = reading('12:15');
+    const assessment = await detector.assess(measurement);
+
+    expect(assessment).toEqual({ measurement, score: 0, anomalies: [], action: 'accept' });
+    expect(getDevice).toHaveBeenCalledWith('inverter-001');
+  });
+
+  test('rejects power far above the device capacity', async () => {
+    const assessment = await detector.assess(reading('12:15', { power: 14, current: 61, energy: 3.5 }));
+
+    expect(assessment.action).toBe('reject');
+    expect(assessment.anomalies.map(a => a.type)).toEqual(['over-capacity']);
+    expect(assessment.score).toBe(1);
+  });
+
+  test('detects power inconsistent with voltage and current', async () => {
+    const assessment = await detector.assess(reading('12:15', { current: 10 }));
+
+    // 4 kW from 2.3 kVA apparent power
+    expect(assessment.anomalies).toEqual([expect.objectContaining({ type: 'power-mismatch', score: 1 })]);
+  });
+
+  test('annotates energy that does not match power over the interval', async () => {
+    const assessment = await detector.assess(reading('12:15', { energy: 2.5 }));
+
+    expect(assessment.action).toBe('annotate');
+    expect(assessment.measurement.metadata).toMatchObject({
+      anomalyScore: 0.6,
+      anomalies: [{ type: 'energy-mismatch', score: 0.6 }]
+    });
+  });
+
+  test('detects spikes against recent history', async () => {
+    detector.setDevice({ ...device, capabilities: { ...device.capabilities, maxPower: undefined } });
+
+    const quiet = ['12:15', '12:30', '12:45', '13:00', '13:15'].map(time =>
+      reading(time, { power: 0.5, current: 2.5, energy: 0.125 })
+    );
+    for (const measurement of quiet) {
+      expect((await detector.assess(measurement)).action).toBe('accept');
+    }
+
+    const spike = await detector.assess(reading('13:30', { power: 4, energy: 1 }));
+    expect(spike.anomalies.map(a => a.type)).toEqual(['spike']);
+    expect(spike.action).toBe('quarantine');
+    expect(getDevice).not.toHaveBeenCalled();
+  });
+
+  test('submits passing readings and holds quarantined ones', async () => {
+    const quarantined = jest.fn();
+    const rejected = jest.fn();
+    detector.on('quarantined', quarantined);
+    detector.on('rejected', rejected);
+
+    const result = await detector.submitBatch([
+      reading('12:15'),
+      reading('12:30', { energy: 2.5 }),
+      reading('12:45', { energy: 0.25 }),
+      reading('13:00', { power: 30, current: 130 })
+    ]);
+
+    expect(result).toEqual({ submitted: 2, quarantined: 1, rejected: 1 });
+    expect(submitted).toHaveLength(1);
+    expect(submitted[0][1].metadata!.anomalies).toEqual([{ type: 'energy-mismatch', score: 0.6 }]);
+    expect(quarantined).toHaveBeenCalledTimes(1);
+    expect(rejected).toHaveBeenCalledTimes(1);
+
+    const released = detector.releaseQuarantined();
+    expect(released.map(m => m.timestamp)).toEqual(['2024-01-15T12:45:00.000Z']);
+    expect(detector.getQuarantined()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,270 @@
+import EventEmitter from 'eventemitter3';
+import { EnergyMeter } from './EnergyMeter';
+import {
+  Anomaly,
+  AnomalyAction,
+  AnomalyAssessment,
+  AnomalyDetectorConfig,
+  AnomalyDetectorEvents,
+  DeviceRegistration,
+  EnergyMeasurement
+} from './types';
+
+interface HistoryEntry {
+  time: number;
+  power?: number;
+}
+
+/**
+ * Score for a deviation past its tolerance: 0.5 right past it, 1 at twice the tolerance
+ */
+function severity(excess: number, tolerance: number): number {
+  return Number(Math.min(1, 0.5 + 0.5 * excess / Math.max(tolerance, 0.01)).toFixed(3));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Anomaly Detector
+ * Scores readings for physical consistency against the device's registered
+ * capabilities and its recent history, and decides whether they are
+ * submitted as is, annotated in metadata.anomalies, quarantined or rejected.
+ */
+export class AnomalyDetector extends EventEmitter<AnomalyDetectorEvents> {
+  private meter: EnergyMeter;
+  private config: Required<AnomalyDetectorConfig>;
+  private devices = new Map<string, DeviceRegistration>();
+  private history = new Map<string, HistoryEntry[]>();
+  private quarantine: AnomalyAssessment[] = [];
+
+  constructor(meter: EnergyMeter, config: AnomalyDetectorConfig = {}) {
+    super();
+    this.meter = meter;
+    this.config = {
+      capacityMargin: config.capacityMargin ?? 0.1,
+      minPowerFactor: config.minPowerFactor ?? 0.5,
+      powerTolerance: config.powerTolerance ?? 0.1,
+      energyTolerance: config.energyTolerance ?? 0.5,
+      spikeFactor: config.spikeFactor ?? 5,
+      historySize: config.historySize ?? 20,
+      minHistory: config.minHistory ?? 5,
+      quarantineScore: config.quarantineScore ?? 0.7,
+      rejectScore: config.rejectScore ?? 0.9
+    };
+  }
+
+  /**
+   * Provide a device registration instead of fetching it with EnergyMeter.getDevice
+   * @param device Device registration
+   */
+  setDevice(device: DeviceRegistration): void {
+    this.devices.set(device.deviceId, device);
+  }
+
+  /**
+   * Score a reading. Readings that are not quarantined or rejected
+   * become part of the device's history.
+   * @param measurement Energy measurement
+   * @returns Assessment with findings and resulting action
+   */
+  async assess(measurement: EnergyMeasurement): Promise<AnomalyAssessment> {
+    const device = await this.getDevice(measurement.deviceId);
+    const history = this.history.get(measurement.deviceId) || [];
+    const anomalies = this.check(measurement, device, history);
+    const score = anomalies.reduce((max, a) => Math.max(max, a.score), 0);
+
+    let action: AnomalyAction = 'accept';
+    if (score >= this.config.rejectScore) {
+      action = 'reject';
+    } else if (score >= this.config.quarantineScore) {
+      action = 'quarantine';
+    } else if (anomalies.length > 0) {
+      action = 'annotate';
+    }
+
+    const assessed = anomalies.length === 0 ? measurement : {
+      ...measurement,
+      metadata: {
+        ...measurement.metadata,
+        anomalyScore: score,
+        anomalies: anomalies.map(({ type, score }) => ({ type, score }))
+      }
+    };
+
+    if (action === 'accept' || action === 'annotate') {
+      history.push({ time: new Date(measurement.timestamp).getTime(), power: measurement.power });
+      this.history.set(measurement.deviceId, history.slice(-this.config.historySize));
+    }
+
+    return { measurement: assessed, score, anomalies, action };
+  }
+
+  /**
+   * Score readings and keep those that may be submitted.
+   * Quarantined readings are held until released; rejected ones are dropped.
+   * @param measurements Energy measurements
+   * @returns Accepted and annotated readings
+   */
+  async screen(measurements: EnergyMeasurement[]): Promise<EnergyMeasurement[]> {
+    const passed: EnergyMeasurement[] = [];
+
+    for (const measurement of measurements) {
+      const assessment = await this.assess(measurement);
+
+      switch (assessment.action) {
+        case 'accept':
+          passed.push(assessment.measurement);
+          break;
+        case 'annotate':
+          passed.push(assessment.measurement);
+          this.emit('annotated', assessment);
+          break;
+        case 'quarantine':
+          this.quarantine.push(assessment);
+          this.emit('quarantined', assessment);
+          break;
+        case 'reject':
+          this.emit('rejected', assessment);
+          break;
+      }
+    }
+
+    return passed;
+  }
+
+  /**
+   * Screen readings and submit those that pass
+   * @param measurements Energy measurements
+   * @returns Number of readings submitted, quarantined and rejected
+   */
+  async submitBatch(
+    measurements: EnergyMeasurement[]
+  ): Promise<{ submitted: number; quarantined: number; rejected: number }> {
+    const quarantinedBefore = this.quarantine.length;
+    const passed = await this.screen(measurements);
+    const quarantined = this.quarantine.length - quarantinedBefore;
+
+    if (passed.length > 0) {
+      await this.meter.submitBatch(passed);
+    }
+
+    return {
+      submitted: passed.length,
+      quarantined,
+      rejected: measurements.length - passed.length - quarantined
+    };
+  }
+
+  /**
+   * Get readings held in quarantine
+   * @returns Quarantined assessments, oldest first
+   */
+  getQuarantined(): AnomalyAssessment[] {
+    return [...this.quarantine];
+  }
+
+  /**
+   * Remove readings from quarantine, e.g. after manual review
+   * @param filter Selects the assessments to release (default: all)
+   * @returns Released readings, annotated, for submission
+   */
+  releaseQuarantined(filter: (assessment: AnomalyAssessment) => boolean = () => true): EnergyMeasurement[] {
+    const released = this.quarantine.filter(filter);
+    this.quarantine = this.quarantine.filter(assessment => !filter(assessment));
+    return released.map(assessment => assessment.measurement);
+  }
+
+  private async getDevice(deviceId: string): Promise<DeviceRegistration> {
+    let device = this.devices.get(deviceId);
+    if (!device) {
+      device = await this.meter.getDevice(deviceId);
+      this.devices.set(deviceId, device);
+    }
+    return device;
+  }
+
+  private check(
+    measurement: EnergyMeasurement,
+    device: DeviceRegistration,
+    history: HistoryEntry[]
+  ): Anomaly[] {
+    const { power, voltage, current, energy } = measurement;
+    const anomalies: Anomaly[] = [];
+    const time = new Date(measurement.timestamp).getTime();
+    const previous = history[history.length - 1];
+
+    const intervalStart = measurement.metadata?.intervalStart !== undefined
+      ? new Date(measurement.metadata.intervalStart).getTime()
+      : previous && previous.time < time ? previous.time : undefined;
+    const hours = intervalStart !== undefined && intervalStart < time ? (time - intervalStart) / 3600000 : undefined;
+
+    const maxPower = device.capabilities?.maxPower;
+    if (maxPower) {
+      const { capacityMargin } = this.config;
+      const peak = Math.max(power ?? 0, hours ? energy / hours : 0);
+      const excess = peak / maxPower - 1 - capacityMargin;
+      if (excess > 0) {
+        anomalies.push({
+          type: 'over-capacity',
+          score: severity(excess, capacityMargin),
+          message: `${peak.toFixed(3)} kW exceeds device capacity of ${maxPower} kW`
+        });
+      }
+    }
+
+    if (power !== undefined && voltage !== undefined && current !== undefined && voltage > 0) {
+      const { powerTolerance, minPowerFactor } = this.config;
+      const apparent = voltage * current / 1000;
+      const lowest = apparent * minPowerFactor;
+      const excess = apparent > 0
+        ? Math.max(power / apparent - 1, lowest > 0 ? 1 - power / lowest : 0) - powerTolerance
+        : power > 0 ? Infinity : 0;
+      if (excess > 0) {
+        anomalies.push({
+          type: 'power-mismatch',
+          score: severity(excess, powerTolerance),
+          message: `${power} kW is inconsistent with ${voltage} V × ${current} A`
+        });
+      }
+    }
+
+    if (power !== undefined && hours) {
+      const { energyTolerance } = this.config;
+      const averagePower = previous?.power !== undefined && previous.time === intervalStart
+        ? (previous.power + power) / 2
+        : power;
+      const expected = averagePower * hours;
+      const larger = Math.max(expected, energy);
+      // Ignore rounding noise on near-zero readings
+      const excess = larger > 0.001 ? Math.abs(energy - expected) / larger - energyTolerance : 0;
+      if (excess > 0) {
+        anomalies.push({
+          type: 'energy-mismatch',
+          score: severity(excess, energyTolerance),
+          message: `${energy} kWh does not match ${averagePower.toFixed(3)} kW over ${(hours * 60).toFixed(1)} min`
+        });
+      }
+    }
+
+    const powers = history.map(entry => entry.power).filter((p): p is number => p !== undefined);
+    if (power !== undefined && powers.length >= this.config.minHistory) {
+      const { spikeFactor } = this.config;
+      // Small baselines (e.g. solar at dawn) would make any output look like a spike
+      const baseline = Math.max(median(powers), maxPower ? maxPower * 0.05 : 0.1);
+      const excess = power / baseline / spikeFactor - 1;
+      if (excess > 0) {
+        anomalies.push({
+          type: 'spike',
+          score: severity(excess, 1),
+          message: `${power} kW is ${(power / baseline).toFixed(1)}× the recent median`
+        });
+      }
+    }
+
+    return anomalies;
+  }
+}
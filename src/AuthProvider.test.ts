@@ -0,0 +1,284 @@
+/**
+ * Tests for auth providers against local HTTP and WebSocket servers
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { createServer, Server, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { OAuth2ClientCredentialsAuth, HmacAuth, hmacSignature, HMAC_HEADERS } from './AuthProvider';
+import { VoltnetClient } from './VoltnetClient';
+import { P2PMarket } from './P2PMarket';
+import { AuthenticationError } from './VoltnetError';
+import { waitFor } from '../test/helpers';
+import { AuthProvider, Participant } from './types';
+
+interface Received {
+  request: IncomingMessage;
+  body: string;
+}
+
+describe('auth providers', () => {
+  let server: Server;
+  let apiUrl: string;
+  let received: Received[];
+  let tokenRequests: Received[];
+  let validTokens: Set<string>;
+  let rejectAll: boolean;
+
+  const apiRequests = () => received.filter(r => r.request.url !== '/oauth/token');
+
+  beforeEach(async () => {
+    received = [];
+    tokenRequests = [];
+    validTokens = new Set();
+    rejectAll = false;
+
+    // Stand-in for the token endpoint and an API that accepts issued bearer tokens
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        received.push({ request, body });
+        const send = (status: number, data: unknown) => {
+          response.writeHead(status, { 'Content-Type': 'application/json' });
+          response.end(JSON.stringify(data));
+        };
+
+        if (request.url === '/oauth/token') {
+          tokenRequests.push({ request, body });
+          if (request.headers.authorization !== `Basic ${Buffer.from('dashboard:s3cret').toString('base64')}`) {
+            return send(401, { error: 'invalid_client', error_description: 'Unknown client' });
+          }
+          const token = `token-${tokenRequests.length}`;
+          validTokens.add(token);
+          return send(200, { access_token: token, token_type: 'Bearer', expires_in: 3600 });
+        }
+
+        const token = String(request.headers.authorization || '').replace('Bearer ', '');
+        if (request.headers[HMAC_HEADERS.signature.toLowerCase()] === undefined && (rejectAll || !validTokens.has(token))) {
+          return send(401, { message: 'Token expired' });
+        }
+        send(200, { id: 'participant-001', token });
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const oauth = (clientSecret = 's3cret') =>
+    new OAuth2ClientCredentialsAuth({ tokenUrl: `${apiUrl}/oauth/token`, clientId: 'dashboard', clientSecret, scope: 'market:read' });
+
+  // The stand-in API answers with the token it was called with
+  const tokenOf = (profile: Participant) => (profile as Participant & { token: string }).token;
+
+  const createClient = (auth: AuthProvider) =>
+    new VoltnetClient({ apiUrl, participantId: 'participant-001', auth, network: { retries: 0 } });
+
+  test('OAuth2 shares one token request and refreshes before expiry', async () => {
+    let now = Date.parse('2024-01-15T12:00:00.000Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const client = createClient(oauth());
+
+    const profiles = await Promise.all([client.getProfile(), client.getProfile(), client.getProfile()]);
+    expect(profiles.map(tokenOf)).toEqual(['token-1', 'token-1', 'token-1']);
+    expect(tokenRequests).toHaveLength(1);
+    expect(new URLSearchParams(tokenRequests[0].body).get('grant_type')).toBe('client_credentials');
+    expect(new URLSearchParams(tokenRequests[0].body).get('scope')).toBe('market:read');
+
+    // Within the refresh margin of the 1 h lifetime
+    now += 3600000 - 30000;
+    expect(tokenOf(await client.getProfile())).toBe('token-2');
+    expect(tokenRequests).toHaveLength(2);
+  });
+
+  test('OAuth2 retries once with a new token after a 401', async () => {
+    const client = createClient(oauth());
+    await client.getProfile();
+
+    validTokens.delete('token-1');
+    expect(tokenOf(await client.getProfile())).toBe('token-2');
+    expect(apiRequests().map(r => r.request.headers.authorization)).toEqual([
+      'Bearer token-1',
+      'Bearer token-1',
+      'Bearer token-2'
+    ]);
+
+    // Fresh tokens that are rejected as well are not retried again
+    rejectAll = true;
+    const error = await client.getProfile().catch(e => e);
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(tokenRequests).toHaveLength(3);
+    expect(apiRequests()).toHaveLength(5);
+  });
+
+  test('OAuth2 reports rejected client credentials', async () => {
+    const error = await createClient(oauth('wrong')).getProfile().catch(e => e);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error).toMatchObject({ status: 401, code: 'invalid_client' });
+    expect(error.message).toBe('OAuth2 token request failed with 401: Unknown client');
+  });
+
+  test('HMAC signs method, path, body hash, timestamp and nonce', async () => {
+    const client = createClient(new HmacAuth({ keyId: 'backend-1', secret: 'shared-secret' }));
+    await new P2PMarket(client).acceptOffer('offer-1', 5);
+    await client.searchParticipants({ type: 'producer', limit: 5 });
+
+    const nonces = new Set<string>();
+    for (const { request, body } of received) {
+      const header = (name: string) => request.headers[name.toLowerCase()] as string;
+      const expected = await hmacSignature(
+        'shared-secret',
+        { method: request.method!, path: request.url!, body },
+        header(HMAC_HEADERS.timestamp),
+        header(HMAC_HEADERS.nonce)
+      );
+      expect(header(HMAC_HEADERS.keyId)).toBe('backend-1');
+      expect(header(HMAC_HEADERS.signature)).toBe(expected);
+      expect(request.headers.authorization).toBeUndefined();
+      nonces.add(header(HMAC_HEADERS.nonce));
+    }
+    expect(received.map(r => r.request.url)).toEqual([
+      '/market/offers/offer-1/accept',
+      '/participants/search?type=producer&limit=5'
+    ]);
+    expect(received[0].body).toBe('{"energyAmount":5}');
+    expect(nonces.size).toBe(2);
+
+    // Matches a signature computed with Node's crypto module
+    const { request } = received[0];
+    const signed = [
+      'POST',
+      '/market/offers/offer-1/accept',
+      createHash('sha256').update('{"energyAmount":5}').digest('hex'),
+      request.headers[HMAC_HEADERS.timestamp.toLowerCase()],
+      request.headers[HMAC_HEADERS.nonce.toLowerCase()]
+    ].join('\n');
+    expect(request.headers[HMAC_HEADERS.signature.toLowerCase()])
+      .toBe(createHmac('sha256', 'shared-secret').update(signed).digest('hex'));
+  });
+
+  test('HMAC signs form and binary bodies as they are sent', async () => {
+    const client = createClient(new HmacAuth({ keyId: 'backend-1', secret: 'shared-secret' }));
+    await client.getHttpClient().post('/uploads', new URLSearchParams({ meter: 'meter-01', energy: '5' }));
+    await client.getHttpClient().post('/uploads', Buffer.from('raw reading'));
+
+    expect(received.map(r => r.body)).toEqual(['meter=meter-01&energy=5', 'raw reading']);
+    for (const { request, body } of received) {
+      const header = (name: string) => request.headers[name.toLowerCase()] as string;
+      const expected = await hmacSignature(
+        'shared-secret',
+        { method: request.method!, path: request.url!, body },
+        header(HMAC_HEADERS.timestamp),
+        header(HMAC_HEADERS.nonce)
+      );
+      expect(header(HMAC_HEADERS.signature)).toBe(expected);
+    }
+
+    // Multipart bodies get their boundary only when sent
+    const form = new FormData();
+    form.append('reading', '5');
+    const error = await client.getHttpClient().post('/uploads', form).catch(e => e);
+    expect(error.code).toBe('UNSIGNABLE_BODY');
+    expect(received).toHaveLength(2);
+  });
+
+  test('masks the credentials of the auth provider in log messages', async () => {
+    const lines: string[] = [];
+    const logger = { debug: () => undefined, info: () => undefined, warn: (message: string) => lines.push(message), error: () => undefined };
+    const auth = oauth();
+    await auth.getAccessToken();
+
+    // A middleware that leaks credentials into its error
+    const middleware = [{
+      onResponse: () => {
+        throw new Error('s3cret token-1 shared-secret');
+      }
+    }];
+
+    for (const provider of [auth, new HmacAuth({ keyId: 'backend-1', secret: 'shared-secret' })]) {
+      const client = new VoltnetClient({ apiUrl, participantId: 'participant-001', auth: provider, middleware, logging: { logger } });
+      await client.getProfile();
+    }
+
+    expect(lines).toEqual([
+      'Middleware failed on GET /participants/participant-001: [REDACTED] [REDACTED] shared-secret',
+      'Middleware failed on GET /participants/participant-001: s3cret token-1 [REDACTED]'
+    ]);
+  });
+
+  test('requires an API key or an auth provider', () => {
+    expect(() => new VoltnetClient({ apiUrl, participantId: 'participant-001' })).toThrow('apiKey or auth');
+  });
+});
+
+describe('realtime authentication', () => {
+  let httpServer: Server;
+  let wsServer: WebSocketServer;
+  let authFrames: any[];
+  let rejectTokens: Set<string>;
+  let tokens: number;
+  let client: VoltnetClient;
+
+  beforeEach(async () => {
+    authFrames = [];
+    rejectTokens = new Set();
+    tokens = 0;
+
+    httpServer = createServer((_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ access_token: `token-${++tokens}`, expires_in: 3600 }));
+    });
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+
+    wsServer = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise(resolve => wsServer.once('listening', resolve));
+    wsServer.on('connection', socket => {
+      socket.on('message', data => {
+        const frame = JSON.parse(data.toString());
+        if (frame.type !== 'auth') return;
+        authFrames.push(frame);
+        const rejected = rejectTokens.has(frame.accessToken);
+        socket.send(JSON.stringify(rejected ? { type: 'auth-error', message: 'token revoked' } : { type: 'auth-ok' }));
+      });
+    });
+
+    client = new VoltnetClient({
+      apiUrl: `http://127.0.0.1:${(wsServer.address() as AddressInfo).port}`,
+      participantId: 'participant-001',
+      auth: new OAuth2ClientCredentialsAuth({
+        tokenUrl: `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/oauth/token`,
+        clientId: 'dashboard',
+        clientSecret: 's3cret'
+      }),
+      enableRealtime: true,
+      realtime: { WebSocket }
+    });
+    client.on('error', () => undefined);
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    wsServer.clients.forEach(socket => socket.terminate());
+    await new Promise(resolve => wsServer.close(resolve));
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  test('authenticates with the provider and reconnects once with a fresh token', async () => {
+    rejectTokens.add('token-1');
+    await waitFor(() => client.getConnectionState() === 'open');
+
+    expect(authFrames).toEqual([
+      { type: 'auth', participantId: 'participant-001', accessToken: 'token-1' },
+      { type: 'auth', participantId: 'participant-001', accessToken: 'token-2' }
+    ]);
+  });
+});
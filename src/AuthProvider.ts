@@ -0,0 +1,234 @@
+import axios from 'axios';
+import { AuthenticationError, VoltnetError, toVoltnetError } from './VoltnetError';
+import {
+  AuthProvider,
+  AuthRequest,
+  OAuth2ClientCredentialsOptions,
+  HmacAuthOptions
+} from './types';
+
+/**
+ * API Key Auth
+ * Sends a static API key as bearer token, and as `apiKey` in the
+ * real-time `auth` message.
+ */
+export class ApiKeyAuth implements AuthProvider {
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  getHeaders(): Record<string, string> {
+    return { 'Authorization': `Bearer ${this.apiKey}` };
+  }
+
+  getRealtimeCredentials(): Record<string, unknown> {
+    return { apiKey: this.apiKey };
+  }
+
+  secrets(): string[] {
+    return [this.apiKey];
+  }
+}
+
+interface AccessToken {
+  value: string;
+  /** Expiry in ms since the epoch; undefined if the server did not say */
+  expiresAt?: number;
+}
+
+/**
+ * OAuth2 Client Credentials Auth
+ * Obtains short-lived access tokens with the client-credentials grant and
+ * refreshes them shortly before they expire. Concurrent requests share one
+ * token request. A token the API rejects is discarded, so the request is
+ * retried once with a new one. The token is sent as `accessToken` in the
+ * real-time `auth` message.
+ */
+export class OAuth2ClientCredentialsAuth implements AuthProvider {
+  private options: OAuth2ClientCredentialsOptions;
+  private token?: AccessToken;
+  private pending?: Promise<AccessToken>;
+
+  constructor(options: OAuth2ClientCredentialsOptions) {
+    this.options = options;
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    return { 'Authorization': `Bearer ${await this.getAccessToken()}` };
+  }
+
+  async getRealtimeCredentials(): Promise<Record<string, unknown>> {
+    return { accessToken: await this.getAccessToken() };
+  }
+
+  invalidate(): boolean {
+    this.token = undefined;
+    return true;
+  }
+
+  secrets(): string[] {
+    return this.token ? [this.options.clientSecret, this.token.value] : [this.options.clientSecret];
+  }
+
+  /**
+   * Get a valid access token, requesting a new one if needed
+   */
+  async getAccessToken(): Promise<string> {
+    const margin = this.options.refreshMargin ?? 60000;
+    const token = this.token;
+    if (token && (token.expiresAt === undefined || Date.now() < token.expiresAt - margin)) {
+      return token.value;
+    }
+
+    if (!this.pending) {
+      this.pending = this.requestToken().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return (await this.pending).value;
+  }
+
+  private async requestToken(): Promise<AccessToken> {
+    const { tokenUrl, clientId, clientSecret, scope, audience } = this.options;
+    const form = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (scope) form.set('scope', scope);
+    if (audience) form.set('audience', audience);
+
+    const requestedAt = Date.now();
+    let data: any;
+    try {
+      const response = await axios.post(tokenUrl, form.toString(), {
+        auth: { username: clientId, password: clientSecret },
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: this.options.timeout ?? 10000
+      });
+      data = response.data;
+    } catch (error) {
+      const mapped = toVoltnetError(error);
+      // Rejected client credentials will not work on retry either
+      if (mapped.status !== undefined && mapped.status < 500) {
+        const body = mapped.details as any;
+        throw new AuthenticationError(
+          `OAuth2 token request failed with ${mapped.status}: ${body?.error_description || body?.error || 'rejected'}`,
+          { status: mapped.status, code: body?.error, details: body, cause: error }
+        );
+      }
+      throw mapped;
+    }
+
+    if (typeof data?.access_token !== 'string') {
+      throw new AuthenticationError('OAuth2 token response has no access_token', { details: data });
+    }
+
+    const expiresIn = Number(data.expires_in);
+    this.token = {
+      value: data.access_token,
+      expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? requestedAt + expiresIn * 1000 : undefined
+    };
+    return this.token;
+  }
+}
+
+/** Headers carrying an HMAC request signature */
+export const HMAC_HEADERS = {
+  keyId: 'X-Voltnet-Key-Id',
+  timestamp: 'X-Voltnet-Timestamp',
+  nonce: 'X-Voltnet-Nonce',
+  contentHash: 'X-Voltnet-Content-SHA256',
+  signature: 'X-Voltnet-Signature'
+};
+
+/**
+ * Compute the HMAC-SHA256 signature of a request. The signed string is the
+ * method, path with query string, hex SHA-256 of the body, timestamp and
+ * nonce, joined by newlines.
+ * @param secret Shared secret
+ * @param request Method, path and body as sent
+ * @param timestamp Signing time (ISO 8601)
+ * @param nonce Unique value per request
+ * @returns Hex signature
+ */
+export async function hmacSignature(
+  secret: string | Uint8Array,
+  request: AuthRequest,
+  timestamp: string,
+  nonce: string
+): Promise<string> {
+  const signed = [request.method.toUpperCase(), request.path, await contentHash(request), timestamp, nonce].join('\n');
+  const key = await globalThis.crypto.subtle.importKey('raw', toBytes(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await globalThis.crypto.subtle.sign('HMAC', key, toBytes(signed)));
+}
+
+/**
+ * Hex SHA-256 of the body of a request
+ */
+async function contentHash(request: AuthRequest): Promise<string> {
+  return toHex(await globalThis.crypto.subtle.digest('SHA-256', toBytes(signedBody(request))));
+}
+
+function toBytes(value: string | Uint8Array): Uint8Array {
+  return typeof value === 'string' ? new TextEncoder().encode(value) : value;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Body of a request to be signed
+ */
+function signedBody(request: AuthRequest): string | Uint8Array {
+  if (request.body === undefined) {
+    throw new VoltnetError(`Cannot sign ${request.method} ${request.path}: its body is only known when sent, e.g. FormData or a stream`, {
+      code: 'UNSIGNABLE_BODY'
+    });
+  }
+  return request.body;
+}
+
+/**
+ * HMAC Auth
+ * Signs every request with a shared secret for server-to-server use. The
+ * timestamp and nonce let the server reject replayed requests. The
+ * real-time `auth` message carries the signature of the WebSocket upgrade
+ * request as `keyId`, `timestamp`, `nonce` and `signature`.
+ */
+export class HmacAuth implements AuthProvider {
+  private keyId: string;
+  private secret: string | Uint8Array;
+
+  constructor(options: HmacAuthOptions) {
+    if (!options.keyId || !options.secret) {
+      throw new VoltnetError('HmacAuth requires keyId and secret', { code: 'INVALID_CONFIG' });
+    }
+    this.keyId = options.keyId;
+    this.secret = options.secret;
+  }
+
+  async getHeaders(request: AuthRequest): Promise<Record<string, string>> {
+    const { timestamp, nonce, signature } = await this.sign(request);
+    return {
+      [HMAC_HEADERS.keyId]: this.keyId,
+      [HMAC_HEADERS.timestamp]: timestamp,
+      [HMAC_HEADERS.nonce]: nonce,
+      [HMAC_HEADERS.contentHash]: await contentHash(request),
+      [HMAC_HEADERS.signature]: signature
+    };
+  }
+
+  async getRealtimeCredentials(request: AuthRequest): Promise<Record<string, unknown>> {
+    return { keyId: this.keyId, ...await this.sign(request) };
+  }
+
+  secrets(): string[] {
+    return typeof this.secret === 'string' ? [this.secret] : [];
+  }
+
+  private async sign(request: AuthRequest): Promise<{ timestamp: string; nonce: string; signature: string }> {
+    const timestamp = new Date().toISOString();
+    const nonce = globalThis.crypto.randomUUID();
+    return { timestamp, nonce, signature: await hmacSignature(this.secret, request, timestamp, nonce) };
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Tests for client metrics, logging, request middleware and trace context
+ * propagation, against a local HTTP stand-in server and the in-memory
+ * backend
+ */
+
+import { createServer, Server, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { ClientMetrics, routeTemplate } from './ClientMetrics';
+import { VoltnetClient } from './VoltnetClient';
+import { MockBackend } from './MockBackend';
+import { MockVoltnetServer } from './MockVoltnetServer';
+import { createLogger, redact, REDACTED } from './logging';
+import { parseTraceparent, formatTraceparent, startSpan } from './tracing';
+import { waitFor } from '../test/helpers';
+import { Logger, MiddlewareRequest, ParticipantType, TransactionStatus, VoltnetConfig } from './types';
+
+const recordingLogger = () => {
+  const lines: Array<[string, string, Record<string, unknown> | undefined]> = [];
+  const logger: Logger = {
+    debug: (message, context) => lines.push(['debug', message, context]),
+    info: (message, context) => lines.push(['info', message, context]),
+    warn: (message, context) => lines.push(['warn', message, context]),
+    error: (message, context) => lines.push(['error', message, context])
+  };
+  return { logger, lines };
+};
+
+describe('ClientMetrics', () => {
+  test('replaces IDs in paths by a placeholder', () => {
+    expect(routeTemplate('/transactions/tx-123')).toBe('/transactions/:id');
+    expect(routeTemplate('/participants/p-1/balance')).toBe('/participants/:id/balance');
+    expect(routeTemplate('/market/offers/offer-1/accept')).toBe('/market/offers/:id/accept');
+    expect(routeTemplate('/measurements/batch?x=1')).toBe('/measurements/batch');
+  });
+
+  test('counts attempts by route and status in a latency histogram', () => {
+    const metrics = new ClientMetrics({ latencyBuckets: [100, 10] });
+    metrics.recordRequest('get', '/transactions/:id', 200, 5);
+    metrics.recordRequest('GET', '/transactions/:id', 503, 50);
+    metrics.recordRequest('GET', '/transactions/:id', undefined, 500);
+    metrics.recordRetry('GET', '/transactions/:id');
+    metrics.recordEvent('transaction');
+
+    const { routes, realtime } = metrics.snapshot();
+    expect(routes['GET /transactions/:id']).toEqual({
+      requests: 3,
+      statuses: { '200': 1, '503': 1, error: 1 },
+      retries: 1,
+      latency: { bounds: [10, 100], counts: [1, 1, 1], count: 3, sum: 555 }
+    });
+    expect(realtime.events).toEqual({ transaction: 1 });
+
+    metrics.reset();
+    expect(metrics.snapshot().routes).toEqual({});
+  });
+});
+
+describe('logging', () => {
+  test('masks credentials and drops messages below the level', () => {
+    const { logger, lines } = recordingLogger();
+    const log = createLogger({ logger, level: 'info', redact: ['s3cret'] }, ['test-key']);
+
+    log.debug('Not logged');
+    log.info('Sent test-key with Bearer abc.def', { headers: { Authorization: 'Bearer abc', 'X-Api-Key': 'test-key' }, note: 's3cret!' });
+
+    expect(lines).toEqual([[
+      'info',
+      `Sent ${REDACTED} with Bearer ${REDACTED}`,
+      { headers: { Authorization: REDACTED, 'X-Api-Key': REDACTED }, note: `${REDACTED}!` }
+    ]]);
+    const cyclic: any = { apiKey: 'k' };
+    cyclic.self = cyclic;
+    expect(redact(cyclic)).toEqual({ apiKey: REDACTED, self: '[Circular]' });
+  });
+});
+
+describe('tracing', () => {
+  const parent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+  test('parses and formats traceparent headers', () => {
+    expect(parseTraceparent(parent)).toEqual({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', parentId: '00f067aa0ba902b7', sampled: true });
+    expect(formatTraceparent(parseTraceparent(parent)!)).toBe(parent);
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeUndefined();
+    expect(parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBeUndefined();
+    expect(parseTraceparent('garbage')).toBeUndefined();
+  });
+
+  test('continues the caller\'s trace with a new span', () => {
+    const span = startSpan({ traceparent: parent, tracestate: 'vendor=1' });
+    expect(span.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(span.traceparent).toBe(`00-${span.traceId}-${span.spanId}-01`);
+    expect(span.tracestate).toBe('vendor=1');
+
+    const root = startSpan();
+    expect(parseTraceparent(root.traceparent)).toEqual({ traceId: root.traceId, parentId: root.spanId, sampled: false });
+  });
+});
+
+describe('VoltnetClient observability', () => {
+  let server: Server;
+  let requests: IncomingMessage[];
+  let failures: number;
+
+  beforeEach(async () => {
+    requests = [];
+    failures = 0;
+
+    // Stand-in for the API: fails the first requests with 503
+    server = createServer((request, response) => {
+      request.resume();
+      request.on('end', () => {
+        requests.push(request);
+        const status = failures-- > 0 ? 503 : 200;
+        response.writeHead(status, { 'Content-Type': 'application/json', 'X-Request-Id': `req-${requests.length}` });
+        response.end(JSON.stringify({ id: 'tx-1', status: 'completed' }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const createClient = (config: Partial<VoltnetConfig> = {}) => new VoltnetClient({
+    apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    apiKey: 'test-key',
+    participantId: 'participant-001',
+    network: { retries: 2, retryDelay: 1 },
+    ...config
+  });
+
+  test('runs middleware on every attempt without exposing credentials', async () => {
+    failures = 1;
+    const seen: MiddlewareRequest[] = [];
+    const statuses: number[] = [];
+    const { logger, lines } = recordingLogger();
+    const client = createClient({
+      middleware: [{
+        onRequest: request => {
+          seen.push({ ...request, headers: { ...request.headers } });
+          request.headers['X-Tenant'] = 'north';
+        },
+        onResponse: (_request, response) => {
+          statuses.push(response.status);
+        }
+      }, {
+        onResponse: () => {
+          throw new Error('Exporter down');
+        }
+      }],
+      logging: { logger }
+    });
+
+    await client.getHttpClient().get('/transactions/tx-1');
+
+    expect(seen.map(request => [request.route, request.attempt])).toEqual([['/transactions/:id', 1], ['/transactions/:id', 2]]);
+    seen.forEach(request => {
+      expect(Object.keys(request.headers).map(name => name.toLowerCase())).not.toContain('authorization');
+    });
+    expect(statuses).toEqual([503, 200]);
+    expect(requests.map(request => request.headers['x-tenant'])).toEqual(['north', 'north']);
+    expect(requests[1].headers.authorization).toBe('Bearer test-key');
+    expect(lines.map(([level, message]) => `${level}: ${message}`)).toEqual([
+      'warn: Middleware failed on GET /transactions/tx-1: Exporter down',
+      'warn: Middleware failed on GET /transactions/tx-1: Exporter down'
+    ]);
+  });
+
+  test('counts attempts and retries, and logs them without the API key', async () => {
+    failures = 2;
+    const { logger, lines } = recordingLogger();
+    const client = createClient({ logging: { logger, level: 'debug' } });
+
+    await client.getHttpClient().get('/transactions/tx-1');
+    await client.getHttpClient().get('/transactions/tx-2');
+
+    const route = client.getMetrics().snapshot().routes['GET /transactions/:id'];
+    expect(route).toMatchObject({ requests: 4, statuses: { '200': 2, '503': 2 }, retries: 2 });
+    expect(route.latency.count).toBe(4);
+    expect(lines.filter(([level]) => level === 'info').map(([, message]) => message)).toEqual([
+      'Retrying GET /transactions/tx-1 in 2 ms: status 503',
+      'Retrying GET /transactions/tx-1 in 4 ms: status 503'
+    ]);
+    expect(lines.filter(([level]) => level === 'debug')).toHaveLength(4);
+    expect(JSON.stringify(lines)).not.toContain('test-key');
+  });
+
+  test('propagates the caller\'s trace with a new span per attempt', async () => {
+    failures = 1;
+    const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+    const client = createClient({ tracing: { getContext: () => ({ traceparent, tracestate: 'vendor=1' }) } });
+
+    await client.getHttpClient().get('/transactions/tx-1');
+
+    const sent = requests.map(request => parseTraceparent(request.headers.traceparent as string)!);
+    expect(sent.map(context => context.traceId)).toEqual(['4bf92f3577b34da6a3ce929d0e0e4736', '4bf92f3577b34da6a3ce929d0e0e4736']);
+    expect(sent[0].parentId).not.toBe(sent[1].parentId);
+    expect(sent[0].sampled).toBe(true);
+    expect(requests[0].headers.tracestate).toBe('vendor=1');
+
+    requests = [];
+    await createClient().getHttpClient().get('/transactions/tx-1');
+    await createClient({ tracing: { startTraces: false } }).getHttpClient().get('/transactions/tx-1');
+    expect(requests.map(request => request.headers.traceparent)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('VoltnetClient realtime metrics', () => {
+  let server: MockVoltnetServer;
+  let client: VoltnetClient;
+
+  beforeEach(async () => {
+    server = new MockVoltnetServer(new MockBackend({
+      fixtures: { participants: [{ id: 'participant-001', apiKey: 'test-key', type: ParticipantType.CONSUMER, walletAddress: '0xc1' }] }
+    }));
+    await server.start();
+  });
+
+  afterEach(async () => {
+    client?.disconnect();
+    await server.stop();
+  });
+
+  test('counts reconnects and received events', async () => {
+    client = new VoltnetClient({
+      apiUrl: server.getUrl()!,
+      apiKey: 'test-key',
+      participantId: 'participant-001',
+      enableRealtime: true,
+      realtime: { WebSocket, reconnect: { initialDelay: 50 }, random: () => 0.5 }
+    });
+    await waitFor(() => client.getConnectionState() === 'open');
+
+    server.disconnectClients();
+    await waitFor(() => client.getConnectionState() === 'connecting');
+    await waitFor(() => client.getConnectionState() === 'open');
+    server.getBackend().publish('transaction', { id: 'tx-1', status: TransactionStatus.COMPLETED }, ['participant-001']);
+    await waitFor(() => client.getMetrics().snapshot().realtime.events.transaction === 1);
+
+    expect(client.getMetrics().snapshot().realtime).toMatchObject({ reconnectAttempts: 1, reconnects: 1, events: { transaction: 1 } });
+  });
+});
@@ -0,0 +1,145 @@
+import { LatencyHistogram, MetricsOptions, MetricsSnapshot, RouteMetrics } from './types';
+
+const DEFAULT_LATENCY_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/** Path segments of the API that are not IDs */
+const STATIC_SEGMENTS = new Set([
+  'participants', 'search', 'balance', 'statistics',
+  'measurements', 'batch', 'latest',
+  'devices',
+  'pricing', 'current', 'history', 'forecast', 'optimal', 'custom', 'model', 'compare', 'time-of-use',
+  'market', 'offers', 'my', 'nearby', 'best', 'recurring', 'accept', 'stats', 'price-suggestion',
+  'transactions', 'sales', 'purchases', 'summary', 'export', 'calculate-fees', 'cancel', 'receipt', 'verify', 'refund',
+  'settlements', 'pending', 'trigger'
+]);
+
+/**
+ * Route of a path, with IDs replaced by `:id`, so metrics of e.g. all
+ * transactions are collected under `/transactions/:id`
+ * @param path Path relative to the API URL
+ */
+export function routeTemplate(path: string): string {
+  return path
+    .split('?')[0]
+    .split('/')
+    .map((segment, index) => index === 0 || STATIC_SEGMENTS.has(segment) ? segment : ':id')
+    .join('/');
+}
+
+/**
+ * Client Metrics
+ * Counts request attempts by route and status with latency histograms,
+ * retries, real-time reconnects and received events. Read them with
+ * snapshot(), e.g. to export them to Prometheus or OpenTelemetry.
+ */
+export class ClientMetrics {
+  private bounds: number[];
+  private since = Date.now();
+  private routes = new Map<string, RouteMetrics>();
+  private reconnectAttempts = 0;
+  private reconnects = 0;
+  private events = new Map<string, number>();
+
+  constructor(options: MetricsOptions = {}) {
+    this.bounds = [...(options.latencyBuckets || DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Record a completed request attempt
+   * @param method HTTP method
+   * @param route Route, see routeTemplate()
+   * @param status Response status; undefined if there was no response
+   * @param durationMs Time to the response or failure
+   */
+  recordRequest(method: string, route: string, status: number | undefined, durationMs: number): void {
+    const metrics = this.route(method, route);
+    const key = status === undefined ? 'error' : String(status);
+    metrics.requests++;
+    metrics.statuses[key] = (metrics.statuses[key] || 0) + 1;
+
+    const { latency } = metrics;
+    const bucket = this.bounds.findIndex(bound => durationMs <= bound);
+    latency.counts[bucket === -1 ? this.bounds.length : bucket]++;
+    latency.count++;
+    latency.sum += durationMs;
+  }
+
+  /**
+   * Record that a failed attempt is retried
+   */
+  recordRetry(method: string, route: string): void {
+    this.route(method, route).retries++;
+  }
+
+  /**
+   * Record a reconnection attempt of the real-time connection
+   */
+  recordReconnectAttempt(): void {
+    this.reconnectAttempts++;
+  }
+
+  /**
+   * Record that the real-time connection is open again
+   */
+  recordReconnect(): void {
+    this.reconnects++;
+  }
+
+  /**
+   * Record a received real-time event
+   */
+  recordEvent(type: string): void {
+    this.events.set(type, (this.events.get(type) || 0) + 1);
+  }
+
+  /**
+   * Get a copy of the metrics collected so far
+   */
+  snapshot(): MetricsSnapshot {
+    const routes: Record<string, RouteMetrics> = {};
+    this.routes.forEach((metrics, key) => {
+      routes[key] = {
+        ...metrics,
+        statuses: { ...metrics.statuses },
+        latency: { ...metrics.latency, bounds: [...metrics.latency.bounds], counts: [...metrics.latency.counts] }
+      };
+    });
+
+    const events = Object.fromEntries(this.events);
+    const total = Array.from(this.events.values()).reduce((sum, count) => sum + count, 0);
+    const seconds = (Date.now() - this.since) / 1000;
+
+    return {
+      since: new Date(this.since).toISOString(),
+      routes,
+      realtime: {
+        reconnectAttempts: this.reconnectAttempts,
+        reconnects: this.reconnects,
+        events,
+        eventsPerSecond: seconds > 0 ? total / seconds : 0
+      }
+    };
+  }
+
+  /**
+   * Clear all metrics and start collecting anew
+   */
+  reset(): void {
+    this.since = Date.now();
+    this.routes.clear();
+    this.reconnectAttempts = 0;
+    this.reconnects = 0;
+    this.events.clear();
+  }
+
+  private route(method: string, route: string): RouteMetrics {
+    const key = `${method.toUpperCase()} ${route}`;
+    let metrics = this.routes.get(key);
+    if (!metrics) {
+      const latency: LatencyHistogram = { bounds: [...this.bounds], counts: new Array(this.bounds.length + 1).fill(0), count: 0, sum: 0 };
+      metrics = { requests: 0, statuses: {}, retries: 0, latency };
+      this.routes.set(key, metrics);
+    }
+    return metrics;
+  }
+}
@@ -0,0 +1,18 @@
+import { CursorStore, EventCursor } from './types';
+
+/**
+ * Memory Cursor Store
+ * Keeps the event cursor for the lifetime of the process. Events missed
+ * while the process was not running are not caught up.
+ */
+export class MemoryCursorStore implements CursorStore {
+  private cursor?: EventCursor;
+
+  async load(): Promise<EventCursor | undefined> {
+    return this.cursor;
+  }
+
+  async save(cursor: EventCursor): Promise<void> {
+    this.cursor = cursor;
+  }
+}
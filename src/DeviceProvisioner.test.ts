@@ -0,0 +1,232 @@
+/**
+ * Tests for device provisioning and key rotation
+ */
+
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DeviceProvisioner } from './DeviceProvisioner';
+import { MemoryKeystore } from './Keystore';
+import { FileKeystore } from './FileKeystore';
+import { EnergyMeter } from './EnergyMeter';
+import { MeasurementChain, verifyChain } from './MeasurementChain';
+import { NetworkError, TimeoutError } from './VoltnetError';
+import { generateDeviceKeyPair, signKeyRotation, verifyDeviceMeasurement, verifyKeyRotation } from './signing';
+import { DeviceRegistration, EnergySource } from './types';
+
+const device = {
+  deviceId: 'meter-001',
+  type: 'meter' as const,
+  ownerId: 'participant-001',
+  capabilities: { canProduce: true, canConsume: true }
+};
+
+function reading(timestamp: string) {
+  return { deviceId: 'meter-001', timestamp, energy: 1.5, source: EnergySource.SOLAR };
+}
+
+describe('DeviceProvisioner', () => {
+  let devices: Map<string, DeviceRegistration>;
+  let failUpdates: boolean;
+  let meter: EnergyMeter;
+  let keystore: MemoryKeystore;
+  let provisioner: DeviceProvisioner;
+
+  beforeEach(() => {
+    devices = new Map();
+    failUpdates = false;
+    meter = {
+      registerDevice: async (registration: DeviceRegistration) => {
+        devices.set(registration.deviceId, registration);
+        return registration;
+      },
+      getDevice: async (deviceId: string) => devices.get(deviceId)!,
+      updateDevice: async (deviceId: string, updates: Partial<DeviceRegistration>) => {
+        if (failUpdates) throw new Error('503 Service Unavailable');
+        const updated = { ...devices.get(deviceId)!, ...updates };
+        devices.set(deviceId, updated);
+        return updated;
+      }
+    } as unknown as EnergyMeter;
+    keystore = new MemoryKeystore();
+    provisioner = new DeviceProvisioner(meter, keystore);
+  });
+
+  test('registers the public key and keeps the private key in the keystore', async () => {
+    const registered = await provisioner.provision(device, { algorithm: 'ecdsa-p256' });
+    const key = await keystore.get('meter-001');
+
+    expect(registered.publicKey).toBe(key!.publicKey);
+    expect(key!.algorithm).toBe('ecdsa-p256');
+
+    const signed = await provisioner.signMeasurement(reading('2024-01-15T12:00:00.000Z'));
+    expect(verifyDeviceMeasurement(signed, registered)).toEqual({ valid: true, algorithm: 'ecdsa-p256', key: 'current' });
+
+    await expect(provisioner.provision(device)).rejects.toThrow('already provisioned');
+  });
+
+  test('accepts readings signed by either key during the grace window', async () => {
+    await provisioner.provision(device);
+    const beforeRotation = await provisioner.signMeasurement(reading('2024-01-15T12:00:00.000Z'));
+    const lateOldKey = await provisioner.signMeasurement(reading('2024-01-17T12:00:00.000Z'));
+
+    const rotated = await provisioner.rotateKey('meter-001', {
+      graceMs: 60 * 60 * 1000,
+      now: new Date('2024-01-15T12:30:00.000Z')
+    });
+
+    expect(rotated.keyRotations).toHaveLength(1);
+    expect(verifyKeyRotation(rotated.keyRotations![0]).valid).toBe(true);
+    expect(rotated.keyRotations![0].graceUntil).toBe('2024-01-15T13:30:00.000Z');
+    expect(rotated.publicKey).toBe((await keystore.get('meter-001'))!.publicKey);
+
+    const afterRotation = await provisioner.signMeasurement(reading('2024-01-15T12:45:00.000Z'));
+    const backDated = await provisioner.signMeasurement(reading('2024-01-15T12:00:00.000Z'));
+    const now = new Date('2024-01-15T13:00:00.000Z');
+    expect(verifyDeviceMeasurement(afterRotation, rotated, { now }).key).toBe('current');
+    expect(verifyDeviceMeasurement(beforeRotation, rotated, { now }).key).toBe('previous');
+
+    // Readings with the old key dated after the grace window are rejected, as are
+    // readings with the new key dated before the rotation
+    expect(verifyDeviceMeasurement(lateOldKey, rotated, { now })).toMatchObject({ valid: false, reason: 'payload-tampered' });
+    expect(verifyDeviceMeasurement(backDated, rotated, { now })).toMatchObject({ valid: false, reason: 'payload-tampered' });
+
+    // Once the grace window is over, the old key no longer counts for submissions,
+    // but readings it signed in time still verify as history
+    const later = new Date('2024-01-15T14:00:00.000Z');
+    expect(verifyDeviceMeasurement(beforeRotation, rotated, { now: later })).toMatchObject({ valid: false, reason: 'stale-timestamp' });
+    expect(verifyDeviceMeasurement(beforeRotation, rotated, { now: later, history: true }).key).toBe('previous');
+    expect(verifyDeviceMeasurement(lateOldKey, rotated, { now: later, history: true }).valid).toBe(false);
+  });
+
+  test('verifies a chain across several rotations by each reading\'s key', async () => {
+    await provisioner.provision(device);
+    const chain = new MeasurementChain();
+    const append = async (timestamp: string) =>
+      chain.append(reading(timestamp), (await keystore.get('meter-001'))!.privateKey);
+
+    const readings = [await append('2024-01-15T12:00:00.000Z')];
+    await provisioner.rotateKey('meter-001', { graceMs: 60 * 60 * 1000, now: new Date('2024-01-15T12:30:00.000Z') });
+    readings.push(await append('2024-01-15T13:00:00.000Z'));
+    const rotated = await provisioner.rotateKey('meter-001', { now: new Date('2024-01-16T12:00:00.000Z') });
+    readings.push(await append('2024-01-16T13:00:00.000Z'));
+
+    expect(rotated.keyRotations).toHaveLength(2);
+    expect(readings.map(measurement => verifyDeviceMeasurement(measurement, rotated, { history: true }).key))
+      .toEqual(['previous', 'previous', 'current']);
+    expect(verifyChain(readings, { publicKey: rotated.publicKey, keyRotations: rotated.keyRotations })).toMatchObject({
+      valid: true,
+      issues: []
+    });
+
+    // Readings moved into another key's period no longer verify
+    const moved = { ...readings[0], timestamp: '2024-01-15T14:00:00.000Z' };
+    expect(verifyDeviceMeasurement(moved, rotated, { history: true }).valid).toBe(false);
+  });
+
+  test('ignores rotations not signed by the previous key', async () => {
+    const registered = await provisioner.provision(device);
+    const oldKey = await keystore.get('meter-001');
+    const signed = await provisioner.signMeasurement(reading('2024-01-15T12:00:00.000Z'));
+    const attacker = generateDeviceKeyPair();
+
+    const forged = {
+      ...registered,
+      publicKey: attacker.publicKey,
+      keyRotations: [signKeyRotation({
+        deviceId: 'meter-001',
+        publicKey: attacker.publicKey,
+        previousPublicKey: oldKey!.publicKey,
+        rotatedAt: '2024-01-15T12:30:00.000Z',
+        graceUntil: '2024-01-16T12:30:00.000Z'
+      }, attacker.privateKey)]
+    };
+
+    expect(verifyKeyRotation(forged.keyRotations[0]).valid).toBe(false);
+    expect(verifyDeviceMeasurement(signed, forged).valid).toBe(false);
+  });
+
+  test('keeps the old key when the update fails', async () => {
+    await provisioner.provision(device);
+    const before = await keystore.get('meter-001');
+
+    failUpdates = true;
+    await expect(provisioner.rotateKey('meter-001')).rejects.toThrow('503');
+
+    expect(await keystore.get('meter-001')).toEqual(before);
+    expect(devices.get('meter-001')!.publicKey).toBe(before!.publicKey);
+  });
+
+  test('keeps the new key when the update times out after being applied', async () => {
+    await provisioner.provision(device);
+    const updateDevice = meter.updateDevice;
+    meter.updateDevice = async (deviceId, updates) => {
+      await updateDevice(deviceId, updates);
+      throw new TimeoutError('Request timed out after 30000 ms');
+    };
+
+    const rotated = await provisioner.rotateKey('meter-001');
+
+    expect(rotated.keyRotations).toHaveLength(1);
+    expect(await keystore.get('meter-001')).toEqual({
+      deviceId: 'meter-001',
+      algorithm: 'ed25519',
+      publicKey: rotated.publicKey,
+      privateKey: expect.any(String),
+      createdAt: expect.any(String)
+    });
+  });
+
+  test('keeps both keys while the outcome of the update is unknown', async () => {
+    await provisioner.provision(device);
+    const before = await keystore.get('meter-001');
+    const getDevice = meter.getDevice;
+    meter.updateDevice = async () => {
+      meter.getDevice = async () => { throw new NetworkError('socket hang up'); };
+      throw new TimeoutError('Request timed out after 30000 ms');
+    };
+
+    await expect(provisioner.rotateKey('meter-001')).rejects.toBeInstanceOf(TimeoutError);
+    const pending = await keystore.get('meter-001');
+    expect(pending!.publicKey).not.toBe(before!.publicKey);
+    expect(pending!.previous).toEqual(before);
+
+    // The next rotation finds the old key still registered and rotates away from it
+    meter.getDevice = getDevice;
+    meter.updateDevice = async (deviceId, updates) => {
+      const updated = { ...devices.get(deviceId)!, ...updates };
+      devices.set(deviceId, updated);
+      return updated;
+    };
+    const rotated = await provisioner.rotateKey('meter-001');
+    expect(rotated.keyRotations!.map(rotation => rotation.previousPublicKey)).toEqual([before!.publicKey]);
+    expect(verifyKeyRotation(rotated.keyRotations![0]).valid).toBe(true);
+    expect((await keystore.get('meter-001'))!.previous).toBeUndefined();
+  });
+});
+
+describe('FileKeystore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'voltnet-keys-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('persists keys in owner-only files', async () => {
+    const { publicKey, privateKey } = generateDeviceKeyPair();
+    const key = { deviceId: 'site/meter 1', algorithm: 'ed25519' as const, publicKey, privateKey, createdAt: '2024-01-15T12:00:00.000Z' };
+
+    await new FileKeystore({ directory }).set(key);
+    const reopened = new FileKeystore({ directory });
+
+    expect(await reopened.get('site/meter 1')).toEqual(key);
+    expect(statSync(join(directory, 'site%2Fmeter%201.json')).mode & 0o777).toBe(0o600);
+
+    await reopened.delete('site/meter 1');
+    expect(await reopened.get('site/meter 1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+import { EnergyMeter } from './EnergyMeter';
+import { generateDeviceKeyPair, signKeyRotation, signMeasurement } from './signing';
+import {
+  DeviceKey,
+  DeviceRegistration,
+  EnergyMeasurement,
+  Keystore,
+  SignatureAlgorithm
+} from './types';
+
+/**
+ * Device Provisioner
+ * Creates device keypairs, registers their public keys and rotates them.
+ * Private keys never leave the keystore except to sign.
+ */
+export class DeviceProvisioner {
+  private meter: EnergyMeter;
+  private keystore: Keystore;
+
+  constructor(meter: EnergyMeter, keystore: Keystore) {
+    this.meter = meter;
+    this.keystore = keystore;
+  }
+
+  /**
+   * Generate a keypair for a new device and register it
+   * @param device Device registration without public key
+   * @param options Signature algorithm (default: ed25519)
+   * @returns Registered device
+   */
+  async provision(
+    device: Omit<DeviceRegistration, 'publicKey' | 'keyRotations'>,
+    options: { algorithm?: SignatureAlgorithm } = {}
+  ): Promise<DeviceRegistration> {
+    if (await this.keystore.get(device.deviceId)) {
+      throw new Error(`Device ${device.deviceId} is already provisioned`);
+    }
+
+    const key = this.createKey(device.deviceId, options.algorithm || 'ed25519');
+
+    // Store first so a registered key can never be lost
+    await this.keystore.set(key);
+    try {
+      return await this.meter.registerDevice({ ...device, publicKey: key.publicKey });
+    } catch (error) {
+      await this.keystore.delete(device.deviceId);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a device's key. The rotation is signed by the current key and
+   * appended to the device's rotations, so readings signed by the current key
+   * keep verifying; new submissions may use it until the grace window ends.
+   * If the outcome of the update is unknown, the keystore keeps both keys and
+   * signs with the new one; the next rotation settles which one the server has.
+   * @param deviceId Device ID
+   * @param options Algorithm of the new key (default: unchanged) and grace window in ms (default: 24 hours)
+   * @returns Updated device
+   */
+  async rotateKey(
+    deviceId: string,
+    options: { algorithm?: SignatureAlgorithm; graceMs?: number; now?: Date } = {}
+  ): Promise<DeviceRegistration> {
+    const stored = await this.keystore.get(deviceId);
+    if (!stored) {
+      throw new Error(`No key stored for device ${deviceId}`);
+    }
+
+    const device = await this.meter.getDevice(deviceId);
+    // Settle a rotation an earlier call could not confirm
+    const { previous, ...latest } = stored;
+    const current = previous && device.publicKey === previous.publicKey ? previous : latest;
+
+    const now = options.now ?? new Date();
+    const next = this.createKey(deviceId, options.algorithm || current.algorithm, now);
+    const keyRotation = signKeyRotation({
+      deviceId,
+      publicKey: next.publicKey,
+      previousPublicKey: current.publicKey,
+      rotatedAt: now.toISOString(),
+      graceUntil: new Date(now.getTime() + (options.graceMs ?? 24 * 60 * 60 * 1000)).toISOString()
+    }, current.privateKey);
+
+    // Keep both keys until the server's answer tells which one it has
+    await this.keystore.set({ ...next, previous: current });
+    let updated: DeviceRegistration;
+    try {
+      updated = await this.meter.updateDevice(deviceId, {
+        publicKey: next.publicKey,
+        keyRotations: [...(device.keyRotations || []), keyRotation]
+      });
+    } catch (error) {
+      // A timeout or lost response may follow an applied update, so ask the server
+      const registered = await this.meter.getDevice(deviceId).catch(() => undefined);
+      if (registered?.publicKey !== next.publicKey) {
+        if (registered) {
+          await this.keystore.set(current);
+        }
+        throw error;
+      }
+      updated = registered;
+    }
+
+    await this.keystore.set(next);
+    return updated;
+  }
+
+  /**
+   * Sign a measurement with its device's stored key
+   * @param measurement Measurement data without signature
+   * @returns Signed measurement
+   */
+  async signMeasurement(measurement: Omit<EnergyMeasurement, 'signature'>): Promise<EnergyMeasurement> {
+    const key = await this.keystore.get(measurement.deviceId);
+    if (!key) {
+      throw new Error(`No key stored for device ${measurement.deviceId}`);
+    }
+    return signMeasurement(measurement, key.privateKey);
+  }
+
+  private createKey(deviceId: string, algorithm: SignatureAlgorithm, now = new Date()): DeviceKey {
+    const { publicKey, privateKey } = generateDeviceKeyPair(algorithm);
+    return { deviceId, algorithm, publicKey, privateKey, createdAt: now.toISOString() };
+  }
+}
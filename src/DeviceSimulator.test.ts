@@ -0,0 +1,145 @@
+/**
+ * Tests for the device simulator
+ */
+
+import { DeviceSimulator } from './DeviceSimulator';
+import { EnergyMeter } from './EnergyMeter';
+import { DeviceRegistration, EnergyDirection, EnergyMeasurement } from './types';
+
+function device(deviceId: string, type: DeviceRegistration['type'], capabilities: Partial<DeviceRegistration['capabilities']> = {}): DeviceRegistration {
+  return {
+    deviceId,
+    type,
+    ownerId: 'participant-001',
+    capabilities: { canProduce: type !== 'meter', canConsume: type !== 'solar_panel', ...capabilities },
+    location: { latitude: 45, longitude: 0 }
+  };
+}
+
+const devices = [
+  device('solar-01', 'solar_panel', { maxPower: 8 }),
+  device('battery-01', 'battery', { maxPower: 5, maxEnergy: 10 }),
+  device('ev-01', 'charger', { maxPower: 11 }),
+  device('house-01', 'meter')
+];
+
+function byDevice(measurements: EnergyMeasurement[], deviceId: string) {
+  return measurements.filter(m => m.deviceId === deviceId);
+}
+
+function hourOf(measurement: EnergyMeasurement): number {
+  return new Date(measurement.metadata!.intervalStart).getUTCHours();
+}
+
+describe('DeviceSimulator', () => {
+  const start = '2024-06-21T00:00:00.000Z';
+  const end = '2024-06-23T00:00:00.000Z';
+
+  test('is deterministic for a seed', () => {
+    const a = new DeviceSimulator({ devices, seed: 42, start }).run(end);
+    const b = new DeviceSimulator({ devices, seed: 42, start }).run(end);
+    const c = new DeviceSimulator({ devices, seed: 43, start }).run(end);
+
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+    expect(a).toHaveLength(4 * 2 * 288);
+  });
+
+  test('produces interval readings', () => {
+    const simulator = new DeviceSimulator({ devices, start, intervalMinutes: 15 });
+    const [first] = simulator.step();
+
+    expect(simulator.now()).toBe('2024-06-21T00:15:00.000Z');
+    expect(first).toMatchObject({
+      deviceId: 'solar-01',
+      timestamp: '2024-06-21T00:15:00.000Z',
+      metadata: { intervalStart: '2024-06-21T00:00:00.000Z' }
+    });
+  });
+
+  test('follows the sun for solar panels', () => {
+    const solar = byDevice(new DeviceSimulator({ devices, start, cloudiness: 0 }).run(end), 'solar-01');
+
+    expect(solar.filter(m => hourOf(m) < 3 || hourOf(m) >= 21).every(m => m.energy === 0)).toBe(true);
+    expect(Math.max(...solar.map(m => m.power!))).toBeLessThanOrEqual(8);
+
+    const noon = solar.filter(m => hourOf(m) === 12);
+    expect(noon.every(m => m.power! > 4)).toBe(true);
+    expect(noon.every(m => m.metadata!.clearSkyPower > 7)).toBe(true);
+  });
+
+  test('keeps batteries within their SoC limits', () => {
+    const battery = byDevice(new DeviceSimulator({ devices, start }).run(end), 'battery-01');
+    const soc = battery.map(m => m.metadata!.soc);
+
+    expect(Math.min(...soc)).toBeGreaterThanOrEqual(0.1 - 1e-9);
+    expect(Math.max(...soc)).toBeLessThanOrEqual(0.95 + 1e-9);
+    expect(battery.some(m => m.direction === EnergyDirection.IMPORT)).toBe(true);
+    expect(battery.some(m => m.direction === EnergyDirection.EXPORT)).toBe(true);
+  });
+
+  test('charges EVs in sessions', () => {
+    const ev = byDevice(new DeviceSimulator({ devices, start: '2024-06-01T00:00:00.000Z' }).run('2024-06-11T00:00:00.000Z'), 'ev-01');
+    const sessions = new Map<string, number>();
+    for (const m of ev.filter(m => m.metadata!.sessionId)) {
+      sessions.set(m.metadata!.sessionId, (sessions.get(m.metadata!.sessionId) || 0) + m.energy);
+    }
+
+    expect(sessions.size).toBeGreaterThanOrEqual(5);
+    for (const energy of sessions.values()) {
+      expect(energy).toBeGreaterThanOrEqual(10 - 1e-6);
+      expect(energy).toBeLessThanOrEqual(40 + 1e-6);
+    }
+    expect(Math.max(...ev.map(m => m.power!))).toBeLessThanOrEqual(11);
+  });
+
+  test('injects dropouts, spikes and clock skew', () => {
+    const clean = new DeviceSimulator({ devices, seed: 7, start }).run(end);
+    const dropped: string[] = [];
+    const faulty = new DeviceSimulator({
+      devices,
+      seed: 7,
+      start,
+      faults: { dropoutRate: 0.1, spikeRate: 0.02, spikeFactor: 4, clockSkewMs: { 'house-01': 90000 } }
+    });
+    faulty.on('dropout', deviceId => dropped.push(deviceId));
+    const measurements = faulty.run(end);
+
+    expect(measurements.length + dropped.length).toBe(clean.length);
+    expect(dropped.length / clean.length).toBeGreaterThan(0.05);
+    expect(dropped.length / clean.length).toBeLessThan(0.15);
+
+    const spiked = measurements.find(m => m.deviceId !== 'house-01' && m.metadata!.simulatedFaults?.includes('spike') && m.energy > 0)!;
+    const original = clean.find(m => m.deviceId === spiked.deviceId && m.metadata!.intervalStart === spiked.metadata!.intervalStart)!;
+    expect(spiked.energy).toBeCloseTo(original.energy * 4, 5);
+
+    const house = byDevice(measurements, 'house-01')[0];
+    expect(new Date(house.timestamp).getUTCSeconds()).toBe(30);
+    expect(house.metadata!.simulatedFaults).toContain('clock-skew');
+  });
+
+  test('submits readings on an accelerated clock', () => {
+    jest.useFakeTimers();
+    const submitted: EnergyMeasurement[][] = [];
+    const meter = {
+      submitBatch: async (measurements: EnergyMeasurement[]) => {
+        submitted.push(measurements);
+        return { success: true, count: measurements.length };
+      }
+    } as unknown as EnergyMeter;
+
+    try {
+      // 5-minute intervals at 300x speed: one interval per real second
+      const simulator = new DeviceSimulator({ devices, start, speed: 300 }, meter);
+      simulator.start();
+      jest.advanceTimersByTime(3000);
+      simulator.stop();
+      jest.advanceTimersByTime(3000);
+
+      expect(submitted).toHaveLength(3);
+      expect(simulator.now()).toBe('2024-06-21T00:15:00.000Z');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,373 @@
+import EventEmitter from 'eventemitter3';
+import { EnergyMeter } from './EnergyMeter';
+import {
+  DeviceRegistration,
+  DeviceSimulatorConfig,
+  DeviceSimulatorEvents,
+  EnergyDirection,
+  EnergyMeasurement,
+  EnergySource
+} from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+interface DeviceState {
+  device: DeviceRegistration;
+  random: () => number;
+  faultRandom: () => number;
+  /** Cloud cover, 0-1 */
+  cloud: number;
+  /** Battery state of charge, 0-1 */
+  soc: number;
+  /** Local day for which the EV arrival was planned */
+  plannedDay?: number;
+  arrival?: number;
+  session?: { id: string; remaining: number; departure: number };
+}
+
+interface ModelOutput {
+  /** Average power over the interval in kW */
+  power: number;
+  source: EnergySource;
+  direction?: EnergyDirection;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function gaussian(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+function round(value: number, digits = 6): number {
+  return Number(value.toFixed(digits));
+}
+
+/**
+ * Device Simulator
+ * Generates deterministic measurement streams for solar panels, batteries,
+ * EV chargers and household meters, with optional dropouts, spikes and
+ * clock skew. Daily profiles follow local solar time at the device location.
+ *
+ * Readings cover one interval each: timestamp is the interval end and
+ * metadata.intervalStart its start.
+ */
+export class DeviceSimulator extends EventEmitter<DeviceSimulatorEvents> {
+  private config: DeviceSimulatorConfig;
+  private meter?: EnergyMeter;
+  private states: DeviceState[];
+  private intervalMs: number;
+  private time: number;
+  private timer?: NodeJS.Timeout;
+
+  constructor(config: DeviceSimulatorConfig, meter?: EnergyMeter) {
+    super();
+    this.config = config;
+    this.meter = meter;
+    this.intervalMs = (config.intervalMinutes || 5) * 60 * 1000;
+
+    const start = config.start ? new Date(config.start).getTime() : Date.now();
+    this.time = Math.floor(start / this.intervalMs) * this.intervalMs;
+
+    const seed = config.seed ?? 1;
+    this.states = config.devices.map(device => ({
+      device,
+      // Separate streams keep a device's output stable when devices or faults are added
+      random: createRandom(seed ^ hashString(device.deviceId)),
+      faultRandom: createRandom(seed ^ hashString(`${device.deviceId}:faults`)),
+      cloud: config.cloudiness ?? 0.3,
+      soc: device.metadata?.initialSoc ?? 0.5
+    }));
+  }
+
+  /**
+   * Current simulated time
+   * @returns ISO 8601 timestamp
+   */
+  now(): string {
+    return new Date(this.time).toISOString();
+  }
+
+  /**
+   * Advance the simulated clock by one interval
+   * @returns Readings of all devices for the interval
+   */
+  step(): EnergyMeasurement[] {
+    const start = this.time;
+    const end = start + this.intervalMs;
+    this.time = end;
+
+    const measurements: EnergyMeasurement[] = [];
+    for (const state of this.states) {
+      const measurement = this.applyFaults(state, this.measure(state, start, end));
+      if (measurement) {
+        measurements.push(measurement);
+      }
+    }
+
+    this.emit('measurements', measurements, this.now());
+    return measurements;
+  }
+
+  /**
+   * Advance the simulated clock up to a time
+   * @param until End time (ISO 8601)
+   * @returns All readings generated on the way
+   */
+  run(until: string): EnergyMeasurement[] {
+    const measurements: EnergyMeasurement[] = [];
+    const end = new Date(until).getTime();
+    while (this.time + this.intervalMs <= end) {
+      measurements.push(...this.step());
+    }
+    return measurements;
+  }
+
+  /**
+   * Start the accelerated clock. Each interval's readings are emitted and,
+   * if a meter was given, submitted through submitBatch.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const speed = this.config.speed || 60;
+    this.timer = setInterval(() => {
+      const measurements = this.step();
+      if (this.meter && measurements.length > 0) {
+        this.meter.submitBatch(measurements).catch(error => this.emit('error', error));
+      }
+    }, this.intervalMs / speed);
+  }
+
+  /**
+   * Stop the accelerated clock
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private measure(state: DeviceState, start: number, end: number): EnergyMeasurement {
+    const hours = (end - start) / HOUR_MS;
+    const middle = start + (end - start) / 2;
+    const output = this.model(state, middle, hours);
+    const voltage = 230 + 2 * gaussian(state.random);
+
+    return {
+      deviceId: state.device.deviceId,
+      timestamp: new Date(end).toISOString(),
+      energy: round(output.power * hours),
+      power: round(output.power, 3),
+      voltage: round(voltage, 1),
+      current: round(output.power * 1000 / voltage, 2),
+      source: output.source,
+      ...(output.direction ? { direction: output.direction } : {}),
+      metadata: {
+        intervalStart: new Date(start).toISOString(),
+        ...output.metadata
+      }
+    };
+  }
+
+  private model(state: DeviceState, time: number, hours: number): ModelOutput {
+    switch (state.device.type) {
+      case 'solar_panel':
+        return this.solar(state, time);
+      case 'battery':
+        return this.battery(state, time, hours);
+      case 'charger':
+        return this.charger(state, time, hours);
+      default:
+        return this.household(state, time);
+    }
+  }
+
+  /**
+   * Clear-sky output from the sun's elevation, reduced by correlated cloud cover
+   */
+  private solar(state: DeviceState, time: number): ModelOutput {
+    const { location, capabilities } = state.device;
+    const latitude = (location?.latitude ?? 45) * Math.PI / 180;
+    const date = new Date(time);
+    const dayOfYear = (time - Date.UTC(date.getUTCFullYear(), 0, 0)) / DAY_MS;
+    const declination = 23.44 * Math.PI / 180 * Math.sin(2 * Math.PI * (284 + dayOfYear) / 365);
+    const hourAngle = (this.localHours(state, time) - 12) * 15 * Math.PI / 180;
+    const elevation = Math.sin(latitude) * Math.sin(declination) +
+      Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle);
+
+    const mean = this.config.cloudiness ?? 0.3;
+    state.cloud = Math.min(1, Math.max(0, state.cloud + 0.3 * (mean - state.cloud) + 0.15 * gaussian(state.random)));
+
+    const clearSky = (capabilities.maxPower ?? 5) * Math.pow(Math.max(0, elevation), 1.15);
+    return {
+      power: clearSky * (1 - 0.75 * state.cloud),
+      source: EnergySource.SOLAR,
+      metadata: { clearSkyPower: round(clearSky, 3), cloudCover: round(state.cloud, 3) }
+    };
+  }
+
+  /**
+   * Charges around midday and discharges in the evening within SoC limits
+   */
+  private battery(state: DeviceState, time: number, hours: number): ModelOutput {
+    const { capabilities, metadata } = state.device;
+    const capacity = capabilities.maxEnergy ?? 10;
+    const maxPower = capabilities.maxPower ?? 5;
+    const minSoc = metadata?.minSoc ?? 0.1;
+    const maxSoc = metadata?.maxSoc ?? 0.95;
+    const efficiency = 0.95;
+    const hour = this.localHours(state, time);
+
+    let power = 0;
+    let direction: EnergyDirection | undefined;
+
+    if (hour >= 10 && hour < 15) {
+      power = Math.max(0, Math.min(0.6 * maxPower, (maxSoc - state.soc) * capacity / hours / efficiency));
+      state.soc += power * hours * efficiency / capacity;
+      direction = EnergyDirection.IMPORT;
+    } else if (hour >= 17 && hour < 22) {
+      power = Math.max(0, Math.min(0.5 * maxPower, (state.soc - minSoc) * capacity / hours));
+      state.soc -= power * hours / capacity;
+      direction = EnergyDirection.EXPORT;
+    }
+
+    return {
+      power,
+      source: EnergySource.BATTERY,
+      direction: power > 0 ? direction : undefined,
+      metadata: { soc: round(state.soc, 4) }
+    };
+  }
+
+  /**
+   * Most evenings a car arrives, charges at full power until its energy
+   * need is met or it leaves at 7:00
+   */
+  private charger(state: DeviceState, time: number, hours: number): ModelOutput {
+    const maxPower = state.device.capabilities.maxPower ?? 11;
+    const offset = this.localOffset(state);
+    const day = Math.floor((time + offset) / DAY_MS);
+
+    if (state.plannedDay !== day) {
+      state.plannedDay = day;
+      state.arrival = state.random() < 0.8
+        ? day * DAY_MS - offset + Math.min(23.5, Math.max(14, 18 + 1.5 * gaussian(state.random))) * HOUR_MS
+        : undefined;
+    }
+
+    if (!state.session && state.arrival !== undefined && time >= state.arrival) {
+      state.session = {
+        id: `${state.device.deviceId}-${new Date(state.arrival).toISOString().slice(0, 10)}`,
+        remaining: 10 + 30 * state.random(),
+        departure: (day + 1) * DAY_MS - offset + 7 * HOUR_MS
+      };
+      state.arrival = undefined;
+    }
+
+    const session = state.session;
+    if (!session) {
+      return { power: 0, source: EnergySource.GRID };
+    }
+
+    const power = Math.min(maxPower, session.remaining / hours);
+    session.remaining -= power * hours;
+    if (session.remaining <= 1e-6 || time >= session.departure) {
+      state.session = undefined;
+    }
+
+    return { power, source: EnergySource.GRID, metadata: { sessionId: session.id } };
+  }
+
+  /**
+   * Base load with morning and evening peaks and log-normal noise
+   */
+  private household(state: DeviceState, time: number): ModelOutput {
+    const scale = (state.device.capabilities.maxPower ?? 5) / 5;
+    const hour = this.localHours(state, time);
+    const bump = (center: number, width: number) => Math.exp(-((hour - center) ** 2) / (2 * width ** 2));
+    const profile = 0.3 + 1.2 * bump(7.5, 1) + 2 * bump(19.5, 1.5);
+
+    return {
+      power: scale * profile * Math.exp(0.25 * gaussian(state.random)),
+      source: EnergySource.GRID
+    };
+  }
+
+  private applyFaults(state: DeviceState, measurement: EnergyMeasurement): EnergyMeasurement | undefined {
+    const faults = this.config.faults;
+    // Always draw both numbers so enabling one fault does not shift the other
+    const dropout = state.faultRandom();
+    const spike = state.faultRandom();
+    if (!faults) return measurement;
+
+    if (dropout < (faults.dropoutRate ?? 0)) {
+      this.emit('dropout', measurement.deviceId, measurement.timestamp);
+      return undefined;
+    }
+
+    const applied: string[] = [];
+    let result = measurement;
+
+    if (spike < (faults.spikeRate ?? 0)) {
+      const factor = faults.spikeFactor ?? 5;
+      result = {
+        ...result,
+        energy: round(result.energy * factor),
+        power: round(result.power! * factor, 3),
+        current: round(result.current! * factor, 2)
+      };
+      applied.push('spike');
+    }
+
+    const skew = typeof faults.clockSkewMs === 'number'
+      ? faults.clockSkewMs
+      : faults.clockSkewMs?.[measurement.deviceId] ?? 0;
+    if (skew) {
+      const shift = (timestamp: string) => new Date(new Date(timestamp).getTime() + skew).toISOString();
+      result = {
+        ...result,
+        timestamp: shift(result.timestamp),
+        metadata: { ...result.metadata, intervalStart: shift(result.metadata!.intervalStart) }
+      };
+      applied.push('clock-skew');
+    }
+
+    return applied.length > 0
+      ? { ...result, metadata: { ...result.metadata, simulatedFaults: applied } }
+      : result;
+  }
+
+  /**
+   * Offset of local solar time from UTC in ms, from the device longitude
+   */
+  private localOffset(state: DeviceState): number {
+    return (state.device.location?.longitude ?? 0) / 15 * HOUR_MS;
+  }
+
+  private localHours(state: DeviceState, time: number): number {
+    return (((time + this.localOffset(state)) % DAY_MS) + DAY_MS) % DAY_MS / HOUR_MS;
+  }
+}
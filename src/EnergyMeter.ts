@@ -2,8 +2,27 @@ import { VoltnetClient } from './VoltnetClient';
 import {
   EnergyMeasurement,
   EnergySource,
-  DeviceRegistration
+  DeviceRegistration,
+  SignatureVerificationResult,
+  ChainHead,
+  ChainVerificationResult,
+  RegisterDelta,
+  ResampleOptions,
+  EnergyDirection,
+  EnergyFlowTotals,
+  Subscription,
+  IdempotencyOptions,
+  Page,
+  PageOptions,
+  PaginationOptions
 } from './types';
+import { signMeasurement, verifyMeasurement, verifyDeviceMeasurement } from './signing';
+import { verifyChain } from './MeasurementChain';
+import { registerDeltas, RegisterOptions } from './registers';
+import { resample } from './resampling';
+import { flowTotals } from './netMetering';
+import { alignToInterval, idempotencyHeaders } from './utils';
+import { paginateTimeRange, toPage, DAY_MS } from './pagination';
 
 /**
  * Energy Meter Module
@@ -19,21 +38,30 @@ export class EnergyMeter {
   /**
    * Submit energy measurement
    * @param measurement Energy measurement data
+   * @param options Idempotency key, reused on retries
    * @returns Submitted measurement with confirmation
    */
-  async submitMeasurement(measurement: EnergyMeasurement): Promise<EnergyMeasurement> {
-    const response = await this.client.getHttpClient().post('/measurements', measurement);
+  async submitMeasurement(measurement: EnergyMeasurement, options: IdempotencyOptions = {}): Promise<EnergyMeasurement> {
+    const response = await this.client.getHttpClient().post('/measurements', measurement, {
+      headers: idempotencyHeaders(options.idempotencyKey)
+    });
     return response.data;
   }
 
   /**
    * Submit batch of measurements
    * @param measurements Array of energy measurements
+   * @param options Idempotency key, reused on retries
    * @returns Confirmation of batch submission
    */
-  async submitBatch(measurements: EnergyMeasurement[]): Promise<{ success: boolean; count: number }> {
+  async submitBatch(
+    measurements: EnergyMeasurement[],
+    options: IdempotencyOptions = {}
+  ): Promise<{ success: boolean; count: number }> {
     const response = await this.client.getHttpClient().post('/measurements/batch', {
       measurements
+    }, {
+      headers: idempotencyHeaders(options.idempotencyKey)
     });
     return response.data;
   }
@@ -56,6 +84,73 @@ export class EnergyMeter {
     return response.data;
   }
 
+  /**
+   * Get one page of measurements for a device in a time range
+   * @param deviceId Device ID
+   * @param from Start timestamp (ISO 8601)
+   * @param to End timestamp (ISO 8601)
+   * @param page Cursor and page size
+   * @returns Page of measurements
+   */
+  async getMeasurementsPage(
+    deviceId: string,
+    from: string,
+    to: string,
+    page: PageOptions = {}
+  ): Promise<Page<EnergyMeasurement>> {
+    const response = await this.client.getHttpClient().get('/measurements', {
+      params: { deviceId, from, to, ...page }
+    });
+    return toPage(response.data);
+  }
+
+  /**
+   * Iterate over all measurements for a device in a time range, fetching
+   * pages as they are consumed. The range is requested in 1-day chunks.
+   * @param deviceId Device ID
+   * @param from Start timestamp (ISO 8601)
+   * @param to End timestamp (ISO 8601)
+   * @param options Page size, item limit, chunk size and concurrency
+   * @returns Async iterator over measurements
+   */
+  iterateMeasurements(
+    deviceId: string,
+    from: string,
+    to: string,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<EnergyMeasurement, void, undefined> {
+    return paginateTimeRange(
+      { from, to },
+      (range, page) => this.getMeasurementsPage(deviceId, range.from, range.to, page),
+      { chunkSize: DAY_MS, ...options }
+    );
+  }
+
+  /**
+   * Get measurements resampled to fixed intervals
+   * @param deviceId Device ID
+   * @param from Start timestamp (ISO 8601)
+   * @param to End timestamp (ISO 8601)
+   * @param options Interval length and gap filling strategy
+   * @returns One measurement per interval with metadata.quality
+   */
+  async getIntervalMeasurements(
+    deviceId: string,
+    from: string,
+    to: string,
+    options: Omit<ResampleOptions, 'from' | 'to'>
+  ): Promise<EnergyMeasurement[]> {
+    // Previous-day filling needs the day before the requested range
+    const fetchFrom = options.fill === 'previous-day'
+      ? new Date(new Date(from).getTime() - 24 * 60 * 60 * 1000).toISOString()
+      : from;
+    const measurements = await this.getMeasurements(deviceId, fetchFrom, to);
+    const intervals = resample(measurements, { ...options, from: fetchFrom, to });
+
+    const start = new Date(alignToInterval(from, options.intervalMinutes)).getTime();
+    return intervals.filter(m => new Date(m.metadata!.intervalStart).getTime() >= start);
+  }
+
   /**
    * Get latest measurement for a device
    * @param deviceId Device ID
@@ -66,13 +161,26 @@ export class EnergyMeter {
     return response.data;
   }
 
+  /**
+   * Receive a device's measurements as they are submitted
+   * @param deviceId Device ID
+   * @param callback Function to call with each measurement
+   * @returns Subscription handle
+   */
+  subscribeToMeasurements(deviceId: string, callback: (measurement: EnergyMeasurement) => void): Subscription {
+    return this.client.listen({ type: 'measurements', deviceId }, callback);
+  }
+
   /**
    * Register a new IoT device
    * @param device Device registration data
+   * @param options Idempotency key, reused on retries
    * @returns Registered device information
    */
-  async registerDevice(device: DeviceRegistration): Promise<DeviceRegistration> {
-    const response = await this.client.getHttpClient().post('/devices', device);
+  async registerDevice(device: DeviceRegistration, options: IdempotencyOptions = {}): Promise<DeviceRegistration> {
+    const response = await this.client.getHttpClient().post('/devices', device, {
+      headers: idempotencyHeaders(options.idempotencyKey)
+    });
     return response.data;
   }
 
@@ -122,46 +230,60 @@ export class EnergyMeter {
   /**
    * Verify measurement signature
    * @param measurement Measurement with signature
-   * @param publicKey Public key of the device
+   * @param publicKey Public key of the device (PEM)
    * @returns Verification result
    */
   verifySignature(measurement: EnergyMeasurement, publicKey: string): boolean {
-    // This is a placeholder - in real implementation, you would use crypto library
-    // to verify the signature using the device's public key
-    if (!measurement.signature) return false;
-    
-    // Example verification logic would go here
-    // For now, just return true if signature exists
-    return true;
+    return verifyMeasurement(measurement, publicKey).valid;
+  }
+
+  /**
+   * Verify a measurement against the key its device held when the reading was taken
+   * @param measurement Measurement with signature
+   * @param options Optional maximum age of the reading and clock skew in ms;
+   *   `history: true` for stored readings, which keep verifying after a key rotation's grace window
+   * @returns Verification result with failure reason if invalid
+   */
+  async verifyMeasurement(
+    measurement: EnergyMeasurement,
+    options: { maxAgeMs?: number; maxSkewMs?: number; now?: Date; history?: boolean } = {}
+  ): Promise<SignatureVerificationResult> {
+    const device = await this.getDevice(measurement.deviceId);
+    return verifyDeviceMeasurement(measurement, device, options);
+  }
+
+  /**
+   * Verify the hash chain of a device's readings in a time range
+   * @param deviceId Device ID
+   * @param from Start timestamp (ISO 8601)
+   * @param to End timestamp (ISO 8601)
+   * @param previous Chain entry preceding the range, if the range does not start at the first reading
+   * @returns Gaps, reorders, forks and edited entries found in the range
+   */
+  async verifyChain(
+    deviceId: string,
+    from: string,
+    to: string,
+    previous?: ChainHead
+  ): Promise<ChainVerificationResult> {
+    const [measurements, device] = await Promise.all([
+      this.getMeasurements(deviceId, from, to),
+      this.getDevice(deviceId)
+    ]);
+    return verifyChain(measurements, { publicKey: device.publicKey, keyRotations: device.keyRotations, previous });
   }
 
   /**
    * Create a signed measurement
    * @param measurement Measurement data without signature
-   * @param privateKey Private key for signing
+   * @param privateKey Private key for signing (PEM, Ed25519 or ECDSA P-256)
    * @returns Signed measurement
    */
   signMeasurement(
     measurement: Omit<EnergyMeasurement, 'signature'>,
     privateKey: string
   ): EnergyMeasurement {
-    // This is a placeholder - in real implementation, you would use crypto library
-    // to create a signature
-    
-    const dataToSign = JSON.stringify({
-      deviceId: measurement.deviceId,
-      timestamp: measurement.timestamp,
-      energy: measurement.energy,
-      power: measurement.power
-    });
-
-    // In real implementation, use crypto library to sign
-    const signature = `sig_${Buffer.from(dataToSign).toString('base64')}`;
-
-    return {
-      ...measurement,
-      signature
-    };
+    return signMeasurement(measurement, privateKey);
   }
 
   /**
@@ -169,19 +291,51 @@ export class EnergyMeter {
    * @param deviceId Device ID
    * @param from Start timestamp
    * @param to End timestamp
-   * @returns Total energy in kWh
+   * @param options Set cumulative when the device reports register readings instead of interval energy
+   * @returns Total energy in kWh (consumed + produced), the consumed, produced and net
+   *   energy of bidirectional meters, and register irregularities if cumulative
    */
   async calculateEnergyTotal(
     deviceId: string,
     from: string,
-    to: string
-  ): Promise<{ total: number; source: EnergySource }> {
+    to: string,
+    options: RegisterOptions & { cumulative?: boolean } = {}
+  ): Promise<{ total: number; source: EnergySource; flags?: RegisterDelta[] } & EnergyFlowTotals> {
     const measurements = await this.getMeasurements(deviceId, from, to);
-    
-    const total = measurements.reduce((sum, m) => sum + m.energy, 0);
     const source = measurements[0]?.source || EnergySource.OTHER;
 
-    return { total, source };
+    if (options.cumulative) {
+      // Import and export registers advance independently
+      const registerFlow = (value: (m: EnergyMeasurement) => number | undefined) => registerDeltas(
+        measurements
+          .filter(m => value(m) !== undefined)
+          .map(m => ({
+            deviceId: m.deviceId,
+            timestamp: m.timestamp,
+            value: value(m)!,
+            meterSerial: m.metadata?.meterSerial
+          })),
+        options
+      );
+      const imports = registerFlow(m => (m.direction === EnergyDirection.EXPORT ? undefined : m.energy));
+      const exports = registerFlow(m => (m.direction === EnergyDirection.EXPORT ? m.energy : m.exportEnergy));
+      const sum = (deltas: RegisterDelta[]) => Number(deltas.reduce((total, d) => total + d.energy, 0).toFixed(6));
+      const consumed = sum(imports);
+      const produced = sum(exports);
+
+      return {
+        total: Number((consumed + produced).toFixed(6)),
+        source,
+        consumed,
+        produced,
+        net: Number((consumed - produced).toFixed(6)),
+        flags: [...imports, ...exports].filter(d => d.flag)
+      };
+    }
+
+    const flows = flowTotals(measurements);
+
+    return { total: Number((flows.consumed + flows.produced).toFixed(6)), source, ...flows };
   }
 
   /**
@@ -0,0 +1,190 @@
+/**
+ * Tests for in-order, exactly-once event delivery
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EventSequencer, EventSequencerOptions } from './EventSequencer';
+import { MemoryCursorStore } from './CursorStore';
+import { FileCursorStore } from './FileCursorStore';
+import { SequencedEvent } from './types';
+
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+function event(seq: number, type = 'transaction', status = 'completed'): SequencedEvent & { seq: number } {
+  return {
+    type,
+    seq,
+    timestamp: new Date(Date.UTC(2024, 0, 15, 12, seq)).toISOString(),
+    payload: { id: `tx-${seq}`, status }
+  };
+}
+
+describe('EventSequencer', () => {
+  let delivered: SequencedEvent[];
+  let replays: number[];
+  let store: MemoryCursorStore;
+  let backfill: jest.Mock;
+  let sequencer: EventSequencer;
+
+  const create = (options: Partial<EventSequencerOptions> = {}) => {
+    sequencer = new EventSequencer({
+      store,
+      deliver: e => delivered.push(e),
+      requestReplay: after => {
+        replays.push(after);
+        return true;
+      },
+      backfill,
+      onError: error => {
+        throw error;
+      },
+      replayTimeout: 50,
+      ...options
+    });
+    return sequencer;
+  };
+
+  const seqs = () => delivered.map(e => e.seq);
+
+  beforeEach(() => {
+    delivered = [];
+    replays = [];
+    store = new MemoryCursorStore();
+    backfill = jest.fn(async () => []);
+    create();
+  });
+
+  afterEach(() => sequencer.stop());
+
+  test('delivers in order and drops duplicates', async () => {
+    await sequencer.resume();
+    [event(5), event(6), event(6), event(5), event(7)].forEach(e => sequencer.receive(e));
+    await flushPromises();
+
+    expect(seqs()).toEqual([5, 6, 7]);
+    expect(replays).toEqual([]);
+    expect(await store.load()).toEqual({ seq: 7, timestamp: event(7).timestamp });
+  });
+
+  test('holds events behind a gap and replays from the cursor', async () => {
+    await sequencer.resume();
+    sequencer.receive(event(1));
+    sequencer.receive(event(4));
+    sequencer.receive(event(5));
+
+    expect(seqs()).toEqual([1]);
+    expect(replays).toEqual([1]);
+
+    sequencer.receive(event(2));
+    sequencer.receive(event(3));
+    sequencer.receive(event(4));
+    sequencer.replayComplete();
+
+    expect(seqs()).toEqual([1, 2, 3, 4, 5]);
+    expect(backfill).not.toHaveBeenCalled();
+  });
+
+  test('requests replay from the stored cursor after a restart', async () => {
+    await store.save({ seq: 10, timestamp: '2024-01-15T12:10:00.000Z' });
+    create();
+
+    // A live event arrives before the cursor is loaded
+    sequencer.receive(event(13));
+    await sequencer.resume();
+    [event(9), event(11), event(12)].forEach(e => sequencer.receive(e));
+    sequencer.replayComplete();
+
+    expect(replays).toEqual([10]);
+    expect(seqs()).toEqual([11, 12, 13]);
+  });
+
+  test('falls back to REST backfill when the server cannot replay', async () => {
+    await store.save({ seq: 10, timestamp: '2024-01-15T12:10:00.000Z' });
+    backfill.mockResolvedValue([
+      { type: 'transaction', payload: { id: 'tx-11', status: 'completed' }, timestamp: '2024-01-15T12:11:00.000Z' },
+      { type: 'settlement', payload: { id: 'st-1', status: 'completed' }, timestamp: '2024-01-15T12:12:00.000Z' },
+      { type: 'balance-update', payload: { available: 42 } }
+    ]);
+    create();
+    await sequencer.resume();
+
+    // tx-11 also arrives live after the gap and must not be delivered twice
+    sequencer.receive({ ...event(21), payload: { id: 'tx-11', status: 'completed' } });
+    sequencer.receive(event(22));
+    sequencer.replayUnavailable(20);
+    await flushPromises();
+
+    expect(backfill).toHaveBeenCalledWith('2024-01-15T12:10:00.000Z');
+    expect(delivered.map(e => e.payload.id ?? e.type)).toEqual(['tx-11', 'tx-22', 'st-1', 'balance-update']);
+    expect(sequencer.getCursor()!.seq).toBe(22);
+  });
+
+  test('delivers events held behind the gap before the backfilled balance', async () => {
+    await store.save({ seq: 10, timestamp: '2024-01-15T12:10:00.000Z' });
+    backfill.mockResolvedValue([{ type: 'balance-update', payload: { available: 42 } }]);
+    create();
+    await sequencer.resume();
+
+    sequencer.receive({ ...event(21, 'offer'), payload: { id: 'offer-1' } });
+    sequencer.receive({ ...event(22, 'balance-update'), payload: { available: 10 } });
+    sequencer.receive({ ...event(23, 'price-update'), payload: { price: 0.2 } });
+    sequencer.replayUnavailable(22);
+    await flushPromises();
+
+    expect(delivered.map(e => e.type)).toEqual(['offer', 'balance-update', 'price-update', 'balance-update']);
+    expect(delivered[3].payload.available).toBe(42);
+    expect(sequencer.getCursor()!.seq).toBe(23);
+  });
+
+  test('falls back to REST backfill when a replay times out', async () => {
+    await store.save({ seq: 3, timestamp: '2024-01-15T12:03:00.000Z' });
+    create();
+    await sequencer.resume();
+    sequencer.receive(event(6));
+
+    await new Promise(resolve => setTimeout(resolve, 80));
+
+    expect(backfill).toHaveBeenCalledTimes(1);
+    expect(seqs()).toEqual([6]);
+  });
+
+  test('retries a failed backfill and keeps later events until it succeeds', async () => {
+    const errors: Error[] = [];
+    await store.save({ seq: 3, timestamp: '2024-01-15T12:03:00.000Z' });
+    backfill.mockRejectedValueOnce(new Error('503 Service Unavailable'));
+    create({ onError: error => errors.push(error) });
+    await sequencer.resume();
+    sequencer.receive(event(6));
+    sequencer.replayUnavailable();
+    await flushPromises();
+
+    expect(errors.map(e => e.message)).toEqual(['503 Service Unavailable']);
+    expect(delivered).toEqual([]);
+
+    await new Promise(resolve => setTimeout(resolve, 80));
+    expect(backfill).toHaveBeenCalledTimes(2);
+    expect(seqs()).toEqual([6]);
+  });
+});
+
+describe('FileCursorStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'voltnet-cursor-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('persists the cursor across instances', async () => {
+    const path = join(directory, 'state', 'cursor.json');
+    expect(await new FileCursorStore({ path }).load()).toBeUndefined();
+
+    await new FileCursorStore({ path }).save({ seq: 7, timestamp: '2024-01-15T12:07:00.000Z' });
+    expect(await new FileCursorStore({ path }).load()).toEqual({ seq: 7, timestamp: '2024-01-15T12:07:00.000Z' });
+  });
+});
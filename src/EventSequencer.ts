@@ -0,0 +1,258 @@
+import { CursorStore, EventCursor, SequencedEvent } from './types';
+
+/** Number of recent transaction and settlement updates remembered for de-duplication */
+const DEDUPE_WINDOW = 1000;
+
+export interface EventSequencerOptions {
+  /** Where the cursor is kept */
+  store: CursorStore;
+  /** Delivers an event to listeners */
+  deliver: (event: SequencedEvent) => void;
+  /** Asks the server to resend events after a sequence number; false if not connected */
+  requestReplay: (after: number) => boolean;
+  /** Fetches events since a time over REST, oldest first */
+  backfill: (since: string) => Promise<SequencedEvent[]>;
+  /** Reports store and backfill failures */
+  onError: (error: Error) => void;
+  /** Time to wait for a replay to complete in ms (default 10000) */
+  replayTimeout?: number;
+}
+
+/**
+ * Identity of an event for de-duplication between the live stream and REST backfill
+ */
+function eventKey(event: SequencedEvent): string | undefined {
+  const { type, payload } = event;
+  if ((type === 'transaction' || type === 'settlement') && payload?.id !== undefined) {
+    return `${type}:${payload.id}:${payload.status}`;
+  }
+  return undefined;
+}
+
+/**
+ * Event Sequencer
+ * Delivers sequence-numbered events exactly once and in order. Gaps are
+ * filled by asking the server to replay from the last delivered sequence
+ * number; when the server cannot replay, the missed transactions,
+ * settlements and balance are fetched over REST instead, after the events
+ * received behind the gap.
+ *
+ * The cursor is saved after every delivered event, so after a crash the
+ * last event may be delivered again.
+ */
+export class EventSequencer {
+  private options: EventSequencerOptions;
+  private cursor?: EventCursor;
+  private loading?: Promise<void>;
+  private loaded = false;
+  private pending = new Map<number, SequencedEvent>();
+  private replaying = false;
+  private backfilling = false;
+  private stopped = false;
+  private timer?: ReturnType<typeof setTimeout>;
+  private saving: Promise<void> = Promise.resolve();
+  private recentKeys = new Set<string>();
+
+  constructor(options: EventSequencerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Catch up after a (re)connect: request replay from the stored cursor
+   */
+  async resume(): Promise<void> {
+    this.stopped = false;
+    await this.load();
+
+    // A replay requested on a previous connection will not complete
+    clearTimeout(this.timer);
+    this.replaying = false;
+
+    if (this.cursor && !this.backfilling) {
+      this.startReplay();
+    }
+  }
+
+  /**
+   * Accept a sequenced event from the live stream or a replay
+   */
+  receive(event: SequencedEvent & { seq: number }): void {
+    if (this.cursor && event.seq <= this.cursor.seq) return;
+
+    this.pending.set(event.seq, event);
+    if (!this.loaded) {
+      // resume() requests the replay once the cursor is known
+      this.load().then(() => this.flush());
+      return;
+    }
+    this.process();
+  }
+
+  /**
+   * The server has resent everything it has after the cursor
+   */
+  replayComplete(): void {
+    if (!this.replaying) return;
+    this.finishReplay();
+
+    // Whatever is still missing is not coming from the server
+    if (this.flush()) {
+      this.backfill();
+    }
+  }
+
+  /**
+   * The server cannot replay from the cursor
+   * @param head Latest sequence number on the server, if reported
+   */
+  replayUnavailable(head?: number): void {
+    if (!this.replaying) return;
+    this.finishReplay();
+    this.backfill(head);
+  }
+
+  /**
+   * Stop timers, e.g. when the client disconnects
+   */
+  stop(): void {
+    this.stopped = true;
+    this.replaying = false;
+    clearTimeout(this.timer);
+  }
+
+  /**
+   * Get the cursor of the last delivered event
+   */
+  getCursor(): EventCursor | undefined {
+    return this.cursor;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.options.store.load()
+        .then(cursor => {
+          this.cursor = cursor;
+        })
+        .catch(error => this.options.onError(error))
+        .then(() => {
+          this.loaded = true;
+          // Drop anything that arrived before the cursor was known
+          this.pending.forEach((_, seq) => {
+            if (this.cursor && seq <= this.cursor.seq) this.pending.delete(seq);
+          });
+        });
+    }
+    return this.loading;
+  }
+
+  private process(): void {
+    if (this.flush() && !this.replaying && !this.backfilling) {
+      this.startReplay();
+    }
+  }
+
+  /**
+   * Deliver pending events that continue the sequence
+   * @returns True if events are waiting behind a gap
+   */
+  private flush(): boolean {
+    for (;;) {
+      // Without a cursor the first event received starts the sequence
+      const next = this.cursor ? this.cursor.seq + 1 : Math.min(...this.pending.keys());
+      const event = this.pending.get(next);
+      if (!event) break;
+
+      this.pending.delete(next);
+      this.deliver(event);
+      this.advance(next, event.timestamp);
+    }
+    return this.pending.size > 0;
+  }
+
+  private startReplay(): void {
+    if (this.stopped || !this.options.requestReplay(this.cursor!.seq)) return;
+
+    this.replaying = true;
+    this.timer = setTimeout(() => {
+      this.finishReplay();
+      this.backfill();
+    }, this.options.replayTimeout ?? 10000);
+  }
+
+  private finishReplay(): void {
+    clearTimeout(this.timer);
+    this.replaying = false;
+  }
+
+  private async backfill(head?: number): Promise<void> {
+    if (this.backfilling || this.stopped || !this.cursor) return;
+    this.backfilling = true;
+    const startedAt = new Date().toISOString();
+    // Received behind the gap, so older than the state the backfill fetches
+    const behind = Array.from(this.pending.keys()).sort((a, b) => a - b);
+
+    try {
+      const events = await this.options.backfill(this.cursor.timestamp);
+
+      // Deliver older events first, so the fetched state, e.g. the balance, is the last word
+      let last = this.cursor.seq;
+      behind.forEach(seq => {
+        last = Math.max(last, seq);
+        this.deliverPending(seq);
+      });
+      events.forEach(event => this.deliver(event));
+
+      // Events that arrived during the backfill and that the server counts up to its head
+      if (head !== undefined) {
+        Array.from(this.pending.keys())
+          .filter(seq => seq <= head)
+          .sort((a, b) => a - b)
+          .forEach(seq => this.deliverPending(seq));
+      }
+
+      // Continue the sequence after the gap
+      const resumeAt = Math.max(last, head ?? (this.pending.size > 0 ? Math.min(...this.pending.keys()) - 1 : last));
+      if (resumeAt > this.cursor.seq) {
+        this.advance(resumeAt, startedAt);
+      }
+    } catch (error) {
+      this.options.onError(error as Error);
+      this.backfilling = false;
+      // Events behind the gap stay pending until a backfill succeeds
+      if (!this.stopped) {
+        this.timer = setTimeout(() => this.backfill(head), this.options.replayTimeout ?? 10000);
+      }
+      return;
+    }
+
+    this.backfilling = false;
+    this.process();
+  }
+
+  private deliverPending(seq: number): void {
+    const event = this.pending.get(seq);
+    if (!event) return;
+    this.pending.delete(seq);
+    this.deliver(event);
+  }
+
+  private deliver(event: SequencedEvent): void {
+    const key = eventKey(event);
+    if (key) {
+      if (this.recentKeys.has(key)) return;
+      this.recentKeys.add(key);
+      if (this.recentKeys.size > DEDUPE_WINDOW) {
+        this.recentKeys.delete(this.recentKeys.values().next().value as string);
+      }
+    }
+    this.options.deliver(event);
+  }
+
+  private advance(seq: number, timestamp?: string): void {
+    const cursor = { seq, timestamp: timestamp || this.cursor?.timestamp || new Date().toISOString() };
+    this.cursor = cursor;
+    this.saving = this.saving
+      .then(() => this.options.store.save(cursor))
+      .catch(error => this.options.onError(error));
+  }
+}
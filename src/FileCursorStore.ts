@@ -0,0 +1,35 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { CursorStore, EventCursor } from './types';
+
+/**
+ * File Cursor Store
+ * Keeps the event cursor in a JSON file so a restarted process resumes
+ * where it stopped. The file is replaced atomically.
+ */
+export class FileCursorStore implements CursorStore {
+  private path: string;
+
+  constructor(options: { path: string }) {
+    this.path = options.path;
+  }
+
+  async load(): Promise<EventCursor | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.path, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async save(cursor: EventCursor): Promise<void> {
+    const tmpPath = `${this.path}.tmp`;
+
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(cursor), 'utf8');
+    await fs.rename(tmpPath, this.path);
+  }
+}
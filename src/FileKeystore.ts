@@ -0,0 +1,44 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { DeviceKey, Keystore } from './types';
+
+/**
+ * File Keystore
+ * Stores one JSON file per device in a directory, readable only by the
+ * owning user. Files are replaced atomically.
+ */
+export class FileKeystore implements Keystore {
+  private directory: string;
+
+  constructor(options: { directory: string }) {
+    this.directory = options.directory;
+  }
+
+  async get(deviceId: string): Promise<DeviceKey | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(deviceId), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: DeviceKey): Promise<void> {
+    const path = this.pathFor(key.deviceId);
+    const tmpPath = `${path}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    await fs.writeFile(tmpPath, JSON.stringify(key), { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(tmpPath, path);
+  }
+
+  async delete(deviceId: string): Promise<void> {
+    await fs.rm(this.pathFor(deviceId), { force: true });
+  }
+
+  private pathFor(deviceId: string): string {
+    return join(this.directory, `${encodeURIComponent(deviceId)}.json`);
+  }
+}
@@ -0,0 +1,22 @@
+import { DeviceKey, Keystore } from './types';
+
+/**
+ * Memory Keystore
+ * Keeps device keys in process memory. Suitable for tests and for
+ * devices that receive their key from elsewhere on every start.
+ */
+export class MemoryKeystore implements Keystore {
+  private keys = new Map<string, DeviceKey>();
+
+  async get(deviceId: string): Promise<DeviceKey | undefined> {
+    return this.keys.get(deviceId);
+  }
+
+  async set(key: DeviceKey): Promise<void> {
+    this.keys.set(key.deviceId, key);
+  }
+
+  async delete(deviceId: string): Promise<void> {
+    this.keys.delete(deviceId);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Tests for the durable measurement buffer
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MeasurementBuffer } from './MeasurementBuffer';
+import { ServerError, TimeoutError, ValidationError } from './VoltnetError';
+import { EnergyMeter } from './EnergyMeter';
+import { EnergyMeasurement, EnergySource } from './types';
+
+function reading(deviceId: string, minute: number): EnergyMeasurement {
+  return {
+    deviceId,
+    timestamp: new Date(Date.UTC(2024, 0, 15, 12, minute)).toISOString(),
+    energy: 0.5,
+    source: EnergySource.SOLAR
+  };
+}
+
+describe('MeasurementBuffer', () => {
+  let dir: string;
+  let filePath: string;
+  let online: boolean;
+  let uploaded: EnergyMeasurement[][];
+  let meter: EnergyMeter;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'voltnet-buffer-'));
+    filePath = join(dir, 'queue.json');
+    online = false;
+    uploaded = [];
+    meter = {
+      submitBatch: async (measurements: EnergyMeasurement[]) => {
+        if (!online) throw new Error('socket hang up');
+        uploaded.push(measurements);
+        return { success: true, count: measurements.length };
+      }
+    } as unknown as EnergyMeter;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('keeps readings while offline and de-duplicates them', async () => {
+    const buffer = new MeasurementBuffer(meter, { filePath, retryInterval: 60000 });
+    await buffer.open();
+
+    expect(await buffer.submit(reading('m1', 0))).toBe(true);
+    expect(await buffer.submit(reading('m1', 0))).toBe(false);
+    expect(await buffer.submitBatch([reading('m1', 5), reading('m2', 0)])).toEqual([true, true]);
+
+    await expect(buffer.drain()).rejects.toThrow('socket hang up');
+    expect(buffer.getStatus().depth).toBe(3);
+    expect(JSON.parse(readFileSync(filePath, 'utf8'))).toHaveLength(3);
+    await buffer.close();
+  });
+
+  test('survives restarts and drains in order', async () => {
+    const first = new MeasurementBuffer(meter, { filePath, retryInterval: 60000 });
+    await first.open();
+    await first.submitBatch([reading('m1', 0), reading('m1', 5), reading('m1', 10)]);
+    await first.close();
+
+    online = true;
+    const second = new MeasurementBuffer(meter, { filePath, batchSize: 2 });
+    const progress: Array<{ sent: number; remaining: number }> = [];
+    second.on('drain-progress', p => progress.push(p));
+
+    await second.open();
+    await second.drain();
+
+    expect(uploaded.map(batch => batch.map(m => m.timestamp.slice(14, 16)))).toEqual([['00', '05'], ['10']]);
+    expect(progress).toEqual([{ sent: 2, remaining: 1 }, { sent: 3, remaining: 0 }]);
+    expect(second.getStatus()).toEqual({ depth: 0, oldestPendingAgeMs: 0 });
+    expect(JSON.parse(readFileSync(filePath, 'utf8'))).toEqual([]);
+    await second.close();
+  });
+
+  test('drops batches the API permanently rejects', async () => {
+    meter.submitBatch = async () => {
+      throw Object.assign(new Error('Bad Request'), { response: { status: 400 } });
+    };
+    const buffer = new MeasurementBuffer(meter, { filePath });
+    const rejected = jest.fn();
+    buffer.on('rejected', rejected);
+
+    await buffer.open();
+    await buffer.submit(reading('m1', 0));
+    await buffer.drain();
+
+    expect(rejected).toHaveBeenCalledTimes(1);
+    expect(buffer.getStatus().depth).toBe(0);
+    await buffer.close();
+  });
+
+  test('splits a rejected batch so only the offending reading is dropped', async () => {
+    online = true;
+    const submitBatch = meter.submitBatch.bind(meter);
+    meter.submitBatch = async (measurements, options) => {
+      if (measurements.some(m => m.energy < 0)) {
+        throw new ValidationError('Invalid measurement', { status: 422 });
+      }
+      return submitBatch(measurements, options);
+    };
+    const buffer = new MeasurementBuffer(meter, { filePath, batchSize: 5 });
+    const rejected: EnergyMeasurement[][] = [];
+    buffer.on('rejected', measurements => rejected.push(measurements));
+
+    await buffer.open();
+    await buffer.submitBatch([0, 5, 10, 15, 20].map(minute => reading('m1', minute)));
+    await buffer.submit({ ...reading('m2', 0), energy: -1 });
+    await buffer.submitBatch([reading('m3', 0), reading('m3', 5)]);
+    await buffer.drain();
+
+    expect(rejected).toEqual([[{ ...reading('m2', 0), energy: -1 }]]);
+    expect(uploaded.flat().map(m => `${m.deviceId}@${m.timestamp.slice(14, 16)}`)).toEqual([
+      'm1@00', 'm1@05', 'm1@10', 'm1@15', 'm1@20', 'm3@00', 'm3@05'
+    ]);
+    expect(buffer.getStatus().depth).toBe(0);
+    await buffer.close();
+  });
+
+  test('drops batches rejected with a ValidationError and keeps those hit by a ServerError', async () => {
+    const errors = [new ValidationError('Invalid measurement', { status: 422 }), new ServerError('Unavailable', { status: 503 })];
+    meter.submitBatch = async () => {
+      throw errors.shift();
+    };
+    const buffer = new MeasurementBuffer(meter, { filePath, retryInterval: 60000 });
+    const rejected = jest.fn();
+    const failed = jest.fn();
+    buffer.on('rejected', rejected);
+    buffer.on('error', failed);
+
+    await buffer.open();
+    await buffer.submit(reading('m1', 0));
+    await buffer.drain().catch(() => undefined);
+    await buffer.submit(reading('m1', 5));
+    await buffer.drain().catch(() => undefined);
+
+    expect(rejected).toHaveBeenCalledTimes(1);
+    expect(failed).toHaveBeenCalledWith(expect.any(ServerError));
+    expect(buffer.getStatus().depth).toBe(1);
+    await buffer.close();
+  });
+
+  test('reuses the idempotency key when a batch is resent', async () => {
+    const keys: string[] = [];
+    meter.submitBatch = async (_measurements, options) => {
+      keys.push(options!.idempotencyKey!);
+      if (keys.length === 1) {
+        throw new TimeoutError('POST /measurements/batch timed out');
+      }
+      return { success: true, count: 1 };
+    };
+    const buffer = new MeasurementBuffer(meter, { filePath, retryInterval: 60000 });
+    buffer.on('error', () => undefined);
+
+    await buffer.open();
+    await buffer.submit(reading('m1', 0));
+    await buffer.drain().catch(() => undefined);
+    await buffer.drain();
+
+    expect(keys).toHaveLength(2);
+    expect(keys[0]).toBe(keys[1]);
+    expect(buffer.getStatus().depth).toBe(0);
+    await buffer.close();
+  });
+});
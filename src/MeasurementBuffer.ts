@@ -0,0 +1,258 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import EventEmitter from 'eventemitter3';
+import { EnergyMeter } from './EnergyMeter';
+import { VoltnetError } from './VoltnetError';
+import {
+  EnergyMeasurement,
+  BufferStatus,
+  MeasurementBufferEvents
+} from './types';
+
+interface BufferedMeasurement {
+  measurement: EnergyMeasurement;
+  /** Time the reading was queued (ms since epoch) */
+  queuedAt: number;
+}
+
+/**
+ * Measurement Buffer
+ * Durable, file-backed outbound queue for measurements.
+ * Readings are accepted while offline, survive restarts and are
+ * drained in order through EnergyMeter.submitBatch.
+ */
+export class MeasurementBuffer extends EventEmitter<MeasurementBufferEvents> {
+  private meter: EnergyMeter;
+  private filePath: string;
+  private batchSize: number;
+  private retryInterval: number;
+  private queue: BufferedMeasurement[] = [];
+  private keys = new Set<string>();
+  private writeChain: Promise<void> = Promise.resolve();
+  private draining?: Promise<void>;
+  private retryTimer?: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(
+    meter: EnergyMeter,
+    options: {
+      /** File the queue is persisted to */
+      filePath: string;
+      /** Readings per submitBatch call */
+      batchSize?: number;
+      /** Delay before retrying after a failed drain, in ms */
+      retryInterval?: number;
+    }
+  ) {
+    super();
+    this.meter = meter;
+    this.filePath = options.filePath;
+    this.batchSize = options.batchSize || 100;
+    this.retryInterval = options.retryInterval || 30000;
+  }
+
+  /**
+   * Load readings persisted by a previous process and start draining them
+   */
+  async open(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      const entries: BufferedMeasurement[] = JSON.parse(content);
+      for (const entry of entries) {
+        this.add(entry);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.emitStatus();
+    if (this.queue.length > 0) {
+      this.drain().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Queue a measurement for submission
+   * @param measurement Energy measurement
+   * @returns False if an identical deviceId+timestamp reading is already queued
+   */
+  async submit(measurement: EnergyMeasurement): Promise<boolean> {
+    const [added] = await this.submitBatch([measurement]);
+    return added;
+  }
+
+  /**
+   * Queue a batch of measurements for submission
+   * @param measurements Array of energy measurements
+   * @returns Per-reading flags, false for duplicates
+   */
+  async submitBatch(measurements: EnergyMeasurement[]): Promise<boolean[]> {
+    if (this.closed) {
+      throw new Error('MeasurementBuffer is closed');
+    }
+
+    const queuedAt = Date.now();
+    const added = measurements.map(measurement => this.add({ measurement, queuedAt }));
+
+    await this.persist();
+
+    measurements.forEach((measurement, i) => {
+      if (added[i]) this.emit('enqueued', measurement);
+    });
+    this.emitStatus();
+    this.drain().catch(() => undefined);
+
+    return added;
+  }
+
+  /**
+   * Submit all queued readings now.
+   * Resolves when the queue is empty; rejects if the upload fails,
+   * in which case a retry is scheduled automatically.
+   */
+  drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.runDrain().finally(() => {
+        this.draining = undefined;
+      });
+    }
+    return this.draining;
+  }
+
+  /**
+   * Get current queue status
+   * @returns Queue depth and oldest pending age
+   */
+  getStatus(): BufferStatus {
+    return {
+      depth: this.queue.length,
+      oldestPendingAgeMs: this.queue.length > 0 ? Date.now() - this.queue[0].queuedAt : 0
+    };
+  }
+
+  /**
+   * Stop retrying and wait for pending writes. Queued readings stay on disk.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+    await this.writeChain;
+  }
+
+  private async runDrain(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+
+    const progress = { sent: 0 };
+
+    while (this.queue.length > 0 && !this.closed) {
+      await this.upload(this.queue.slice(0, this.batchSize).map(entry => entry.measurement), progress);
+    }
+
+    if (progress.sent > 0) {
+      this.emit('drained', { sent: progress.sent });
+    }
+  }
+
+  /**
+   * Upload readings from the head of the queue and remove them. A batch
+   * the API permanently rejects is split in halves until only the
+   * offending readings are rejected, so they do not take valid ones with them.
+   */
+  private async upload(batch: EnergyMeasurement[], progress: { sent: number }): Promise<void> {
+    // Derived from the readings, so a batch resent after a lost response keeps its key
+    const idempotencyKey = createHash('sha256').update(batch.map(m => this.getKey(m)).join('\n')).digest('hex');
+
+    try {
+      await this.meter.submitBatch(batch, { idempotencyKey });
+    } catch (error) {
+      if (!this.isPermanentFailure(error)) {
+        this.emit('error', error as Error);
+        this.scheduleRetry();
+        throw error;
+      }
+      if (batch.length > 1) {
+        const middle = Math.ceil(batch.length / 2);
+        await this.upload(batch.slice(0, middle), progress);
+        if (!this.closed) {
+          await this.upload(batch.slice(middle), progress);
+        }
+        return;
+      }
+      this.emit('rejected', batch, error as Error);
+    }
+
+    this.remove(batch.length);
+    await this.persist();
+
+    progress.sent += batch.length;
+    this.emit('drain-progress', { sent: progress.sent, remaining: this.queue.length });
+    this.emitStatus();
+  }
+
+  /**
+   * A 4xx response (other than timeout or rate limit) will never succeed on retry
+   */
+  private isPermanentFailure(error: unknown): boolean {
+    const status = error instanceof VoltnetError
+      ? error.status
+      : (error as { response?: { status?: number } } | undefined)?.response?.status;
+    return status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429;
+  }
+
+  private scheduleRetry(): void {
+    if (this.closed || this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.drain().catch(() => undefined);
+    }, this.retryInterval);
+  }
+
+  private add(entry: BufferedMeasurement): boolean {
+    const key = this.getKey(entry.measurement);
+    if (this.keys.has(key)) return false;
+    this.keys.add(key);
+    this.queue.push(entry);
+    return true;
+  }
+
+  private remove(count: number): void {
+    for (const entry of this.queue.splice(0, count)) {
+      this.keys.delete(this.getKey(entry.measurement));
+    }
+  }
+
+  private getKey(measurement: EnergyMeasurement): string {
+    const time = Date.parse(measurement.timestamp);
+    return `${measurement.deviceId}|${isNaN(time) ? measurement.timestamp : time}`;
+  }
+
+  /**
+   * Write the queue atomically; writes are serialized so the file
+   * always holds a complete snapshot
+   */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.queue);
+    const tmpPath = `${this.filePath}.tmp`;
+
+    this.writeChain = this.writeChain
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.writeFile(tmpPath, snapshot, 'utf8');
+        await fs.rename(tmpPath, this.filePath);
+      });
+
+    return this.writeChain;
+  }
+
+  private emitStatus(): void {
+    this.emit('status', this.getStatus());
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Tests for the measurement hash chain
+ */
+
+import { MeasurementChain, verifyChain, GENESIS_HASH } from './MeasurementChain';
+import { generateDeviceKeyPair, signMeasurement } from './signing';
+import { EnergyMeasurement, EnergySource } from './types';
+
+const keys = generateDeviceKeyPair('ed25519');
+
+function buildChain(count: number): EnergyMeasurement[] {
+  const chain = new MeasurementChain();
+  const readings: EnergyMeasurement[] = [];
+  for (let i = 0; i < count; i++) {
+    readings.push(chain.append({
+      deviceId: 'meter-001',
+      timestamp: new Date(Date.UTC(2024, 0, 15, 12, i * 15)).toISOString(),
+      energy: 1 + i / 10,
+      source: EnergySource.SOLAR
+    }, keys.privateKey));
+  }
+  return readings;
+}
+
+describe('MeasurementChain', () => {
+  test('append links readings', () => {
+    const readings = buildChain(3);
+    expect(readings.map(r => r.sequence)).toEqual([1, 2, 3]);
+    expect(readings[0].previousHash).toBe(GENESIS_HASH);
+    expect(readings[1].previousHash).not.toBe(GENESIS_HASH);
+  });
+
+  test('append continues from persisted heads', () => {
+    const chain = new MeasurementChain();
+    chain.append({ deviceId: 'm', timestamp: '2024-01-15T12:00:00Z', energy: 1, source: EnergySource.GRID }, keys.privateKey);
+    const restored = new MeasurementChain(chain.getHeads());
+    const next = restored.append(
+      { deviceId: 'm', timestamp: '2024-01-15T12:15:00Z', energy: 1, source: EnergySource.GRID },
+      keys.privateKey
+    );
+    expect(next.sequence).toBe(2);
+    expect(next.previousHash).toBe(chain.getHead('m')!.hash);
+  });
+
+  test('append rejects readings older than the head', () => {
+    const chain = new MeasurementChain();
+    chain.append({ deviceId: 'm', timestamp: '2024-01-15T12:00:00Z', energy: 1, source: EnergySource.GRID }, keys.privateKey);
+    expect(() => chain.append(
+      { deviceId: 'm', timestamp: '2024-01-15T11:00:00Z', energy: 1, source: EnergySource.GRID },
+      keys.privateKey
+    )).toThrow();
+  });
+});
+
+describe('verifyChain', () => {
+  test('intact chain verifies', () => {
+    const result = verifyChain(buildChain(5), { publicKey: keys.publicKey });
+    expect(result.valid).toBe(true);
+    expect(result.head?.sequence).toBe(5);
+  });
+
+  test('detects dropped interval', () => {
+    const readings = buildChain(5);
+    readings.splice(2, 1);
+    const result = verifyChain(readings, { publicKey: keys.publicKey });
+    expect(result.issues.map(i => i.type)).toEqual(['gap']);
+    expect(result.issues[0].sequence).toBe(4);
+  });
+
+  test('detects reordered entries', () => {
+    const readings = buildChain(4);
+    [readings[1], readings[2]] = [readings[2], readings[1]];
+    expect(verifyChain(readings).issues.map(i => i.type)).toEqual(['reorder']);
+  });
+
+  test('detects edited entry without re-signing', () => {
+    const readings = buildChain(4);
+    readings[1] = { ...readings[1], energy: 9 };
+    const types = verifyChain(readings, { publicKey: keys.publicKey }).issues.map(i => i.type);
+    expect(types).toEqual(['edited', 'edited']);
+  });
+
+  test('detects edited entry that was re-signed', () => {
+    const readings = buildChain(4);
+    const { signature: _signature, ...unsigned } = readings[1];
+    readings[1] = signMeasurement({ ...unsigned, energy: 9 }, keys.privateKey);
+    const result = verifyChain(readings, { publicKey: keys.publicKey });
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({ type: 'edited', sequence: 2 });
+  });
+
+  test('detects forks', () => {
+    const readings = buildChain(3);
+    const { signature: _signature, ...unsigned } = readings[2];
+    readings.push(signMeasurement({ ...unsigned, energy: 0 }, keys.privateKey));
+    expect(verifyChain(readings).issues.map(i => i.type)).toEqual(['fork']);
+  });
+
+  test('verifies a range against its preceding entry', () => {
+    const readings = buildChain(6);
+    const head = verifyChain(readings.slice(0, 3)).head!;
+    expect(verifyChain(readings.slice(3), { previous: head }).valid).toBe(true);
+    expect(verifyChain(readings.slice(4), { previous: head }).issues[0].type).toBe('gap');
+  });
+});
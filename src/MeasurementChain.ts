@@ -0,0 +1,197 @@
+import { createHash } from 'crypto';
+import {
+  EnergyMeasurement,
+  ChainHead,
+  ChainIssue,
+  ChainVerificationResult,
+  KeyRotation
+} from './types';
+import { canonicalize, signMeasurement, verifyDeviceMeasurement, KeyInput } from './signing';
+
+/**
+ * previousHash of the first reading in every chain
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Hash a signed measurement (all fields, including the signature)
+ * @param measurement Signed measurement
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashMeasurement(measurement: EnergyMeasurement): string {
+  return createHash('sha256').update(canonicalize(measurement)).digest('hex');
+}
+
+/**
+ * Measurement Chain
+ * Append-only, hash-linked log of signed readings per device
+ */
+export class MeasurementChain {
+  private heads: Map<string, ChainHead>;
+
+  /**
+   * @param heads Previously persisted chain heads to continue from
+   */
+  constructor(heads: ChainHead[] = []) {
+    this.heads = new Map(heads.map(head => [head.deviceId, head]));
+  }
+
+  /**
+   * Append a reading to its device's chain and sign it
+   * @param measurement Measurement data without chain fields or signature
+   * @param privateKey Device private key
+   * @returns Signed measurement linked to the previous reading
+   */
+  append(
+    measurement: Omit<EnergyMeasurement, 'signature' | 'sequence' | 'previousHash'>,
+    privateKey: KeyInput
+  ): EnergyMeasurement {
+    const head = this.heads.get(measurement.deviceId);
+
+    if (head && new Date(measurement.timestamp).getTime() < new Date(head.timestamp).getTime()) {
+      throw new Error(
+        `Measurement at ${measurement.timestamp} is older than chain head at ${head.timestamp}`
+      );
+    }
+
+    const signed = signMeasurement(
+      {
+        ...measurement,
+        sequence: head ? head.sequence + 1 : 1,
+        previousHash: head ? head.hash : GENESIS_HASH
+      },
+      privateKey
+    );
+
+    this.heads.set(measurement.deviceId, {
+      deviceId: measurement.deviceId,
+      sequence: signed.sequence!,
+      hash: hashMeasurement(signed),
+      timestamp: signed.timestamp
+    });
+
+    return signed;
+  }
+
+  /**
+   * Get the latest entry of a device's chain
+   * @param deviceId Device ID
+   * @returns Chain head, or undefined if nothing was appended yet
+   */
+  getHead(deviceId: string): ChainHead | undefined {
+    return this.heads.get(deviceId);
+  }
+
+  /**
+   * Get all chain heads (e.g. to persist them across restarts)
+   * @returns Array of chain heads
+   */
+  getHeads(): ChainHead[] {
+    return Array.from(this.heads.values());
+  }
+}
+
+/**
+ * Verify a range of chained readings from a single device.
+ * Reports gaps, reorders, forks and edited entries.
+ * @param measurements Readings in the order they were returned
+ * @param options Device public key and key rotations, and the entry preceding the range if it does not start at sequence 1
+ * @returns Verification result
+ */
+export function verifyChain(
+  measurements: EnergyMeasurement[],
+  options: { publicKey?: KeyInput; keyRotations?: KeyRotation[]; previous?: ChainHead } = {}
+): ChainVerificationResult {
+  const issues: ChainIssue[] = [];
+  const bySequence = new Map<number, { measurement: EnergyMeasurement; hash: string; index: number }>();
+  let lastSequence: number | undefined;
+
+  measurements.forEach((measurement, index) => {
+    const { sequence } = measurement;
+
+    if (sequence === undefined || measurement.previousHash === undefined) {
+      issues.push({ type: 'unchained', index, message: `Entry ${index} has no chain fields` });
+      return;
+    }
+
+    if (options.publicKey) {
+      const result = verifyDeviceMeasurement(measurement, options, { history: true });
+      if (!result.valid) {
+        issues.push({
+          type: 'edited',
+          sequence,
+          index,
+          message: `Entry ${sequence} failed signature verification (${result.reason})`
+        });
+      }
+    }
+
+    if (lastSequence !== undefined && sequence < lastSequence) {
+      issues.push({
+        type: 'reorder',
+        sequence,
+        index,
+        message: `Entry ${sequence} appears after entry ${lastSequence}`
+      });
+    }
+    lastSequence = sequence;
+
+    const hash = hashMeasurement(measurement);
+    const existing = bySequence.get(sequence);
+    if (!existing) {
+      bySequence.set(sequence, { measurement, hash, index });
+    } else if (existing.hash !== hash) {
+      issues.push({
+        type: 'fork',
+        sequence,
+        index,
+        message: `Entries ${existing.index} and ${index} both claim sequence ${sequence}`
+      });
+    }
+  });
+
+  let previous = options.previous;
+  const entries = Array.from(bySequence.entries()).sort(([a], [b]) => a - b);
+
+  for (const [sequence, { measurement, hash, index }] of entries) {
+    if (!previous) {
+      if (sequence === 1 && measurement.previousHash !== GENESIS_HASH) {
+        issues.push({
+          type: 'edited',
+          sequence,
+          index,
+          message: 'First entry does not link to the genesis hash'
+        });
+      }
+    } else if (sequence > previous.sequence + 1) {
+      issues.push({
+        type: 'gap',
+        sequence,
+        index,
+        message: `Entries ${previous.sequence + 1} to ${sequence - 1} are missing`
+      });
+    } else if (sequence === previous.sequence + 1 && measurement.previousHash !== previous.hash) {
+      issues.push({
+        type: 'edited',
+        sequence: previous.sequence,
+        index,
+        message: `Entry ${previous.sequence} does not match the hash recorded by entry ${sequence}`
+      });
+    }
+
+    previous = {
+      deviceId: measurement.deviceId,
+      sequence,
+      hash,
+      timestamp: measurement.timestamp
+    };
+  }
+
+  issues.sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0) || a.index - b.index);
+
+  return {
+    valid: issues.length === 0,
+    issues,
+    head: previous
+  };
+}
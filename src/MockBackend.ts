@@ -0,0 +1,1268 @@
+import EventEmitter from 'eventemitter3';
+import { createHash } from 'crypto';
+import { calculateDistance, validateMeasurement } from './utils';
+import { exportedEnergy, flowTotals, flowTotalsByDevice, importedEnergy } from './netMetering';
+import { DEFAULT_PAGE_SIZE, DAY_MS } from './pagination';
+import {
+  Balance,
+  DeviceRegistration,
+  EnergyMeasurement,
+  EnergySource,
+  EnergyTransaction,
+  MarketOffer,
+  MockBackendEvents,
+  MockBackendOptions,
+  MockEvent,
+  MockFixtures,
+  MockRequest,
+  MockResponse,
+  Page,
+  Participant,
+  PriceInfo,
+  PricingModel,
+  Settlement,
+  Statistics,
+  TransactionStatus
+} from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Price multipliers by hour of day (UTC) */
+const TIME_OF_USE = [
+  { startHour: 0, endHour: 7, period: 'off-peak', multiplier: 0.7 },
+  { startHour: 7, endHour: 17, period: 'mid-peak', multiplier: 1 },
+  { startHour: 17, endHour: 21, period: 'peak', multiplier: 1.5 },
+  { startHour: 21, endHour: 24, period: 'mid-peak', multiplier: 1 }
+] as const;
+
+const SUMMARY_PERIODS: Record<string, number> = {
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS,
+  year: 365 * DAY_MS
+};
+
+/** Fields named in validateMeasurement's messages, most specific first */
+const MEASUREMENT_FIELDS = ['deviceId', 'timestamp', 'exportEnergy', 'energy', 'power', 'direction', 'source'];
+
+const DEVICE_TYPES = ['meter', 'charger', 'solar_panel', 'battery', 'other'];
+
+interface RouteContext {
+  participantId: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: any;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: (context: RouteContext) => unknown;
+  status: number;
+}
+
+interface Account {
+  available: number;
+  pending: number;
+  lastUpdated: string;
+}
+
+interface CustomPricing {
+  model: PricingModel;
+  basePrice: number;
+  currency: string;
+  factors?: any;
+}
+
+/**
+ * Error answered with its status and a `{ code, message, errors }` body
+ */
+class HttpError extends Error {
+  status: number;
+  code: string;
+  errors?: Array<{ field: string; message: string }>;
+
+  constructor(status: number, code: string, message: string, errors?: Array<{ field: string; message: string }>) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.errors = errors;
+  }
+}
+
+function invalid(field: string, message: string): HttpError {
+  return new HttpError(422, 'VALIDATION_FAILED', message, [{ field, message }]);
+}
+
+function positive(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw invalid(field, `${field} must be a positive number`);
+  }
+  return value;
+}
+
+function timestamp(value: unknown, field: string): number {
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (isNaN(time)) throw invalid(field, `${field} must be an ISO 8601 timestamp`);
+  return time;
+}
+
+/** Numeric query parameter; undefined if absent */
+function numberParam(query: Record<string, string>, name: string): number | undefined {
+  if (query[name] === undefined || query[name] === '') return undefined;
+  const value = Number(query[name]);
+  if (isNaN(value)) throw new HttpError(400, 'INVALID_PARAMETER', `${name} must be a number`);
+  return value;
+}
+
+/** `{ lat, lon, radius }` sent as `location[lat]=...` or as top-level parameters */
+function locationParam(query: Record<string, string>, prefix?: string): { lat: number; lon: number; radius?: number } | undefined {
+  const name = (key: string) => (prefix ? `${prefix}[${key}]` : key);
+  const lat = numberParam(query, name('lat'));
+  const lon = numberParam(query, name('lon'));
+  if (lat === undefined || lon === undefined) return undefined;
+  return { lat, lon, radius: numberParam(query, name('radius')) };
+}
+
+/** Whether a timestamp lies within the inclusive `from`/`to` query range */
+function inRange(time: string, query: Record<string, string>): boolean {
+  const value = Date.parse(time);
+  return (!query.from || value >= Date.parse(query.from)) && (!query.to || value <= Date.parse(query.to));
+}
+
+/** A plain array, or a page when the request asks for one with `cursor` or `limit` */
+function paged<T>(items: T[], query: Record<string, string>): T[] | Page<T> {
+  if (query.cursor === undefined && query.limit === undefined) return items;
+
+  const start = query.cursor ? Number(query.cursor) : 0;
+  const limit = query.limit ? Number(query.limit) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(start) || start < 0) throw new HttpError(400, 'INVALID_CURSOR', `Invalid cursor ${query.cursor}`);
+  if (!Number.isInteger(limit) || limit < 1) throw new HttpError(400, 'INVALID_PARAMETER', 'limit must be a positive integer');
+
+  const end = start + limit;
+  return end < items.length ? { items: items.slice(start, end), nextCursor: String(end) } : { items: items.slice(start) };
+}
+
+function byTimestamp<T extends { timestamp: string }>(a: T, b: T): number {
+  return Date.parse(a.timestamp) - Date.parse(b.timestamp);
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(4));
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Mock Backend
+ * In-memory stand-in for the VOLTNET API that answers every route the SDK
+ * calls from one consistent state. Accepting an offer reduces its energy,
+ * reserves the buyer's funds and creates a pending transaction; settling
+ * pays the seller minus the network fee. State changes are published as
+ * real-time events, numbered per participant so they can be replayed.
+ *
+ * Requests authenticate with a seeded participant's API key as bearer
+ * token. Responses to requests with an Idempotency-Key are remembered and
+ * repeated for retries. Serve it with MockVoltnetServer, or call handle()
+ * directly.
+ */
+export class MockBackend extends EventEmitter<MockBackendEvents> {
+  private currency: string;
+  private networkFeeRate: number;
+  private eventRetention: number;
+  private routes: Route[] = [];
+  private apiKeys = new Map<string, string>();
+  private participants = new Map<string, Participant>();
+  private accounts = new Map<string, Account>();
+  private devices = new Map<string, DeviceRegistration>();
+  private measurements = new Map<string, EnergyMeasurement[]>();
+  private offers = new Map<string, MarketOffer>();
+  private transactions = new Map<string, EnergyTransaction>();
+  private settlements = new Map<string, Settlement>();
+  private prices: PriceInfo[] = [];
+  private customPricing = new Map<string, CustomPricing>();
+  private refunds = new Map<string, string>();
+  private responses = new Map<string, MockResponse>();
+  private eventLogs = new Map<string, { seq: number; events: MockEvent[] }>();
+  private counters = new Map<string, number>();
+
+  constructor(options: MockBackendOptions = {}) {
+    super();
+    this.currency = options.currency ?? 'EUR';
+    this.networkFeeRate = options.networkFeeRate ?? 0.01;
+    this.eventRetention = options.eventRetention ?? 1000;
+    this.prices.push({
+      pricePerKwh: options.basePrice ?? 0.25,
+      currency: this.currency,
+      model: PricingModel.DYNAMIC,
+      validFrom: new Date().toISOString()
+    });
+
+    this.setupRoutes();
+    if (options.fixtures) {
+      this.seed(options.fixtures);
+    }
+  }
+
+  /**
+   * Add state. Pending transactions count towards the pending balances of
+   * their buyer and seller; their funds are assumed to be reserved already.
+   * @param fixtures Participants, devices, measurements, offers, transactions, settlements and prices
+   */
+  seed(fixtures: MockFixtures): void {
+    for (const { apiKey, balance, ...participant } of fixtures.participants || []) {
+      this.participants.set(participant.id, clone(participant));
+      if (apiKey) this.apiKeys.set(apiKey, participant.id);
+      this.account(participant.id).available = balance ?? 0;
+    }
+    for (const device of fixtures.devices || []) {
+      this.devices.set(device.deviceId, clone(device));
+    }
+    for (const measurement of fixtures.measurements || []) {
+      this.storeMeasurement(clone(measurement));
+    }
+    for (const offer of fixtures.offers || []) {
+      this.offers.set(offer.id, clone(offer));
+    }
+    for (const transaction of fixtures.transactions || []) {
+      this.transactions.set(transaction.id, clone(transaction));
+      if (transaction.status === TransactionStatus.PENDING) {
+        this.adjust(transaction.buyerId, 0, transaction.totalCost);
+        this.adjust(transaction.sellerId, 0, this.proceeds(transaction));
+      }
+    }
+    for (const settlement of fixtures.settlements || []) {
+      this.settlements.set(settlement.id, clone(settlement));
+    }
+    this.prices.push(...clone(fixtures.prices || []));
+  }
+
+  /**
+   * Answer an API request
+   * @param request Method, URL, headers and raw body
+   * @returns Status, body and headers
+   */
+  handle(request: MockRequest): MockResponse {
+    const url = new URL(request.url, 'http://localhost');
+    const method = request.method.toUpperCase();
+    const authorization = firstHeader(request.headers.authorization) || '';
+    const participantId = this.authenticate(authorization.replace(/^Bearer /, ''));
+    if (!participantId) {
+      return { status: 401, body: { code: 'UNAUTHORIZED', message: 'Missing or unknown API key' } };
+    }
+
+    const key = firstHeader(request.headers['idempotency-key']);
+    const responseKey = key && `${participantId} ${method} ${url.pathname} ${key}`;
+    const previous = responseKey && this.responses.get(responseKey);
+    if (previous) {
+      return clone(previous);
+    }
+
+    let response: MockResponse;
+    try {
+      const body = request.body ? JSON.parse(request.body) : undefined;
+      response = this.dispatch(method, url, participantId, body);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        response = { status: 400, body: { code: 'INVALID_JSON', message: error.message } };
+      } else if (error instanceof HttpError) {
+        response = { status: error.status, body: { code: error.code, message: error.message, errors: error.errors } };
+      } else {
+        throw error;
+      }
+    }
+
+    // A key repeats its first answer, errors included
+    if (responseKey) {
+      this.responses.set(responseKey, response);
+    }
+    return clone(response);
+  }
+
+  /**
+   * Find the participant an API key belongs to
+   * @param apiKey API key
+   * @returns Participant ID, or undefined if the key is unknown
+   */
+  authenticate(apiKey: string | undefined): string | undefined {
+    return apiKey ? this.apiKeys.get(apiKey) : undefined;
+  }
+
+  /**
+   * Publish a new market price to every participant
+   * @param price Price; applies to `price.source`, or to all sources without one
+   */
+  setPrice(price: PriceInfo): void {
+    this.prices.push(clone(price));
+    this.publish('price-update', price);
+  }
+
+  /**
+   * Publish a real-time event
+   * @param type Event type, e.g. 'transaction'
+   * @param payload Event payload
+   * @param participantIds Receivers; each gets the next number of its event sequence (default: everyone, unnumbered)
+   */
+  publish(type: string, payload: unknown, participantIds?: string[]): void {
+    const timestamp = new Date().toISOString();
+    if (!participantIds) {
+      this.emit('event', { type, payload: clone(payload), timestamp });
+      return;
+    }
+
+    for (const participantId of new Set(participantIds)) {
+      const log = this.eventLogs.get(participantId) || { seq: 0, events: [] };
+      const event: MockEvent = { type, payload: clone(payload), participantId, seq: ++log.seq, timestamp };
+      log.events.push(event);
+      if (log.events.length > this.eventRetention) log.events.shift();
+      this.eventLogs.set(participantId, log);
+      this.emit('event', event);
+    }
+  }
+
+  /**
+   * Get a participant's events after a sequence number, for replay
+   * @param participantId Participant ID
+   * @param after Sequence number of the last event the client has
+   * @returns Events in order, or undefined if some are no longer retained
+   */
+  getEventsAfter(participantId: string, after: number): MockEvent[] | undefined {
+    const log = this.eventLogs.get(participantId);
+    const head = log?.seq ?? 0;
+    const events = log ? log.events.filter(event => event.seq! > after) : [];
+    return after <= head && events.length === head - after ? events : undefined;
+  }
+
+  /**
+   * Get the sequence number of a participant's latest event
+   */
+  getEventHead(participantId: string): number {
+    return this.eventLogs.get(participantId)?.seq ?? 0;
+  }
+
+  /**
+   * Get a participant's balance
+   */
+  balanceOf(participantId: string): Balance {
+    const account = this.account(participantId);
+    return {
+      participantId,
+      available: account.available,
+      pending: account.pending,
+      currency: this.currency,
+      lastUpdated: account.lastUpdated
+    };
+  }
+
+  /**
+   * Copy of the current state, in the shape accepted by seed()
+   */
+  snapshot(): MockFixtures {
+    const apiKeys = new Map([...this.apiKeys].map(([key, id]) => [id, key]));
+    return clone({
+      participants: [...this.participants.values()].map(participant => ({
+        ...participant,
+        apiKey: apiKeys.get(participant.id),
+        balance: this.account(participant.id).available
+      })),
+      devices: [...this.devices.values()],
+      measurements: [...this.measurements.values()].flat(),
+      offers: [...this.offers.values()],
+      transactions: [...this.transactions.values()],
+      settlements: [...this.settlements.values()],
+      prices: this.prices
+    });
+  }
+
+  private setupRoutes(): void {
+    this.addRoute('GET', '/participants/search', context => this.searchParticipants(context));
+    this.addRoute('GET', '/participants/:id', ({ params }) => this.requireParticipant(params.id));
+    this.addRoute('PATCH', '/participants/:id', context => this.updateParticipant(context));
+    this.addRoute('GET', '/participants/:id/balance', context => this.balanceOf(this.requireSelf(context)));
+    this.addRoute('GET', '/participants/:id/statistics', context => this.getStatistics(context));
+
+    this.addRoute('POST', '/measurements', context => this.submitMeasurement(context), 201);
+    this.addRoute('POST', '/measurements/batch', context => this.submitBatch(context));
+    this.addRoute('GET', '/measurements', context => this.getMeasurements(context));
+    this.addRoute('GET', '/measurements/:deviceId/latest', context => this.getLatestMeasurement(context));
+
+    this.addRoute('POST', '/devices', context => this.registerDevice(context), 201);
+    this.addRoute('GET', '/devices', ({ participantId }) =>
+      [...this.devices.values()].filter(device => device.ownerId === participantId));
+    this.addRoute('GET', '/devices/:id', ({ params }) => this.requireDevice(params.id));
+    this.addRoute('PATCH', '/devices/:id', context => this.updateDevice(context));
+    this.addRoute('DELETE', '/devices/:id', context => this.deleteDevice(context));
+
+    this.addRoute('GET', '/pricing/current', ({ query }) => this.currentPrice(query.source));
+    this.addRoute('GET', '/pricing/history', ({ query }) => this.prices.filter(price =>
+      inRange(price.validFrom, query) && (!query.source || price.source === query.source)));
+    this.addRoute('GET', '/pricing/forecast', ({ query }) =>
+      this.forecast(Date.now(), numberParam(query, 'hours') ?? 24, query.source));
+    this.addRoute('GET', '/pricing/optimal', context => this.getOptimalTime(context));
+    this.addRoute('POST', '/pricing/custom', context => this.setCustomPrice(context));
+    this.addRoute('GET', '/pricing/model/:id', context => this.getPricingModel(context));
+    this.addRoute('POST', '/pricing/compare', context => this.comparePrices(context));
+    this.addRoute('GET', '/pricing/time-of-use', () => TIME_OF_USE.map(({ startHour, endHour, period, multiplier }) => ({
+      startHour,
+      endHour,
+      pricePerKwh: round(this.currentPrice().pricePerKwh * multiplier),
+      period
+    })));
+
+    this.addRoute('POST', '/market/offers', context => this.createOffer(context), 201);
+    this.addRoute('GET', '/market/offers', context => this.getOffers(context));
+    this.addRoute('GET', '/market/offers/my', ({ participantId }) =>
+      [...this.offers.values()].filter(offer => offer.sellerId === participantId));
+    this.addRoute('GET', '/market/offers/nearby', context => this.findNearbyOffers(context));
+    this.addRoute('POST', '/market/offers/best', context => this.getBestOffer(context));
+    this.addRoute('POST', '/market/offers/recurring', context => this.createRecurringOffer(context), 201);
+    this.addRoute('GET', '/market/offers/:id', ({ params }) => this.requireOffer(params.id));
+    this.addRoute('POST', '/market/offers/:id/accept', context => this.acceptOffer(context), 201);
+    this.addRoute('DELETE', '/market/offers/:id', context => this.cancelOffer(context));
+    this.addRoute('PATCH', '/market/offers/:id', context => this.updateOffer(context));
+    this.addRoute('GET', '/market/stats', () => this.getMarketStats());
+    this.addRoute('GET', '/market/price-suggestion', context => this.getSuggestedPrice(context));
+
+    this.addRoute('GET', '/transactions', context => this.getTransactions(context));
+    this.addRoute('POST', '/transactions', context => this.createTransaction(context), 201);
+    this.addRoute('GET', '/transactions/sales', ({ participantId, query }) => paged(
+      this.transactionsOf(participantId).filter(t => t.sellerId === participantId && inRange(t.timestamp, query)), query));
+    this.addRoute('GET', '/transactions/purchases', ({ participantId, query }) => paged(
+      this.transactionsOf(participantId).filter(t => t.buyerId === participantId && inRange(t.timestamp, query)), query));
+    this.addRoute('GET', '/transactions/summary', context => this.getTransactionSummary(context));
+    this.addRoute('GET', '/transactions/export', context => this.exportTransactions(context));
+    this.addRoute('POST', '/transactions/calculate-fees', context => this.calculateFees(context));
+    this.addRoute('GET', '/transactions/:id', ({ participantId, params }) => this.requireTransaction(params.id, participantId));
+    this.addRoute('POST', '/transactions/:id/cancel', context => this.cancelTransaction(context));
+    this.addRoute('GET', '/transactions/:id/receipt', context => this.getReceipt(context));
+    this.addRoute('GET', '/transactions/:id/verify', context => this.verifyTransaction(context));
+    this.addRoute('POST', '/transactions/:id/refund', context => this.requestRefund(context), 201);
+
+    this.addRoute('GET', '/settlements', ({ participantId, query }) => paged(
+      this.settlementsOf(participantId).filter(settlement => inRange(settlement.timestamp, query)),
+      query
+    ));
+    this.addRoute('GET', '/settlements/pending', ({ participantId }) =>
+      this.settlementsOf(participantId).filter(settlement => settlement.status === 'pending'));
+    this.addRoute('POST', '/settlements/trigger', context => this.triggerSettlement(context), 201);
+    this.addRoute('GET', '/settlements/:id', ({ participantId, params }) => {
+      const settlement = this.settlements.get(params.id);
+      if (!settlement || !settlement.participants.includes(participantId)) {
+        throw new HttpError(404, 'SETTLEMENT_NOT_FOUND', `Settlement ${params.id} not found`);
+      }
+      return settlement;
+    });
+  }
+
+  private addRoute(method: string, path: string, handler: (context: RouteContext) => unknown, status = 200): void {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_match, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler, status });
+  }
+
+  private dispatch(method: string, url: URL, participantId: string, body: any): MockResponse {
+    this.expireOffers();
+
+    for (const route of this.routes) {
+      const match = route.method === method ? route.pattern.exec(url.pathname) : null;
+      if (!match) continue;
+
+      const params: Record<string, string> = {};
+      route.keys.forEach((key, index) => (params[key] = decodeURIComponent(match[index + 1])));
+      const query = Object.fromEntries(url.searchParams);
+      const result = route.handler({ participantId, params, query, body });
+      return { status: route.status, body: result === undefined ? null : result };
+    }
+
+    throw new HttpError(404, 'ROUTE_NOT_FOUND', `No route for ${method} ${url.pathname}`);
+  }
+
+  // Participants
+
+  private searchParticipants({ query }: RouteContext): Participant[] {
+    const location = locationParam(query, 'location');
+    const limit = numberParam(query, 'limit');
+    const results = [...this.participants.values()].filter(participant =>
+      (!query.type || participant.type === query.type) &&
+      (!location || (participant.location !== undefined && calculateDistance(
+        location.lat, location.lon, participant.location.latitude, participant.location.longitude
+      ) <= (location.radius ?? Infinity)))
+    );
+    return limit === undefined ? results : results.slice(0, limit);
+  }
+
+  private updateParticipant(context: RouteContext): Participant {
+    const participant = this.requireParticipant(this.requireSelf(context));
+    Object.assign(participant, context.body, { id: participant.id });
+    return participant;
+  }
+
+  private getStatistics(context: RouteContext): Statistics {
+    const participantId = this.requireSelf(context);
+    const { query } = context;
+    const measurements = [...this.devices.values()]
+      .filter(device => device.ownerId === participantId)
+      .flatMap(device => (this.measurements.get(device.deviceId) || []).filter(m => inRange(m.timestamp, query)));
+    const transactions = this.transactionsOf(participantId)
+      .filter(t => inRange(t.timestamp, query) && !this.isVoid(t));
+    const bought = transactions.filter(t => t.buyerId === participantId);
+    const sold = transactions.filter(t => t.sellerId === participantId);
+    const sum = (items: EnergyTransaction[], field: 'energy' | 'totalCost') =>
+      round(items.reduce((total, t) => total + t[field], 0));
+
+    const totals = flowTotals(measurements);
+    const sourceBreakdown: Record<string, number> = {};
+    for (const measurement of measurements) {
+      sourceBreakdown[measurement.source] = round(
+        (sourceBreakdown[measurement.source] || 0) + importedEnergy(measurement) + exportedEnergy(measurement)
+      );
+    }
+
+    return {
+      participantId,
+      period: { from: query.from, to: query.to },
+      totalConsumed: totals.consumed,
+      totalProduced: totals.produced,
+      totalSpent: sum(bought, 'totalCost'),
+      totalEarned: sum(sold, 'totalCost'),
+      currency: this.currency,
+      avgPricePaid: bought.length ? round(sum(bought, 'totalCost') / sum(bought, 'energy')) : undefined,
+      avgPriceReceived: sold.length ? round(sum(sold, 'totalCost') / sum(sold, 'energy')) : undefined,
+      sourceBreakdown: sourceBreakdown as Record<EnergySource, number>,
+      netEnergy: totals.net,
+      deviceBreakdown: flowTotalsByDevice(measurements)
+    };
+  }
+
+  // Measurements and devices
+
+  private submitMeasurement({ participantId, body }: RouteContext): EnergyMeasurement {
+    const measurement = this.checkMeasurement(participantId, body, '');
+    this.storeMeasurement(measurement);
+    this.publish('measurement', measurement, [participantId]);
+    return measurement;
+  }
+
+  private submitBatch({ participantId, body }: RouteContext): { success: boolean; count: number } {
+    if (!Array.isArray(body?.measurements)) {
+      throw invalid('measurements', 'measurements must be an array');
+    }
+
+    // All or nothing
+    const measurements = body.measurements.map((measurement: unknown, index: number) =>
+      this.checkMeasurement(participantId, measurement, `measurements[${index}].`));
+    for (const measurement of measurements) {
+      this.storeMeasurement(measurement);
+      this.publish('measurement', measurement, [participantId]);
+    }
+    return { success: true, count: measurements.length };
+  }
+
+  private checkMeasurement(participantId: string, measurement: any, prefix: string): EnergyMeasurement {
+    const { valid, errors } = validateMeasurement(measurement ?? {});
+    if (!valid) {
+      throw new HttpError(422, 'VALIDATION_FAILED', errors.join('; '), errors.map(message => ({
+        field: prefix + (MEASUREMENT_FIELDS.find(field => message.includes(field)) ?? 'measurement'),
+        message
+      })));
+    }
+
+    const device = this.requireDevice(measurement.deviceId);
+    if (device.ownerId !== participantId) {
+      throw new HttpError(403, 'FORBIDDEN', `Device ${device.deviceId} belongs to another participant`);
+    }
+    return clone(measurement);
+  }
+
+  /** Keep readings per device in time order; a reading with the same timestamp replaces the earlier one */
+  private storeMeasurement(measurement: EnergyMeasurement): void {
+    const readings = (this.measurements.get(measurement.deviceId) || [])
+      .filter(reading => reading.timestamp !== measurement.timestamp);
+    readings.push(measurement);
+    this.measurements.set(measurement.deviceId, readings.sort(byTimestamp));
+  }
+
+  private getMeasurements({ participantId, query }: RouteContext): EnergyMeasurement[] | Page<EnergyMeasurement> {
+    if (!query.deviceId) throw invalid('deviceId', 'deviceId is required');
+    this.requireOwnDevice(query.deviceId, participantId);
+    return paged((this.measurements.get(query.deviceId) || []).filter(m => inRange(m.timestamp, query)), query);
+  }
+
+  private getLatestMeasurement({ participantId, params }: RouteContext): EnergyMeasurement {
+    this.requireOwnDevice(params.deviceId, participantId);
+    const readings = this.measurements.get(params.deviceId) || [];
+    if (!readings.length) {
+      throw new HttpError(404, 'NO_MEASUREMENTS', `Device ${params.deviceId} has no measurements`);
+    }
+    return readings[readings.length - 1];
+  }
+
+  private registerDevice({ participantId, body }: RouteContext): DeviceRegistration {
+    if (typeof body?.deviceId !== 'string' || !body.deviceId) throw invalid('deviceId', 'deviceId is required');
+    if (!DEVICE_TYPES.includes(body.type)) throw invalid('type', `type must be one of ${DEVICE_TYPES.join(', ')}`);
+    if (typeof body.capabilities !== 'object' || body.capabilities === null) {
+      throw invalid('capabilities', 'capabilities are required');
+    }
+    if (body.ownerId !== undefined && body.ownerId !== participantId) {
+      throw new HttpError(403, 'FORBIDDEN', 'Devices can only be registered for yourself');
+    }
+    if (this.devices.has(body.deviceId)) {
+      throw new HttpError(409, 'DEVICE_EXISTS', `Device ${body.deviceId} is already registered`);
+    }
+
+    const device: DeviceRegistration = { ...body, ownerId: participantId };
+    this.devices.set(device.deviceId, device);
+    const participant = this.participants.get(participantId);
+    if (participant) {
+      participant.devices = [...(participant.devices || []), device.deviceId];
+    }
+    return device;
+  }
+
+  private updateDevice({ participantId, params, body }: RouteContext): DeviceRegistration {
+    const device = this.requireOwnDevice(params.id, participantId);
+    Object.assign(device, body, { deviceId: device.deviceId, ownerId: device.ownerId });
+    return device;
+  }
+
+  private deleteDevice({ participantId, params }: RouteContext): { success: boolean } {
+    this.requireOwnDevice(params.id, participantId);
+    this.devices.delete(params.id);
+    const participant = this.participants.get(participantId);
+    if (participant?.devices) {
+      participant.devices = participant.devices.filter(id => id !== params.id);
+    }
+    return { success: true };
+  }
+
+  // Pricing
+
+  /** Latest price for a source, falling back to the latest price for all sources */
+  private currentPrice(source?: string): PriceInfo {
+    const latest = (match: (price: PriceInfo) => boolean) => [...this.prices].reverse().find(match);
+    const specific = source ? latest(price => price.source === source) : undefined;
+    return specific || latest(price => !price.source) || this.prices[0];
+  }
+
+  /** Hourly prices from the current hour on, following the time-of-use schedule */
+  private forecast(from: number, hours: number, source?: string): PriceInfo[] {
+    const base = this.currentPrice(source);
+    const start = Math.floor(from / HOUR_MS) * HOUR_MS;
+
+    return Array.from({ length: Math.max(0, Math.ceil(hours)) }, (_, index) => {
+      const validFrom = start + index * HOUR_MS;
+      const hour = new Date(validFrom).getUTCHours();
+      const { multiplier } = TIME_OF_USE.find(slot => hour >= slot.startHour && hour < slot.endHour)!;
+      return {
+        pricePerKwh: round(base.pricePerKwh * multiplier),
+        currency: base.currency,
+        model: PricingModel.TIME_OF_USE,
+        validFrom: new Date(validFrom).toISOString(),
+        validUntil: new Date(validFrom + HOUR_MS).toISOString(),
+        source: base.source
+      };
+    });
+  }
+
+  /** Cheapest window of the next 24 hours; the cost is for drawing 1 kW */
+  private getOptimalTime({ query }: RouteContext): { optimalStart: string; estimatedCost: number; pricePerKwh: number } {
+    const hours = numberParam(query, 'hours');
+    if (hours === undefined || hours <= 0) throw invalid('hours', 'hours must be a positive number');
+    const from = query.startFrom ? timestamp(query.startFrom, 'startFrom') : Date.now();
+
+    const slots = this.forecast(from, 24 + hours, query.source);
+    const length = Math.ceil(hours);
+    const costAt = (start: number) => slots.slice(start, start + length)
+      .reduce((total, slot, index) => total + slot.pricePerKwh * Math.min(1, hours - index), 0);
+
+    let best = 0;
+    for (let start = 1; start <= slots.length - length; start++) {
+      if (costAt(start) < costAt(best)) best = start;
+    }
+    return {
+      optimalStart: slots[best].validFrom,
+      estimatedCost: round(costAt(best)),
+      pricePerKwh: round(costAt(best) / hours)
+    };
+  }
+
+  private setCustomPrice({ participantId, body }: RouteContext): PriceInfo {
+    positive(body?.pricePerKwh, 'pricePerKwh');
+    const price: PriceInfo = { currency: this.currency, model: PricingModel.FIXED, ...body };
+    this.customPricing.set(participantId, {
+      model: price.model,
+      basePrice: price.pricePerKwh,
+      currency: price.currency,
+      factors: price.factors
+    });
+    return price;
+  }
+
+  private getPricingModel({ params }: RouteContext): CustomPricing {
+    this.requireParticipant(params.id);
+    const current = this.currentPrice();
+    return this.customPricing.get(params.id) || {
+      model: current.model,
+      basePrice: current.pricePerKwh,
+      currency: current.currency
+    };
+  }
+
+  private comparePrices({ body }: RouteContext): {
+    comparison: Array<{ source: EnergySource; price: PriceInfo; savings?: number }>;
+    cheapest: EnergySource;
+  } {
+    if (!Array.isArray(body?.sources) || !body.sources.length) throw invalid('sources', 'sources must be a non-empty array');
+
+    const prices = (body.sources as EnergySource[]).map(source => ({ source, price: { ...this.currentPrice(source), source } }));
+    const highest = Math.max(...prices.map(({ price }) => price.pricePerKwh));
+    const cheapest = prices.reduce((best, entry) => (entry.price.pricePerKwh < best.price.pricePerKwh ? entry : best));
+    return {
+      comparison: prices.map(entry => ({ ...entry, savings: round(highest - entry.price.pricePerKwh) })),
+      cheapest: cheapest.source
+    };
+  }
+
+  // Market
+
+  private createOffer({ participantId, body }: RouteContext): MarketOffer {
+    return this.addOffer(participantId, body, body?.expiresAt);
+  }
+
+  private addOffer(sellerId: string, fields: any, expiresAt: string | undefined): MarketOffer {
+    positive(fields?.energyAvailable, 'energyAvailable');
+    positive(fields.pricePerKwh, 'pricePerKwh');
+    if (!Object.values(EnergySource).includes(fields.source)) {
+      throw invalid('source', `source must be one of ${Object.values(EnergySource).join(', ')}`);
+    }
+    const now = Date.now();
+    if (expiresAt !== undefined && timestamp(expiresAt, 'expiresAt') <= now) {
+      throw invalid('expiresAt', 'expiresAt must be in the future');
+    }
+
+    const offer: MarketOffer = {
+      currency: this.currency,
+      ...fields,
+      id: this.nextId('offer', this.offers),
+      sellerId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: expiresAt ?? new Date(now + DAY_MS).toISOString(),
+      status: 'active'
+    };
+    this.offers.set(offer.id, offer);
+    this.publish('offer', offer);
+    return offer;
+  }
+
+  private getOffers({ query }: RouteContext): MarketOffer[] | Page<MarketOffer> {
+    const maxPrice = numberParam(query, 'maxPrice');
+    const minEnergy = numberParam(query, 'minEnergy');
+    const location = locationParam(query, 'location');
+
+    return paged(this.activeOffers().filter(offer =>
+      (!query.source || offer.source === query.source) &&
+      (maxPrice === undefined || offer.pricePerKwh <= maxPrice) &&
+      (minEnergy === undefined || offer.energyAvailable >= minEnergy) &&
+      (!location || this.distanceTo(offer, location) <= (location.radius ?? Infinity))
+    ), query);
+  }
+
+  private findNearbyOffers({ query }: RouteContext): MarketOffer[] {
+    const location = locationParam(query);
+    if (!location) throw invalid('lat', 'lat and lon are required');
+    const radius = location.radius ?? 10;
+
+    return this.activeOffers()
+      .filter(offer => this.distanceTo(offer, location) <= radius)
+      .sort((a, b) => this.distanceTo(a, location) - this.distanceTo(b, location));
+  }
+
+  private getBestOffer({ body }: RouteContext): MarketOffer | null {
+    const energyNeeded = positive(body?.energyNeeded, 'energyNeeded');
+    const candidates = this.activeOffers().filter(offer =>
+      offer.energyAvailable >= energyNeeded &&
+      (body.maxPrice === undefined || offer.pricePerKwh <= body.maxPrice));
+
+    // Preferred source first, then cheapest, then nearest
+    const rank = (offer: MarketOffer) => [
+      body.preferredSource && offer.source !== body.preferredSource ? 1 : 0,
+      offer.pricePerKwh,
+      body.location ? this.distanceTo(offer, body.location) : 0
+    ];
+    candidates.sort((a, b) => {
+      const [rankA, rankB] = [rank(a), rank(b)];
+      return rankA.map((value, index) => value - rankB[index]).find(difference => difference !== 0) ?? 0;
+    });
+    return candidates[0] ?? null;
+  }
+
+  private createRecurringOffer({ participantId, body }: RouteContext): { scheduleId: string; nextOffer: MarketOffer } {
+    const schedule = body?.schedule;
+    if (!['daily', 'weekly', 'monthly'].includes(schedule?.frequency)) {
+      throw invalid('schedule.frequency', 'schedule.frequency must be daily, weekly or monthly');
+    }
+    const time = /^(\d{2}):(\d{2})$/.exec(schedule.startTime ?? '');
+    if (!time) throw invalid('schedule.startTime', 'schedule.startTime must be HH:MM');
+    const duration = positive(schedule.duration, 'schedule.duration');
+
+    const now = new Date();
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), Number(time[1]), Number(time[2])));
+    const days: number[] | undefined = schedule.frequency === 'weekly' ? schedule.daysOfWeek : undefined;
+    const step = schedule.frequency === 'weekly' && !days?.length ? 7 : 1;
+    while (start <= now || (days?.length && !days.includes(start.getUTCDay()))) {
+      if (schedule.frequency === 'monthly') {
+        start.setUTCMonth(start.getUTCMonth() + 1);
+      } else {
+        start.setTime(start.getTime() + step * DAY_MS);
+      }
+    }
+
+    const nextOffer = this.addOffer(participantId, body.offer, new Date(start.getTime() + duration * HOUR_MS).toISOString());
+    return { scheduleId: this.nextId('schedule'), nextOffer };
+  }
+
+  private acceptOffer({ participantId, params, body }: RouteContext): EnergyTransaction {
+    const offer = this.requireOffer(params.id);
+    const energy = positive(body?.energyAmount, 'energyAmount');
+    if (offer.sellerId === participantId) {
+      throw new HttpError(409, 'OWN_OFFER', 'Offers cannot be accepted by their seller');
+    }
+    if (offer.status === 'expired') {
+      throw new HttpError(410, 'OFFER_EXPIRED', `Offer ${offer.id} has expired`);
+    }
+    if (offer.status !== 'active') {
+      throw new HttpError(409, 'OFFER_NOT_ACTIVE', `Offer ${offer.id} is ${offer.status}`);
+    }
+    if (energy > offer.energyAvailable) {
+      throw new HttpError(409, 'INSUFFICIENT_ENERGY', `Offer ${offer.id} has only ${offer.energyAvailable} kWh available`);
+    }
+
+    const transaction = this.openTransaction({
+      sellerId: offer.sellerId,
+      buyerId: participantId,
+      energy,
+      pricePerKwh: offer.pricePerKwh,
+      currency: offer.currency,
+      source: offer.source,
+      metadata: { offerId: offer.id }
+    });
+    offer.energyAvailable = round(offer.energyAvailable - energy);
+    if (offer.energyAvailable <= 0) {
+      offer.status = 'fulfilled';
+    }
+    return transaction;
+  }
+
+  private cancelOffer({ participantId, params }: RouteContext): { success: boolean } {
+    const offer = this.requireOwnOffer(params.id, participantId);
+    offer.status = 'cancelled';
+    return { success: true };
+  }
+
+  private updateOffer({ participantId, params, body }: RouteContext): MarketOffer {
+    const offer = this.requireOwnOffer(params.id, participantId);
+    if (body?.pricePerKwh !== undefined) offer.pricePerKwh = positive(body.pricePerKwh, 'pricePerKwh');
+    if (body?.energyAvailable !== undefined) offer.energyAvailable = positive(body.energyAvailable, 'energyAvailable');
+    if (body?.expiresAt !== undefined) {
+      if (timestamp(body.expiresAt, 'expiresAt') <= Date.now()) throw invalid('expiresAt', 'expiresAt must be in the future');
+      offer.expiresAt = body.expiresAt;
+    }
+    return offer;
+  }
+
+  private getMarketStats(): {
+    totalOffers: number;
+    totalEnergyAvailable: number;
+    averagePrice: number;
+    priceRange: { min: number; max: number };
+    bySource: Record<EnergySource, { count: number; avgPrice: number }>;
+  } {
+    const offers = this.activeOffers();
+    const prices = offers.map(offer => offer.pricePerKwh);
+    const average = (values: number[]) => (values.length ? round(values.reduce((a, b) => a + b, 0) / values.length) : 0);
+
+    const bySource: Record<string, { count: number; avgPrice: number }> = {};
+    for (const source of new Set(offers.map(offer => offer.source))) {
+      const matching = offers.filter(offer => offer.source === source);
+      bySource[source] = { count: matching.length, avgPrice: average(matching.map(offer => offer.pricePerKwh)) };
+    }
+
+    return {
+      totalOffers: offers.length,
+      totalEnergyAvailable: round(offers.reduce((total, offer) => total + offer.energyAvailable, 0)),
+      averagePrice: average(prices),
+      priceRange: { min: prices.length ? Math.min(...prices) : 0, max: prices.length ? Math.max(...prices) : 0 },
+      bySource: bySource as Record<EnergySource, { count: number; avgPrice: number }>
+    };
+  }
+
+  private getSuggestedPrice({ query }: RouteContext): { suggested: number; min: number; max: number; confidence: number } {
+    const prices = this.activeOffers()
+      .filter(offer => !query.source || offer.source === query.source)
+      .map(offer => offer.pricePerKwh);
+    if (!prices.length) {
+      const price = this.currentPrice(query.source).pricePerKwh;
+      return { suggested: price, min: price, max: price, confidence: 0 };
+    }
+    return {
+      suggested: round(prices.reduce((a, b) => a + b, 0) / prices.length),
+      min: Math.min(...prices),
+      max: Math.max(...prices),
+      confidence: Math.min(1, prices.length / 10)
+    };
+  }
+
+  // Transactions and settlements
+
+  private getTransactions({ participantId, query }: RouteContext): EnergyTransaction[] | Page<EnergyTransaction> {
+    const minAmount = numberParam(query, 'minAmount');
+    const maxAmount = numberParam(query, 'maxAmount');
+    return paged(this.transactionsOf(participantId).filter(t =>
+      inRange(t.timestamp, query) &&
+      (!query.status || t.status === query.status) &&
+      (minAmount === undefined || t.totalCost >= minAmount) &&
+      (maxAmount === undefined || t.totalCost <= maxAmount)
+    ), query);
+  }
+
+  /** A direct sale: the caller sells to the buyer, whose funds are reserved */
+  private createTransaction({ participantId, body }: RouteContext): EnergyTransaction {
+    if (typeof body?.buyerId !== 'string') throw invalid('buyerId', 'buyerId is required');
+    if (body.buyerId === participantId) throw invalid('buyerId', 'buyerId must be another participant');
+    this.requireParticipant(body.buyerId);
+    if (typeof body.source !== 'string') throw invalid('source', 'source is required');
+
+    return this.openTransaction({
+      sellerId: participantId,
+      buyerId: body.buyerId,
+      energy: positive(body.energy, 'energy'),
+      pricePerKwh: positive(body.pricePerKwh, 'pricePerKwh'),
+      currency: this.currency,
+      source: body.source,
+      metadata: body.metadata
+    });
+  }
+
+  private openTransaction(
+    fields: Omit<EnergyTransaction, 'id' | 'totalCost' | 'timestamp' | 'status'>
+  ): EnergyTransaction {
+    const transaction: EnergyTransaction = {
+      ...fields,
+      id: this.nextId('tx', this.transactions),
+      totalCost: round(fields.energy * fields.pricePerKwh),
+      timestamp: new Date().toISOString(),
+      status: TransactionStatus.PENDING
+    };
+    if (this.account(transaction.buyerId).available < transaction.totalCost) {
+      throw new HttpError(402, 'INSUFFICIENT_BALANCE', `Balance does not cover ${transaction.totalCost} ${transaction.currency}`);
+    }
+
+    this.transactions.set(transaction.id, transaction);
+    this.adjust(transaction.buyerId, -transaction.totalCost, transaction.totalCost);
+    this.adjust(transaction.sellerId, 0, this.proceeds(transaction));
+    this.publishTransaction(transaction);
+    return transaction;
+  }
+
+  private cancelTransaction({ participantId, params }: RouteContext): EnergyTransaction {
+    const transaction = this.requirePending(params.id, participantId);
+    transaction.status = TransactionStatus.CANCELLED;
+    this.adjust(transaction.buyerId, transaction.totalCost, -transaction.totalCost);
+    this.adjust(transaction.sellerId, 0, -this.proceeds(transaction));
+
+    // The energy goes back on offer unless the offer has ended
+    const offer = this.offers.get(transaction.metadata?.offerId);
+    if (offer && (offer.status === 'active' || offer.status === 'fulfilled')) {
+      offer.energyAvailable = round(offer.energyAvailable + transaction.energy);
+      offer.status = 'active';
+    }
+
+    this.publishTransaction(transaction);
+    return transaction;
+  }
+
+  private triggerSettlement({ participantId, body }: RouteContext): Settlement {
+    const ids: string[] | undefined = body?.transactionIds;
+    const transactions = ids
+      ? ids.map(id => this.requirePending(id, participantId))
+      : this.transactionsOf(participantId).filter(t => t.status === TransactionStatus.PENDING);
+    if (!transactions.length) {
+      throw new HttpError(409, 'NOTHING_TO_SETTLE', 'No pending transactions to settle');
+    }
+
+    const id = this.nextId('settlement', this.settlements);
+    const settlement: Settlement = {
+      id,
+      participants: [...new Set(transactions.flatMap(t => [t.sellerId, t.buyerId]))].sort(),
+      transactions: transactions.map(t => t.id),
+      totalAmount: round(transactions.reduce((total, t) => total + t.totalCost, 0)),
+      currency: this.currency,
+      timestamp: new Date().toISOString(),
+      txHash: `0x${createHash('sha256').update(id).digest('hex')}`,
+      status: 'completed'
+    };
+    this.settlements.set(id, settlement);
+
+    for (const transaction of transactions) {
+      const proceeds = this.proceeds(transaction);
+      transaction.status = TransactionStatus.COMPLETED;
+      transaction.settlement = { settlementId: id, settlementTime: settlement.timestamp, txHash: settlement.txHash };
+      this.adjust(transaction.buyerId, 0, -transaction.totalCost);
+      this.adjust(transaction.sellerId, proceeds, -proceeds);
+      this.publish('transaction', transaction, [transaction.buyerId, transaction.sellerId]);
+    }
+    this.publish('settlement', settlement, settlement.participants);
+    settlement.participants.forEach(id => this.publish('balance-update', this.balanceOf(id), [id]));
+    return settlement;
+  }
+
+  private getTransactionSummary({ participantId, query }: RouteContext) {
+    const period = SUMMARY_PERIODS[query.period];
+    if (!period) throw invalid('period', 'period must be day, week, month or year');
+
+    const since = Date.now() - period;
+    const transactions = this.transactionsOf(participantId)
+      .filter(t => Date.parse(t.timestamp) >= since && !this.isVoid(t));
+    const spent = transactions.filter(t => t.buyerId === participantId).reduce((total, t) => total + t.totalCost, 0);
+    const earned = transactions.filter(t => t.sellerId === participantId).reduce((total, t) => total + t.totalCost, 0);
+    const energy = transactions.reduce((total, t) => total + t.energy, 0);
+
+    const bySource: Record<string, { count: number; energy: number; amount: number }> = {};
+    for (const transaction of transactions) {
+      const entry = bySource[transaction.source] || { count: 0, energy: 0, amount: 0 };
+      bySource[transaction.source] = {
+        count: entry.count + 1,
+        energy: round(entry.energy + transaction.energy),
+        amount: round(entry.amount + transaction.totalCost)
+      };
+    }
+
+    return {
+      totalTransactions: transactions.length,
+      totalEnergy: round(energy),
+      totalSpent: round(spent),
+      totalEarned: round(earned),
+      netBalance: round(earned - spent),
+      averagePrice: energy ? round((spent + earned) / energy) : 0,
+      currency: this.currency,
+      bySource
+    };
+  }
+
+  private exportTransactions({ participantId, query }: RouteContext): string {
+    if (query.format && query.format !== 'csv') throw invalid('format', 'format must be csv');
+
+    const columns = ['id', 'timestamp', 'sellerId', 'buyerId', 'energy', 'pricePerKwh', 'totalCost', 'currency', 'source', 'status'] as const;
+    const rows = this.transactionsOf(participantId)
+      .filter(t => inRange(t.timestamp, query))
+      .map(t => columns.map(column => String(t[column])).join(','));
+    return [columns.join(','), ...rows].join('\n') + '\n';
+  }
+
+  private calculateFees({ body }: RouteContext) {
+    const subtotal = round(positive(body?.energy, 'energy') * positive(body.pricePerKwh, 'pricePerKwh'));
+    return {
+      subtotal,
+      networkFee: round(subtotal * this.networkFeeRate),
+      processingFee: 0,
+      // The buyer pays the subtotal; the fee comes out of the seller's proceeds
+      total: subtotal,
+      currency: this.currency
+    };
+  }
+
+  private getReceipt({ participantId, params }: RouteContext) {
+    const transaction = this.requireTransaction(params.id, participantId);
+    const networkFee = round(transaction.totalCost - this.proceeds(transaction));
+    return {
+      transaction,
+      breakdown: { energyCharge: transaction.totalCost, networkFee, taxes: 0, total: transaction.totalCost },
+      participants: {
+        seller: { id: transaction.sellerId, name: this.participants.get(transaction.sellerId)?.name, share: this.proceeds(transaction) },
+        buyer: { id: transaction.buyerId, name: this.participants.get(transaction.buyerId)?.name },
+        network: { share: networkFee }
+      }
+    };
+  }
+
+  private verifyTransaction({ participantId, params }: RouteContext) {
+    const transaction = this.requireTransaction(params.id, participantId);
+    const produced = [...this.devices.values()]
+      .filter(device => device.ownerId === transaction.sellerId)
+      .flatMap(device => this.measurements.get(device.deviceId) || [])
+      .reduce((total, measurement) => total + exportedEnergy(measurement), 0);
+
+    const checks = {
+      energyMeasured: produced >= transaction.energy,
+      priceValid: transaction.pricePerKwh > 0 && transaction.totalCost === round(transaction.energy * transaction.pricePerKwh),
+      participantsVerified: this.participants.has(transaction.sellerId) && this.participants.has(transaction.buyerId),
+      signatureValid: true
+    };
+    const issues = Object.entries(checks).filter(([, passed]) => !passed).map(([check]) => `${check} failed`);
+    return { valid: issues.length === 0, checks, issues: issues.length ? issues : undefined };
+  }
+
+  private requestRefund({ participantId, params, body }: RouteContext) {
+    const transaction = this.requireTransaction(params.id, participantId);
+    if (transaction.buyerId !== participantId) {
+      throw new HttpError(403, 'FORBIDDEN', 'Only the buyer can request a refund');
+    }
+    if (transaction.status !== TransactionStatus.COMPLETED) {
+      throw new HttpError(409, 'TRANSACTION_NOT_COMPLETED', `Transaction ${transaction.id} is ${transaction.status}`);
+    }
+    if (typeof body?.reason !== 'string' || !body.reason) throw invalid('reason', 'reason is required');
+    if (this.refunds.has(transaction.id)) {
+      throw new HttpError(409, 'REFUND_EXISTS', `A refund was already requested for ${transaction.id}`);
+    }
+
+    const refundId = this.nextId('refund');
+    this.refunds.set(transaction.id, refundId);
+    return { refundId, status: 'pending', message: 'Refund request received' };
+  }
+
+  // State helpers
+
+  private requireSelf({ participantId, params }: RouteContext): string {
+    if (params.id !== participantId) {
+      throw new HttpError(403, 'FORBIDDEN', `Not allowed for participant ${params.id}`);
+    }
+    return participantId;
+  }
+
+  private requireParticipant(id: string): Participant {
+    const participant = this.participants.get(id);
+    if (!participant) throw new HttpError(404, 'PARTICIPANT_NOT_FOUND', `Participant ${id} not found`);
+    return participant;
+  }
+
+  private requireDevice(id: string): DeviceRegistration {
+    const device = this.devices.get(id);
+    if (!device) throw new HttpError(404, 'DEVICE_NOT_FOUND', `Device ${id} not found`);
+    return device;
+  }
+
+  private requireOwnDevice(id: string, participantId: string): DeviceRegistration {
+    const device = this.requireDevice(id);
+    if (device.ownerId !== participantId) {
+      throw new HttpError(403, 'FORBIDDEN', `Device ${id} belongs to another participant`);
+    }
+    return device;
+  }
+
+  private requireOffer(id: string): MarketOffer {
+    const offer = this.offers.get(id);
+    if (!offer) throw new HttpError(404, 'OFFER_NOT_FOUND', `Offer ${id} not found`);
+    return offer;
+  }
+
+  private requireOwnOffer(id: string, participantId: string): MarketOffer {
+    const offer = this.requireOffer(id);
+    if (offer.sellerId !== participantId) {
+      throw new HttpError(403, 'FORBIDDEN', `Offer ${id} belongs to another participant`);
+    }
+    if (offer.status !== 'active') {
+      throw new HttpError(offer.status === 'expired' ? 410 : 409, `OFFER_${offer.status.toUpperCase()}`, `Offer ${id} is ${offer.status}`);
+    }
+    return offer;
+  }
+
+  /** Transactions are only visible to their buyer and seller */
+  private requireTransaction(id: string, participantId: string): EnergyTransaction {
+    const transaction = this.transactions.get(id);
+    if (!transaction || (transaction.buyerId !== participantId && transaction.sellerId !== participantId)) {
+      throw new HttpError(404, 'TRANSACTION_NOT_FOUND', `Transaction ${id} not found`);
+    }
+    return transaction;
+  }
+
+  private requirePending(id: string, participantId: string): EnergyTransaction {
+    const transaction = this.requireTransaction(id, participantId);
+    if (transaction.status !== TransactionStatus.PENDING) {
+      throw new HttpError(409, 'TRANSACTION_NOT_PENDING', `Transaction ${id} is ${transaction.status}`);
+    }
+    return transaction;
+  }
+
+  private transactionsOf(participantId: string): EnergyTransaction[] {
+    return [...this.transactions.values()]
+      .filter(t => t.buyerId === participantId || t.sellerId === participantId)
+      .sort(byTimestamp);
+  }
+
+  private settlementsOf(participantId: string): Settlement[] {
+    return [...this.settlements.values()]
+      .filter(settlement => settlement.participants.includes(participantId))
+      .sort(byTimestamp);
+  }
+
+  private isVoid(transaction: EnergyTransaction): boolean {
+    return transaction.status === TransactionStatus.CANCELLED || transaction.status === TransactionStatus.FAILED;
+  }
+
+  private activeOffers(): MarketOffer[] {
+    return [...this.offers.values()].filter(offer => offer.status === 'active');
+  }
+
+  private expireOffers(): void {
+    const now = Date.now();
+    for (const offer of this.offers.values()) {
+      if (offer.status === 'active' && Date.parse(offer.expiresAt) <= now) {
+        offer.status = 'expired';
+      }
+    }
+  }
+
+  private distanceTo(offer: MarketOffer, point: { lat: number; lon: number }): number {
+    return offer.location
+      ? calculateDistance(point.lat, point.lon, offer.location.latitude, offer.location.longitude)
+      : Infinity;
+  }
+
+  /** What the seller receives once settled: the total minus the network fee */
+  private proceeds(transaction: EnergyTransaction): number {
+    return round(transaction.totalCost - round(transaction.totalCost * this.networkFeeRate));
+  }
+
+  private account(participantId: string): Account {
+    let account = this.accounts.get(participantId);
+    if (!account) {
+      account = { available: 0, pending: 0, lastUpdated: new Date().toISOString() };
+      this.accounts.set(participantId, account);
+    }
+    return account;
+  }
+
+  private adjust(participantId: string, available: number, pending: number): void {
+    const account = this.account(participantId);
+    account.available = round(account.available + available);
+    account.pending = round(account.pending + pending);
+    account.lastUpdated = new Date().toISOString();
+  }
+
+  private publishTransaction(transaction: EnergyTransaction): void {
+    const parties = [transaction.buyerId, transaction.sellerId];
+    this.publish('transaction', transaction, parties);
+    parties.forEach(id => this.publish('balance-update', this.balanceOf(id), [id]));
+  }
+
+  /** Next `prefix-N` ID not taken by seeded state */
+  private nextId(prefix: string, taken?: Map<string, unknown>): string {
+    let id: string;
+    do {
+      const count = (this.counters.get(prefix) ?? 0) + 1;
+      this.counters.set(prefix, count);
+      id = `${prefix}-${count}`;
+    } while (taken?.has(id));
+    return id;
+  }
+}
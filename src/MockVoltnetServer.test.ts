@@ -0,0 +1,237 @@
+/**
+ * Tests for the in-memory backend, driven through the SDK modules
+ */
+
+import WebSocket from 'ws';
+import { MockBackend } from './MockBackend';
+import { MockVoltnetServer } from './MockVoltnetServer';
+import { VoltnetClient } from './VoltnetClient';
+import { P2PMarket } from './P2PMarket';
+import { TransactionManager } from './TransactionManager';
+import { EnergyMeter } from './EnergyMeter';
+import { ConflictError, NetworkError, ServerError, ValidationError } from './VoltnetError';
+import { fixtures, waitFor } from '../test/helpers';
+import {
+  Balance,
+  EnergySource,
+  EnergyTransaction,
+  MarketOffer,
+  MockFixtures,
+  ParticipantType,
+  TransactionStatus,
+  VoltnetConfig
+} from './types';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const backendFixtures = (): MockFixtures => ({
+  ...fixtures([
+    { id: 'seller-1', apiKey: 'seller-key', type: ParticipantType.PRODUCER, walletAddress: '0xs1' },
+    { id: 'buyer-1', apiKey: 'buyer-key', type: ParticipantType.CONSUMER, walletAddress: '0xb1', balance: 10 }
+  ], 'seller-1'),
+  devices: [{
+    deviceId: 'meter-01',
+    type: 'meter',
+    ownerId: 'seller-1',
+    capabilities: { canProduce: true, canConsume: true }
+  }]
+});
+
+describe('MockVoltnetServer', () => {
+  let server: MockVoltnetServer;
+  let apiUrl: string;
+  let clients: VoltnetClient[];
+
+  const connect = (participantId: string, apiKey: string, config: Partial<VoltnetConfig> = {}) => {
+    const client = new VoltnetClient({ apiUrl, apiKey, participantId, network: { retries: 0 }, ...config });
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    clients = [];
+    server = new MockVoltnetServer(new MockBackend({ fixtures: backendFixtures(), networkFeeRate: 0.05 }));
+    apiUrl = await server.start();
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    await server.stop();
+  });
+
+  test('accepting an offer and settling moves energy and money', async () => {
+    const buyer = connect('buyer-1', 'buyer-key');
+    const seller = connect('seller-1', 'seller-key');
+
+    const transaction = await new P2PMarket(buyer).acceptOffer('offer-1', 5);
+    expect(transaction).toMatchObject({ sellerId: 'seller-1', buyerId: 'buyer-1', totalCost: 1, status: TransactionStatus.PENDING });
+    expect((await new P2PMarket(seller).getOffer('offer-1')).energyAvailable).toBe(15);
+    expect(await buyer.getBalance()).toMatchObject({ available: 9, pending: 1 });
+    expect(await seller.getBalance()).toMatchObject({ available: 0, pending: 0.95 });
+
+    const settlement = await new TransactionManager(seller).triggerSettlement();
+    expect(settlement).toMatchObject({ participants: ['buyer-1', 'seller-1'], transactions: [transaction.id], totalAmount: 1 });
+    expect(await new TransactionManager(buyer).getTransaction(transaction.id)).toMatchObject({
+      status: TransactionStatus.COMPLETED,
+      settlement: { settlementId: settlement.id }
+    });
+    expect(await buyer.getBalance()).toMatchObject({ available: 9, pending: 0 });
+    expect(await seller.getBalance()).toMatchObject({ available: 0.95, pending: 0 });
+  });
+
+  test('rejects requests the API would reject', async () => {
+    const market = new P2PMarket(connect('buyer-1', 'buyer-key'));
+
+    await expect(market.acceptOffer('offer-1', 60)).rejects.toMatchObject({ status: 409, code: 'INSUFFICIENT_ENERGY' });
+    server.getBackend().seed({
+      participants: [{ id: 'buyer-2', apiKey: 'buyer-2-key', type: ParticipantType.CONSUMER, walletAddress: '0xb2', balance: 0.5 }]
+    });
+    const error = await new P2PMarket(connect('buyer-2', 'buyer-2-key')).acceptOffer('offer-1', 5).catch(e => e);
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error).toMatchObject({ status: 402, code: 'INSUFFICIENT_BALANCE' });
+
+    const meter = new EnergyMeter(connect('seller-1', 'seller-key'));
+    const invalid = await meter.submitMeasurement({ deviceId: 'meter-01', timestamp: 'now', energy: -1, source: EnergySource.SOLAR })
+      .catch(e => e);
+    expect(invalid).toBeInstanceOf(ValidationError);
+    expect(Object.keys(invalid.fieldErrors)).toEqual(['timestamp', 'energy']);
+
+    await expect(connect('seller-1', 'wrong-key').getProfile()).rejects.toMatchObject({ status: 401 });
+  });
+
+  test('pages through seeded measurements', async () => {
+    const measurements = Array.from({ length: 5 }, (_, hour) => ({
+      deviceId: 'meter-01',
+      timestamp: `2024-01-15T0${hour}:00:00.000Z`,
+      energy: hour,
+      source: EnergySource.GRID
+    }));
+    server.getBackend().seed({ measurements: [...measurements].reverse() });
+    const meter = new EnergyMeter(connect('seller-1', 'seller-key'));
+
+    const page = await meter.getMeasurementsPage('meter-01', '2024-01-15T00:00:00.000Z', '2024-01-15T23:59:59.999Z', { limit: 2 });
+    expect(page).toEqual({ items: measurements.slice(0, 2), nextCursor: '2' });
+
+    const all: number[] = [];
+    for await (const measurement of meter.iterateMeasurements('meter-01', '2024-01-15T00:00:00.000Z', '2024-01-16T00:00:00.000Z', { pageSize: 2 })) {
+      all.push(measurement.energy);
+    }
+    expect(all).toEqual([0, 1, 2, 3, 4]);
+    expect((await meter.getLatestMeasurement('meter-01')).energy).toBe(4);
+  });
+
+  test('pages through sales and purchases with strict validation', async () => {
+    const buyer = connect('buyer-1', 'buyer-key', { validation: 'strict' });
+    const seller = connect('seller-1', 'seller-key', { validation: 'strict' });
+    for (let i = 0; i < 3; i++) {
+      await new P2PMarket(buyer).acceptOffer('offer-1', 1);
+    }
+
+    const page = await new TransactionManager(buyer).getPurchaseTransactionsPage({}, { limit: 2 });
+    expect(page.items).toHaveLength(2);
+    expect(page.nextCursor).toBe('2');
+
+    const sales: string[] = [];
+    for await (const transaction of new TransactionManager(seller).iterateSalesTransactions(undefined, undefined, { pageSize: 2 })) {
+      sales.push(transaction.buyerId);
+    }
+    expect(sales).toEqual(['buyer-1', 'buyer-1', 'buyer-1']);
+  });
+
+  test('injected faults fail matching requests', async () => {
+    const buyer = connect('buyer-1', 'buyer-key', { network: { retries: 2, retryDelay: 1 } });
+    server.injectFault({ path: '/market/stats', status: 503, times: 1 });
+    expect((await new P2PMarket(buyer).getMarketStats()).totalOffers).toBe(1);
+
+    const remove = server.injectFault({ method: 'GET', path: /^\/participants\//, status: 500 });
+    await expect(buyer.getProfile()).rejects.toBeInstanceOf(ServerError);
+    remove();
+    expect((await buyer.getProfile()).id).toBe('buyer-1');
+  });
+
+  test('a lost response is retried under its idempotency key without buying twice', async () => {
+    const buyer = connect('buyer-1', 'buyer-key', { network: { retries: 1, retryDelay: 1 } });
+    server.injectFault({ path: '/market/offers/offer-1/accept', reset: true, afterHandling: true, times: 1 });
+
+    const transaction = await new P2PMarket(buyer).acceptOffer('offer-1', 5);
+
+    expect(await new TransactionManager(buyer).getTransactions()).toEqual([transaction]);
+    expect((await new P2PMarket(buyer).getOffer('offer-1')).energyAvailable).toBe(15);
+
+    // Without a key the request is not retried
+    server.injectFault({ path: '/participants/buyer-1', reset: true, times: 1 });
+    await expect(buyer.updateProfile({ name: 'Buyer' })).rejects.toBeInstanceOf(NetworkError);
+  });
+});
+
+describe('MockVoltnetServer realtime', () => {
+  let server: MockVoltnetServer;
+  let buyer: VoltnetClient;
+  let seller: VoltnetClient;
+
+  const realtimeClient = (participantId: string, apiKey: string) => new VoltnetClient({
+    apiUrl: server.getUrl()!,
+    apiKey,
+    participantId,
+    enableRealtime: true,
+    realtime: { WebSocket, reconnect: { initialDelay: 50 }, random: () => 0.5 }
+  });
+
+  beforeEach(async () => {
+    server = new MockVoltnetServer(new MockBackend({ fixtures: backendFixtures() }));
+    await server.start();
+    buyer = realtimeClient('buyer-1', 'buyer-key');
+    seller = new VoltnetClient({ apiUrl: server.getUrl()!, apiKey: 'seller-key', participantId: 'seller-1' });
+    await waitFor(() => buyer.getConnectionState() === 'open');
+  });
+
+  afterEach(async () => {
+    buyer.disconnect();
+    seller.disconnect();
+    await server.stop();
+  });
+
+  test('publishes state changes as participant and topic events', async () => {
+    const transactions: EnergyTransaction[] = [];
+    const balances: Balance[] = [];
+    const offers: MarketOffer[] = [];
+    buyer.on('transaction', transaction => transactions.push(transaction));
+    buyer.on('balance-update', balance => balances.push(balance));
+    new P2PMarket(buyer).subscribeToOffers(offer => offers.push(offer), { maxPrice: 0.15 });
+    await delay(50);
+
+    const market = new P2PMarket(seller);
+    await market.createOffer({ energyAvailable: 3, pricePerKwh: 0.3, currency: 'EUR', source: EnergySource.WIND, expiresAt: '2099-01-01T00:00:00.000Z' });
+    const cheap = await market.createOffer({ energyAvailable: 3, pricePerKwh: 0.1, currency: 'EUR', source: EnergySource.WIND, expiresAt: '2099-01-01T00:00:00.000Z' });
+    const transaction = await new P2PMarket(buyer).acceptOffer(cheap.id, 3);
+    const updates: EnergyTransaction[] = [];
+    new TransactionManager(buyer).watchTransaction(transaction.id, update => updates.push(update));
+    await waitFor(() => transactions.length === 1);
+    await new TransactionManager(seller).triggerSettlement([transaction.id]);
+
+    await waitFor(() => updates.length === 1 && balances.length === 2);
+    expect(offers.map(offer => offer.id)).toEqual([cheap.id]);
+    expect(transactions.map(t => t.status)).toEqual([TransactionStatus.PENDING, TransactionStatus.COMPLETED]);
+    expect(updates[0].status).toBe(TransactionStatus.COMPLETED);
+    expect(balances.map(balance => [balance.available, balance.pending])).toEqual([[9.7, 0.3], [9.7, 0]]);
+    expect(offers[0]).toMatchObject({ energyAvailable: 3, status: 'active' });
+    expect(buyer.getEventCursor()!.seq).toBe(5);
+  });
+
+  test('replays events missed while disconnected', async () => {
+    const transactions: EnergyTransaction[] = [];
+    buyer.on('transaction', transaction => transactions.push(transaction));
+    const market = new P2PMarket(buyer);
+    await market.acceptOffer('offer-1', 1);
+    await waitFor(() => transactions.length === 1);
+
+    server.disconnectClients();
+    await waitFor(() => buyer.getConnectionState() === 'connecting');
+    const backend = server.getBackend();
+    backend.publish('transaction', { ...transactions[0], status: TransactionStatus.FAILED }, ['buyer-1']);
+
+    await waitFor(() => transactions.length === 2);
+    expect(transactions[1].status).toBe(TransactionStatus.FAILED);
+    expect(buyer.getEventCursor()!.seq).toBe(backend.getEventHead('buyer-1'));
+  });
+});
@@ -0,0 +1,343 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { MockBackend } from './MockBackend';
+import { matchesTopic } from './utils';
+import { MockEvent, MockFault, MockResponse, SubscriptionTopic } from './types';
+
+const TOPIC_TYPES = ['measurements', 'offers', 'transaction', 'prices'];
+
+interface RealtimeClient {
+  socket: WebSocket;
+  /** Carries several participants, each message tagged with its participantId */
+  multiplex: boolean;
+  participants: Set<string>;
+  /** By participant and subscription ID */
+  subscriptions: Map<string, { participantId: string; id: string; topic: SubscriptionTopic }>;
+}
+
+interface ActiveFault {
+  fault: MockFault;
+  remaining: number;
+}
+
+/**
+ * Mock VOLTNET Server
+ * Serves a MockBackend over HTTP on a local port, with the real-time
+ * protocol at `/ws`: the `auth` message, heartbeats, topic subscriptions
+ * and replay of sequenced events, on connections of one participant or
+ * multiplexed ones of many. Faults can be injected into matching
+ * requests, and real-time connections can be dropped, to test how an
+ * integration copes with errors, timeouts and lost responses.
+ */
+export class MockVoltnetServer {
+  private backend: MockBackend;
+  private server?: Server;
+  private wsServer?: WebSocketServer;
+  private url?: string;
+  private clients = new Set<RealtimeClient>();
+  private faults: ActiveFault[] = [];
+  private requestCounter = 0;
+  private onEvent = (event: MockEvent) => this.deliver(event);
+
+  constructor(backend: MockBackend = new MockBackend()) {
+    this.backend = backend;
+  }
+
+  /**
+   * Start listening
+   * @param port Port (default: a free one)
+   * @param host Interface to listen on (default 127.0.0.1)
+   * @returns API URL to use as `apiUrl`
+   */
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    if (this.url) return this.url;
+
+    const server = createServer((request, response) => {
+      // Only fails if the client went away while sending
+      this.handleRequest(request, response).catch(() => request.socket.destroy());
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, resolve);
+    });
+    this.server = server;
+
+    this.wsServer = new WebSocketServer({ server, path: '/ws' });
+    this.wsServer.on('connection', socket => this.handleConnection(socket));
+    this.backend.on('event', this.onEvent);
+
+    this.url = `http://${host}:${(server.address() as AddressInfo).port}`;
+    return this.url;
+  }
+
+  /**
+   * Close all connections and stop listening
+   */
+  async stop(): Promise<void> {
+    const { server, wsServer } = this;
+    if (!server || !wsServer) return;
+
+    this.backend.off('event', this.onEvent);
+    this.disconnectClients();
+    this.server = undefined;
+    this.wsServer = undefined;
+    this.url = undefined;
+
+    await new Promise(resolve => wsServer.close(resolve));
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+
+  /**
+   * Get the API URL; undefined until started
+   */
+  getUrl(): string | undefined {
+    return this.url;
+  }
+
+  /**
+   * Get the backend holding the state
+   */
+  getBackend(): MockBackend {
+    return this.backend;
+  }
+
+  /**
+   * Fail matching requests until the fault is used up or removed
+   * @param fault Requests to match and how to fail them
+   * @returns Function that removes the fault
+   */
+  injectFault(fault: MockFault): () => void {
+    const active: ActiveFault = { fault, remaining: fault.times ?? Infinity };
+    this.faults.push(active);
+    return () => {
+      this.faults = this.faults.filter(entry => entry !== active);
+    };
+  }
+
+  /**
+   * Remove all injected faults
+   */
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Get the number of open real-time connections
+   */
+  getConnectionCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Drop all real-time connections, as a network failure would
+   */
+  disconnectClients(): void {
+    this.clients.forEach(client => client.socket.terminate());
+    this.clients.clear();
+  }
+
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    let body = '';
+    request.setEncoding('utf8');
+    for await (const chunk of request) {
+      body += chunk;
+    }
+
+    const fault = this.takeFault(request);
+    try {
+      if (fault && !fault.afterHandling) {
+        return await this.fail(fault, request, response, () => this.answer(request, body));
+      }
+
+      const result = this.answer(request, body);
+      if (fault) {
+        return await this.fail(fault, request, response, () => result);
+      }
+      this.send(response, result);
+    } catch (error) {
+      this.send(response, { status: 500, body: { code: 'INTERNAL_ERROR', message: (error as Error).message } });
+    }
+  }
+
+  private answer(request: IncomingMessage, body: string): MockResponse {
+    return this.backend.handle({
+      method: request.method || 'GET',
+      url: request.url || '/',
+      headers: request.headers,
+      body
+    });
+  }
+
+  /**
+   * Apply a fault: wait, then drop the connection, answer with the fault's
+   * status, or answer normally if the fault only delays
+   */
+  private async fail(
+    fault: MockFault,
+    request: IncomingMessage,
+    response: ServerResponse,
+    answer: () => MockResponse
+  ): Promise<void> {
+    if (fault.delay) {
+      await new Promise(resolve => setTimeout(resolve, fault.delay));
+    }
+    if (fault.reset) {
+      request.socket.destroy();
+    } else if (fault.status !== undefined) {
+      this.send(response, { status: fault.status, body: fault.body ?? { code: 'INJECTED_FAULT' }, headers: fault.headers });
+    } else {
+      this.send(response, answer());
+    }
+  }
+
+  private takeFault(request: IncomingMessage): MockFault | undefined {
+    const path = new URL(request.url || '/', 'http://localhost').pathname;
+    const entry = this.faults.find(({ fault }) =>
+      (!fault.method || fault.method.toUpperCase() === request.method) &&
+      (typeof fault.path === 'string' ? fault.path === path : fault.path.test(path)));
+    if (!entry) return undefined;
+
+    if (--entry.remaining <= 0) {
+      this.faults = this.faults.filter(other => other !== entry);
+    }
+    return entry.fault;
+  }
+
+  private send(response: ServerResponse, result: MockResponse): void {
+    if (response.destroyed) return;
+
+    const text = typeof result.body === 'string';
+    response.writeHead(result.status, {
+      'Content-Type': text ? 'text/csv' : 'application/json',
+      'X-Request-Id': `req-${++this.requestCounter}`,
+      ...result.headers
+    });
+    response.end(text ? result.body : result.body === undefined ? '' : JSON.stringify(result.body));
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const client: RealtimeClient = { socket, multiplex: false, participants: new Set(), subscriptions: new Map() };
+    this.clients.add(client);
+    socket.on('close', () => this.clients.delete(client));
+    socket.on('message', data => {
+      let message: any;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      this.handleMessage(client, message);
+    });
+  }
+
+  private handleMessage(client: RealtimeClient, message: any): void {
+    const send = (frame: Record<string, unknown>) => client.socket.send(JSON.stringify(frame));
+
+    if (message?.type === 'auth') {
+      if (message.multiplex === true) {
+        client.multiplex = true;
+        send({ type: 'auth-ok' });
+        return;
+      }
+      if (!this.authorize(message)) {
+        send({ type: 'auth-error', code: 'UNAUTHORIZED', message: 'Missing or unknown API key' });
+        return;
+      }
+      client.participants.add(message.participantId);
+      send({ type: 'auth-ok' });
+      return;
+    }
+    if (client.multiplex && message?.type === 'login') {
+      if (!this.authorize(message)) {
+        send({ type: 'login-error', participantId: message.participantId, code: 'UNAUTHORIZED', message: 'Missing or unknown API key' });
+        return;
+      }
+      client.participants.add(message.participantId);
+      send({ type: 'login-ok', participantId: message.participantId });
+      return;
+    }
+    if (!client.multiplex && client.participants.size === 0) {
+      send({ type: 'auth-error', code: 'UNAUTHORIZED', message: 'Authenticate first' });
+      return;
+    }
+    if (message?.type === 'ping') {
+      send({ type: 'pong', timestamp: message.timestamp });
+      return;
+    }
+
+    const participantId: string | undefined = client.multiplex ? message?.participantId : Array.from(client.participants)[0];
+    if (participantId === undefined || !client.participants.has(participantId)) {
+      send({ type: 'error', participantId, code: 'UNAUTHORIZED', message: 'Participant not logged in' });
+      return;
+    }
+    const reply = (frame: Record<string, unknown>) => send(client.multiplex ? { ...frame, participantId } : frame);
+    const key = `${participantId}:${message.id}`;
+
+    switch (message.type) {
+      case 'logout':
+        client.participants.delete(participantId);
+        client.subscriptions.forEach((subscription, subscriptionKey) => {
+          if (subscription.participantId === participantId) client.subscriptions.delete(subscriptionKey);
+        });
+        break;
+      case 'subscribe':
+        if (!TOPIC_TYPES.includes(message.topic?.type)) {
+          reply({ type: 'subscription-error', id: message.id, code: 'INVALID_TOPIC', message: 'Unknown topic type' });
+        } else {
+          client.subscriptions.set(key, { participantId, id: message.id, topic: message.topic });
+          reply({ type: 'subscribed', id: message.id });
+        }
+        break;
+      case 'unsubscribe':
+        client.subscriptions.delete(key);
+        break;
+      case 'replay': {
+        const head = this.backend.getEventHead(participantId);
+        const events = this.backend.getEventsAfter(participantId, Number(message.after));
+        if (!events) {
+          reply({ type: 'replay-unavailable', seq: head });
+          break;
+        }
+        events.forEach(({ type, payload, seq, timestamp }) => reply({ type, payload, seq, timestamp }));
+        reply({ type: 'replay-complete', seq: head });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Whether an `auth` or `login` message carries the participant's API key
+   */
+  private authorize(message: any): boolean {
+    const participantId = this.backend.authenticate(message?.apiKey);
+    return participantId !== undefined && participantId === message.participantId;
+  }
+
+  /**
+   * Send an event to its participant, or to everyone, and to matching subscriptions
+   */
+  private deliver(event: MockEvent): void {
+    const { type, payload, seq, timestamp } = event;
+    const frame = seq === undefined ? { type, payload } : { type, payload, seq, timestamp };
+
+    for (const client of this.clients) {
+      if (client.participants.size === 0 || client.socket.readyState !== WebSocket.OPEN) continue;
+      const send = (participantId: string | undefined, data: Record<string, unknown>) =>
+        client.socket.send(JSON.stringify(client.multiplex && participantId !== undefined ? { ...data, participantId } : data));
+
+      if (event.participantId === undefined) {
+        send(undefined, frame);
+      } else if (client.participants.has(event.participantId)) {
+        send(event.participantId, frame);
+      }
+      client.subscriptions.forEach(({ participantId, id, topic }) => {
+        if (event.participantId !== undefined && event.participantId !== participantId) return;
+        if (matchesTopic(topic, event.type, event.payload)) {
+          send(participantId, { type, payload, subscriptionId: id });
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { Socket } from 'net';
+
+/** Function code for reading holding registers */
+const READ_HOLDING_REGISTERS = 0x03;
+
+/** Maximum registers per read request allowed by the Modbus spec */
+const MAX_REGISTERS_PER_READ = 125;
+
+interface PendingRequest {
+  resolve: (registers: number[]) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Modbus TCP Client
+ * Minimal client supporting holding register reads (function code 3)
+ */
+export class ModbusTcpClient {
+  private host: string;
+  private port: number;
+  private unitId: number;
+  private timeout: number;
+  private socket?: Socket;
+  private buffer = Buffer.alloc(0);
+  private transactionId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  constructor(options: { host: string; port?: number; unitId?: number; timeout?: number }) {
+    this.host = options.host;
+    this.port = options.port || 502;
+    this.unitId = options.unitId ?? 1;
+    this.timeout = options.timeout || 5000;
+  }
+
+  /**
+   * Open the TCP connection
+   */
+  connect(): Promise<void> {
+    if (this.socket) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = new Socket();
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Modbus connection to ${this.host}:${this.port} timed out`));
+      }, this.timeout);
+
+      socket.once('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+
+      socket.connect(this.port, this.host, () => {
+        clearTimeout(timer);
+        socket.removeAllListeners('error');
+        socket.on('data', data => this.handleData(data));
+        socket.on('error', error => this.failAll(error));
+        socket.on('close', () => {
+          this.socket = undefined;
+          this.buffer = Buffer.alloc(0);
+          this.failAll(new Error('Modbus connection closed'));
+        });
+        this.socket = socket;
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Read holding registers, splitting large reads into multiple requests
+   * @param address Start register address (0-based)
+   * @param count Number of registers
+   * @returns Register values as unsigned 16-bit integers
+   */
+  async readHoldingRegisters(address: number, count: number): Promise<number[]> {
+    const registers: number[] = [];
+
+    for (let offset = 0; offset < count; offset += MAX_REGISTERS_PER_READ) {
+      const quantity = Math.min(MAX_REGISTERS_PER_READ, count - offset);
+      registers.push(...await this.request(address + offset, quantity));
+    }
+
+    return registers;
+  }
+
+  /**
+   * Close the TCP connection
+   */
+  close(): void {
+    if (this.socket) {
+      this.socket.destroy();
+      this.socket = undefined;
+    }
+  }
+
+  private request(address: number, quantity: number): Promise<number[]> {
+    if (!this.socket) {
+      return Promise.reject(new Error('Modbus client is not connected'));
+    }
+
+    this.transactionId = (this.transactionId + 1) & 0xffff;
+    const id = this.transactionId;
+
+    const frame = Buffer.alloc(12);
+    frame.writeUInt16BE(id, 0);
+    frame.writeUInt16BE(0, 2); // protocol identifier
+    frame.writeUInt16BE(6, 4); // unit id + PDU length
+    frame.writeUInt8(this.unitId, 6);
+    frame.writeUInt8(READ_HOLDING_REGISTERS, 7);
+    frame.writeUInt16BE(address, 8);
+    frame.writeUInt16BE(quantity, 10);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Modbus read of ${quantity} registers at ${address} timed out`));
+      }, this.timeout);
+
+      this.pending.set(id, { resolve, reject, timer });
+      this.socket!.write(frame);
+    });
+  }
+
+  private handleData(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+
+    // MBAP header is 7 bytes; length field counts unit id + PDU
+    while (this.buffer.length >= 7) {
+      const length = this.buffer.readUInt16BE(4);
+      if (this.buffer.length < 6 + length) break;
+
+      const id = this.buffer.readUInt16BE(0);
+      const pdu = this.buffer.subarray(7, 6 + length);
+      this.buffer = this.buffer.subarray(6 + length);
+
+      const pending = this.pending.get(id);
+      if (!pending) continue;
+      this.pending.delete(id);
+      clearTimeout(pending.timer);
+
+      const functionCode = pdu.readUInt8(0);
+      if (functionCode & 0x80) {
+        pending.reject(new Error(`Modbus exception ${pdu.readUInt8(1)} for function ${functionCode & 0x7f}`));
+        continue;
+      }
+
+      const byteCount = pdu.readUInt8(1);
+      const registers: number[] = [];
+      for (let i = 0; i < byteCount; i += 2) {
+        registers.push(pdu.readUInt16BE(2 + i));
+      }
+      pending.resolve(registers);
+    }
+  }
+
+  private failAll(error: Error): void {
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+      this.pending.delete(id);
+    }
+  }
+}
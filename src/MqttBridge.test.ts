@@ -0,0 +1,130 @@
+/**
+ * Tests for the MQTT ingestion bridge, run against a local Aedes broker
+ */
+
+import { createServer, Server, AddressInfo } from 'net';
+import Aedes, { createBroker } from 'aedes';
+import mqtt, { MqttClient } from 'mqtt';
+import { MqttBridge, compileTopicPattern } from './MqttBridge';
+import { EnergyMeter } from './EnergyMeter';
+import { EnergyMeasurement, EnergySource } from './types';
+
+function once(emitter: { once(event: any, fn: (...args: any[]) => void): unknown }, event: string): Promise<any[]> {
+  return new Promise(resolve => emitter.once(event, (...args: any[]) => resolve(args)));
+}
+
+describe('compileTopicPattern', () => {
+  test('matches wildcards', () => {
+    const pattern = compileTopicPattern('site/+/meter/+/reading');
+    expect(pattern.exec('site/s1/meter/m1/reading')?.slice(1)).toEqual(['s1', 'm1']);
+    expect(pattern.test('site/s1/meter/m1/status')).toBe(false);
+    expect(compileTopicPattern('site/#').test('site')).toBe(true);
+    expect(compileTopicPattern('site/#').exec('site/a/b')?.[1]).toBe('a/b');
+  });
+});
+
+describe('MqttBridge', () => {
+  let broker: Aedes;
+  let server: Server;
+  let url: string;
+  let clients: MqttClient[];
+  let uploads: EnergyMeasurement[][];
+  let failNext: boolean;
+  let bridge: MqttBridge;
+
+  const connect = (options: mqtt.IClientOptions = {}) => {
+    const client = mqtt.connect(url, { reconnectPeriod: 0, ...options });
+    clients.push(client);
+    return once(client, 'connect').then(() => client);
+  };
+
+  beforeEach(async () => {
+    broker = createBroker();
+    server = createServer(broker.handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    clients = [];
+    uploads = [];
+    failNext = false;
+
+    const meter = {
+      submitBatch: async (measurements: EnergyMeasurement[]) => {
+        if (failNext) {
+          failNext = false;
+          throw new Error('503 Service Unavailable');
+        }
+        uploads.push(measurements);
+        return { success: true, count: measurements.length };
+      }
+    } as unknown as EnergyMeter;
+
+    bridge = new MqttBridge(meter, { routes: [{ topic: 'site/+/meter/+/reading', qos: 1 }] });
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.endAsync(true)));
+    await new Promise<void>(resolve => broker.close(resolve));
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const reading = {
+    timestamp: '2024-01-15T12:00:00.000Z',
+    energy: 0.25,
+    power: 1,
+    source: EnergySource.GRID
+  };
+
+  test('forwards decoded readings and takes deviceId from the topic', async () => {
+    const subscriber = await connect({ clientId: 'bridge' });
+    await bridge.attach(subscriber);
+    const publisher = await connect();
+
+    const forwarded = once(bridge, 'forwarded');
+    await publisher.publishAsync('site/s1/meter/m1/reading', JSON.stringify(reading), { qos: 1 });
+    await forwarded;
+
+    expect(uploads).toEqual([[{ ...reading, deviceId: 'm1' }]]);
+  });
+
+  test('does not ack failed uploads so the broker redelivers them', async () => {
+    const subscriber = await connect({ clientId: 'bridge', clean: false });
+    await bridge.attach(subscriber);
+    const publisher = await connect();
+
+    failNext = true;
+    const failed = once(bridge, 'upload-failed');
+    await publisher.publishAsync('site/s1/meter/m1/reading', JSON.stringify(reading), { qos: 1 });
+    await failed;
+    expect(uploads).toHaveLength(0);
+
+    // Connection drops before the message was acknowledged
+    await subscriber.endAsync(true);
+
+    const forwarded = once(bridge, 'forwarded');
+    const resumed = await connect({ clientId: 'bridge', clean: false });
+    await bridge.attach(resumed);
+    await forwarded;
+
+    expect(uploads).toEqual([[{ ...reading, deviceId: 'm1' }]]);
+  });
+
+  test('reports invalid readings and keeps processing', async () => {
+    const subscriber = await connect({ clientId: 'bridge' });
+    await bridge.attach(subscriber);
+    const publisher = await connect();
+
+    const invalid = once(bridge, 'invalid');
+    await publisher.publishAsync('site/s1/meter/m1/reading', JSON.stringify({ ...reading, energy: -1 }), { qos: 1 });
+    const [details] = await invalid;
+    expect(details.errors).toContain('energy must be a non-negative number');
+
+    const undecodable = once(bridge, 'invalid');
+    await publisher.publishAsync('site/s1/meter/m1/reading', 'not json', { qos: 1 });
+    expect((await undecodable)[0].errors[0]).toMatch(/^decode failed/);
+
+    const forwarded = once(bridge, 'forwarded');
+    await publisher.publishAsync('site/s1/meter/m2/reading', JSON.stringify(reading), { qos: 0 });
+    await forwarded;
+    expect(uploads).toEqual([[{ ...reading, deviceId: 'm2' }]]);
+  });
+});
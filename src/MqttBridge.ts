@@ -0,0 +1,152 @@
+import EventEmitter from 'eventemitter3';
+import { EnergyMeter } from './EnergyMeter';
+import { validateMeasurement } from './utils';
+import {
+  EnergyMeasurement,
+  MqttDecoder,
+  MqttBridgeRoute,
+  MqttClientLike,
+  MqttBridgeEvents
+} from './types';
+
+interface CompiledRoute extends MqttBridgeRoute {
+  pattern: RegExp;
+}
+
+/**
+ * Default decoder: a JSON measurement or array of measurements.
+ * Readings without a deviceId take the last wildcard value of the topic.
+ */
+export const jsonDecoder: MqttDecoder = (payload, { wildcards }) => {
+  const data = JSON.parse(payload.toString('utf8'));
+  const items: EnergyMeasurement[] = Array.isArray(data) ? data : [data];
+  const fallbackId = wildcards[wildcards.length - 1];
+
+  return items.map(item => (item.deviceId || !fallbackId ? item : { ...item, deviceId: fallbackId }));
+};
+
+/**
+ * Convert an MQTT topic pattern into a regular expression capturing wildcard values
+ * @param topic Topic pattern with `+` and `#` wildcards
+ * @returns Regular expression matching concrete topics
+ */
+export function compileTopicPattern(topic: string): RegExp {
+  const source = topic
+    .split('/')
+    .map(level => {
+      if (level === '+') return '([^/]*)';
+      if (level === '#') return '(.*)';
+      return level.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/')
+    .replace(/\/\(\.\*\)$/, '(?:/(.*))?');
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * MQTT Bridge
+ * Forwards device telemetry from an MQTT broker to EnergyMeter.submitBatch.
+ *
+ * The bridge takes over the client's `handleMessage` hook, so QoS 1
+ * messages are acknowledged only after their readings were uploaded.
+ * The broker redelivers an unacknowledged message only when a persistent
+ * session (`clean: false`) resumes, not while the connection stays up, so
+ * on `upload-failed` reconnect the client to have it sent again.
+ *
+ * MQTT.js runs `handleMessage` for QoS 2 messages after it sent the
+ * PUBREC, so the broker will not redeliver them; readings of a failed
+ * upload are only reported through `upload-failed`. Use QoS 1 when they
+ * must not be lost.
+ */
+export class MqttBridge extends EventEmitter<MqttBridgeEvents> {
+  private meter: EnergyMeter;
+  private routes: CompiledRoute[];
+  private client?: MqttClientLike;
+  private originalHandleMessage?: MqttClientLike['handleMessage'];
+
+  constructor(meter: EnergyMeter, config: { routes: MqttBridgeRoute[] }) {
+    super();
+    this.meter = meter;
+    this.routes = config.routes.map(route => ({ ...route, pattern: compileTopicPattern(route.topic) }));
+  }
+
+  /**
+   * Take over message handling and subscribe to all routes
+   * @param client Connected MQTT.js client (or compatible)
+   */
+  async attach(client: MqttClientLike): Promise<void> {
+    // Re-attaching after a reconnect only renews the subscriptions
+    if (this.client !== client) {
+      this.client = client;
+      this.originalHandleMessage = client.handleMessage;
+      client.handleMessage = (packet, callback) => {
+        const payload = typeof packet.payload === 'string' ? Buffer.from(packet.payload) : packet.payload;
+        this.process(packet.topic, payload).then(() => callback(), error => callback(error));
+      };
+    }
+
+    await Promise.all(this.routes.map(route => new Promise<void>((resolve, reject) => {
+      client.subscribe(route.topic, { qos: route.qos ?? 1 }, error => (error ? reject(error) : resolve()));
+    })));
+  }
+
+  /**
+   * Unsubscribe from all routes and restore the client's message handling
+   */
+  async detach(): Promise<void> {
+    const client = this.client;
+    if (!client) return;
+
+    client.handleMessage = this.originalHandleMessage!;
+    this.client = undefined;
+
+    await Promise.all(this.routes.map(route => new Promise<void>((resolve, reject) => {
+      client.unsubscribe(route.topic, error => (error ? reject(error) : resolve()));
+    })));
+  }
+
+  /**
+   * Decode, validate and upload one message
+   * @param topic Concrete topic
+   * @param payload Message payload
+   * @returns Readings that were uploaded; rejects if the upload failed
+   */
+  async process(topic: string, payload: Buffer): Promise<EnergyMeasurement[]> {
+    const route = this.routes.find(r => r.pattern.test(topic));
+    if (!route) return [];
+
+    const wildcards = route.pattern.exec(topic)!.slice(1).filter(w => w !== undefined);
+    const decoder = route.decoder || jsonDecoder;
+
+    let decoded: EnergyMeasurement[];
+    try {
+      const result = decoder(payload, { topic, wildcards });
+      decoded = result ? (Array.isArray(result) ? result : [result]) : [];
+    } catch (error) {
+      // Undecodable payloads are acknowledged: redelivery would not fix them
+      this.emit('invalid', { topic, errors: [`decode failed: ${(error as Error).message}`] });
+      return [];
+    }
+
+    const valid = decoded.filter(measurement => {
+      const { valid, errors } = validateMeasurement(measurement);
+      if (!valid) {
+        this.emit('invalid', { topic, errors, measurement });
+      }
+      return valid;
+    });
+
+    if (valid.length === 0) return [];
+
+    try {
+      await this.meter.submitBatch(valid);
+    } catch (error) {
+      this.emit('upload-failed', error as Error, topic);
+      throw error;
+    }
+
+    this.emit('forwarded', valid, topic);
+    return valid;
+  }
+}
@@ -2,8 +2,16 @@ import { VoltnetClient } from './VoltnetClient';
 import {
   MarketOffer,
   EnergySource,
-  EnergyTransaction
+  EnergyTransaction,
+  Subscription,
+  IdempotencyOptions,
+  OfferFilters,
+  Page,
+  PageOptions,
+  PaginationOptions
 } from './types';
+import { idempotencyHeaders } from './utils';
+import { paginate, toPage } from './pagination';
 
 /**
  * P2P Market Module
@@ -11,6 +19,7 @@ import {
  */
 export class P2PMarket {
   private client: VoltnetClient;
+  private offerSubscriptions = new Map<(offer: MarketOffer) => void, Subscription[]>();
 
   constructor(client: VoltnetClient) {
     this.client = client;
@@ -19,10 +28,16 @@ export class P2PMarket {
   /**
    * Create a new market offer
    * @param offer Offer details
+   * @param options Idempotency key, reused on retries
    * @returns Created offer
    */
-  async createOffer(offer: Omit<MarketOffer, 'id' | 'sellerId' | 'createdAt' | 'status'>): Promise<MarketOffer> {
-    const response = await this.client.getHttpClient().post('/market/offers', offer);
+  async createOffer(
+    offer: Omit<MarketOffer, 'id' | 'sellerId' | 'createdAt' | 'status'>,
+    options: IdempotencyOptions = {}
+  ): Promise<MarketOffer> {
+    const response = await this.client.getHttpClient().post('/market/offers', offer, {
+      headers: idempotencyHeaders(options.idempotencyKey)
+    });
     return response.data;
   }
 
@@ -31,18 +46,36 @@ export class P2PMarket {
    * @param filters Optional filters
    * @returns Array of active offers
    */
-  async getOffers(filters?: {
-    source?: EnergySource;
-    maxPrice?: number;
-    minEnergy?: number;
-    location?: { lat: number; lon: number; radius: number };
-  }): Promise<MarketOffer[]> {
+  async getOffers(filters?: OfferFilters): Promise<MarketOffer[]> {
     const response = await this.client.getHttpClient().get('/market/offers', {
       params: filters
     });
     return response.data;
   }
 
+  /**
+   * Get one page of active offers
+   * @param filters Optional filters
+   * @param page Cursor and page size
+   * @returns Page of active offers
+   */
+  async getOffersPage(filters: OfferFilters = {}, page: PageOptions = {}): Promise<Page<MarketOffer>> {
+    const response = await this.client.getHttpClient().get('/market/offers', {
+      params: { ...filters, ...page }
+    });
+    return toPage(response.data);
+  }
+
+  /**
+   * Iterate over all active offers, fetching pages as they are consumed
+   * @param filters Optional filters
+   * @param options Page size and item limit
+   * @returns Async iterator over offers
+   */
+  iterateOffers(filters: OfferFilters = {}, options: PaginationOptions = {}): AsyncGenerator<MarketOffer, void, undefined> {
+    return paginate(page => this.getOffersPage(filters, page), options);
+  }
+
   /**
    * Get a specific offer by ID
    * @param offerId Offer ID
@@ -66,11 +99,18 @@ export class P2PMarket {
    * Accept an offer and create a transaction
    * @param offerId Offer ID
    * @param energyAmount Amount of energy to purchase in kWh
+   * @param options Idempotency key, reused on retries
    * @returns Created transaction
    */
-  async acceptOffer(offerId: string, energyAmount: number): Promise<EnergyTransaction> {
+  async acceptOffer(
+    offerId: string,
+    energyAmount: number,
+    options: IdempotencyOptions = {}
+  ): Promise<EnergyTransaction> {
     const response = await this.client.getHttpClient().post(`/market/offers/${offerId}/accept`, {
       energyAmount
+    }, {
+      headers: idempotencyHeaders(options.idempotencyKey)
     });
     return response.data;
   }
@@ -132,7 +172,10 @@ export class P2PMarket {
     preferredSource?: EnergySource;
     location?: { lat: number; lon: number };
   }): Promise<MarketOffer | null> {
-    const response = await this.client.getHttpClient().post('/market/offers/best', criteria);
+    // A lookup, so safe to retry under any key
+    const response = await this.client.getHttpClient().post('/market/offers/best', criteria, {
+      headers: idempotencyHeaders()
+    });
     return response.data;
   }
 
@@ -147,14 +190,17 @@ export class P2PMarket {
     priceRange: { min: number; max: number };
     bySource: Record<EnergySource, { count: number; avgPrice: number }>;
   }> {
-    const response = await this.client.getHttpClient().get('/market/stats');
-    return response.data;
+    return this.client.getCache().fetch('marketStats', null, async () => {
+      const response = await this.client.getHttpClient().get('/market/stats');
+      return response.data;
+    });
   }
 
   /**
    * Create a recurring offer (e.g., daily solar production)
    * @param offer Base offer details
    * @param schedule Recurrence schedule
+   * @param options Idempotency key, reused on retries
    * @returns Created recurring offer configuration
    */
   async createRecurringOffer(
@@ -164,11 +210,14 @@ export class P2PMarket {
       startTime: string; // HH:MM format
       duration: number; // in hours
       daysOfWeek?: number[]; // 0-6, for weekly
-    }
+    },
+    options: IdempotencyOptions = {}
   ): Promise<{ scheduleId: string; nextOffer: MarketOffer }> {
     const response = await this.client.getHttpClient().post('/market/offers/recurring', {
       offer,
       schedule
+    }, {
+      headers: idempotencyHeaders(options.idempotencyKey)
     });
     return response.data;
   }
@@ -195,27 +244,22 @@ export class P2PMarket {
   }
 
   /**
-   * Subscribe to new offer notifications
+   * Subscribe to new offer notifications, filtered on the server
    * @param callback Function to call when new offer is created
    * @param filters Optional filters for notifications
+   * @returns Subscription handle
    */
   subscribeToOffers(
     callback: (offer: MarketOffer) => void,
     filters?: {
       source?: EnergySource;
       maxPrice?: number;
+      region?: { latitude: number; longitude: number; radius: number };
     }
-  ): void {
-    // Store filters for filtering in the callback
-    const wrappedCallback = (offer: MarketOffer) => {
-      if (filters) {
-        if (filters.source && offer.source !== filters.source) return;
-        if (filters.maxPrice && offer.pricePerKwh > filters.maxPrice) return;
-      }
-      callback(offer);
-    };
-
-    this.client.on('offer', wrappedCallback);
+  ): Subscription {
+    const subscription = this.client.listen({ type: 'offers', ...filters }, callback);
+    this.offerSubscriptions.set(callback, [...(this.offerSubscriptions.get(callback) || []), subscription]);
+    return subscription;
   }
 
   /**
@@ -223,7 +267,8 @@ export class P2PMarket {
    * @param callback Previously registered callback
    */
   unsubscribeFromOffers(callback: (offer: MarketOffer) => void): void {
-    this.client.off('offer', callback);
+    this.offerSubscriptions.get(callback)?.forEach(subscription => subscription.dispose());
+    this.offerSubscriptions.delete(callback);
   }
 
   /**
@@ -2,8 +2,11 @@ import { VoltnetClient } from './VoltnetClient';
 import {
   PriceInfo,
   PricingModel,
-  EnergySource
+  EnergySource,
+  Subscription,
+  IdempotencyOptions
 } from './types';
+import { idempotencyHeaders } from './utils';
 
 /**
  * Pricing Engine Module
@@ -11,6 +14,7 @@ import {
  */
 export class PricingEngine {
   private client: VoltnetClient;
+  private priceSubscriptions = new Map<(price: PriceInfo) => void, Subscription[]>();
 
   constructor(client: VoltnetClient) {
     this.client = client;
@@ -26,14 +30,15 @@ export class PricingEngine {
     source?: EnergySource,
     location?: { latitude: number; longitude: number }
   ): Promise<PriceInfo> {
-    const response = await this.client.getHttpClient().get('/pricing/current', {
-      params: {
-        source,
-        lat: location?.latitude,
-        lon: location?.longitude
-      }
+    const params = {
+      source,
+      lat: location?.latitude,
+      lon: location?.longitude
+    };
+    return this.client.getCache().fetch('currentPrice', params, async () => {
+      const response = await this.client.getHttpClient().get('/pricing/current', { params });
+      return response.data;
     });
-    return response.data;
   }
 
   /**
@@ -121,12 +126,15 @@ export class PricingEngine {
   /**
    * Set custom pricing for your energy production
    * @param priceInfo Custom price information
+   * @param options Idempotency key, reused on retries
    * @returns Confirmation
    */
-  async setCustomPrice(priceInfo: Omit<PriceInfo, 'validFrom'>): Promise<PriceInfo> {
+  async setCustomPrice(priceInfo: Omit<PriceInfo, 'validFrom'>, options: IdempotencyOptions = {}): Promise<PriceInfo> {
     const response = await this.client.getHttpClient().post('/pricing/custom', {
       ...priceInfo,
       validFrom: new Date().toISOString()
+    }, {
+      headers: idempotencyHeaders(options.idempotencyKey)
     });
     return response.data;
   }
@@ -159,8 +167,11 @@ export class PricingEngine {
     }>;
     cheapest: EnergySource;
   }> {
+    // A lookup, so safe to retry under any key
     const response = await this.client.getHttpClient().post('/pricing/compare', {
       sources
+    }, {
+      headers: idempotencyHeaders()
     });
     return response.data;
   }
@@ -199,16 +210,22 @@ export class PricingEngine {
     pricePerKwh: number;
     period: 'peak' | 'off-peak' | 'mid-peak';
   }>> {
-    const response = await this.client.getHttpClient().get('/pricing/time-of-use');
-    return response.data;
+    return this.client.getCache().fetch('timeOfUseSchedule', null, async () => {
+      const response = await this.client.getHttpClient().get('/pricing/time-of-use');
+      return response.data;
+    });
   }
 
   /**
    * Subscribe to real-time price updates
    * @param callback Function to call when price updates
+   * @param source Only receive prices for this energy source
+   * @returns Subscription handle
    */
-  subscribeToPriceUpdates(callback: (price: PriceInfo) => void): void {
-    this.client.on('price-update', callback);
+  subscribeToPriceUpdates(callback: (price: PriceInfo) => void, source?: EnergySource): Subscription {
+    const subscription = this.client.listen({ type: 'prices', source }, callback);
+    this.priceSubscriptions.set(callback, [...(this.priceSubscriptions.get(callback) || []), subscription]);
+    return subscription;
   }
 
   /**
@@ -216,6 +233,7 @@ export class PricingEngine {
    * @param callback Previously registered callback
    */
   unsubscribeFromPriceUpdates(callback: (price: PriceInfo) => void): void {
-    this.client.off('price-update', callback);
+    this.priceSubscriptions.get(callback)?.forEach(subscription => subscription.dispose());
+    this.priceSubscriptions.delete(callback);
   }
 }
@@ -0,0 +1,217 @@
+/**
+ * Tests for the realtime connection, run against a local WebSocket server
+ */
+
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { RealtimeConnection } from './RealtimeConnection';
+import { VoltnetClient } from './VoltnetClient';
+import { waitFor } from '../test/helpers';
+import { ConnectionState, RealtimeConnectionConfig } from './types';
+
+describe('RealtimeConnection', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let sockets: WebSocket[];
+  let requests: { url: string; messages: any[] }[];
+  let answerPings: boolean;
+  let connection: RealtimeConnection | undefined;
+  let client: VoltnetClient | undefined;
+
+  beforeEach(async () => {
+    sockets = [];
+    requests = [];
+    answerPings = true;
+    server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    server.on('connection', (socket, request) => {
+      const received: { url: string; messages: any[] } = { url: request.url!, messages: [] };
+      requests.push(received);
+      sockets.push(socket);
+
+      socket.on('message', data => {
+        const message = JSON.parse(data.toString());
+        received.messages.push(message);
+
+        if (message.type === 'auth') {
+          socket.send(JSON.stringify(message.apiKey === 'secret'
+            ? { type: 'auth-ok' }
+            : { type: 'auth-error', message: 'invalid API key' }));
+        } else if (message.type === 'ping' && answerPings) {
+          socket.send(JSON.stringify({ type: 'pong' }));
+        }
+      });
+    });
+  });
+
+  afterEach(async () => {
+    connection?.disconnect();
+    client?.disconnect();
+    connection = client = undefined;
+    sockets.forEach(socket => socket.terminate());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const open = (config: Partial<RealtimeConnectionConfig> = {}) => {
+    const states: ConnectionState[] = [];
+    connection = new RealtimeConnection({
+      url,
+      authenticate: () => ({ type: 'auth', apiKey: 'secret' }),
+      WebSocket,
+      reconnect: { initialDelay: 20, maxDelay: 100 },
+      random: () => 1,
+      ...config
+    });
+    connection.on('state', state => states.push(state));
+    connection.on('error', () => undefined);
+    connection.connect();
+    return states;
+  };
+
+  test('authenticates with the first message and forwards messages', async () => {
+    const messages: any[] = [];
+    const states = open();
+    connection!.on('message', message => messages.push(message));
+
+    await waitFor(() => connection!.getState() === 'open');
+    sockets[0].send(JSON.stringify({ type: 'price-update', payload: { price: 0.2 } }));
+    await waitFor(() => messages.length === 1);
+
+    expect(requests[0].url).toBe('/');
+    expect(requests[0].messages).toEqual([{ type: 'auth', apiKey: 'secret' }]);
+    expect(states).toEqual(['connecting', 'open']);
+    expect(messages).toEqual([{ type: 'price-update', payload: { price: 0.2 } }]);
+    expect(connection!.send({ type: 'hello' })).toBe(true);
+  });
+
+  test('reports messages that are not objects and listeners that throw', async () => {
+    const errors: any[] = [];
+    const messages: any[] = [];
+    open();
+    connection!.on('error', error => errors.push(error));
+    connection!.on('message', message => {
+      messages.push(message);
+      throw new Error('listener failed');
+    });
+
+    await waitFor(() => connection!.getState() === 'open');
+    sockets[0].send('null');
+    sockets[0].send(JSON.stringify({ type: 'price-update', payload: { price: 0.2 } }));
+    await waitFor(() => errors.length === 2);
+
+    expect(errors.map(error => error.code)).toEqual(['INVALID_MESSAGE', 'MESSAGE_HANDLER_FAILED']);
+    expect(messages).toHaveLength(1);
+    expect(connection!.getState()).toBe('open');
+  });
+
+  test('reconnects with backoff after the server closes the connection', async () => {
+    const delays: number[] = [];
+    const states = open({ random: () => 0.5 });
+    connection!.on('state', (state, details) => {
+      if (details.delayMs !== undefined) delays.push(details.delayMs);
+    });
+
+    await waitFor(() => connection!.getState() === 'open');
+    sockets[0].close(1012, 'restarting');
+    await waitFor(() => requests.length === 2 && connection!.getState() === 'open');
+
+    expect(states).toEqual(['connecting', 'open', 'connecting', 'open']);
+    expect(delays).toEqual([10]);
+    expect(requests[1].messages[0]).toEqual({ type: 'auth', apiKey: 'secret' });
+  });
+
+  test('backs off exponentially up to the maximum delay', async () => {
+    const delays: number[] = [];
+    connection = new RealtimeConnection({
+      url: 'ws://127.0.0.1:1',
+      WebSocket,
+      reconnect: { initialDelay: 10, maxDelay: 40, maxAttempts: 4 },
+      random: () => 1
+    });
+    connection.on('error', () => undefined);
+    connection.on('state', (state, details) => {
+      if (details.delayMs !== undefined) delays.push(details.delayMs);
+    });
+    connection.connect();
+
+    await waitFor(() => connection!.getState() === 'closed');
+    expect(delays).toEqual([10, 20, 40, 40]);
+  });
+
+  test('degrades and reconnects when heartbeats go unanswered', async () => {
+    answerPings = false;
+    const states = open({ heartbeatInterval: 20, heartbeatTimeout: 30 });
+
+    await waitFor(() => requests.length === 2);
+    await waitFor(() => connection!.getState() === 'open');
+
+    expect(states.slice(0, 4)).toEqual(['connecting', 'open', 'degraded', 'connecting']);
+    expect(requests[0].messages.map(m => m.type)).toEqual(['auth', 'ping']);
+  });
+
+  test('recovers from degraded when a message arrives', async () => {
+    answerPings = false;
+    const states = open({ heartbeatInterval: 10, heartbeatTimeout: 50 });
+
+    await waitFor(() => connection!.getState() === 'degraded');
+    sockets[0].send(JSON.stringify({ type: 'offer', payload: {} }));
+    await waitFor(() => connection!.getState() === 'open');
+
+    expect(states).toEqual(['connecting', 'open', 'degraded', 'open']);
+    expect(requests).toHaveLength(1);
+  });
+
+  test('stops on rejected credentials', async () => {
+    const errors: Error[] = [];
+    const states = open({ authenticate: () => ({ type: 'auth', apiKey: 'wrong' }) });
+    connection!.on('error', error => errors.push(error));
+
+    await waitFor(() => connection!.getState() === 'closed');
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(states).toEqual(['connecting', 'closed']);
+    expect(errors[0].message).toContain('invalid API key');
+    expect(requests).toHaveLength(1);
+  });
+
+  test('disconnect() stops reconnecting', async () => {
+    const states = open();
+    await waitFor(() => connection!.getState() === 'open');
+
+    sockets[0].close();
+    await waitFor(() => connection!.getState() === 'connecting');
+    connection!.disconnect();
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(states).toEqual(['connecting', 'open', 'connecting', 'closed']);
+    expect(requests).toHaveLength(1);
+    expect(connection!.send({ type: 'hello' })).toBe(false);
+  });
+
+  test('VoltnetClient authenticates after connecting and emits state changes', async () => {
+    const states: ConnectionState[] = [];
+    const prices: any[] = [];
+    client = new VoltnetClient({
+      apiUrl: url.replace('ws', 'http'),
+      apiKey: 'secret',
+      participantId: 'participant-001',
+      enableRealtime: true,
+      realtime: { WebSocket }
+    });
+    client.on('connection-state', state => states.push(state));
+    client.on('price-update', price => prices.push(price));
+
+    await waitFor(() => client!.getConnectionState() === 'open');
+    sockets[0].send(JSON.stringify({ type: 'price-update', payload: { price: 0.2 } }));
+    await waitFor(() => prices.length === 1);
+
+    expect(requests[0].url).toBe('/ws');
+    expect(requests[0].messages[0]).toEqual({ type: 'auth', apiKey: 'secret', participantId: 'participant-001' });
+    expect(states).toEqual(['open']);
+
+    client.disconnect();
+    expect(client.getConnectionState()).toBe('closed');
+  });
+});
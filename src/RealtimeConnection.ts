@@ -0,0 +1,291 @@
+import EventEmitter from 'eventemitter3';
+import NodeWebSocket from 'ws';
+import {
+  ConnectionState,
+  ConnectionStateDetails,
+  RealtimeConnectionConfig,
+  RealtimeConnectionEvents,
+  WebSocketLike
+} from './types';
+import { VoltnetError, AuthenticationError, NetworkError, TimeoutError } from './VoltnetError';
+
+/** WebSocket.OPEN */
+const OPEN = 1;
+
+/**
+ * Resolve the WebSocket implementation: the global one in browsers and
+ * recent Node versions, otherwise the `ws` package (left out of browser
+ * bundles through the `browser` field of package.json)
+ */
+function defaultWebSocket(): new (url: string) => WebSocketLike {
+  const global = globalThis as { WebSocket?: new (url: string) => WebSocketLike };
+  return global.WebSocket || NodeWebSocket;
+}
+
+/**
+ * Realtime Connection
+ * WebSocket connection that authenticates with a message after opening,
+ * watches its health with heartbeats and reconnects with jittered
+ * exponential backoff until disconnect() is called.
+ *
+ * Protocol: the client sends the authentication message and waits for
+ * `{ type: 'auth-ok' }` or `{ type: 'auth-error', message }`. Heartbeats are
+ * `{ type: 'ping' }` messages; any incoming message counts as a sign of life.
+ */
+export class RealtimeConnection extends EventEmitter<RealtimeConnectionEvents> {
+  private config: RealtimeConnectionConfig;
+  private WebSocketImpl?: new (url: string) => WebSocketLike;
+  private socket?: WebSocketLike;
+  private state: ConnectionState = 'closed';
+  private stopped = true;
+  private attempt = 0;
+  private lastMessageAt = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private heartbeatTimer?: ReturnType<typeof setTimeout>;
+  private authTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(config: RealtimeConnectionConfig) {
+    super();
+    this.config = config;
+    this.WebSocketImpl = config.WebSocket;
+  }
+
+  /**
+   * Open the connection; reconnects automatically until disconnect()
+   */
+  connect(): void {
+    if (!this.stopped) return;
+
+    this.stopped = false;
+    this.attempt = 0;
+    this.setState('connecting', {});
+    this.open();
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  disconnect(): void {
+    this.stopped = true;
+    clearTimeout(this.reconnectTimer);
+    this.closeSocket(1000, 'client disconnect');
+    this.setState('closed', { reason: 'disconnect' });
+  }
+
+  /**
+   * Send a message if the socket is open
+   * @param message Message object, sent as JSON
+   * @returns False if the socket is not open
+   */
+  send(message: Record<string, any>): boolean {
+    if (!this.socket || this.socket.readyState !== OPEN) {
+      return false;
+    }
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  /**
+   * Get the connection state
+   */
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  private open(): void {
+    let socket: WebSocketLike;
+    try {
+      this.WebSocketImpl = this.WebSocketImpl || defaultWebSocket();
+      socket = new this.WebSocketImpl(this.config.url);
+    } catch (error) {
+      this.emit('error', new NetworkError(`Failed to open WebSocket: ${(error as Error).message}`, { cause: error }));
+      this.scheduleReconnect((error as Error).message);
+      return;
+    }
+
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.lastMessageAt = Date.now();
+      this.authenticate(socket).catch(error => {
+        this.emit('error', error);
+        this.drop(`authentication failed: ${error.message}`);
+      });
+    };
+
+    socket.onmessage = event => {
+      // Errors thrown by listeners would otherwise escape from the socket's event handler
+      try {
+        this.handleMessage(event.data);
+      } catch (error) {
+        this.emit('error', new VoltnetError(`Failed to handle WebSocket message: ${(error as Error).message}`, {
+          code: 'MESSAGE_HANDLER_FAILED',
+          cause: error
+        }));
+      }
+    };
+
+    socket.onerror = () => {
+      this.emit('error', new NetworkError(`WebSocket connection to ${this.config.url} failed`));
+    };
+
+    socket.onclose = event => {
+      if (socket !== this.socket) return;
+      this.socket = undefined;
+      this.clearTimers();
+      this.scheduleReconnect(event.reason || `closed with code ${event.code}`);
+    };
+  }
+
+  private async authenticate(socket: WebSocketLike): Promise<void> {
+    if (!this.config.authenticate) {
+      this.opened();
+      return;
+    }
+
+    const message = await this.config.authenticate();
+    if (socket !== this.socket) return;
+
+    socket.send(JSON.stringify(message));
+    this.authTimer = setTimeout(() => {
+      this.emit('error', new TimeoutError('Realtime authentication timed out'));
+      this.drop('authentication timed out');
+    }, this.config.authTimeout ?? 10000);
+  }
+
+  private opened(): void {
+    clearTimeout(this.authTimer);
+    this.attempt = 0;
+    this.setState('open', {});
+    this.scheduleHeartbeat();
+  }
+
+  private handleMessage(data: unknown): void {
+    this.lastMessageAt = Date.now();
+
+    let message: any;
+    try {
+      message = JSON.parse(typeof data === 'string' ? data : String(data));
+    } catch (error) {
+      this.emit('error', new VoltnetError(`Failed to parse WebSocket message: ${(error as Error).message}`, {
+        code: 'INVALID_MESSAGE',
+        cause: error
+      }));
+      return;
+    }
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      this.emit('error', new VoltnetError('Ignored WebSocket message that is not an object', {
+        code: 'INVALID_MESSAGE',
+        details: message
+      }));
+      return;
+    }
+
+    if (this.state === 'degraded') {
+      this.setState('open', {});
+    }
+
+    switch (message.type) {
+      case 'auth-ok':
+        if (this.state === 'connecting') this.opened();
+        return;
+      case 'auth-error':
+        // Retrying with the same credentials would fail again
+        this.emit('error', new AuthenticationError(`Realtime authentication rejected: ${message.message || 'unknown reason'}`, {
+          code: message.code,
+          details: message
+        }));
+        this.stopped = true;
+        this.clearTimers();
+        this.closeSocket(4001, 'authentication rejected');
+        this.setState('closed', { reason: 'authentication rejected' });
+        return;
+      case 'pong':
+        return;
+      default:
+        this.emit('message', message);
+    }
+  }
+
+  /**
+   * Ping after every interval; degrade after one timeout without any
+   * message and drop the connection after a second one
+   */
+  private scheduleHeartbeat(): void {
+    const interval = this.config.heartbeatInterval ?? 25000;
+    const timeout = this.config.heartbeatTimeout ?? 10000;
+
+    this.heartbeatTimer = setTimeout(() => {
+      const sentAt = Date.now();
+      this.send({ type: 'ping', timestamp: new Date(sentAt).toISOString() });
+
+      this.heartbeatTimer = setTimeout(() => {
+        if (this.lastMessageAt >= sentAt) return this.scheduleHeartbeat();
+        this.setState('degraded', { reason: 'heartbeat timeout' });
+
+        this.heartbeatTimer = setTimeout(() => {
+          if (this.lastMessageAt >= sentAt) return this.scheduleHeartbeat();
+          this.drop('heartbeat timeout');
+        }, timeout);
+      }, timeout);
+    }, interval);
+  }
+
+  /**
+   * Abandon the current socket without waiting for its close event and reconnect
+   */
+  private drop(reason: string): void {
+    this.clearTimers();
+    this.closeSocket(4000, reason);
+    this.scheduleReconnect(reason);
+  }
+
+  private scheduleReconnect(reason: string): void {
+    if (this.stopped) return;
+
+    const { initialDelay = 1000, maxDelay = 30000, maxAttempts } = this.config.reconnect || {};
+    this.attempt += 1;
+
+    if (maxAttempts !== undefined && this.attempt > maxAttempts) {
+      this.stopped = true;
+      this.setState('closed', { reason: `gave up after ${maxAttempts} attempts: ${reason}` });
+      return;
+    }
+
+    // Full jitter keeps many clients from reconnecting in lockstep
+    const ceiling = Math.min(maxDelay, initialDelay * Math.pow(2, this.attempt - 1));
+    const delayMs = Math.round((this.config.random || Math.random)() * ceiling);
+
+    this.setState('connecting', { attempt: this.attempt, delayMs, reason });
+    this.reconnectTimer = setTimeout(() => this.open(), delayMs);
+  }
+
+  private closeSocket(code: number, reason: string): void {
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.socket = undefined;
+    this.clearTimers();
+    socket.onopen = socket.onmessage = socket.onclose = null;
+    // Errors of an abandoned socket are of no interest
+    socket.onerror = () => undefined;
+    try {
+      socket.close(code, reason);
+    } catch {
+      // Closing a socket that is still connecting throws in some implementations
+    }
+  }
+
+  private clearTimers(): void {
+    clearTimeout(this.heartbeatTimer);
+    clearTimeout(this.authTimer);
+  }
+
+  private setState(state: ConnectionState, details: Omit<ConnectionStateDetails, 'previous'>): void {
+    const previous = this.state;
+    this.state = state;
+    if (previous !== state || details.attempt !== undefined) {
+      this.emit('state', state, { previous, ...details });
+    }
+  }
+}
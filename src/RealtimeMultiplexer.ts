@@ -0,0 +1,252 @@
+import EventEmitter from 'eventemitter3';
+import { RealtimeConnection } from './RealtimeConnection';
+import { AuthenticationError, TimeoutError } from './VoltnetError';
+import {
+  ConnectionState,
+  ConnectionStateDetails,
+  RealtimeConnectionConfig,
+  RealtimeConnectionEvents,
+  RealtimeLink,
+  RealtimeTransport
+} from './types';
+
+interface ChannelOptions {
+  connection: RealtimeConnection;
+  participantId: string;
+  authenticate: () => Promise<Record<string, any>>;
+  authTimeout: number;
+  /** Start routing the participant's messages to the channel */
+  attach: (channel: RealtimeChannel) => void;
+  /** Stop routing them */
+  detach: (channel: RealtimeChannel) => void;
+}
+
+/**
+ * A participant's link over the shared connection. It is open once the
+ * server accepted the participant's login, and follows the shared
+ * connection's state otherwise.
+ */
+class RealtimeChannel extends EventEmitter<RealtimeConnectionEvents> implements RealtimeLink {
+  readonly participantId: string;
+  private options: ChannelOptions;
+  private connection: RealtimeConnection;
+  private state: ConnectionState = 'closed';
+  private stopped = true;
+  private authTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: ChannelOptions) {
+    super();
+    this.options = options;
+    this.connection = options.connection;
+    this.participantId = options.participantId;
+  }
+
+  connect(): void {
+    if (!this.stopped) return;
+
+    this.stopped = false;
+    this.options.attach(this);
+    this.setState('connecting', {});
+    const state = this.connection.getState();
+    if (state === 'open' || state === 'degraded') {
+      this.sendAuth();
+    }
+  }
+
+  disconnect(): void {
+    if (this.isAuthenticated()) {
+      this.connection.send({ type: 'logout', participantId: this.participantId });
+    }
+    this.close('disconnect');
+  }
+
+  send(message: Record<string, any>): boolean {
+    return this.isAuthenticated() && this.connection.send({ ...message, participantId: this.participantId });
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Follow a state change of the shared connection
+   */
+  connectionChanged(state: ConnectionState, details: ConnectionStateDetails): void {
+    if (this.stopped) return;
+
+    if (state === 'open' && details.previous === 'connecting') {
+      // A new socket: the participant has to authenticate again
+      this.setState('connecting', {});
+      this.sendAuth();
+    } else if (state === 'closed') {
+      this.close(details.reason);
+    } else if (state === 'connecting') {
+      clearTimeout(this.authTimer);
+      const { previous: _previous, ...rest } = details;
+      this.setState('connecting', rest);
+    } else if (this.isAuthenticated()) {
+      this.setState(state, { reason: details.reason });
+    }
+  }
+
+  /**
+   * Handle a message addressed to the participant
+   */
+  receive(message: any): void {
+    if (typeof message !== 'object' || message === null) return;
+
+    switch (message.type) {
+      case 'login-ok':
+        if (this.state !== 'connecting' || this.stopped) return;
+        clearTimeout(this.authTimer);
+        this.setState(this.connection.getState() === 'degraded' ? 'degraded' : 'open', {});
+        return;
+      case 'login-error':
+        clearTimeout(this.authTimer);
+        this.emit('error', new AuthenticationError(`Realtime authentication rejected: ${message.message || 'unknown reason'}`, {
+          code: message.code,
+          details: message
+        }));
+        this.close('authentication rejected');
+        return;
+      default:
+        if (this.isAuthenticated()) this.emit('message', message);
+    }
+  }
+
+  isAuthenticated(): boolean {
+    return !this.stopped && (this.state === 'open' || this.state === 'degraded');
+  }
+
+  private sendAuth(): void {
+    clearTimeout(this.authTimer);
+    this.options.authenticate().then(message => {
+      if (this.stopped || this.state !== 'connecting') return;
+      if (!this.connection.send({ ...message, type: 'login', participantId: this.participantId })) return;
+
+      // Asking again is harmless; the connection stays up for the other participants
+      this.authTimer = setTimeout(() => {
+        this.emit('error', new TimeoutError(`Realtime authentication of ${this.participantId} timed out`));
+        this.sendAuth();
+      }, this.options.authTimeout);
+    }, error => {
+      this.emit('error', error);
+      // Credentials may be available later, e.g. once a token endpoint recovers
+      if (this.stopped || this.state !== 'connecting') return;
+      this.authTimer = setTimeout(() => this.sendAuth(), this.options.authTimeout);
+    });
+  }
+
+  /**
+   * Stop the channel and stop routing messages to it
+   */
+  private close(reason?: string): void {
+    this.stopped = true;
+    clearTimeout(this.authTimer);
+    this.options.detach(this);
+    this.setState('closed', { reason });
+  }
+
+  private setState(state: ConnectionState, details: Omit<ConnectionStateDetails, 'previous'>): void {
+    const previous = this.state;
+    this.state = state;
+    if (previous !== state || details.attempt !== undefined) {
+      this.emit('state', state, { previous, ...details });
+    }
+  }
+}
+
+/**
+ * Realtime Multiplexer
+ * Carries the real-time links of many participants over one WebSocket
+ * connection. The connection opens with `{ type: 'auth', multiplex: true }`.
+ * Each participant then logs in with its credentials as
+ * `{ type: 'login', participantId, ... }` and gets `login-ok` or
+ * `login-error` back, and every message in either direction carries the
+ * `participantId` it belongs to. Messages without one, such as offers and
+ * price updates, go to every participant. `{ type: 'logout', participantId }`
+ * ends a participant's session. Pass it as `realtimeTransport` to
+ * VoltnetClient.
+ *
+ * Emits the shared connection's `state` and `error` events, and `message`
+ * once for each message without participant.
+ */
+export class RealtimeMultiplexer extends EventEmitter<RealtimeConnectionEvents> implements RealtimeTransport {
+  private connection: RealtimeConnection;
+  private channels = new Map<string, RealtimeChannel>();
+  private authTimeout: number;
+
+  constructor(config: Omit<RealtimeConnectionConfig, 'authenticate'>) {
+    super();
+    this.authTimeout = config.authTimeout ?? 10000;
+    this.connection = new RealtimeConnection({ ...config, authenticate: () => ({ type: 'auth', multiplex: true }) });
+
+    this.connection.on('state', (state, details) => {
+      this.channels.forEach(channel => channel.connectionChanged(state, details));
+      this.emit('state', state, details);
+    });
+    this.connection.on('message', message => this.route(message));
+    this.connection.on('error', error => this.emit('error', error));
+  }
+
+  open(participantId: string, authenticate: () => Promise<Record<string, any>>): RealtimeLink {
+    return new RealtimeChannel({
+      connection: this.connection,
+      participantId,
+      authenticate,
+      authTimeout: this.authTimeout,
+      attach: channel => this.attach(channel),
+      detach: channel => {
+        if (this.channels.get(channel.participantId) === channel) {
+          this.channels.delete(channel.participantId);
+        }
+      }
+    });
+  }
+
+  /**
+   * Close the shared connection; all participants' links close with it
+   */
+  disconnect(): void {
+    this.connection.disconnect();
+    this.channels.clear();
+  }
+
+  /**
+   * Get the state of the shared connection
+   */
+  getState(): ConnectionState {
+    return this.connection.getState();
+  }
+
+  /**
+   * Get the participants whose links are connected or connecting
+   */
+  getParticipantIds(): string[] {
+    return Array.from(this.channels.keys());
+  }
+
+  /**
+   * Route a participant's messages to its channel, connecting on first use.
+   * A participant has one channel; an older one is disconnected.
+   */
+  private attach(channel: RealtimeChannel): void {
+    const previous = this.channels.get(channel.participantId);
+    if (previous && previous !== channel) {
+      previous.disconnect();
+    }
+    this.channels.set(channel.participantId, channel);
+    this.connection.connect();
+  }
+
+  private route(message: any): void {
+    if (typeof message !== 'object' || message === null) return;
+
+    if (message.participantId === undefined) {
+      this.channels.forEach(channel => channel.receive(message));
+      this.emit('message', message);
+      return;
+    }
+    this.channels.get(message.participantId)?.receive(message);
+  }
+}
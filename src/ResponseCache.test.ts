@@ -0,0 +1,181 @@
+/**
+ * Tests for the response cache
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ResponseCache } from './ResponseCache';
+import { MemoryCacheStore } from './CacheStore';
+import { VoltnetClient } from './VoltnetClient';
+import { PricingEngine } from './PricingEngine';
+
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+// Load function whose calls resolve only when released
+function deferredLoads() {
+  const pending: Array<(value: number) => void> = [];
+  let calls = 0;
+  const load = () => new Promise<number>(resolve => {
+    calls++;
+    pending.push(resolve);
+  });
+  return {
+    load,
+    calls: () => calls,
+    release: (value: number) => pending.shift()!(value)
+  };
+}
+
+describe('ResponseCache', () => {
+  let now: number;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    now = Date.parse('2024-01-15T12:00:00.000Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    cache = new ResponseCache({ endpoints: { currentPrice: { ttl: 1000, staleWhileRevalidate: 5000 } } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('coalesces identical calls in flight and serves fresh entries', async () => {
+    const loads = deferredLoads();
+
+    const first = cache.fetch('currentPrice', { source: 'solar' }, loads.load);
+    const second = cache.fetch('currentPrice', { source: 'solar' }, loads.load);
+    const other = cache.fetch('currentPrice', { source: 'wind' }, loads.load);
+    await flushPromises();
+    loads.release(0.12);
+    loads.release(0.09);
+
+    expect(await first).toBe(0.12);
+    expect(await second).toBe(0.12);
+    expect(await other).toBe(0.09);
+    expect(loads.calls()).toBe(2);
+
+    now += 999;
+    expect(await cache.fetch('currentPrice', { source: 'solar' }, loads.load)).toBe(0.12);
+    expect(loads.calls()).toBe(2);
+  });
+
+  test('serves stale entries while revalidating, then reloads once they are too old', async () => {
+    let price = 0.1;
+    const load = jest.fn(async () => price);
+    await cache.fetch('currentPrice', null, load);
+
+    now += 2000;
+    price = 0.2;
+    expect(await cache.fetch('currentPrice', null, load)).toBe(0.1);
+    await flushPromises();
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(await cache.fetch('currentPrice', null, load)).toBe(0.2);
+
+    now += 10000;
+    price = 0.3;
+    expect(await cache.fetch('currentPrice', null, load)).toBe(0.3);
+  });
+
+  test('invalidates on matching events and discards responses requested before', async () => {
+    const loads = deferredLoads();
+    const stats = jest.fn(async () => ({ totalOffers: 3 }));
+    await cache.fetch('marketStats', null, stats);
+
+    const outdated = cache.fetch('currentPrice', null, loads.load);
+    await flushPromises();
+    cache.handleEvent('price-update');
+    const current = cache.fetch('currentPrice', null, loads.load);
+    await flushPromises();
+    loads.release(0.1);
+    loads.release(0.2);
+
+    expect(await outdated).toBe(0.1);
+    expect(await current).toBe(0.2);
+    expect(await cache.fetch('currentPrice', null, loads.load)).toBe(0.2);
+
+    // Unrelated entries are kept until an offer arrives
+    await cache.fetch('marketStats', null, stats);
+    expect(stats).toHaveBeenCalledTimes(1);
+    cache.handleEvent('offer');
+    await flushPromises();
+    await cache.fetch('marketStats', null, stats);
+    expect(stats).toHaveBeenCalledTimes(2);
+  });
+
+  test('reports failed background refreshes and keeps the stale entry', async () => {
+    const errors: Error[] = [];
+    cache = new ResponseCache({}, error => errors.push(error));
+    const load = jest.fn().mockResolvedValueOnce({ id: 'participant-001' }).mockRejectedValueOnce(new Error('503'));
+    await cache.fetch('profile', 'participant-001', load);
+
+    now += 61000;
+    expect(await cache.fetch('profile', 'participant-001', load)).toEqual({ id: 'participant-001' });
+    await flushPromises();
+
+    expect(errors.map(e => e.message)).toEqual(['503']);
+  });
+
+  test('passes every call through when disabled', async () => {
+    const disabled = new ResponseCache();
+    const load = jest.fn(async () => 1);
+    await disabled.fetch('currentPrice', null, load);
+    await disabled.fetch('currentPrice', null, load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  test('evicts the least recently used entry', () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    const entry = (value: number) => ({ value, expiresAt: 0, staleUntil: 0 });
+
+    store.set('a', entry(1));
+    store.set('b', entry(2));
+    store.get('a');
+    store.set('c', entry(3));
+
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('a')!.value).toBe(1);
+    expect(store.size).toBe(2);
+  });
+});
+
+describe('cached endpoints', () => {
+  let server: Server;
+  let requests: number;
+
+  beforeEach(async () => {
+    requests = 0;
+    server = createServer((_request, response) => {
+      requests++;
+      setTimeout(() => {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ pricePerKwh: 0.12 }));
+      }, 20);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('dashboard components polling the price share one request', async () => {
+    const client = new VoltnetClient({
+      apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      apiKey: 'secret',
+      participantId: 'participant-001',
+      cache: {}
+    });
+    const pricing = new PricingEngine(client);
+
+    const prices = await Promise.all(Array.from({ length: 10 }, () => pricing.getCurrentPrice()));
+    await pricing.getCurrentPrice();
+
+    expect(prices.every(price => price.pricePerKwh === 0.12)).toBe(true);
+    expect(requests).toBe(1);
+  });
+});
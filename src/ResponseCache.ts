@@ -0,0 +1,167 @@
+import { MemoryCacheStore } from './CacheStore';
+import { CacheOptions, CachePolicy, CacheStore, CachedEndpoint } from './types';
+
+const DEFAULT_POLICIES: Record<CachedEndpoint, Required<CachePolicy>> = {
+  currentPrice: { ttl: 5000, staleWhileRevalidate: 30000 },
+  timeOfUseSchedule: { ttl: 3600000, staleWhileRevalidate: 3600000 },
+  profile: { ttl: 60000, staleWhileRevalidate: 300000 },
+  marketStats: { ttl: 10000, staleWhileRevalidate: 60000 },
+  balance: { ttl: 0, staleWhileRevalidate: 0 }
+};
+
+/** Real-time events and the endpoints whose responses they make outdated */
+const INVALIDATED_BY: Record<string, CachedEndpoint[]> = {
+  'price-update': ['currentPrice'],
+  'offer': ['marketStats'],
+  'balance-update': ['balance']
+};
+
+/**
+ * Response Cache
+ * Caches responses of frequently read endpoints. Identical calls made while
+ * a request is in flight share it, expired entries are served while being
+ * refreshed in the background, and real-time events invalidate the entries
+ * they affect. Without options every call goes straight to the API.
+ */
+export class ResponseCache {
+  private enabled: boolean;
+  private store: CacheStore;
+  private policies: Record<CachedEndpoint, Required<CachePolicy>>;
+  private onError: (error: Error) => void;
+  private inFlight = new Map<string, Promise<unknown>>();
+  private storedKeys = new Map<CachedEndpoint, Set<string>>();
+  private generations = new Map<CachedEndpoint, number>();
+
+  constructor(options?: CacheOptions, onError: (error: Error) => void = () => undefined) {
+    this.enabled = options !== undefined;
+    this.store = options?.store || new MemoryCacheStore({ maxEntries: options?.maxEntries });
+    this.onError = onError;
+
+    this.policies = { ...DEFAULT_POLICIES };
+    for (const [endpoint, policy] of Object.entries(options?.endpoints || {}) as Array<[CachedEndpoint, CachePolicy]>) {
+      this.policies[endpoint] = { ...DEFAULT_POLICIES[endpoint], ...policy };
+    }
+  }
+
+  /**
+   * Get a response from the cache, or load it
+   * @param endpoint Endpoint the response belongs to
+   * @param params Request parameters that identify the response
+   * @param load Requests the response from the API
+   * @returns Cached or loaded response
+   */
+  async fetch<T>(endpoint: CachedEndpoint, params: unknown, load: () => Promise<T>): Promise<T> {
+    if (!this.enabled) {
+      return load();
+    }
+
+    const key = `${endpoint}:${JSON.stringify(params ?? null)}`;
+    const entry = this.policies[endpoint].ttl > 0 ? await this.store.get(key) : undefined;
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) {
+      return entry.value as T;
+    }
+    if (entry && now < entry.staleUntil) {
+      this.load(endpoint, key, load).catch(error => this.onError(error));
+      return entry.value as T;
+    }
+    return this.load(endpoint, key, load);
+  }
+
+  /**
+   * Store a response, e.g. the result of an update
+   * @param endpoint Endpoint the response belongs to
+   * @param params Request parameters that identify the response
+   * @param value Response
+   */
+  async set(endpoint: CachedEndpoint, params: unknown, value: unknown): Promise<void> {
+    if (!this.enabled) return;
+    this.bump(endpoint);
+    await this.save(endpoint, `${endpoint}:${JSON.stringify(params ?? null)}`, value);
+  }
+
+  /**
+   * Drop all cached responses of an endpoint. Requests in flight are not
+   * shared with later calls and their responses are not stored.
+   * @param endpoint Endpoint to invalidate
+   */
+  async invalidate(endpoint: CachedEndpoint): Promise<void> {
+    this.bump(endpoint);
+
+    const keys = this.storedKeys.get(endpoint);
+    this.storedKeys.delete(endpoint);
+    for (const key of keys || []) {
+      await this.store.delete(key);
+    }
+  }
+
+  /**
+   * Invalidate the endpoints affected by a real-time event
+   * @param type Event type, e.g. `price-update`
+   */
+  handleEvent(type: string): void {
+    for (const endpoint of INVALIDATED_BY[type] || []) {
+      this.invalidate(endpoint).catch(error => this.onError(error));
+    }
+  }
+
+  /**
+   * Drop every response cached by this client
+   */
+  async clear(): Promise<void> {
+    for (const endpoint of Object.keys(this.policies) as CachedEndpoint[]) {
+      await this.invalidate(endpoint);
+    }
+  }
+
+  /**
+   * Load a response, sharing the request with identical calls
+   */
+  private load<T>(endpoint: CachedEndpoint, key: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const generation = this.generations.get(endpoint) ?? 0;
+    const request = (async () => {
+      const value = await load();
+      // Responses requested before an invalidation may already be outdated
+      if ((this.generations.get(endpoint) ?? 0) === generation) {
+        await this.save(endpoint, key, value);
+      }
+      return value;
+    })();
+
+    const settle = () => {
+      if (this.inFlight.get(key) === request) {
+        this.inFlight.delete(key);
+      }
+    };
+    request.then(settle, settle);
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private async save(endpoint: CachedEndpoint, key: string, value: unknown): Promise<void> {
+    const { ttl, staleWhileRevalidate } = this.policies[endpoint];
+    if (ttl <= 0) return;
+
+    const now = Date.now();
+    await this.store.set(key, { value, expiresAt: now + ttl, staleUntil: now + ttl + staleWhileRevalidate });
+
+    const keys = this.storedKeys.get(endpoint) || new Set<string>();
+    keys.add(key);
+    this.storedKeys.set(endpoint, keys);
+  }
+
+  private bump(endpoint: CachedEndpoint): void {
+    this.generations.set(endpoint, (this.generations.get(endpoint) ?? 0) + 1);
+    for (const key of this.inFlight.keys()) {
+      if (key.startsWith(`${endpoint}:`)) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+}
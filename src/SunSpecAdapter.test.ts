@@ -0,0 +1,189 @@
+/**
+ * Tests for the SunSpec Modbus TCP adapter, run against an in-process Modbus server
+ */
+
+import { createServer, Server, Socket, AddressInfo } from 'net';
+import { SunSpecAdapter } from './SunSpecAdapter';
+import { EnergyMeter } from './EnergyMeter';
+import { EnergyMeasurement, EnergySource } from './types';
+
+/**
+ * In-process Modbus TCP server stand-in serving holding registers from a map
+ */
+function startModbusServer(registers: Map<number, number>): Promise<Server> {
+  const server = createServer(socket => {
+    socket.on('data', frame => {
+      const id = frame.readUInt16BE(0);
+      const unitId = frame.readUInt8(6);
+      const address = frame.readUInt16BE(8);
+      const quantity = frame.readUInt16BE(10);
+
+      let pdu: Buffer;
+      if (!registers.has(address)) {
+        pdu = Buffer.from([0x83, 0x02]); // illegal data address
+      } else {
+        pdu = Buffer.alloc(2 + quantity * 2);
+        pdu.writeUInt8(0x03, 0);
+        pdu.writeUInt8(quantity * 2, 1);
+        for (let i = 0; i < quantity; i++) {
+          pdu.writeUInt16BE(registers.get(address + i) ?? 0, 2 + i * 2);
+        }
+      }
+
+      const header = Buffer.alloc(7);
+      header.writeUInt16BE(id, 0);
+      header.writeUInt16BE(0, 2);
+      header.writeUInt16BE(pdu.length + 1, 4);
+      header.writeUInt8(unitId, 6);
+      socket.write(Buffer.concat([header, pdu]));
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function writeString(target: number[], offset: number, length: number, value: string): void {
+  const bytes = Buffer.alloc(length * 2);
+  bytes.write(value, 'latin1');
+  for (let i = 0; i < length; i++) {
+    target[offset + i] = bytes.readUInt16BE(i * 2);
+  }
+}
+
+function u16(value: number): number {
+  return value < 0 ? value + 0x10000 : value;
+}
+
+function buildDevice(inverterWh: number, meterImportWh: number): Map<number, number> {
+  const common = new Array(66).fill(0);
+  writeString(common, 0, 16, 'SunTech');
+  writeString(common, 16, 16, 'ST-10K');
+  writeString(common, 40, 8, '1.2.3');
+  writeString(common, 48, 16, 'SN123');
+
+  const inverter = new Array(50).fill(0);
+  inverter[0] = 4350; inverter[4] = u16(-2); // 43.50 A
+  inverter[8] = 2301; inverter[9] = 2299; inverter[10] = 2300; inverter[11] = u16(-1); // ~230 V
+  inverter[12] = 9870; inverter[13] = 0; // 9870 W
+  inverter[14] = 5001; inverter[15] = u16(-2); // 50.01 Hz
+  inverter[22] = Math.floor(inverterWh / 0x10000); inverter[23] = inverterWh % 0x10000; inverter[24] = 0;
+
+  const meter = new Array(105).fill(0);
+  meter[0] = 120; meter[4] = u16(-1); // 12.0 A
+  meter[5] = 2310; meter[13] = u16(-1); // 231.0 V
+  meter[14] = 5000; meter[15] = u16(-2);
+  meter[16] = u16(-2760); meter[20] = 0; // exporting 2760 W
+  meter[37] = 500; // exported 500 Wh
+  meter[44] = Math.floor(meterImportWh / 0x10000); meter[45] = meterImportWh % 0x10000;
+  meter[52] = 0;
+
+  const layout = [
+    0x5375, 0x6e53,
+    1, 66, ...common,
+    103, 50, ...inverter,
+    203, 105, ...meter,
+    0xffff, 0
+  ];
+
+  const registers = new Map<number, number>();
+  layout.forEach((value, i) => registers.set(40000 + i, value));
+  return registers;
+}
+
+describe('SunSpecAdapter', () => {
+  let registers: Map<number, number>;
+  let server: Server;
+  let adapter: SunSpecAdapter;
+
+  beforeEach(async () => {
+    registers = buildDevice(1000000, 20000);
+    server = await startModbusServer(registers);
+    adapter = new SunSpecAdapter({
+      host: '127.0.0.1',
+      port: (server.address() as AddressInfo).port,
+      deviceId: 'inverter-01',
+      deviceIds: { 203: 'meter-01' },
+      timeout: 1000
+    });
+  });
+
+  afterEach(async () => {
+    adapter.stop();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('discovers SunSpec models', async () => {
+    const models = await adapter.discover();
+    expect(models.map(m => m.id)).toEqual([1, 103, 203]);
+    expect(models[1]).toEqual({ id: 103, address: 40004 + 66 + 2, length: 50 });
+  });
+
+  test('produces scaled measurements', async () => {
+    const [inverter, meter] = await adapter.poll();
+
+    expect(inverter).toMatchObject({
+      deviceId: 'inverter-01',
+      energy: 0,
+      power: 9.87,
+      voltage: 230,
+      current: 43.5,
+      source: EnergySource.SOLAR,
+      metadata: { sunspecModel: 103, manufacturer: 'SunTech', model: 'ST-10K', serialNumber: 'SN123', lifetimeEnergy: 1000 }
+    });
+
+    expect(meter).toMatchObject({
+      deviceId: 'meter-01',
+      power: 2.76,
+      voltage: 231,
+      current: 12,
+      source: EnergySource.GRID,
+      metadata: { powerDirection: 'export', lifetimeExport: 0.5 }
+    });
+  });
+
+  test('reports interval energy between polls', async () => {
+    await adapter.poll();
+
+    const next = buildDevice(1001250, 20400);
+    next.forEach((value, address) => registers.set(address, value));
+
+    const [inverter, meter] = await adapter.poll();
+    expect(inverter.energy).toBe(1.25);
+    expect(meter.energy).toBe(0.4);
+  });
+
+  test('reconnects when the device closes the connection', async () => {
+    const sockets: Socket[] = [];
+    server.on('connection', socket => sockets.push(socket));
+    await adapter.poll();
+
+    sockets.forEach(socket => socket.destroy());
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const next = buildDevice(1001250, 20400);
+    next.forEach((value, address) => registers.set(address, value));
+    const [inverter] = await adapter.poll();
+    expect(inverter.energy).toBe(1.25);
+    expect(sockets).toHaveLength(2);
+  });
+
+  test('submits readings once a baseline exists', async () => {
+    const submitted: EnergyMeasurement[][] = [];
+    const meter = { submitBatch: async (measurements: EnergyMeasurement[]) => { submitted.push(measurements); } } as unknown as EnergyMeter;
+    adapter = new SunSpecAdapter({
+      host: '127.0.0.1',
+      port: (server.address() as AddressInfo).port,
+      deviceId: 'inverter-01',
+      deviceIds: { 203: 'meter-01' },
+      timeout: 1000
+    }, meter);
+
+    await adapter.poll();
+    expect(submitted).toEqual([]);
+
+    const next = buildDevice(1001250, 20400);
+    next.forEach((value, address) => registers.set(address, value));
+    await adapter.poll();
+    expect(submitted.map(batch => batch.map(m => [m.deviceId, m.energy]))).toEqual([[['inverter-01', 1.25], ['meter-01', 0.4]]]);
+  });
+});
@@ -0,0 +1,321 @@
+import EventEmitter from 'eventemitter3';
+import { EnergyMeter } from './EnergyMeter';
+import { ModbusTcpClient } from './ModbusTcpClient';
+import {
+  EnergyMeasurement,
+  EnergySource,
+  EnergyDirection,
+  SunSpecAdapterConfig,
+  SunSpecModelInfo,
+  SunSpecAdapterEvents
+} from './types';
+
+/** "SunS" marker at the SunSpec base address */
+const SUNSPEC_MARKER = [0x5375, 0x6e53];
+
+/** End-of-models marker */
+const END_MODEL_ID = 0xffff;
+
+/** Base addresses probed when none is configured */
+const BASE_ADDRESSES = [40000, 0, 50000];
+
+/** Inverter models: single phase, split phase, three phase */
+const INVERTER_MODELS = [101, 102, 103];
+
+/** Meter models: single phase, split phase, wye, delta */
+const METER_MODELS = [201, 202, 203, 204];
+
+/**
+ * Instantaneous and cumulative values decoded from a SunSpec model
+ */
+export interface SunSpecReading {
+  /** Total AC current in A */
+  current?: number;
+  /** Average phase voltage in V */
+  voltage?: number;
+  /** Real power in W (meters: positive is import) */
+  power?: number;
+  /** Frequency in Hz */
+  frequency?: number;
+  /** Lifetime energy produced (inverters) or imported (meters) in Wh */
+  energyImported?: number;
+  /** Lifetime energy exported in Wh (meters only) */
+  energyExported?: number;
+}
+
+function int16(raw: number): number {
+  return raw >= 0x8000 ? raw - 0x10000 : raw;
+}
+
+function acc32(registers: number[], offset: number): number {
+  return registers[offset] * 0x10000 + registers[offset + 1];
+}
+
+/**
+ * Apply a SunSpec scale factor; returns undefined for unimplemented values
+ */
+function scale(raw: number, sfRaw: number, signed: boolean): number | undefined {
+  if (sfRaw === 0x8000) return undefined;
+  if (signed ? raw === 0x8000 : raw === 0xffff) return undefined;
+
+  const value = signed ? int16(raw) : raw;
+  const sf = int16(sfRaw);
+  const scaled = value * Math.pow(10, sf);
+  return sf < 0 ? Number(scaled.toFixed(-sf)) : scaled;
+}
+
+function scaleAcc32(registers: number[], offset: number, sfRaw: number): number | undefined {
+  const value = acc32(registers, offset);
+  // An accumulator of 0 means "not accumulated"
+  if (value === 0 || sfRaw === 0x8000) return undefined;
+  return value * Math.pow(10, int16(sfRaw));
+}
+
+function average(values: Array<number | undefined>): number | undefined {
+  const present = values.filter((v): v is number => v !== undefined && v !== 0);
+  if (present.length === 0) return undefined;
+  return Number((present.reduce((sum, v) => sum + v, 0) / present.length).toFixed(3));
+}
+
+function decodeString(registers: number[], offset: number, length: number): string {
+  const bytes = Buffer.alloc(length * 2);
+  for (let i = 0; i < length; i++) {
+    bytes.writeUInt16BE(registers[offset + i], i * 2);
+  }
+  return bytes.toString('latin1').replace(/\0+$/, '').trim();
+}
+
+/**
+ * Decode SunSpec model 1 (common block)
+ * @param registers Model data registers (after ID and length)
+ * @returns Device identification
+ */
+export function decodeCommonModel(registers: number[]): {
+  manufacturer: string;
+  model: string;
+  version: string;
+  serialNumber: string;
+} {
+  return {
+    manufacturer: decodeString(registers, 0, 16),
+    model: decodeString(registers, 16, 16),
+    version: decodeString(registers, 40, 8),
+    serialNumber: decodeString(registers, 48, 16)
+  };
+}
+
+/**
+ * Decode SunSpec inverter models 101-103
+ * @param registers Model data registers (after ID and length)
+ * @returns Decoded reading
+ */
+export function decodeInverterModel(registers: number[]): SunSpecReading {
+  const aSf = registers[4];
+  const vSf = registers[11];
+
+  return {
+    current: scale(registers[0], aSf, false),
+    voltage: average([8, 9, 10].map(i => scale(registers[i], vSf, false))),
+    power: scale(registers[12], registers[13], true),
+    frequency: scale(registers[14], registers[15], false),
+    energyImported: scaleAcc32(registers, 22, registers[24])
+  };
+}
+
+/**
+ * Decode SunSpec meter models 201-204
+ * @param registers Model data registers (after ID and length)
+ * @returns Decoded reading
+ */
+export function decodeMeterModel(registers: number[]): SunSpecReading {
+  const aSf = registers[4];
+  const vSf = registers[13];
+  const whSf = registers[52];
+
+  return {
+    current: scale(registers[0], aSf, true),
+    voltage: scale(registers[5], vSf, true) ?? average([6, 7, 8].map(i => scale(registers[i], vSf, true))),
+    power: scale(registers[16], registers[20], true),
+    frequency: scale(registers[14], registers[15], true),
+    energyExported: scaleAcc32(registers, 36, whSf),
+    energyImported: scaleAcc32(registers, 44, whSf)
+  };
+}
+
+/**
+ * SunSpec Adapter
+ * Polls a SunSpec device over Modbus TCP and produces energy measurements
+ */
+export class SunSpecAdapter extends EventEmitter<SunSpecAdapterEvents> {
+  private config: SunSpecAdapterConfig;
+  private meter?: EnergyMeter;
+  private modbus: ModbusTcpClient;
+  private models?: SunSpecModelInfo[];
+  private identity?: ReturnType<typeof decodeCommonModel>;
+  private lastEnergy = new Map<number, { imported?: number; exported?: number }>();
+  private pollTimer?: NodeJS.Timeout;
+
+  /**
+   * @param config Modbus endpoint and device configuration
+   * @param meter Optional meter used to submit each poll's measurements
+   */
+  constructor(config: SunSpecAdapterConfig, meter?: EnergyMeter) {
+    super();
+    this.config = config;
+    this.meter = meter;
+    this.modbus = new ModbusTcpClient({
+      host: config.host,
+      port: config.port,
+      unitId: config.unitId,
+      timeout: config.timeout
+    });
+  }
+
+  /**
+   * Discover the SunSpec models exposed by the device
+   * @returns Model blocks in register order
+   */
+  async discover(): Promise<SunSpecModelInfo[]> {
+    await this.modbus.connect();
+
+    const candidates = this.config.baseAddress !== undefined ? [this.config.baseAddress] : BASE_ADDRESSES;
+
+    for (const base of candidates) {
+      let marker: number[];
+      try {
+        marker = await this.modbus.readHoldingRegisters(base, 2);
+      } catch {
+        continue;
+      }
+      if (marker[0] !== SUNSPEC_MARKER[0] || marker[1] !== SUNSPEC_MARKER[1]) continue;
+
+      const models: SunSpecModelInfo[] = [];
+      let address = base + 2;
+
+      while (address < 0xffff) {
+        const [id, length] = await this.modbus.readHoldingRegisters(address, 2);
+        if (id === END_MODEL_ID || length === undefined) break;
+        models.push({ id, address: address + 2, length });
+        address += 2 + length;
+      }
+
+      this.models = models;
+
+      const common = models.find(model => model.id === 1);
+      if (common) {
+        this.identity = decodeCommonModel(
+          await this.modbus.readHoldingRegisters(common.address, common.length)
+        );
+      }
+
+      return models;
+    }
+
+    throw new Error(`No SunSpec device found at ${this.config.host}:${this.config.port || 502}`);
+  }
+
+  /**
+   * Read all supported models once, reconnecting if the device closed the
+   * connection. The first reading of a model only sets the baseline for its
+   * energy registers: it has zero energy and is not submitted.
+   * @returns One measurement per inverter or meter model
+   */
+  async poll(): Promise<EnergyMeasurement[]> {
+    if (!this.models) {
+      await this.discover();
+    } else {
+      await this.modbus.connect();
+    }
+
+    const timestamp = new Date().toISOString();
+    const measurements: EnergyMeasurement[] = [];
+    const intervals: EnergyMeasurement[] = [];
+
+    for (const model of this.models!) {
+      const isInverter = INVERTER_MODELS.includes(model.id);
+      const isMeter = METER_MODELS.includes(model.id);
+      if (!isInverter && !isMeter) continue;
+
+      const hasBaseline = this.lastEnergy.has(model.id);
+      const registers = await this.modbus.readHoldingRegisters(model.address, model.length);
+      const reading = isInverter ? decodeInverterModel(registers) : decodeMeterModel(registers);
+      const measurement = this.toMeasurement(model.id, reading, timestamp, isInverter);
+      measurements.push(measurement);
+      if (hasBaseline) {
+        intervals.push(measurement);
+      }
+    }
+
+    if (this.meter && intervals.length > 0) {
+      await this.meter.submitBatch(intervals);
+    }
+
+    for (const measurement of measurements) {
+      this.emit('measurement', measurement);
+    }
+
+    return measurements;
+  }
+
+  /**
+   * Start polling on the configured interval
+   */
+  start(): void {
+    if (this.pollTimer) return;
+
+    const run = () => {
+      this.poll().catch(error => this.emit('error', error));
+    };
+
+    run();
+    this.pollTimer = setInterval(run, this.config.pollInterval || 60000);
+  }
+
+  /**
+   * Stop polling and close the Modbus connection
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    this.modbus.close();
+  }
+
+  private toMeasurement(
+    modelId: number,
+    reading: SunSpecReading,
+    timestamp: string,
+    isInverter: boolean
+  ): EnergyMeasurement {
+    const previous = this.lastEnergy.get(modelId);
+    this.lastEnergy.set(modelId, { imported: reading.energyImported, exported: reading.energyExported });
+
+    const delta = (current?: number, last?: number) =>
+      current !== undefined && last !== undefined && current >= last ? (current - last) / 1000 : 0;
+
+    const metadata: Record<string, any> = {
+      sunspecModel: modelId,
+      ...this.identity,
+      frequency: reading.frequency,
+      lifetimeEnergy: reading.energyImported !== undefined ? reading.energyImported / 1000 : undefined
+    };
+
+    if (!isInverter) {
+      metadata.powerDirection = (reading.power ?? 0) < 0 ? EnergyDirection.EXPORT : EnergyDirection.IMPORT;
+      metadata.lifetimeExport = reading.energyExported !== undefined ? reading.energyExported / 1000 : undefined;
+    }
+
+    return {
+      deviceId: this.config.deviceIds?.[modelId] || this.config.deviceId,
+      timestamp,
+      energy: delta(reading.energyImported, previous?.imported),
+      exportEnergy: isInverter ? undefined : delta(reading.energyExported, previous?.exported),
+      power: reading.power !== undefined ? Math.abs(reading.power) / 1000 : undefined,
+      voltage: reading.voltage,
+      current: reading.current !== undefined ? Math.abs(reading.current) : undefined,
+      source: isInverter ? this.config.source || EnergySource.SOLAR : EnergySource.GRID,
+      metadata
+    };
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Tests for request scheduling, and for the client's use of it against a
+ * local HTTP stand-in server
+ */
+
+import { createServer, Server, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { TokenBucketScheduler, classifyRequest } from './TokenBucketScheduler';
+import { VoltnetClient } from './VoltnetClient';
+import { EnergyMeter } from './EnergyMeter';
+import { TransactionManager } from './TransactionManager';
+import { EnergySource, ScheduledRequest } from './types';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+const request = (method: string, path: string): ScheduledRequest => ({ method, path, ...classifyRequest(method, path) });
+
+describe('TokenBucketScheduler', () => {
+  let granted: string[];
+  let releases: Map<string, () => void>;
+
+  const acquire = (scheduler: TokenBucketScheduler, name: string, scheduled: ScheduledRequest) =>
+    scheduler.acquire(scheduled).then(release => {
+      granted.push(name);
+      releases.set(name, release);
+    });
+
+  beforeEach(() => {
+    granted = [];
+    releases = new Map();
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('classifies requests by route and priority', () => {
+    expect(classifyRequest('get', '/market/offers')).toEqual({ routeClass: 'read', priority: 'normal' });
+    expect(classifyRequest('POST', '/measurements/batch')).toEqual({ routeClass: 'measurement', priority: 'low' });
+    expect(classifyRequest('GET', '/measurements/meter-01')).toEqual({ routeClass: 'read', priority: 'normal' });
+    expect(classifyRequest('POST', '/market/offers/offer-1/accept')).toEqual({ routeClass: 'write', priority: 'high' });
+    expect(classifyRequest('POST', '/settlements/trigger')).toEqual({ routeClass: 'write', priority: 'high' });
+    expect(classifyRequest('GET', '/transactions')).toEqual({ routeClass: 'read', priority: 'high' });
+  });
+
+  test('sends requests within the budget of their route class', async () => {
+    const scheduler = new TokenBucketScheduler({ budgets: { write: { rate: 2 } }, maxConcurrent: 10 });
+    ['w1', 'w2', 'w3', 'w4'].forEach(name => acquire(scheduler, name, request('POST', '/devices')));
+    acquire(scheduler, 'r1', request('GET', '/devices/meter-01'));
+    await flush();
+    expect(granted).toEqual(['w1', 'w2', 'r1']);
+
+    jest.advanceTimersByTime(499);
+    await flush();
+    expect(granted).toHaveLength(3);
+
+    jest.advanceTimersByTime(1);
+    await flush();
+    expect(granted).toEqual(['w1', 'w2', 'r1', 'w3']);
+
+    jest.advanceTimersByTime(500);
+    await flush();
+    expect(granted).toEqual(['w1', 'w2', 'r1', 'w3', 'w4']);
+    expect(scheduler.getQueueLength()).toBe(0);
+  });
+
+  test('caps concurrency and sends queued requests by priority', async () => {
+    const scheduler = new TokenBucketScheduler({ maxConcurrent: 1 });
+    acquire(scheduler, 'telemetry-1', request('POST', '/measurements'));
+    acquire(scheduler, 'telemetry-2', request('POST', '/measurements'));
+    acquire(scheduler, 'profile', request('GET', '/participants/p-1'));
+    acquire(scheduler, 'settlement', request('POST', '/settlements/trigger'));
+    await flush();
+    expect(granted).toEqual(['telemetry-1']);
+    expect(scheduler.getInFlight()).toBe(1);
+
+    for (let i = 0; i < 3; i++) {
+      releases.get(granted[granted.length - 1])!();
+      releases.get(granted[granted.length - 1])!(); // Releasing twice frees one slot
+      await flush();
+      expect(scheduler.getInFlight()).toBe(1);
+    }
+    expect(granted).toEqual(['telemetry-1', 'settlement', 'profile', 'telemetry-2']);
+  });
+
+  test('pauses a route class for Retry-After and exhausted server windows', async () => {
+    jest.setSystemTime(Date.parse('2024-01-15T12:00:00.000Z'));
+    const scheduler = new TokenBucketScheduler();
+    scheduler.observe(request('GET', '/pricing/current'), 429, { 'retry-after': '2' });
+    scheduler.observe(request('POST', '/measurements'), 200, {
+      'x-ratelimit-remaining': '0',
+      'x-ratelimit-reset': String(Date.parse('2024-01-15T12:00:01.000Z') / 1000)
+    });
+
+    acquire(scheduler, 'read', request('GET', '/pricing/current'));
+    acquire(scheduler, 'measurement', request('POST', '/measurements'));
+    acquire(scheduler, 'write', request('POST', '/market/offers'));
+    await flush();
+    expect(granted).toEqual(['write']);
+
+    jest.advanceTimersByTime(1000);
+    await flush();
+    expect(granted).toEqual(['write', 'measurement']);
+
+    jest.advanceTimersByTime(1000);
+    await flush();
+    expect(granted).toEqual(['write', 'measurement', 'read']);
+  });
+
+  test('rejects invalid budgets', () => {
+    expect(() => new TokenBucketScheduler({ budgets: { read: { rate: 0 } } })).toThrow('must be positive');
+    expect(() => new TokenBucketScheduler({ maxConcurrent: 0 })).toThrow('at least 1');
+  });
+});
+
+describe('VoltnetClient scheduling', () => {
+  let server: Server;
+  let requests: IncomingMessage[];
+  let rateLimited: number;
+  let hold: boolean;
+  let held: Array<() => void>;
+
+  beforeEach(async () => {
+    requests = [];
+    rateLimited = 0;
+    hold = false;
+    held = [];
+
+    // Stand-in for the API: rate limits the first requests, and can hold
+    // responses back to keep requests in flight
+    server = createServer((request, response) => {
+      request.resume();
+      request.on('end', () => {
+        requests.push(request);
+        if (rateLimited-- > 0) {
+          response.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': '0.05' });
+          response.end(JSON.stringify({ message: 'Slow down' }));
+          return;
+        }
+        const send = () => {
+          response.writeHead(200, { 'Content-Type': 'application/json' });
+          response.end(JSON.stringify({ id: 'settlement-1', success: true }));
+        };
+        hold ? held.push(send) : send();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const createClient = (scheduler?: TokenBucketScheduler) => new VoltnetClient({
+    apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    apiKey: 'test-key',
+    participantId: 'participant-001',
+    network: { retries: 2, retryDelay: 10000 },
+    scheduler
+  });
+
+  test('waits for Retry-After instead of backing off exponentially', async () => {
+    rateLimited = 2;
+    const started = Date.now();
+
+    await createClient().getProfile();
+
+    expect(requests).toHaveLength(3);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  test('sends settlement calls ahead of queued telemetry on a shared scheduler', async () => {
+    const scheduler = new TokenBucketScheduler({ maxConcurrent: 1 });
+    const meter = new EnergyMeter(createClient(scheduler));
+    const transactions = new TransactionManager(createClient(scheduler));
+    hold = true;
+
+    const uploads = [1, 2, 3].map(hour => meter.submitMeasurement({
+      deviceId: 'meter-01',
+      timestamp: `2024-01-15T0${hour}:00:00.000Z`,
+      energy: hour,
+      source: EnergySource.SOLAR
+    }));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const settlement = transactions.triggerSettlement();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(requests).toHaveLength(1);
+
+    hold = false;
+    held.forEach(send => send());
+    await Promise.all([...uploads, settlement]);
+    expect(requests.map(request => request.url)).toEqual([
+      '/measurements',
+      '/settlements/trigger',
+      '/measurements',
+      '/measurements'
+    ]);
+    expect(scheduler.getInFlight()).toBe(0);
+  });
+});
@@ -0,0 +1,223 @@
+import { VoltnetError, parseRetryAfter } from './VoltnetError';
+import {
+  RateBudget,
+  RequestPriority,
+  RequestScheduler,
+  RouteClass,
+  ScheduledRequest,
+  TokenBucketSchedulerOptions
+} from './types';
+
+const DEFAULT_BUDGETS: Record<RouteClass, Required<RateBudget>> = {
+  read: { rate: 20, burst: 40 },
+  write: { rate: 10, burst: 20 },
+  measurement: { rate: 50, burst: 100 }
+};
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 };
+
+/** Calls that move energy or money */
+const HIGH_PRIORITY_PATHS = [/^\/transactions(\/|$)/, /^\/settlements(\/|$)/, /^\/market\/offers\/[^/]+\/accept$/];
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/** Remaining requests in the server's window, as sent by common gateways */
+const REMAINING_HEADERS = ['ratelimit-remaining', 'x-ratelimit-remaining'];
+
+/** Time until the server's window resets */
+const RESET_HEADERS = ['ratelimit-reset', 'x-ratelimit-reset'];
+
+interface Bucket {
+  budget: Required<RateBudget>;
+  tokens: number;
+  updatedAt: number;
+  /** Set by a 429 or an exhausted server window */
+  pausedUntil: number;
+}
+
+interface Waiter {
+  request: ScheduledRequest;
+  order: number;
+  grant: (release: () => void) => void;
+}
+
+/**
+ * Route class and priority of a request. Transaction, settlement and
+ * offer-acceptance calls go first; measurement uploads are bulk telemetry
+ * and go last.
+ * @param method HTTP method
+ * @param path Path relative to the API URL
+ */
+export function classifyRequest(method: string, path: string): { routeClass: RouteClass; priority: RequestPriority } {
+  const read = READ_METHODS.includes(method.toUpperCase());
+  if (!read && /^\/measurements(\/|$)/.test(path)) {
+    return { routeClass: 'measurement', priority: 'low' };
+  }
+  return {
+    routeClass: read ? 'read' : 'write',
+    priority: HIGH_PRIORITY_PATHS.some(pattern => pattern.test(path)) ? 'high' : 'normal'
+  };
+}
+
+function firstHeader(headers: Record<string, unknown>, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = headers[name];
+    if (value !== undefined && value !== null && value !== '') return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Time until a rate-limit window resets, in ms. Gateways send either the
+ * seconds left or the reset time as Unix timestamp.
+ */
+function parseReset(value: string | undefined, now: number): number | undefined {
+  const seconds = Number(value);
+  if (value === undefined || !Number.isFinite(seconds)) return undefined;
+  return Math.max(0, seconds > 1e9 ? seconds * 1000 - now : seconds * 1000);
+}
+
+/**
+ * Token Bucket Scheduler
+ * Queues requests and sends them within a budget per route class, with a
+ * cap on requests in flight. Queued requests go out by priority, then in
+ * order. A 429 pauses its route class for the Retry-After time, and
+ * `RateLimit-Remaining`/`RateLimit-Reset` headers (also with `X-` prefix)
+ * bring the budget down to what the server allows. Pass one instance to
+ * several clients to make them share the limits.
+ */
+export class TokenBucketScheduler implements RequestScheduler {
+  private buckets = {} as Record<RouteClass, Bucket>;
+  private maxConcurrent: number;
+  private queue: Waiter[] = [];
+  private inFlight = 0;
+  private counter = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: TokenBucketSchedulerOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? 8;
+    if (!(this.maxConcurrent >= 1)) {
+      throw new VoltnetError('maxConcurrent must be at least 1', { code: 'INVALID_CONFIG' });
+    }
+
+    const now = Date.now();
+    for (const routeClass of Object.keys(DEFAULT_BUDGETS) as RouteClass[]) {
+      const custom = options.budgets?.[routeClass];
+      if (custom && !(custom.rate > 0)) {
+        throw new VoltnetError(`Rate for ${routeClass} requests must be positive`, { code: 'INVALID_CONFIG' });
+      }
+      const budget = custom
+        ? { rate: custom.rate, burst: Math.max(1, custom.burst ?? custom.rate) }
+        : DEFAULT_BUDGETS[routeClass];
+      this.buckets[routeClass] = { budget, tokens: budget.burst, updatedAt: now, pausedUntil: 0 };
+    }
+  }
+
+  acquire(request: ScheduledRequest): Promise<() => void> {
+    return new Promise(resolve => {
+      this.queue.push({ request, order: this.counter++, grant: resolve });
+      this.pump();
+    });
+  }
+
+  observe(request: ScheduledRequest, status: number, headers: Record<string, unknown>): void {
+    const now = Date.now();
+    const bucket = this.refill(request.routeClass, now);
+    const remaining = Number(firstHeader(headers, REMAINING_HEADERS) ?? NaN);
+    const reset = parseReset(firstHeader(headers, RESET_HEADERS), now);
+
+    if (Number.isFinite(remaining)) {
+      bucket.tokens = Math.min(bucket.tokens, Math.max(0, remaining));
+    }
+
+    let pause: number | undefined;
+    if (status === 429) {
+      bucket.tokens = 0;
+      pause = parseRetryAfter(headers['retry-after'], now) ?? reset;
+    } else if (remaining === 0) {
+      pause = reset;
+    }
+    if (pause !== undefined) {
+      bucket.pausedUntil = Math.max(bucket.pausedUntil, now + pause);
+    }
+    this.pump();
+  }
+
+  /**
+   * Get the number of requests waiting for a slot
+   */
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Get the number of requests sent and not yet completed
+   */
+  getInFlight(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * Send as many queued requests as budgets and the concurrency cap allow,
+   * then wait for the next token if requests remain
+   */
+  private pump(): void {
+    const now = Date.now();
+
+    while (this.inFlight < this.maxConcurrent) {
+      let next: Waiter | undefined;
+      for (const waiter of this.queue) {
+        const bucket = this.refill(waiter.request.routeClass, now);
+        if (bucket.pausedUntil > now || bucket.tokens < 1) continue;
+        if (!next || this.isBefore(waiter, next)) next = waiter;
+      }
+      if (!next) break;
+
+      this.queue.splice(this.queue.indexOf(next), 1);
+      this.buckets[next.request.routeClass].tokens -= 1;
+      this.inFlight++;
+      next.grant(this.releaser());
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    // A completing request pumps again when the cap is reached
+    if (this.queue.length === 0 || this.inFlight >= this.maxConcurrent) return;
+
+    let wait = Infinity;
+    for (const { request } of this.queue) {
+      const { budget, tokens, pausedUntil } = this.buckets[request.routeClass];
+      const refillTime = tokens < 1 ? ((1 - tokens) / budget.rate) * 1000 : 0;
+      wait = Math.min(wait, Math.max(pausedUntil - now, refillTime));
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.pump();
+    }, Math.max(1, Math.ceil(wait)));
+  }
+
+  private refill(routeClass: RouteClass, now: number): Bucket {
+    const bucket = this.buckets[routeClass];
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    bucket.tokens = Math.min(bucket.budget.burst, bucket.tokens + (elapsed * bucket.budget.rate) / 1000);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private isBefore(waiter: Waiter, other: Waiter): boolean {
+    const difference = PRIORITY_RANK[waiter.request.priority] - PRIORITY_RANK[other.request.priority];
+    return difference < 0 || (difference === 0 && waiter.order < other.order);
+  }
+
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.inFlight--;
+      this.pump();
+    };
+  }
+}
@@ -2,8 +2,17 @@ import { VoltnetClient } from './VoltnetClient';
 import {
   EnergyTransaction,
   Settlement,
-  TransactionStatus
+  TransactionStatus,
+  Subscription,
+  IdempotencyOptions,
+  TransactionFilters,
+  Page,
+  PageOptions,
+  PaginationOptions,
+  TimeRange
 } from './types';
+import { idempotencyHeaders } from './utils';
+import { paginate, paginateTimeRange, toPage, DAY_MS } from './pagination';
 
 /**
  * Transaction Manager Module
@@ -31,19 +40,48 @@ export class TransactionManager {
    * @param filters Optional filters
    * @returns Array of transactions
    */
-  async getTransactions(filters?: {
-    from?: string;
-    to?: string;
-    status?: TransactionStatus;
-    minAmount?: number;
-    maxAmount?: number;
-  }): Promise<EnergyTransaction[]> {
+  async getTransactions(filters?: TransactionFilters): Promise<EnergyTransaction[]> {
     const response = await this.client.getHttpClient().get('/transactions', {
       params: filters
     });
     return response.data;
   }
 
+  /**
+   * Get one page of transactions
+   * @param filters Optional filters
+   * @param page Cursor and page size
+   * @returns Page of transactions
+   */
+  async getTransactionsPage(filters: TransactionFilters = {}, page: PageOptions = {}): Promise<Page<EnergyTransaction>> {
+    const response = await this.client.getHttpClient().get('/transactions', {
+      params: { ...filters, ...page }
+    });
+    return toPage(response.data);
+  }
+
+  /**
+   * Iterate over all matching transactions, fetching pages as they are
+   * consumed. A range with `from` is requested in 30-day chunks.
+   * @param filters Optional filters
+   * @param options Page size, item limit, chunk size and concurrency
+   * @returns Async iterator over transactions
+   */
+  iterateTransactions(
+    filters: TransactionFilters = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<EnergyTransaction, void, undefined> {
+    const { from, to, ...rest } = filters;
+    if (!from) {
+      return paginate(page => this.getTransactionsPage(filters, page), options);
+    }
+    return paginateTimeRange(
+      { from, to: to ?? new Date().toISOString() },
+      (range, page) => this.getTransactionsPage({ ...rest, ...range }, page),
+      { chunkSize: 30 * DAY_MS, ...options }
+    );
+  }
+
   /**
    * Get transactions as seller
    * @param from Optional start date
@@ -57,6 +95,42 @@ export class TransactionManager {
     return response.data;
   }
 
+  /**
+   * Get one page of transactions as seller
+   * @param range Optional start and end date
+   * @param page Cursor and page size
+   * @returns Page of transactions where you were the seller
+   */
+  async getSalesTransactionsPage(range: Partial<TimeRange> = {}, page: PageOptions = {}): Promise<Page<EnergyTransaction>> {
+    const response = await this.client.getHttpClient().get('/transactions/sales', {
+      params: { ...range, ...page }
+    });
+    return toPage(response.data);
+  }
+
+  /**
+   * Iterate over all transactions as seller, fetching pages as they are
+   * consumed. A range with `from` is requested in 30-day chunks.
+   * @param from Optional start date
+   * @param to Optional end date (default: now when from is given)
+   * @param options Page size, item limit, chunk size and concurrency
+   * @returns Async iterator over transactions
+   */
+  iterateSalesTransactions(
+    from?: string,
+    to?: string,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<EnergyTransaction, void, undefined> {
+    if (!from) {
+      return paginate(page => this.getSalesTransactionsPage({ to }, page), options);
+    }
+    return paginateTimeRange(
+      { from, to: to ?? new Date().toISOString() },
+      (range, page) => this.getSalesTransactionsPage(range, page),
+      { chunkSize: 30 * DAY_MS, ...options }
+    );
+  }
+
   /**
    * Get transactions as buyer
    * @param from Optional start date
@@ -70,6 +144,42 @@ export class TransactionManager {
     return response.data;
   }
 
+  /**
+   * Get one page of transactions as buyer
+   * @param range Optional start and end date
+   * @param page Cursor and page size
+   * @returns Page of transactions where you were the buyer
+   */
+  async getPurchaseTransactionsPage(range: Partial<TimeRange> = {}, page: PageOptions = {}): Promise<Page<EnergyTransaction>> {
+    const response = await this.client.getHttpClient().get('/transactions/purchases', {
+      params: { ...range, ...page }
+    });
+    return toPage(response.data);
+  }
+
+  /**
+   * Iterate over all transactions as buyer, fetching pages as they are
+   * consumed. A range with `from` is requested in 30-day chunks.
+   * @param from Optional start date
+   * @param to Optional end date (default: now when from is given)
+   * @param options Page size, item limit, chunk size and concurrency
+   * @returns Async iterator over transactions
+   */
+  iteratePurchaseTransactions(
+    from?: string,
+    to?: string,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<EnergyTransaction, void, undefined> {
+    if (!from) {
+      return paginate(page => this.getPurchaseTransactionsPage({ to }, page), options);
+    }
+    return paginateTimeRange(
+      { from, to: to ?? new Date().toISOString() },
+      (range, page) => this.getPurchaseTransactionsPage(range, page),
+      { chunkSize: 30 * DAY_MS, ...options }
+    );
+  }
+
   /**
    * Get pending transactions
    * @returns Array of pending transactions
@@ -81,6 +191,7 @@ export class TransactionManager {
   /**
    * Create a direct P2P transaction
    * @param transaction Transaction details
+   * @param options Idempotency key, reused on retries
    * @returns Created transaction
    */
   async createTransaction(transaction: {
@@ -89,18 +200,23 @@ export class TransactionManager {
     pricePerKwh: number;
     source: string;
     metadata?: Record<string, any>;
-  }): Promise<EnergyTransaction> {
-    const response = await this.client.getHttpClient().post('/transactions', transaction);
+  }, options: IdempotencyOptions = {}): Promise<EnergyTransaction> {
+    const response = await this.client.getHttpClient().post('/transactions', transaction, {
+      headers: idempotencyHeaders(options.idempotencyKey)
+    });
     return response.data;
   }
 
   /**
    * Cancel a pending transaction
    * @param transactionId Transaction ID
+   * @param options Idempotency key, reused on retries
    * @returns Updated transaction
    */
-  async cancelTransaction(transactionId: string): Promise<EnergyTransaction> {
-    const response = await this.client.getHttpClient().post(`/transactions/${transactionId}/cancel`);
+  async cancelTransaction(transactionId: string, options: IdempotencyOptions = {}): Promise<EnergyTransaction> {
+    const response = await this.client.getHttpClient().post(`/transactions/${transactionId}/cancel`, undefined, {
+      headers: idempotencyHeaders(options.idempotencyKey)
+    });
     return response.data;
   }
 
@@ -127,6 +243,42 @@ export class TransactionManager {
     return response.data;
   }
 
+  /**
+   * Get one page of settlements
+   * @param range Optional start and end date
+   * @param page Cursor and page size
+   * @returns Page of settlements
+   */
+  async getSettlementsPage(range: Partial<TimeRange> = {}, page: PageOptions = {}): Promise<Page<Settlement>> {
+    const response = await this.client.getHttpClient().get('/settlements', {
+      params: { ...range, ...page }
+    });
+    return toPage(response.data);
+  }
+
+  /**
+   * Iterate over all settlements, fetching pages as they are consumed.
+   * A range with `from` is requested in 30-day chunks.
+   * @param from Optional start date
+   * @param to Optional end date (default: now when from is given)
+   * @param options Page size, item limit, chunk size and concurrency
+   * @returns Async iterator over settlements
+   */
+  iterateSettlements(
+    from?: string,
+    to?: string,
+    options: PaginationOptions = {}
+  ): AsyncGenerator<Settlement, void, undefined> {
+    if (!from) {
+      return paginate(page => this.getSettlementsPage({ to }, page), options);
+    }
+    return paginateTimeRange(
+      { from, to: to ?? new Date().toISOString() },
+      (range, page) => this.getSettlementsPage(range, page),
+      { chunkSize: 30 * DAY_MS, ...options }
+    );
+  }
+
   /**
    * Get pending settlements
    * @returns Array of pending settlements
@@ -139,11 +291,14 @@ export class TransactionManager {
   /**
    * Trigger settlement for pending transactions
    * @param transactionIds Optional array of specific transaction IDs to settle
+   * @param options Idempotency key, reused on retries
    * @returns Created settlement
    */
-  async triggerSettlement(transactionIds?: string[]): Promise<Settlement> {
+  async triggerSettlement(transactionIds?: string[], options: IdempotencyOptions = {}): Promise<Settlement> {
     const response = await this.client.getHttpClient().post('/settlements/trigger', {
       transactionIds
+    }, {
+      headers: idempotencyHeaders(options.idempotencyKey)
     });
     return response.data;
   }
@@ -187,9 +342,12 @@ export class TransactionManager {
     total: number;
     currency: string;
   }> {
+    // A calculation, so safe to retry under any key
     const response = await this.client.getHttpClient().post('/transactions/calculate-fees', {
       energy,
       pricePerKwh
+    }, {
+      headers: idempotencyHeaders()
     });
     return response.data;
   }
@@ -265,6 +423,16 @@ export class TransactionManager {
     this.client.off('settlement', callback);
   }
 
+  /**
+   * Follow the status of a single transaction
+   * @param transactionId Transaction ID
+   * @param callback Function to call with each update of the transaction
+   * @returns Subscription handle
+   */
+  watchTransaction(transactionId: string, callback: (transaction: EnergyTransaction) => void): Subscription {
+    return this.client.listen({ type: 'transaction', transactionId }, callback);
+  }
+
   /**
    * Verify transaction integrity
    * @param transactionId Transaction ID
@@ -288,11 +456,13 @@ export class TransactionManager {
    * Request refund for a transaction
    * @param transactionId Transaction ID
    * @param reason Refund reason
+   * @param options Idempotency key, reused on retries
    * @returns Refund request details
    */
   async requestRefund(
     transactionId: string,
-    reason: string
+    reason: string,
+    options: IdempotencyOptions = {}
   ): Promise<{
     refundId: string;
     status: 'pending' | 'approved' | 'rejected';
@@ -300,6 +470,8 @@ export class TransactionManager {
   }> {
     const response = await this.client.getHttpClient().post(`/transactions/${transactionId}/refund`, {
       reason
+    }, {
+      headers: idempotencyHeaders(options.idempotencyKey)
     });
     return response.data;
   }
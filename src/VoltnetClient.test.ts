@@ -0,0 +1,306 @@
+/**
+ * Tests for request retries against a local HTTP stand-in server, and for
+ * realtime subscriptions and event replay against a local WebSocket server
+ */
+
+import { createServer, Server, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { VoltnetClient } from './VoltnetClient';
+import { P2PMarket } from './P2PMarket';
+import { TransactionManager } from './TransactionManager';
+import { TimeoutError } from './VoltnetError';
+import { waitFor } from '../test/helpers';
+import { EnergySource, EnergyTransaction, MarketOffer, PriceInfo } from './types';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('VoltnetClient retries', () => {
+  let server: Server;
+  let requests: IncomingMessage[];
+  let transactions: Map<string, Record<string, any>>;
+  let slowResponses: number;
+  let client: VoltnetClient;
+
+  beforeEach(async () => {
+    requests = [];
+    transactions = new Map();
+    slowResponses = 3;
+
+    // Stand-in for the market API: carries out every request, but answers
+    // the first ones only after the client has given up
+    server = createServer((request, response) => {
+      requests.push(request);
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        const key = request.headers['idempotency-key'] as string | undefined;
+        let transaction = key ? transactions.get(key) : undefined;
+        if (!transaction) {
+          transaction = { id: `tx-${transactions.size + 1}`, energy: JSON.parse(body || '{}').energyAmount };
+          transactions.set(key || transaction.id, transaction);
+        }
+
+        const send = () => {
+          response.writeHead(201, { 'Content-Type': 'application/json' });
+          response.end(JSON.stringify(transaction));
+        };
+        slowResponses-- > 0 ? setTimeout(send, 300) : send();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    client = new VoltnetClient({
+      apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      apiKey: 'secret',
+      participantId: 'participant-001',
+      network: { timeout: 100, retries: 3, retryDelay: 5 }
+    });
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('a timed-out acceptOffer retried three times creates one transaction', async () => {
+    const transaction = await new P2PMarket(client).acceptOffer('offer-1', 5);
+
+    const keys = requests.map(request => request.headers['idempotency-key']);
+    expect(keys).toHaveLength(4);
+    expect(new Set(keys).size).toBe(1);
+    expect(transactions.size).toBe(1);
+    expect(transaction).toEqual({ id: 'tx-1', energy: 5 });
+  });
+
+  test('sends caller-supplied keys', async () => {
+    slowResponses = 0;
+    await new TransactionManager(client).triggerSettlement(['tx-1'], { idempotencyKey: 'settle-2024-01-15' });
+
+    expect(requests[0].headers['idempotency-key']).toBe('settle-2024-01-15');
+  });
+
+  test('does not retry non-idempotent requests without a key', async () => {
+    const error = await client.getHttpClient().post('/market/offers/offer-1/accept', { energyAmount: 5 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(requests).toHaveLength(1);
+  });
+
+  test('retries idempotent methods without a key', async () => {
+    slowResponses = 2;
+    await client.getHttpClient().get('/market/offers/offer-1');
+
+    expect(requests).toHaveLength(3);
+    expect(requests[0].headers['idempotency-key']).toBeUndefined();
+  });
+});
+
+describe('VoltnetClient realtime', () => {
+  let server: WebSocketServer;
+  let sockets: WebSocket[];
+  let frames: any[][];
+  let onReplay: ((socket: WebSocket, after: number) => void) | undefined;
+  let client: VoltnetClient;
+
+  // Frames other than authentication and heartbeats, per connection
+  const subscriptionFrames = (connection: number) =>
+    frames[connection].filter(frame => frame.type === 'subscribe' || frame.type === 'unsubscribe');
+
+  beforeEach(async () => {
+    sockets = [];
+    frames = [];
+    onReplay = undefined;
+    server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise(resolve => server.once('listening', resolve));
+
+    server.on('connection', socket => {
+      const received: any[] = [];
+      frames.push(received);
+      sockets.push(socket);
+
+      socket.on('message', data => {
+        const frame = JSON.parse(data.toString());
+        received.push(frame);
+        if (frame.type === 'auth') {
+          socket.send(JSON.stringify({ type: 'auth-ok' }));
+        } else if (frame.type === 'replay') {
+          onReplay?.(socket, frame.after);
+        } else if (frame.type === 'subscribe' && frame.topic.type === 'transaction' && !frame.topic.transactionId) {
+          socket.send(JSON.stringify({ type: 'subscription-error', id: frame.id, message: 'transactionId required' }));
+        }
+      });
+    });
+
+    client = new VoltnetClient({
+      apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      apiKey: 'secret',
+      participantId: 'participant-001',
+      enableRealtime: true,
+      realtime: { WebSocket, reconnect: { initialDelay: 10 } }
+    });
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    sockets.forEach(socket => socket.terminate());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const publish = (connection: number, message: Record<string, any>) =>
+    sockets[connection].send(JSON.stringify(message));
+
+  test('sends subscribe frames and routes topic events to their handle', async () => {
+    const prices: PriceInfo[] = [];
+    const broadcast: PriceInfo[] = [];
+    client.on('price-update', price => broadcast.push(price));
+
+    // Subscribed before the connection is up
+    const subscription = client.subscribe({ type: 'prices', source: EnergySource.SOLAR }, price => prices.push(price));
+    await waitFor(() => client.getConnectionState() === 'open' && subscriptionFrames(0).length === 1);
+
+    expect(subscriptionFrames(0)).toEqual([
+      { type: 'subscribe', id: subscription.id, topic: { type: 'prices', source: 'solar' } }
+    ]);
+
+    publish(0, { type: 'price-update', subscriptionId: subscription.id, payload: { pricePerKwh: 0.12 } });
+    publish(0, { type: 'price-update', payload: { pricePerKwh: 0.3 } });
+    await waitFor(() => broadcast.length === 1);
+
+    expect(prices).toEqual([{ pricePerKwh: 0.12 }]);
+    expect(broadcast).toEqual([{ pricePerKwh: 0.3 }]);
+  });
+
+  test('dispose sends an unsubscribe frame and stops delivery', async () => {
+    const updates: unknown[] = [];
+    await waitFor(() => client.getConnectionState() === 'open');
+    const subscription = client.subscribe({ type: 'measurements', deviceId: 'meter-01' }, m => updates.push(m));
+
+    subscription.dispose();
+    subscription.dispose();
+    await waitFor(() => subscriptionFrames(0).length === 2);
+    publish(0, { type: 'measurement', subscriptionId: subscription.id, payload: { deviceId: 'meter-01' } });
+    await delay(50);
+
+    expect(subscription.active).toBe(false);
+    expect(subscriptionFrames(0)).toEqual([
+      { type: 'subscribe', id: subscription.id, topic: { type: 'measurements', deviceId: 'meter-01' } },
+      { type: 'unsubscribe', id: subscription.id }
+    ]);
+    expect(updates).toEqual([]);
+  });
+
+  test('restores active subscriptions after a reconnect', async () => {
+    await waitFor(() => client.getConnectionState() === 'open');
+    const kept = client.subscribe({ type: 'transaction', transactionId: 'tx-1' }, () => undefined);
+    const dropped = client.subscribe({ type: 'measurements', deviceId: 'meter-01' }, () => undefined);
+    dropped.dispose();
+    await waitFor(() => subscriptionFrames(0).length === 3);
+
+    sockets[0].close(1012, 'restarting');
+    await waitFor(() => frames.length === 2 && subscriptionFrames(1).length === 1);
+    await delay(50);
+
+    expect(subscriptionFrames(1)).toEqual([
+      { type: 'subscribe', id: kept.id, topic: { type: 'transaction', transactionId: 'tx-1' } }
+    ]);
+  });
+
+  test('deactivates subscriptions rejected by the server', async () => {
+    const errors: Error[] = [];
+    client.on('error', error => errors.push(error));
+    await waitFor(() => client.getConnectionState() === 'open');
+
+    const subscription = client.subscribe({ type: 'transaction', transactionId: '' }, () => undefined);
+    await waitFor(() => errors.length === 1);
+
+    expect(errors[0].message).toContain('transactionId required');
+    expect(subscription.active).toBe(false);
+  });
+
+  test('P2PMarket filters offers on the server', async () => {
+    const market = new P2PMarket(client);
+    const offers: MarketOffer[] = [];
+    const callback = (offer: MarketOffer) => offers.push(offer);
+    await waitFor(() => client.getConnectionState() === 'open');
+
+    const region = { latitude: 52.37, longitude: 4.9, radius: 25 };
+    const subscription = market.subscribeToOffers(callback, { maxPrice: 0.15, region });
+    await waitFor(() => subscriptionFrames(0).length === 1);
+    publish(0, { type: 'offer', subscriptionId: subscription.id, payload: { id: 'offer-1', pricePerKwh: 0.14 } });
+    await waitFor(() => offers.length === 1);
+
+    market.unsubscribeFromOffers(callback);
+    await waitFor(() => subscriptionFrames(0).length === 2);
+
+    expect(subscriptionFrames(0)).toEqual([
+      { type: 'subscribe', id: subscription.id, topic: { type: 'offers', maxPrice: 0.15, region } },
+      { type: 'unsubscribe', id: subscription.id }
+    ]);
+    expect(subscription.active).toBe(false);
+  });
+
+  test('invalidates cached responses when a matching event arrives', async () => {
+    const invalidate = jest.spyOn(client.getCache(), 'invalidate');
+    await waitFor(() => client.getConnectionState() === 'open');
+    invalidate.mockClear();
+
+    publish(0, { type: 'balance-update', payload: { available: 42 } });
+    publish(0, { type: 'measurement', payload: { deviceId: 'meter-01' } });
+    await waitFor(() => invalidate.mock.calls.length > 0);
+    await delay(20);
+
+    expect(invalidate.mock.calls).toEqual([['balance']]);
+  });
+
+  test('requires realtime to be enabled', () => {
+    const offline = new VoltnetClient({ apiUrl: 'http://127.0.0.1:1', apiKey: 'secret', participantId: 'participant-001' });
+    expect(() => offline.subscribe({ type: 'prices' }, () => undefined)).toThrow('enableRealtime');
+  });
+
+  test('modules filter the client\'s own events when realtime is disabled', () => {
+    const offline = new VoltnetClient({ apiUrl: 'http://127.0.0.1:1', apiKey: 'secret', participantId: 'participant-001' });
+    const offers: string[] = [];
+    const subscription = new P2PMarket(offline).subscribeToOffers(offer => offers.push(offer.id), { maxPrice: 0.2 });
+
+    offline.emit('offer', { id: 'offer-1', pricePerKwh: 0.15 } as MarketOffer);
+    offline.emit('offer', { id: 'offer-2', pricePerKwh: 0.3 } as MarketOffer);
+    subscription.dispose();
+    offline.emit('offer', { id: 'offer-3', pricePerKwh: 0.1 } as MarketOffer);
+
+    expect(offers).toEqual(['offer-1']);
+    expect(subscription.active).toBe(false);
+  });
+
+  test('replays events missed while disconnected, each once and in order', async () => {
+    const received: string[] = [];
+    client.on('transaction', (tx: EnergyTransaction) => received.push(tx.id));
+    const transaction = (seq: number) => ({
+      type: 'transaction',
+      seq,
+      timestamp: new Date(Date.UTC(2024, 0, 15, 12, seq)).toISOString(),
+      payload: { id: `tx-${seq}`, status: 'completed' }
+    });
+
+    await waitFor(() => client.getConnectionState() === 'open');
+    publish(0, transaction(1));
+    publish(0, transaction(2));
+    await waitFor(() => received.length === 2);
+
+    // Events 3 and 4 were sent while the client was away; 5 arrives live before the replay
+    onReplay = (socket, after) => {
+      socket.send(JSON.stringify(transaction(5)));
+      for (let seq = after; seq <= 4; seq++) {
+        socket.send(JSON.stringify(transaction(seq)));
+      }
+      socket.send(JSON.stringify({ type: 'replay-complete', seq: 5 }));
+    };
+    sockets[0].close(1012, 'restarting');
+    await waitFor(() => received.length === 5);
+    await delay(50);
+
+    expect(frames[1].find(frame => frame.type === 'replay')).toEqual({ type: 'replay', after: 2 });
+    expect(received).toEqual(['tx-1', 'tx-2', 'tx-3', 'tx-4', 'tx-5']);
+    expect(client.getEventCursor()).toEqual({ seq: 5, timestamp: '2024-01-15T12:05:00.000Z' });
+  });
+});
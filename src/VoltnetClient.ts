@@ -1,40 +1,158 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosHeaders, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig, RawAxiosHeaders } from 'axios';
 import EventEmitter from 'eventemitter3';
+import { RealtimeConnection } from './RealtimeConnection';
+import { EventSequencer } from './EventSequencer';
+import { MemoryCursorStore } from './CursorStore';
+import { ResponseCache } from './ResponseCache';
+import { TransactionManager } from './TransactionManager';
+import { VoltnetError, AuthenticationError, InvalidResponseError, toVoltnetError, parseRetryAfter } from './VoltnetError';
+import { ApiKeyAuth } from './AuthProvider';
+import { TokenBucketScheduler, classifyRequest } from './TokenBucketScheduler';
+import { ClientMetrics, routeTemplate } from './ClientMetrics';
+import { createLogger } from './logging';
+import { startSpan, TRACEPARENT_HEADER, TRACESTATE_HEADER } from './tracing';
+import { IDEMPOTENCY_HEADER, matchesTopic } from './utils';
+import { paginate, toPage } from './pagination';
+import { validate, formatIssue, responseSchema, eventSchema } from './validation';
 import {
   VoltnetConfig,
+  AuthProvider,
+  RequestScheduler,
+  RealtimeLink,
+  ScheduledRequest,
+  Logger,
+  MiddlewareRequest,
   Participant,
   Balance,
   Statistics,
-  VoltnetEvents
+  VoltnetEvents,
+  ConnectionState,
+  Subscription,
+  SubscriptionTopic,
+  SubscriptionPayloads,
+  SequencedEvent,
+  EventCursor,
+  ParticipantQuery,
+  Page,
+  PageOptions,
+  PaginationOptions
 } from './types';
 
+/** Client event carrying the payloads of each topic */
+const TOPIC_EVENTS = {
+  measurements: 'measurement',
+  offers: 'offer',
+  transaction: 'transaction',
+  prices: 'price-update'
+} as const;
+
+/** Methods that can be repeated without changing the result */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/** Scheduler slot held by a request until its response arrives */
+interface Slot {
+  request: ScheduledRequest;
+  release: () => void;
+}
+
+/** State the interceptors keep on a request's config; retries reuse the config */
+interface RequestConfig extends InternalAxiosRequestConfig {
+  /** Scheduler slot of the current attempt */
+  _slot?: Slot;
+  /** Names of the headers set by the auth provider */
+  _authHeaders?: string[];
+  /** Start of the current attempt in ms since epoch */
+  _startedAt?: number;
+  /** The current attempt as middleware sees it */
+  _attempt?: MiddlewareRequest;
+  /** Retries sent so far */
+  _retry?: number;
+  /** Sent again with renewed credentials */
+  _authRetry?: boolean;
+}
+
+/**
+ * Whether axios would send a body as JSON: plain objects and arrays, but
+ * not URLSearchParams, FormData, buffers or other class instances
+ */
+function isJsonBody(data: unknown): boolean {
+  if (Array.isArray(data)) return true;
+  if (typeof data !== 'object' || data === null) return false;
+  const prototype = Object.getPrototypeOf(data);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * The bytes of a request body as axios sends them
+ * @returns Undefined if they are only known when sending, e.g. for FormData or streams
+ */
+function sentBody(data: unknown): string | Uint8Array | undefined {
+  if (data === undefined || data === null) return '';
+  if (typeof data === 'string') return data;
+  if (data instanceof URLSearchParams) return data.toString();
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return undefined;
+}
+
+interface ActiveSubscription {
+  handle: Subscription;
+  callback: (payload: any) => void;
+}
+
 /**
  * Main VOLTNET SDK Client
  * Provides access to all VOLTNET network features
  */
 export class VoltnetClient extends EventEmitter<VoltnetEvents> {
   private config: VoltnetConfig;
+  private auth: AuthProvider;
+  private scheduler: RequestScheduler;
   private httpClient: AxiosInstance;
-  private wsConnection?: WebSocket;
+  private realtime?: RealtimeLink;
+  private sequencer?: EventSequencer;
+  private cache: ResponseCache;
+  private logger: Logger;
+  private metrics: ClientMetrics;
+  private subscriptions = new Map<string, ActiveSubscription>();
+  private subscriptionCounter = 0;
+  private realtimeAuthRenewed = false;
+  private realtimeOpened = false;
 
   constructor(config: VoltnetConfig) {
     super();
     this.config = config;
 
+    if (!config.auth && !config.apiKey) {
+      throw new VoltnetError('VoltnetConfig requires apiKey or auth', { code: 'INVALID_CONFIG' });
+    }
+    this.auth = config.auth || new ApiKeyAuth(config.apiKey!);
+    this.scheduler = config.scheduler || new TokenBucketScheduler();
+    this.logger = createLogger(config.logging, () => [
+      ...(config.apiKey ? [config.apiKey] : []),
+      ...(this.auth.secrets?.() ?? [])
+    ]);
+    this.metrics = new ClientMetrics(config.metrics);
+
     // Initialize HTTP client
     this.httpClient = axios.create({
       baseURL: config.apiUrl,
       timeout: config.network?.timeout || 30000,
+      httpAgent: config.network?.httpAgent,
+      httpsAgent: config.network?.httpsAgent,
       headers: {
-        'Authorization': `Bearer ${config.apiKey}`,
         'Content-Type': 'application/json',
         'X-Participant-Id': config.participantId
       }
     });
 
+    this.setupAuthentication();
+
     // Setup retry logic
     this.setupRetryLogic();
 
+    this.cache = new ResponseCache(config.cache, error => this.emit('error', error));
+
     // Initialize WebSocket if enabled
     if (config.enableRealtime) {
       this.initializeWebSocket();
@@ -45,8 +163,10 @@ export class VoltnetClient extends EventEmitter<VoltnetEvents> {
    * Get current participant profile
    */
   async getProfile(): Promise<Participant> {
-    const response = await this.httpClient.get(`/participants/${this.config.participantId}`);
-    return response.data;
+    return this.cache.fetch('profile', this.config.participantId, async () => {
+      const response = await this.httpClient.get(`/participants/${this.config.participantId}`);
+      return response.data;
+    });
   }
 
   /**
@@ -57,6 +177,7 @@ export class VoltnetClient extends EventEmitter<VoltnetEvents> {
       `/participants/${this.config.participantId}`,
       updates
     );
+    await this.cache.set('profile', this.config.participantId, response.data);
     return response.data;
   }
 
@@ -64,8 +185,10 @@ export class VoltnetClient extends EventEmitter<VoltnetEvents> {
    * Get current balance
    */
   async getBalance(): Promise<Balance> {
-    const response = await this.httpClient.get(`/participants/${this.config.participantId}/balance`);
-    return response.data;
+    return this.cache.fetch('balance', this.config.participantId, async () => {
+      const response = await this.httpClient.get(`/participants/${this.config.participantId}/balance`);
+      return response.data;
+    });
   }
 
   /**
@@ -89,11 +212,7 @@ export class VoltnetClient extends EventEmitter<VoltnetEvents> {
   /**
    * Search for participants
    */
-  async searchParticipants(query: {
-    type?: string;
-    location?: { lat: number; lon: number; radius: number };
-    limit?: number;
-  }): Promise<Participant[]> {
+  async searchParticipants(query: ParticipantQuery): Promise<Participant[]> {
     const response = await this.httpClient.get('/participants/search', {
       params: query
     });
@@ -101,78 +220,372 @@ export class VoltnetClient extends EventEmitter<VoltnetEvents> {
   }
 
   /**
-   * Setup retry logic for failed requests
+   * Get one page of participant search results
+   */
+  async searchParticipantsPage(query: ParticipantQuery, page: PageOptions = {}): Promise<Page<Participant>> {
+    const response = await this.httpClient.get('/participants/search', {
+      params: { ...query, ...page }
+    });
+    return toPage(response.data);
+  }
+
+  /**
+   * Iterate over all matching participants, fetching pages as they are
+   * consumed. `query.limit` is replaced by `options.pageSize`.
+   */
+  iterateParticipants(query: ParticipantQuery, options: PaginationOptions = {}): AsyncGenerator<Participant, void, undefined> {
+    const { limit: _limit, ...criteria } = query;
+    return paginate(page => this.searchParticipantsPage(criteria, page), options);
+  }
+
+  /**
+   * Wait for a scheduler slot, run the request middleware, then add the
+   * auth provider's headers to every request, including retries. Waiting
+   * comes first so tokens and signatures are fresh when the request is
+   * sent, and credentials are added last so middleware never sees them.
+   */
+  private setupAuthentication(): void {
+    this.httpClient.interceptors.request.use(async (config: RequestConfig) => {
+      // Serialize the body here so signatures cover exactly what is sent
+      if (isJsonBody(config.data)) {
+        config.data = JSON.stringify(config.data);
+      }
+
+      const method = String(config.method || 'get').toUpperCase();
+      const url = new URL(this.httpClient.getUri(config));
+      const path = this.relativePath(config.url);
+      const request: ScheduledRequest = { method, path, ...classifyRequest(method, path) };
+      const slot: Slot = { request, release: await this.scheduler.acquire(request) };
+      config._slot = slot;
+
+      try {
+        await this.beforeAttempt(config, method, path);
+        const headers = await this.auth.getHeaders({
+          method,
+          path: url.pathname + url.search,
+          body: sentBody(config.data)
+        });
+        config.headers.set(headers);
+        config._authHeaders = Object.keys(headers);
+      } catch (error) {
+        slot.release();
+        throw error;
+      }
+      config._startedAt = Date.now();
+      return config;
+    });
+  }
+
+  /**
+   * Start the trace span of a request attempt and let middleware see and
+   * change its headers. Credentials of a previous attempt are removed
+   * first; the auth provider adds fresh ones afterwards.
+   */
+  private async beforeAttempt(config: RequestConfig, method: string, path: string): Promise<void> {
+    (config._authHeaders || []).forEach(name => config.headers.delete(name));
+
+    const request: MiddlewareRequest = {
+      method,
+      path,
+      route: routeTemplate(path),
+      headers: {},
+      body: typeof config.data === 'string' ? config.data : undefined,
+      attempt: (config._attempt?.attempt ?? 0) + 1
+    };
+    config._attempt = request;
+
+    const span = this.startSpan();
+    if (span) {
+      config.headers.set(TRACEPARENT_HEADER, span.traceparent);
+      if (span.tracestate) {
+        config.headers.set(TRACESTATE_HEADER, span.tracestate);
+      } else {
+        config.headers.delete(TRACESTATE_HEADER);
+      }
+      request.traceId = span.traceId;
+      request.spanId = span.spanId;
+    }
+
+    const middleware = this.config.middleware || [];
+    if (middleware.length === 0) return;
+
+    const before = AxiosHeaders.from(config.headers).toJSON(true);
+    request.headers = { ...before };
+    for (const { onRequest } of middleware) {
+      await onRequest?.(request);
+    }
+    Object.keys(before)
+      .filter(name => !(name in request.headers))
+      .forEach(name => config.headers.delete(name));
+    config.headers.set(request.headers);
+  }
+
+  /**
+   * Start a span as child of the caller's trace context
+   * @returns Undefined if tracing is disabled, or there is no context and no new trace is to be started
+   */
+  private startSpan(): ReturnType<typeof startSpan> | undefined {
+    const tracing = this.config.tracing;
+    if (!tracing) return undefined;
+
+    let parent;
+    try {
+      parent = tracing.getContext?.();
+    } catch (error) {
+      this.logger.warn(`Could not get the trace context: ${(error as Error).message}`);
+    }
+    if (!parent && tracing.startTraces === false) return undefined;
+    return startSpan(parent);
+  }
+
+  /**
+   * Record metrics of a finished request attempt and pass its response
+   * or failure to the middleware
+   */
+  private async afterAttempt(config: RequestConfig | undefined, response?: AxiosResponse, error?: unknown): Promise<void> {
+    const request = config?._attempt;
+    if (!config || !request || config._startedAt === undefined) return;
+
+    const durationMs = Date.now() - config._startedAt;
+    config._startedAt = undefined;
+    this.metrics.recordRequest(request.method, request.route, response?.status, durationMs);
+    this.logger.debug(`${request.method} ${request.path} ${response?.status ?? 'failed'} in ${durationMs} ms`, {
+      attempt: request.attempt,
+      traceId: request.traceId
+    });
+
+    for (const middleware of this.config.middleware || []) {
+      try {
+        if (response) {
+          await middleware.onResponse?.(request, {
+            status: response.status,
+            headers: AxiosHeaders.from(response.headers as RawAxiosHeaders).toJSON(),
+            data: response.data,
+            durationMs
+          });
+        } else {
+          await middleware.onError?.(request, toVoltnetError(error), durationMs);
+        }
+      } catch (hookError) {
+        this.logger.warn(`Middleware failed on ${request.method} ${request.path}: ${(hookError as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Count and log that a failed attempt is sent again
+   */
+  private recordRetry(config: RequestConfig, reason: string, delayMs = 0): void {
+    const request = config._attempt;
+    if (!request) return;
+
+    this.metrics.recordRetry(request.method, request.route);
+    this.logger.info(`Retrying ${request.method} ${request.path} in ${delayMs} ms: ${reason}`, { attempt: request.attempt + 1 });
+  }
+
+  /**
+   * Free a request's scheduler slot and report the response to the scheduler
+   */
+  private completeRequest(config: RequestConfig | undefined, response?: AxiosResponse): void {
+    const slot = config?._slot;
+    if (!config || !slot) return;
+
+    config._slot = undefined;
+    slot.release();
+    if (response) {
+      this.scheduler.observe(slot.request, response.status, AxiosHeaders.from(response.headers as RawAxiosHeaders).toJSON());
+    }
+  }
+
+  /**
+   * Path of a request relative to the API URL, without query string
+   */
+  private relativePath(url: string = ''): string {
+    const path = url.startsWith(this.config.apiUrl) ? url.slice(this.config.apiUrl.length) : url;
+    return path.split('?')[0];
+  }
+
+  /**
+   * Setup retry logic for failed requests. Failures that are not retried
+   * are rejected as VoltnetError subclasses. Responses are checked against
+   * their schema here, so retried requests are checked once.
    */
   private setupRetryLogic(): void {
-    const retries = this.config.network?.retries || 3;
+    const retries = this.config.network?.retries ?? 3;
+    const retryDelay = this.config.network?.retryDelay ?? 1000;
+    const maxRetryDelay = this.config.network?.maxRetryDelay ?? 60000;
 
     this.httpClient.interceptors.response.use(
-      response => response,
+      async response => {
+        this.completeRequest(response.config, response);
+        await this.afterAttempt(response.config, response);
+        return this.validateResponse(response);
+      },
       async error => {
-        const config = error.config;
-        
-        if (!config || !config._retry) {
+        const config: RequestConfig | undefined = error.config;
+
+        if (!config) {
+          return Promise.reject(toVoltnetError(error));
+        }
+        this.completeRequest(config, error.response);
+        await this.afterAttempt(config, error.response, error);
+
+        // Rejected credentials: retry once if the provider can renew them
+        if (error.response?.status === 401 && !config._authRetry && this.auth.invalidate) {
+          config._authRetry = true;
+          if (await this.auth.invalidate()) {
+            this.recordRetry(config, 'credentials renewed');
+            return this.httpClient(config);
+          }
+        }
+
+        if (!config._retry) {
           config._retry = 0;
         }
 
-        if (config._retry < retries && this.shouldRetry(error)) {
+        // The server's Retry-After, else exponential backoff. Waiting longer
+        // than maxRetryDelay is left to the caller, with the RateLimitError's retryAfterMs.
+        const retryAfter = error.response?.status === 429
+          ? parseRetryAfter(error.response.headers['retry-after'])
+          : undefined;
+
+        if (config._retry < retries && this.shouldRetry(error) && (retryAfter === undefined || retryAfter <= maxRetryDelay)) {
           config._retry += 1;
-          
-          // Exponential backoff
-          const delay = Math.pow(2, config._retry) * 1000;
+
+          const delay = retryAfter ?? Math.pow(2, config._retry) * retryDelay;
+          this.recordRetry(config, error.response ? `status ${error.response.status}` : error.message, delay);
           await new Promise(resolve => setTimeout(resolve, delay));
-          
+
+          // Same config, so the same Idempotency-Key
           return this.httpClient(config);
         }
 
-        return Promise.reject(error);
+        return Promise.reject(toVoltnetError(error));
       }
     );
   }
 
   /**
-   * Determine if request should be retried
+   * Check a response against the schema of its endpoint
+   */
+  private validateResponse(response: AxiosResponse): AxiosResponse {
+    const mode = this.config.validation ?? 'off';
+    const { method = 'get', url = '' } = response.config;
+    const path = url.startsWith(this.config.apiUrl) ? url.slice(this.config.apiUrl.length) : url;
+    const schema = mode === 'off' ? undefined : responseSchema(method, path);
+    const issue = schema && validate(schema, response.data);
+
+    if (issue) {
+      const error = new InvalidResponseError(
+        `${method.toUpperCase()} ${path} returned an invalid response: ${formatIssue(issue)}`,
+        { issue, status: response.status, requestId: response.headers['x-request-id'], details: response.data }
+      );
+      if (mode === 'strict') throw error;
+      this.logger.warn(error.message);
+    }
+    return response;
+  }
+
+  /**
+   * Check a real-time payload against the schema of its event type
+   * @returns False if the event must be dropped
+   */
+  private validateEvent(type: string, payload: unknown): boolean {
+    const mode = this.config.validation ?? 'off';
+    const schema = mode === 'off' ? undefined : eventSchema(type);
+    const issue = schema && validate(schema, payload);
+
+    if (!issue) return true;
+    const error = new InvalidResponseError(`Invalid ${type} event: ${formatIssue(issue)}`, { issue, details: payload });
+    if (mode === 'strict') {
+      this.emit('error', error);
+      return false;
+    }
+    this.logger.warn(error.message);
+    return true;
+  }
+
+  /**
+   * Determine if request should be retried. Requests that are not
+   * idempotent by method are only retried with an idempotency key, since
+   * the failed attempt may still have been carried out.
    */
   private shouldRetry(error: any): boolean {
+    const method = String(error.config.method || 'get').toUpperCase();
+    if (!IDEMPOTENT_METHODS.includes(method) && !AxiosHeaders.from(error.config.headers).has(IDEMPOTENCY_HEADER)) {
+      return false;
+    }
+
     if (!error.response) return true; // Network error
     const status = error.response.status;
     return status >= 500 || status === 429; // Server errors or rate limit
   }
 
   /**
-   * Initialize WebSocket connection for real-time updates
+   * Initialize WebSocket connection for real-time updates.
+   * Credentials are sent in the first message rather than in the URL,
+   * where they would end up in proxy and server logs.
    */
   private initializeWebSocket(): void {
-    const wsUrl = this.config.apiUrl.replace('http', 'ws') + '/ws';
-    
-    try {
-      this.wsConnection = new WebSocket(`${wsUrl}?apiKey=${this.config.apiKey}&participantId=${this.config.participantId}`);
-
-      this.wsConnection.onopen = () => {
-        console.log('[VOLTNET] WebSocket connected');
-      };
-
-      this.wsConnection.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          this.handleWebSocketMessage(data);
-        } catch (error) {
-          console.error('[VOLTNET] Failed to parse WebSocket message:', error);
+    const wsUrl = this.config.apiUrl.replace(/^http/, 'ws') + '/ws';
+
+    this.sequencer = new EventSequencer({
+      store: this.config.eventReplay?.cursorStore || new MemoryCursorStore(),
+      replayTimeout: this.config.eventReplay?.replayTimeout,
+      deliver: event => this.dispatchEvent(event.type, event.payload),
+      requestReplay: after => this.realtime?.send({ type: 'replay', after }) ?? false,
+      backfill: since => this.backfillEvents(since),
+      onError: error => this.emit('error', error)
+    });
+
+    const authenticate = async () => ({
+      type: 'auth',
+      participantId: this.config.participantId,
+      ...await this.auth.getRealtimeCredentials({ method: 'GET', path: new URL(wsUrl).pathname, body: '' })
+    });
+    this.realtime = this.config.realtimeTransport
+      ? this.config.realtimeTransport.open(this.config.participantId, authenticate)
+      : new RealtimeConnection({ ...this.config.realtime, url: wsUrl, authenticate });
+
+    this.realtime.on('message', data => this.handleWebSocketMessage(data));
+    this.realtime.on('state', (state, details) => {
+      // A new connection starts without subscriptions on the server
+      if (state === 'connecting' && details.attempt) {
+        this.metrics.recordReconnectAttempt();
+      }
+      if (state === 'open' && details.previous === 'connecting') {
+        if (this.realtimeOpened) {
+          this.metrics.recordReconnect();
         }
-      };
-
-      this.wsConnection.onerror = (error) => {
-        console.error('[VOLTNET] WebSocket error:', error);
-        this.emit('error', new Error('WebSocket connection error'));
-      };
-
-      this.wsConnection.onclose = () => {
-        console.log('[VOLTNET] WebSocket disconnected');
-        // Attempt to reconnect after 5 seconds
-        setTimeout(() => this.initializeWebSocket(), 5000);
-      };
-    } catch (error) {
-      console.error('[VOLTNET] Failed to initialize WebSocket:', error);
+        this.realtimeOpened = true;
+        this.realtimeAuthRenewed = false;
+        // Events sent while disconnected may have outdated cached responses
+        this.cache.clear().catch(error => this.emit('error', error));
+        this.subscriptions.forEach(({ handle }) => this.sendSubscribe(handle));
+        this.sequencer?.resume();
+      }
+      this.logger.info(`Real-time connection ${state}`, { ...details });
+      this.emit('connection-state', state, details);
+    });
+    this.realtime.on('error', error => {
+      this.emit('error', error);
+      if (error instanceof AuthenticationError) {
+        this.renewRealtimeCredentials();
+      }
+    });
+    this.realtime.connect();
+  }
+
+  /**
+   * Reconnect once with fresh credentials after the server rejected them
+   */
+  private async renewRealtimeCredentials(): Promise<void> {
+    const realtime = this.realtime;
+    if (this.realtimeAuthRenewed || !this.auth.invalidate) return;
+
+    this.realtimeAuthRenewed = true;
+    if (await this.auth.invalidate() && this.realtime === realtime) {
+      realtime?.connect();
     }
   }
 
@@ -180,7 +593,58 @@ export class VoltnetClient extends EventEmitter<VoltnetEvents> {
    * Handle incoming WebSocket messages
    */
   private handleWebSocketMessage(data: any): void {
-    const { type, payload } = data;
+    const { type, payload, subscriptionId } = data;
+    if (payload !== undefined) {
+      this.metrics.recordEvent(type);
+    }
+
+    // Cached responses are outdated as soon as the event arrives, even if it is delivered later
+    this.cache.handleEvent(type);
+
+    // Topic events go to their subscription only
+    if (subscriptionId !== undefined) {
+      const subscription = this.subscriptions.get(subscriptionId);
+      if (subscription && this.validateEvent(type, payload)) {
+        subscription.callback(payload);
+      }
+      return;
+    }
+
+    // Participant events are delivered in sequence order
+    if (typeof data.seq === 'number' && this.sequencer) {
+      this.sequencer.receive(data);
+      return;
+    }
+
+    switch (type) {
+      case 'subscribed':
+        break;
+      case 'subscription-error':
+        this.subscriptions.delete(data.id);
+        this.emit('error', new VoltnetError(`Subscription ${data.id} rejected: ${data.message || 'unknown reason'}`, {
+          code: data.code,
+          details: data
+        }));
+        break;
+      case 'replay-complete':
+        this.sequencer?.replayComplete();
+        break;
+      case 'replay-unavailable':
+        this.sequencer?.replayUnavailable(data.seq);
+        break;
+      default:
+        this.dispatchEvent(type, payload);
+    }
+  }
+
+  /**
+   * Emit a participant event to listeners
+   */
+  private dispatchEvent(type: string, payload: any): void {
+    // Sequenced events are checked on delivery, so a dropped event still advances the cursor
+    if (!this.validateEvent(type, payload)) {
+      return;
+    }
 
     switch (type) {
       case 'measurement':
@@ -202,21 +666,165 @@ export class VoltnetClient extends EventEmitter<VoltnetEvents> {
         this.emit('balance-update', payload);
         break;
       default:
-        console.warn('[VOLTNET] Unknown message type:', type);
+        this.logger.warn(`Unknown message type: ${type}`);
+    }
+  }
+
+  /**
+   * Fetch transactions, settlements and the balance over REST for a
+   * period the server could not replay
+   */
+  private async backfillEvents(since: string): Promise<SequencedEvent[]> {
+    const transactions = new TransactionManager(this);
+    // The gap may span more than one page
+    const all = async <T>(items: AsyncIterable<T>): Promise<T[]> => {
+      const list: T[] = [];
+      for await (const item of items) list.push(item);
+      return list;
+    };
+    const [transactionList, settlementList, balance] = await Promise.all([
+      all(transactions.iterateTransactions({ from: since })),
+      all(transactions.iterateSettlements(since)),
+      this.getBalance()
+    ]);
+
+    const events: SequencedEvent[] = [
+      ...transactionList.map(payload => ({ type: 'transaction', payload, timestamp: payload.timestamp })),
+      ...settlementList.map(payload => ({ type: 'settlement', payload, timestamp: payload.timestamp }))
+    ];
+    events.sort((a, b) => new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime());
+
+    // Only the current balance matters, not the intermediate ones
+    return [...events, { type: 'balance-update', payload: balance }];
+  }
+
+  /**
+   * Get the position of the last delivered real-time event
+   */
+  getEventCursor(): EventCursor | undefined {
+    return this.sequencer?.getCursor();
+  }
+
+  /**
+   * Subscribe to a realtime topic. The server only sends matching events,
+   * and the subscription is restored after every reconnect.
+   * @param topic Topic and its filters
+   * @param callback Function to call with each event of the topic
+   * @returns Handle to dispose of the subscription
+   */
+  subscribe<T extends SubscriptionTopic>(
+    topic: T,
+    callback: (payload: SubscriptionPayloads[T['type']]) => void
+  ): Subscription {
+    if (!this.realtime) {
+      throw new VoltnetError('Realtime subscriptions require enableRealtime', { code: 'REALTIME_DISABLED' });
+    }
+
+    const id = `sub-${++this.subscriptionCounter}`;
+    const subscriptions = this.subscriptions;
+    const handle = this.createHandle(id, topic, () => subscriptions.has(id), () => {
+      if (subscriptions.delete(id)) {
+        this.realtime?.send({ type: 'unsubscribe', id });
+      }
+    });
+
+    this.subscriptions.set(id, { handle, callback });
+    const state = this.realtime.getState();
+    if (state === 'open' || state === 'degraded') {
+      this.sendSubscribe(handle);
+    }
+
+    return handle;
+  }
+
+  /**
+   * Receive the events of a topic: through a server-side subscription if
+   * real-time updates are enabled, otherwise by filtering the events this
+   * client emits, so callers work either way
+   * @param topic Topic and its filters
+   * @param callback Function to call with each event of the topic
+   * @returns Handle to dispose of the subscription or listener
+   */
+  listen<T extends SubscriptionTopic>(
+    topic: T,
+    callback: (payload: SubscriptionPayloads[T['type']]) => void
+  ): Subscription {
+    if (this.realtime) {
+      return this.subscribe(topic, callback);
+    }
+
+    const type = TOPIC_EVENTS[topic.type];
+    const listener = (payload: any) => {
+      if (matchesTopic(topic, type, payload)) callback(payload);
+    };
+    let active = true;
+    this.on(type, listener);
+
+    return this.createHandle(`sub-${++this.subscriptionCounter}`, topic, () => active, () => {
+      active = false;
+      this.off(type, listener);
+    });
+  }
+
+  private createHandle(id: string, topic: SubscriptionTopic, isActive: () => boolean, dispose: () => void): Subscription {
+    const handle: Subscription = {
+      id,
+      topic,
+      get active() {
+        return isActive();
+      },
+      dispose
+    };
+
+    // Allows `using subscription = client.subscribe(...)` where supported
+    const disposeSymbol = (Symbol as { dispose?: symbol }).dispose;
+    if (disposeSymbol) {
+      (handle as Subscription & Record<symbol, () => void>)[disposeSymbol] = handle.dispose;
     }
+    return handle;
+  }
+
+  private sendSubscribe(handle: Subscription): void {
+    this.realtime?.send({ type: 'subscribe', id: handle.id, topic: handle.topic });
   }
 
   /**
    * Close all connections
    */
   disconnect(): void {
-    if (this.wsConnection) {
-      this.wsConnection.close();
-      this.wsConnection = undefined;
+    this.subscriptions.clear();
+    this.sequencer?.stop();
+    if (this.realtime) {
+      this.realtime.disconnect();
+      this.realtime.removeAllListeners();
+      this.realtime = undefined;
     }
     this.removeAllListeners();
   }
 
+  /**
+   * Get the state of the real-time connection
+   * @returns 'closed' if real-time updates are disabled or disconnected
+   */
+  getConnectionState(): ConnectionState {
+    return this.realtime ? this.realtime.getState() : 'closed';
+  }
+
+  /**
+   * Get the response cache, e.g. to invalidate entries after changes made
+   * outside the SDK
+   */
+  getCache(): ResponseCache {
+    return this.cache;
+  }
+
+  /**
+   * Get the metrics of this client's requests and real-time connection
+   */
+  getMetrics(): ClientMetrics {
+    return this.metrics;
+  }
+
   /**
    * Get HTTP client for custom requests
    */
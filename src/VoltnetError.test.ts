@@ -0,0 +1,165 @@
+/**
+ * Tests for the error hierarchy, run against a local HTTP server
+ */
+
+import { createServer, Server, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { VoltnetClient } from './VoltnetClient';
+import { P2PMarket } from './P2PMarket';
+import { TransactionManager } from './TransactionManager';
+import { EnergyMeter } from './EnergyMeter';
+import { PricingEngine } from './PricingEngine';
+import {
+  VoltnetError,
+  AuthenticationError,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  RateLimitError,
+  NetworkError,
+  TimeoutError,
+  ServerError,
+  parseRetryAfter
+} from './VoltnetError';
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+function reply(status: number, body: unknown, headers: Record<string, string> = {}): Handler {
+  return (_request, response) => {
+    response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    response.end(JSON.stringify(body));
+  };
+}
+
+describe('VoltnetError mapping', () => {
+  let server: Server;
+  let handler: Handler;
+  let client: VoltnetClient;
+  let apiUrl: string;
+
+  beforeEach(async () => {
+    server = createServer((request, response) => handler(request, response));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    client = new VoltnetClient({
+      apiUrl,
+      apiKey: 'secret',
+      participantId: 'participant-001',
+      network: { retries: 0, timeout: 200 }
+    });
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('maps authentication failures', async () => {
+    handler = reply(401, { message: 'API key expired' }, { 'X-Request-Id': 'req-123' });
+    const error = await new PricingEngine(client).getCurrentPrice().catch(e => e);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error).toBeInstanceOf(VoltnetError);
+    expect(error).toMatchObject({ kind: 'auth', status: 401, requestId: 'req-123' });
+    expect(error.message).toBe('GET /pricing/current failed with 401: API key expired');
+  });
+
+  test('maps validation failures with field errors', async () => {
+    handler = reply(422, {
+      message: 'Invalid measurement',
+      errors: [
+        { field: 'energy', message: 'must not be negative' },
+        { field: 'energy', message: 'must be a number' },
+        { field: ['metadata', 'intervalStart'], message: 'must be before timestamp' }
+      ]
+    });
+    const error = await new EnergyMeter(client).submitBatch([]).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.fieldErrors).toEqual({
+      'energy': ['must not be negative', 'must be a number'],
+      'metadata.intervalStart': ['must be before timestamp']
+    });
+  });
+
+  test('maps missing resources and state conflicts', async () => {
+    const market = new P2PMarket(client);
+
+    handler = reply(404, { message: 'Offer not found' });
+    expect(await market.getOffer('offer-404').catch(e => e)).toBeInstanceOf(NotFoundError);
+
+    handler = reply(409, { message: 'Offer already fulfilled', code: 'OFFER_ALREADY_FULFILLED' });
+    const conflict = await market.acceptOffer('offer-1', 5).catch(e => e);
+    expect(conflict).toBeInstanceOf(ConflictError);
+    expect(conflict.code).toBe('OFFER_ALREADY_FULFILLED');
+
+    handler = reply(402, { message: 'Insufficient balance', code: 'INSUFFICIENT_BALANCE' });
+    const balance = await market.acceptOffer('offer-2', 5).catch(e => e);
+    expect(balance).toBeInstanceOf(ConflictError);
+    expect(balance.code).toBe('INSUFFICIENT_BALANCE');
+  });
+
+  test('maps rate limits with Retry-After', async () => {
+    handler = reply(429, { message: 'Slow down' }, { 'Retry-After': '30' });
+    const error = await new TransactionManager(client).getTransactions().catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(30000);
+  });
+
+  test('does not wait for a Retry-After above maxRetryDelay', async () => {
+    let requests = 0;
+    handler = (request, response) => {
+      requests++;
+      reply(429, { message: 'Slow down' }, { 'Retry-After': '3600' })(request, response);
+    };
+    client = new VoltnetClient({
+      apiUrl,
+      apiKey: 'secret',
+      participantId: 'participant-001',
+      network: { retries: 3, maxRetryDelay: 1000 }
+    });
+    const error = await new TransactionManager(client).getTransactions().catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(3600000);
+    expect(requests).toBe(1);
+  });
+
+  test('maps server errors', async () => {
+    handler = reply(503, { message: 'Settlement engine unavailable' });
+    const error = await new TransactionManager(client).getSettlements().catch(e => e);
+
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error.status).toBe(503);
+    expect(error.details).toEqual({ message: 'Settlement engine unavailable' });
+  });
+
+  test('maps timeouts and network failures', async () => {
+    handler = () => undefined;
+    const timeout = await client.getBalance().catch(e => e);
+    expect(timeout).toBeInstanceOf(TimeoutError);
+
+    const unreachable = new VoltnetClient({
+      apiUrl: 'http://127.0.0.1:1',
+      apiKey: 'secret',
+      participantId: 'participant-001',
+      network: { retries: 0 }
+    });
+    const network = await unreachable.getProfile().catch(e => e);
+    expect(network).toBeInstanceOf(NetworkError);
+    expect(network.code).toBe('ECONNREFUSED');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  test('accepts seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-15T12:00:00.000Z');
+
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter('Mon, 15 Jan 2024 12:00:45 GMT', now)).toBe(45000);
+    expect(parseRetryAfter('Mon, 15 Jan 2024 11:00:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
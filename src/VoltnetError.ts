@@ -0,0 +1,241 @@
+import { VoltnetErrorKind, SchemaIssue } from './types';
+
+/**
+ * VOLTNET Error
+ * Base class of every error raised by SDK calls. Subclasses identify the
+ * kind of failure; `code` carries the server's machine-readable error code
+ * when it sends one (e.g. `INSUFFICIENT_BALANCE`, `OFFER_EXPIRED`).
+ */
+export class VoltnetError extends Error {
+  /** Kind of failure */
+  readonly kind: VoltnetErrorKind;
+  /** Error code reported by the server */
+  readonly code?: string;
+  /** HTTP status, if a response was received */
+  readonly status?: number;
+  /** Request ID reported by the server, for support requests */
+  readonly requestId?: string;
+  /** Response body or other details */
+  readonly details?: unknown;
+  /** Underlying error */
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    options: { kind?: VoltnetErrorKind; code?: string; status?: number; requestId?: string; details?: unknown; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'VoltnetError';
+    this.kind = options.kind ?? 'unknown';
+    this.code = options.code;
+    this.status = options.status;
+    this.requestId = options.requestId;
+    this.details = options.details;
+    this.cause = options.cause;
+  }
+}
+
+type ErrorOptions = ConstructorParameters<typeof VoltnetError>[1];
+
+/**
+ * Missing, invalid or expired credentials, or insufficient permissions (401, 403)
+ */
+export class AuthenticationError extends VoltnetError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, { ...options, kind: 'auth' });
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Request rejected as invalid (400, 422)
+ */
+export class ValidationError extends VoltnetError {
+  /** Messages per field, e.g. `{ energy: ['must be positive'] }` */
+  readonly fieldErrors: Record<string, string[]>;
+
+  constructor(message: string, options: ErrorOptions & { fieldErrors?: Record<string, string[]> } = {}) {
+    super(message, { ...options, kind: 'validation' });
+    this.name = 'ValidationError';
+    this.fieldErrors = options.fieldErrors ?? {};
+  }
+}
+
+/**
+ * Resource does not exist (404)
+ */
+export class NotFoundError extends VoltnetError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, { ...options, kind: 'not-found' });
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Request conflicts with the resource's state, e.g. an offer that was
+ * already fulfilled or has expired, or an insufficient balance (402, 409, 410)
+ */
+export class ConflictError extends VoltnetError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, { ...options, kind: 'conflict' });
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Too many requests (429)
+ */
+export class RateLimitError extends VoltnetError {
+  /** Time to wait before retrying in ms, from the Retry-After header */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: ErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, { ...options, kind: 'rate-limited' });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * No response: connection refused, reset or DNS failure
+ */
+export class NetworkError extends VoltnetError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, { ...options, kind: 'network' });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * No response within the configured timeout
+ */
+export class TimeoutError extends VoltnetError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, { ...options, kind: 'timeout' });
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The server failed to handle the request (5xx)
+ */
+export class ServerError extends VoltnetError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(message, { ...options, kind: 'server' });
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Response or real-time payload that does not match its schema
+ */
+export class InvalidResponseError extends VoltnetError {
+  /** Path of the offending value, e.g. `items[2].energyAvailable` */
+  readonly path: string;
+  /** Expected type */
+  readonly expected: string;
+  /** Received type and value */
+  readonly received: string;
+
+  constructor(message: string, options: ErrorOptions & { issue: SchemaIssue }) {
+    super(message, { code: 'INVALID_RESPONSE', ...options, kind: 'invalid-response' });
+    this.name = 'InvalidResponseError';
+    this.path = options.issue.path;
+    this.expected = options.issue.expected;
+    this.received = options.issue.received;
+  }
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ * @param value Header value
+ * @param now Current time in ms
+ * @returns Delay in ms, or undefined if absent or unparseable
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(Number(text) * 1000);
+  }
+
+  const date = Date.parse(text);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Normalize field errors from `errors: [{ field, message }]` or
+ * `{ field: message | message[] }` response bodies
+ */
+function parseFieldErrors(body: any): Record<string, string[]> {
+  const source = body?.fieldErrors ?? body?.errors;
+  const fieldErrors: Record<string, string[]> = {};
+
+  if (Array.isArray(source)) {
+    for (const entry of source) {
+      const field = entry?.field ?? entry?.path;
+      if (field === undefined) continue;
+      const key = Array.isArray(field) ? field.join('.') : String(field);
+      (fieldErrors[key] = fieldErrors[key] || []).push(String(entry.message ?? 'invalid'));
+    }
+  } else if (source && typeof source === 'object') {
+    for (const [field, messages] of Object.entries(source)) {
+      fieldErrors[field] = (Array.isArray(messages) ? messages : [messages]).map(String);
+    }
+  }
+
+  return fieldErrors;
+}
+
+/**
+ * Convert an HTTP client error into the matching VoltnetError
+ * @param error Error thrown by axios or any other source
+ * @returns VoltnetError subclass; VoltnetErrors are returned unchanged
+ */
+export function toVoltnetError(error: unknown): VoltnetError {
+  if (error instanceof VoltnetError) {
+    return error;
+  }
+
+  const err = error as any;
+  const response = err?.response;
+  const request = err?.config ? `${String(err.config.method || 'get').toUpperCase()} ${err.config.url}` : 'request';
+
+  if (!response) {
+    if (err?.code === 'ECONNABORTED' || err?.code === 'ETIMEDOUT') {
+      return new TimeoutError(`${request} timed out`, { code: err.code, cause: error });
+    }
+    return new NetworkError(`${request} failed: ${err?.message || 'network error'}`, { code: err?.code, cause: error });
+  }
+
+  const status: number = response.status;
+  const body = response.data;
+  const headers = response.headers || {};
+  const serverMessage = typeof body === 'string' ? body : body?.message || body?.error;
+  const options = {
+    status,
+    code: typeof body?.code === 'string' ? body.code : undefined,
+    requestId: headers['x-request-id'] ?? body?.requestId,
+    details: body,
+    cause: error
+  };
+  const message = `${request} failed with ${status}${serverMessage ? `: ${serverMessage}` : ''}`;
+
+  switch (true) {
+    case status === 401 || status === 403:
+      return new AuthenticationError(message, options);
+    case status === 400 || status === 422:
+      return new ValidationError(message, { ...options, fieldErrors: parseFieldErrors(body) });
+    case status === 404:
+      return new NotFoundError(message, options);
+    case status === 402 || status === 409 || status === 410:
+      return new ConflictError(message, options);
+    case status === 429:
+      return new RateLimitError(message, { ...options, retryAfterMs: parseRetryAfter(headers['retry-after']) });
+    case status >= 500:
+      return new ServerError(message, options);
+    default:
+      return new VoltnetError(message, options);
+  }
+}
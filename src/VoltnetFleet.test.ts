@@ -0,0 +1,178 @@
+/**
+ * Tests for operating many participants through one fleet, against the
+ * in-memory backend
+ */
+
+import WebSocket from 'ws';
+import { VoltnetFleet } from './VoltnetFleet';
+import { MockBackend } from './MockBackend';
+import { MockVoltnetServer } from './MockVoltnetServer';
+import { RealtimeMultiplexer } from './RealtimeMultiplexer';
+import { TokenBucketScheduler } from './TokenBucketScheduler';
+import { AuthenticationError, NotFoundError } from './VoltnetError';
+import { fixtures, waitFor } from '../test/helpers';
+import {
+  Balance,
+  EnergySource,
+  EnergyTransaction,
+  MarketOffer,
+  MockFixtures,
+  ParticipantType,
+  TransactionStatus,
+  VoltnetFleetConfig
+} from './types';
+
+const backendFixtures = (): MockFixtures => fixtures([
+  { id: 'station-1', apiKey: 'station-1-key', type: ParticipantType.CONSUMER, walletAddress: '0xc1', balance: 10 },
+  { id: 'station-2', apiKey: 'station-2-key', type: ParticipantType.CONSUMER, walletAddress: '0xc2', balance: 10 },
+  { id: 'prosumer-1', apiKey: 'prosumer-1-key', type: ParticipantType.PROSUMER, walletAddress: '0xp1' }
+], 'prosumer-1');
+
+const participants = ['station-1', 'station-2', 'prosumer-1'].map(participantId => ({ participantId, apiKey: `${participantId}-key` }));
+
+describe('VoltnetFleet', () => {
+  let server: MockVoltnetServer;
+  let fleet: VoltnetFleet;
+
+  const createFleet = (config: Partial<VoltnetFleetConfig> = {}) => {
+    fleet = new VoltnetFleet({ apiUrl: server.getUrl()!, participants, network: { retries: 0 }, ...config });
+    return fleet;
+  };
+
+  beforeEach(async () => {
+    server = new MockVoltnetServer(new MockBackend({ fixtures: backendFixtures() }));
+    await server.start();
+  });
+
+  afterEach(async () => {
+    fleet?.disconnect();
+    await server.stop();
+  });
+
+  test('routes calls by participant through a shared pool and scheduler', async () => {
+    const scheduler = new TokenBucketScheduler();
+    const acquire = jest.spyOn(scheduler, 'acquire');
+    createFleet({ scheduler });
+
+    const transaction = await fleet.get('station-2').market.acceptOffer('offer-1', 5);
+    const balances = await Promise.all(fleet.getParticipantIds().map(id => fleet.get(id).client.getBalance()));
+
+    expect(transaction).toMatchObject({ buyerId: 'station-2', sellerId: 'prosumer-1' });
+    expect(balances.map(balance => balance.pending)).toEqual([0, 1, 0.99]);
+    expect(acquire).toHaveBeenCalledTimes(4);
+    expect(fleet.getScheduler()).toBe(scheduler);
+
+    const agents = fleet.getParticipantIds().map(id => fleet.get(id).client.getHttpClient().defaults.httpAgent);
+    expect(new Set(agents).size).toBe(1);
+    expect(agents[0].keepAlive).toBe(true);
+
+    expect(() => fleet.get('station-9')).toThrow(NotFoundError);
+    expect(() => fleet.add({ participantId: 'station-1', apiKey: 'station-1-key' })).toThrow('already in the fleet');
+    expect(fleet.remove('station-1')).toBe(true);
+    expect(fleet.has('station-1')).toBe(false);
+  });
+
+  describe('realtime', () => {
+    const realtimeFleet = () => createFleet({
+      enableRealtime: true,
+      realtime: { WebSocket, reconnect: { initialDelay: 50 }, random: () => 0.5 }
+    });
+    const allOpen = () => fleet.getParticipantIds().every(id => fleet.get(id).client.getConnectionState() === 'open');
+
+    test('multiplexes participants over one connection and tags their events', async () => {
+      realtimeFleet();
+      const transactions: Array<[string, TransactionStatus]> = [];
+      const balances: Array<[string, Balance]> = [];
+      const offers: MarketOffer[] = [];
+      fleet.on('transaction', (transaction, participantId) => transactions.push([participantId, transaction.status]));
+      fleet.on('balance-update', (balance, participantId) => balances.push([participantId, balance]));
+      fleet.on('offer', offer => offers.push(offer));
+      await waitFor(allOpen);
+      expect(server.getConnectionCount()).toBe(1);
+
+      const offer = await fleet.get('prosumer-1').market.createOffer({
+        energyAvailable: 4,
+        pricePerKwh: 0.1,
+        currency: 'EUR',
+        source: EnergySource.WIND,
+        expiresAt: '2099-01-01T00:00:00.000Z'
+      });
+      const transaction = await fleet.get('station-1').market.acceptOffer(offer.id, 4);
+      const updates: EnergyTransaction[] = [];
+      fleet.get('station-1').transactions.watchTransaction(transaction.id, update => updates.push(update));
+      await waitFor(() => balances.length === 2);
+      await fleet.get('prosumer-1').transactions.triggerSettlement([transaction.id]);
+
+      await waitFor(() => updates.length === 1 && balances.length === 4);
+      expect(offers.map(o => o.id)).toEqual([offer.id]);
+      expect(transactions).toEqual([
+        ['station-1', TransactionStatus.PENDING],
+        ['prosumer-1', TransactionStatus.PENDING],
+        ['station-1', TransactionStatus.COMPLETED],
+        ['prosumer-1', TransactionStatus.COMPLETED]
+      ]);
+      const available = (id: string) => balances.filter(([participantId]) => participantId === id).map(([, balance]) => balance.available);
+      expect(available('station-1')).toEqual([9.6, 9.6]);
+      expect(available('prosumer-1')).toEqual([0, 0.396]);
+      expect(updates[0].status).toBe(TransactionStatus.COMPLETED);
+      expect(fleet.get('station-2').client.getEventCursor()).toBeUndefined();
+    });
+
+    test('logs participants in again after a reconnect and replays their events', async () => {
+      realtimeFleet();
+      const errors: Array<[Error, string | undefined]> = [];
+      fleet.on('error', (error, participantId) => errors.push([error, participantId]));
+      await waitFor(allOpen);
+
+      fleet.add({ participantId: 'station-3', apiKey: 'wrong-key' });
+      await waitFor(() => errors.length === 1);
+      expect(errors[0][0]).toBeInstanceOf(AuthenticationError);
+      expect(errors[0][1]).toBe('station-3');
+      expect(allOpen()).toBe(false);
+      fleet.remove('station-3');
+
+      // Replay needs a cursor to start from
+      const station = fleet.get('station-2').client;
+      await fleet.get('station-2').market.acceptOffer('offer-1', 1);
+      await waitFor(() => station.getEventCursor()?.seq === 2);
+
+      const transactions: Array<[string, string]> = [];
+      fleet.on('transaction', (transaction, participantId) => transactions.push([participantId, transaction.id]));
+      server.disconnectClients();
+      await waitFor(() => fleet.getConnectionState() === 'connecting');
+      server.getBackend().publish('transaction', { id: 'tx-missed', status: TransactionStatus.FAILED }, ['station-2']);
+
+      await waitFor(() => transactions.length === 1);
+      expect(transactions).toEqual([['station-2', 'tx-missed']]);
+      expect(station.getEventCursor()!.seq).toBe(3);
+      await waitFor(allOpen);
+      expect(server.getConnectionCount()).toBe(1);
+    });
+
+    test('retries failed credential lookups and drops rejected participants', async () => {
+      const multiplexer = new RealtimeMultiplexer({ url: server.getUrl()!.replace(/^http/, 'ws') + '/ws', WebSocket, authTimeout: 20 });
+      const errors: Error[] = [];
+      let lookups = 0;
+      const flaky = multiplexer.open('station-1', async () => {
+        if (++lookups === 1) throw new Error('token endpoint unavailable');
+        return { apiKey: 'station-1-key' };
+      });
+      const rejected = multiplexer.open('station-2', async () => ({ apiKey: 'wrong-key' }));
+      [flaky, rejected].forEach(link => link.on('error', error => errors.push(error)));
+
+      try {
+        flaky.connect();
+        rejected.connect();
+        await waitFor(() => flaky.getState() === 'open' && rejected.getState() === 'closed');
+
+        expect(errors.map(error => error.message)).toEqual(expect.arrayContaining([
+          'token endpoint unavailable',
+          'Realtime authentication rejected: Missing or unknown API key'
+        ]));
+        expect(multiplexer.getParticipantIds()).toEqual(['station-1']);
+      } finally {
+        multiplexer.disconnect();
+      }
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { Agent as HttpAgent } from 'http';
+import { Agent as HttpsAgent } from 'https';
+import EventEmitter from 'eventemitter3';
+import { VoltnetClient } from './VoltnetClient';
+import { EnergyMeter } from './EnergyMeter';
+import { PricingEngine } from './PricingEngine';
+import { P2PMarket } from './P2PMarket';
+import { TransactionManager } from './TransactionManager';
+import { RealtimeMultiplexer } from './RealtimeMultiplexer';
+import { TokenBucketScheduler } from './TokenBucketScheduler';
+import { NotFoundError, VoltnetError } from './VoltnetError';
+import type { VoltnetSDK } from './index';
+import {
+  ConnectionState,
+  FleetParticipant,
+  RequestScheduler,
+  VoltnetConfig,
+  VoltnetFleetConfig,
+  VoltnetFleetEvents
+} from './types';
+
+/** Client events forwarded with the participant they belong to */
+const PARTICIPANT_EVENTS = ['measurement', 'transaction', 'settlement', 'balance-update'] as const;
+
+/** Client events that are the same for every participant */
+const BROADCAST_EVENTS = ['offer', 'price-update'] as const;
+
+/**
+ * Voltnet Fleet
+ * Operates many participants from one process. Their clients share a
+ * keep-alive HTTP connection pool, one request scheduler with its rate
+ * limits, and one multiplexed real-time connection. Events of all
+ * participants are emitted by the fleet, tagged with the participant they
+ * belong to; offers and price updates are emitted once.
+ */
+export class VoltnetFleet extends EventEmitter<VoltnetFleetEvents> {
+  private config: VoltnetFleetConfig;
+  private scheduler: RequestScheduler;
+  private httpAgent: HttpAgent;
+  private httpsAgent: HttpsAgent;
+  private multiplexer?: RealtimeMultiplexer;
+  private members = new Map<string, VoltnetSDK>();
+  /** Broadcast payloads already emitted; every participant's client receives the same object */
+  private emitted = new WeakSet<object>();
+
+  constructor(config: VoltnetFleetConfig) {
+    super();
+    this.config = config;
+    this.scheduler = config.scheduler || new TokenBucketScheduler();
+
+    const maxSockets = config.maxSockets ?? 50;
+    this.httpAgent = new HttpAgent({ keepAlive: true, maxSockets });
+    this.httpsAgent = new HttpsAgent({ keepAlive: true, maxSockets });
+
+    if (config.enableRealtime) {
+      this.multiplexer = new RealtimeMultiplexer({ ...config.realtime, url: config.apiUrl.replace(/^http/, 'ws') + '/ws' });
+      this.multiplexer.on('error', error => this.emit('error', error));
+    }
+
+    config.participants?.forEach(participant => this.add(participant));
+  }
+
+  /**
+   * Add a participant
+   * @param participant Identity and credentials
+   * @returns SDK modules acting as the participant
+   */
+  add(participant: FleetParticipant): VoltnetSDK {
+    const { participantId } = participant;
+    if (this.members.has(participantId)) {
+      throw new VoltnetError(`Participant ${participantId} is already in the fleet`, { code: 'PARTICIPANT_EXISTS' });
+    }
+
+    const { participants: _participants, maxSockets: _maxSockets, replayTimeout, ...shared } = this.config;
+    const config: VoltnetConfig = {
+      ...shared,
+      participantId,
+      apiKey: participant.apiKey,
+      auth: participant.auth,
+      network: { ...shared.network, httpAgent: this.httpAgent, httpsAgent: this.httpsAgent },
+      scheduler: this.scheduler,
+      realtimeTransport: this.multiplexer,
+      eventReplay: { cursorStore: participant.cursorStore, replayTimeout }
+    };
+    const client = new VoltnetClient(config);
+    this.forwardEvents(client, participantId);
+
+    const sdk: VoltnetSDK = {
+      client,
+      meter: new EnergyMeter(client),
+      pricing: new PricingEngine(client),
+      market: new P2PMarket(client),
+      transactions: new TransactionManager(client)
+    };
+    this.members.set(participantId, sdk);
+    return sdk;
+  }
+
+  /**
+   * Remove a participant and close its real-time link
+   * @returns False if the participant was not in the fleet
+   */
+  remove(participantId: string): boolean {
+    const sdk = this.members.get(participantId);
+    if (!sdk) return false;
+
+    sdk.client.disconnect();
+    this.members.delete(participantId);
+    return true;
+  }
+
+  /**
+   * Get the SDK modules acting as a participant
+   * @throws NotFoundError if the participant is not in the fleet
+   */
+  get(participantId: string): VoltnetSDK {
+    const sdk = this.members.get(participantId);
+    if (!sdk) {
+      throw new NotFoundError(`Participant ${participantId} is not in the fleet`, { code: 'UNKNOWN_PARTICIPANT' });
+    }
+    return sdk;
+  }
+
+  /**
+   * Check whether a participant is in the fleet
+   */
+  has(participantId: string): boolean {
+    return this.members.has(participantId);
+  }
+
+  /**
+   * Get the IDs of all participants, in the order they were added
+   */
+  getParticipantIds(): string[] {
+    return Array.from(this.members.keys());
+  }
+
+  /**
+   * Get the scheduler shared by all participants
+   */
+  getScheduler(): RequestScheduler {
+    return this.scheduler;
+  }
+
+  /**
+   * Get the state of the shared real-time connection
+   * @returns 'closed' if real-time updates are disabled or disconnected
+   */
+  getConnectionState(): ConnectionState {
+    return this.multiplexer ? this.multiplexer.getState() : 'closed';
+  }
+
+  /**
+   * Remove all participants and close the shared connections
+   */
+  disconnect(): void {
+    this.getParticipantIds().forEach(participantId => this.remove(participantId));
+    this.multiplexer?.disconnect();
+    this.httpAgent.destroy();
+    this.httpsAgent.destroy();
+    this.removeAllListeners();
+  }
+
+  private forwardEvents(client: VoltnetClient, participantId: string): void {
+    PARTICIPANT_EVENTS.forEach(type => {
+      client.on(type, (data: any) => this.emit(type, data, participantId));
+    });
+    BROADCAST_EVENTS.forEach(type => {
+      client.on(type, (data: any) => {
+        if (typeof data === 'object' && data !== null) {
+          if (this.emitted.has(data)) return;
+          this.emitted.add(data);
+        }
+        this.emit(type, data);
+      });
+    });
+    client.on('connection-state', (state, details) => this.emit('connection-state', state, details, participantId));
+    client.on('error', error => this.emit('error', error, participantId));
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Tests for DSMR P1 telegram parsing
+ */
+
+import { crc16, parseTelegram, telegramsToMeasurements } from './dsmr';
+import { EnergySource } from './types';
+
+const DSMR_50 = [
+  '/ISk5\\2MT382-1000',
+  '',
+  '1-3:0.2.8(50)',
+  '0-0:1.0.0(170108161107W)',
+  '0-0:96.1.1(4B384547303034303436333935353037)',
+  '1-0:1.8.1(000671.578*kWh)',
+  '1-0:1.8.2(000842.472*kWh)',
+  '1-0:2.8.1(000000.000*kWh)',
+  '1-0:2.8.2(000012.300*kWh)',
+  '0-0:96.14.0(0001)',
+  '1-0:1.7.0(00.333*kW)',
+  '1-0:2.7.0(00.000*kW)',
+  '0-0:96.7.21(00008)',
+  '0-0:96.7.9(00007)',
+  '1-0:99.97.0(1)(0-0:96.7.19)(000101000006W)(2147483647*s)',
+  '1-0:32.32.0(00000)',
+  '1-0:52.32.0(00000)',
+  '1-0:72.32.0(00000)',
+  '1-0:32.36.0(00000)',
+  '1-0:52.36.0(00000)',
+  '1-0:72.36.0(00000)',
+  '0-0:96.13.0()',
+  '1-0:32.7.0(229.0*V)',
+  '1-0:52.7.0(230.0*V)',
+  '1-0:72.7.0(231.0*V)',
+  '1-0:31.7.0(001*A)',
+  '1-0:51.7.0(000*A)',
+  '1-0:71.7.0(001*A)',
+  '1-0:21.7.0(00.170*kW)',
+  '1-0:41.7.0(00.000*kW)',
+  '1-0:61.7.0(00.163*kW)',
+  '1-0:22.7.0(00.000*kW)',
+  '1-0:42.7.0(00.000*kW)',
+  '1-0:62.7.0(00.000*kW)',
+  '0-1:24.1.0(003)',
+  '0-1:96.1.0(3232323241424344313233343536373839)',
+  '0-1:24.2.1(170108160000W)(00001.001*m3)',
+  '!AF62'
+].join('\r\n');
+
+const DSMR_50_NEXT = [
+  '/ISk5\\2MT382-1000',
+  '',
+  '1-3:0.2.8(50)',
+  '0-0:1.0.0(170108162607W)',
+  '0-0:96.1.1(4B384547303034303436333935353037)',
+  '1-0:1.8.1(000671.828*kWh)',
+  '1-0:1.8.2(000842.472*kWh)',
+  '1-0:2.8.1(000000.000*kWh)',
+  '1-0:2.8.2(000012.350*kWh)',
+  '0-0:96.14.0(0001)',
+  '1-0:1.7.0(00.333*kW)',
+  '1-0:2.7.0(00.000*kW)',
+  '0-0:96.7.21(00008)',
+  '0-0:96.7.9(00007)',
+  '1-0:99.97.0(1)(0-0:96.7.19)(000101000006W)(2147483647*s)',
+  '1-0:32.32.0(00000)',
+  '1-0:52.32.0(00000)',
+  '1-0:72.32.0(00000)',
+  '1-0:32.36.0(00000)',
+  '1-0:52.36.0(00000)',
+  '1-0:72.36.0(00000)',
+  '0-0:96.13.0()',
+  '1-0:32.7.0(229.0*V)',
+  '1-0:52.7.0(230.0*V)',
+  '1-0:72.7.0(231.0*V)',
+  '1-0:31.7.0(001*A)',
+  '1-0:51.7.0(000*A)',
+  '1-0:71.7.0(001*A)',
+  '1-0:21.7.0(00.170*kW)',
+  '1-0:41.7.0(00.000*kW)',
+  '1-0:61.7.0(00.163*kW)',
+  '1-0:22.7.0(00.000*kW)',
+  '1-0:42.7.0(00.000*kW)',
+  '1-0:62.7.0(00.000*kW)',
+  '0-1:24.1.0(003)',
+  '0-1:96.1.0(3232323241424344313233343536373839)',
+  '0-1:24.2.1(170108160000W)(00001.101*m3)',
+  '!DF1A'
+].join('\r\n');
+
+const DSMR_42 = [
+  '/KFM5KAIFA-METER',
+  '',
+  '1-3:0.2.8(42)',
+  '0-0:1.0.0(161113205757W)',
+  '0-0:96.1.1(3331373331373331373331373331373331)',
+  '1-0:1.8.1(001581.123*kWh)',
+  '1-0:1.8.2(001435.706*kWh)',
+  '1-0:2.8.1(000000.000*kWh)',
+  '1-0:2.8.2(000000.000*kWh)',
+  '0-0:96.14.0(0002)',
+  '1-0:1.7.0(02.027*kW)',
+  '1-0:2.7.0(00.000*kW)',
+  '0-0:96.7.21(00015)',
+  '0-0:96.7.9(00007)',
+  '1-0:99.97.0(3)(0-0:96.7.19)(000104180320W)(0000237126*s)(000101000001W)(2147483647*s)(000101000001W)(2147483647*s)',
+  '1-0:32.32.0(00000)',
+  '1-0:32.36.0(00000)',
+  '0-0:96.13.1()',
+  '0-0:96.13.0()',
+  '1-0:31.7.0(003*A)',
+  '1-0:21.7.0(00.808*kW)',
+  '1-0:22.7.0(00.000*kW)',
+  '0-1:24.1.0(003)',
+  '0-1:96.1.0(3232323241424344313233343536373839)',
+  '0-1:24.2.1(161113200000W)(00981.443*m3)',
+  '!95C5'
+].join('\r\n');
+
+const DSMR_22 = [
+  '/ISk5\\2ME382-1003',
+  '',
+  '0-0:96.1.1(4B414C37303035313335383736363135)',
+  '1-0:1.8.1(00185.000*kWh)',
+  '1-0:1.8.2(00084.000*kWh)',
+  '1-0:2.8.1(00013.000*kWh)',
+  '1-0:2.8.2(00019.000*kWh)',
+  '0-0:96.14.0(0001)',
+  '1-0:1.7.0(0000.98*kW)',
+  '1-0:2.7.0(0000.00*kW)',
+  '0-0:17.0.0(0999.00*kW)',
+  '0-0:96.3.10(1)',
+  '0-0:96.13.1()',
+  '0-0:96.13.0()',
+  '0-1:96.1.0(3238313031353431303031333733353131)',
+  '0-1:24.3.0(120517020000)(08)(60)(1)(0-1:24.2.1)(m3)',
+  '(00124.477)',
+  '0-1:24.4.0(1)',
+  '!'
+].join('\r\n');
+
+describe('CRC16', () => {
+  test('matches the CRC-16/ARC check value', () => {
+    expect(crc16('123456789')).toBe(0xbb3d);
+  });
+
+  test('rejects telegrams with a bad CRC', () => {
+    expect(() => parseTelegram(DSMR_50.replace('00.333*kW', '00.334*kW'))).toThrow('CRC mismatch');
+    expect(() => parseTelegram(DSMR_50.replace('!AF62', '!AF63'))).toThrow('CRC mismatch');
+  });
+});
+
+describe('parseTelegram', () => {
+  test('parses DSMR 5.0', () => {
+    const telegram = parseTelegram(DSMR_50);
+    expect(telegram.version).toBe('50');
+    expect(telegram.timestamp).toBe('2017-01-08T15:11:07.000Z');
+    expect(telegram.tariff).toBe(1);
+    expect(telegram.energyImported).toEqual({ tariff1: 671.578, tariff2: 842.472, total: 1514.05 });
+    expect(telegram.energyExported).toEqual({ tariff1: 0, tariff2: 12.3, total: 12.3 });
+    expect(telegram.powerImported).toBe(0.333);
+    expect(telegram.phases.l1).toEqual({ voltage: 229, current: 1, powerImported: 0.17, powerExported: 0 });
+    expect(telegram.phases.l3).toEqual({ voltage: 231, current: 1, powerImported: 0.163, powerExported: 0 });
+    expect(telegram.gas).toEqual({
+      equipmentId: '3232323241424344313233343536373839',
+      timestamp: '2017-01-08T15:00:00.000Z',
+      volume: 1.001
+    });
+    expect(telegram.crc).toBe('AF62');
+  });
+
+  test('parses DSMR 4.2', () => {
+    const telegram = parseTelegram(DSMR_42);
+    expect(telegram.version).toBe('42');
+    expect(telegram.header).toBe('KFM5KAIFA-METER');
+    expect(telegram.energyImported.total).toBeCloseTo(3016.829, 6);
+    expect(telegram.phases.l1).toEqual({ voltage: undefined, current: 3, powerImported: 0.808, powerExported: 0 });
+    expect(telegram.phases.l2).toBeUndefined();
+    expect(telegram.gas?.volume).toBe(981.443);
+  });
+
+  test('parses DSMR 2.2 without CRC', () => {
+    const telegram = parseTelegram(DSMR_22);
+    expect(telegram.version).toBeUndefined();
+    expect(telegram.timestamp).toBeUndefined();
+    expect(telegram.crc).toBeUndefined();
+    expect(telegram.energyImported).toEqual({ tariff1: 185, tariff2: 84, total: 269 });
+    expect(telegram.energyExported.total).toBe(32);
+    expect(telegram.powerImported).toBe(0.98);
+    expect(telegram.gas).toEqual({
+      equipmentId: '3238313031353431303031333733353131',
+      timestamp: '2012-05-17T01:00:00.000Z',
+      volume: 124.477
+    });
+  });
+});
+
+describe('telegramsToMeasurements', () => {
+  test('converts consecutive telegrams into interval measurements', () => {
+    const measurements = telegramsToMeasurements(
+      [parseTelegram(DSMR_50), parseTelegram(DSMR_50_NEXT)],
+      { deviceId: 'p1-001' }
+    );
+
+    expect(measurements).toHaveLength(1);
+    expect(measurements[0]).toMatchObject({
+      deviceId: 'p1-001',
+      timestamp: '2017-01-08T15:26:07.000Z',
+      energy: 0.25,
+      exportEnergy: 0.05,
+      power: 0.333,
+      voltage: 230,
+      current: 2,
+      source: EnergySource.GRID,
+      metadata: {
+        intervalStart: '2017-01-08T15:11:07.000Z',
+        gasDelta: 0.1
+      }
+    });
+  });
+
+  test('requires receive times for telegrams without a timestamp', () => {
+    const telegrams = [parseTelegram(DSMR_22), parseTelegram(DSMR_22)];
+    expect(() => telegramsToMeasurements(telegrams, { deviceId: 'p1-002' })).toThrow('receivedAt');
+
+    const [measurement] = telegramsToMeasurements(telegrams, {
+      deviceId: 'p1-002',
+      receivedAt: ['2024-01-15T12:00:00.000Z', '2024-01-15T12:00:10.000Z']
+    });
+    expect(measurement.timestamp).toBe('2024-01-15T12:00:10.000Z');
+    expect(measurement.energy).toBe(0);
+  });
+});
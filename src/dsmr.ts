@@ -0,0 +1,219 @@
+/**
+ * DSMR P1 (IEC 62056-21) telegram parsing for VOLTNET SDK
+ *
+ * Supports DSMR 2.2, 4.x and 5.0 telegrams as emitted on the P1 port
+ * of Dutch/Belgian smart meters.
+ */
+
+import { EnergyMeasurement, EnergySource, P1Telegram, P1PhaseReading } from './types';
+
+/**
+ * Compute the CRC16 of a telegram (CRC-16/ARC, polynomial 0xA001 reflected)
+ * @param data Telegram text from '/' up to and including '!'
+ * @returns CRC value
+ */
+export function crc16(data: string | Buffer): number {
+  const bytes = typeof data === 'string' ? Buffer.from(data, 'latin1') : data;
+  let crc = 0;
+
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+  }
+
+  return crc;
+}
+
+/**
+ * Parse a DSMR timestamp (YYMMDDhhmmss followed by S for summer or W for winter time).
+ * Meters report Dutch local time; DSMR 2.2 meters omit the flag and are treated as winter time.
+ * @param value Raw timestamp
+ * @returns ISO 8601 timestamp
+ */
+export function parseDsmrTimestamp(value: string): string {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})([SW])?$/);
+  if (!match) {
+    throw new Error(`Invalid DSMR timestamp: ${value}`);
+  }
+
+  const [, yy, mm, dd, hh, mi, ss, dst] = match;
+  const offset = dst === 'S' ? '+02:00' : '+01:00';
+  return new Date(`20${yy}-${mm}-${dd}T${hh}:${mi}:${ss}${offset}`).toISOString();
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const number = parseFloat(value.split('*')[0]);
+  return isNaN(number) ? undefined : number;
+}
+
+function sum(values: Array<number | undefined>): number {
+  return values.reduce<number>((total, value) => total + (value || 0), 0);
+}
+
+/**
+ * Parse a P1 telegram and validate its CRC
+ * @param raw Telegram text, starting with '/' and ending with '!' (plus CRC for DSMR 4+)
+ * @param options Set verifyCrc to false to skip CRC validation
+ * @returns Parsed telegram
+ */
+export function parseTelegram(raw: string, options: { verifyCrc?: boolean } = {}): P1Telegram {
+  const start = raw.indexOf('/');
+  const end = raw.indexOf('!', start);
+  if (start < 0 || end < 0) {
+    throw new Error('Incomplete DSMR telegram');
+  }
+
+  const crc = raw.slice(end + 1, end + 5).match(/^[0-9A-Fa-f]{4}$/) ? raw.slice(end + 1, end + 5).toUpperCase() : undefined;
+  if (crc && options.verifyCrc !== false) {
+    const expected = crc16(raw.slice(start, end + 1));
+    if (expected !== parseInt(crc, 16)) {
+      throw new Error(
+        `DSMR telegram CRC mismatch: expected ${expected.toString(16).toUpperCase().padStart(4, '0')}, got ${crc}`
+      );
+    }
+  }
+
+  const lines = raw.slice(start + 1, end).split(/\r?\n/);
+  const header = lines.shift()!.trim();
+
+  // DSMR 2.2 gas readings continue on the next line, e.g. "(00124.477)"
+  const records: string[] = [];
+  for (const line of lines.map(l => l.trim()).filter(Boolean)) {
+    if (line.startsWith('(') && records.length > 0) {
+      records[records.length - 1] += line;
+    } else {
+      records.push(line);
+    }
+  }
+
+  const objects: Record<string, string[]> = {};
+  for (const record of records) {
+    const match = record.match(/^(\d+-\d+:\d+\.\d+\.\d+)((?:\([^)]*\))+)$/);
+    if (!match) continue;
+    objects[match[1]] = match[2].slice(1, -1).split(')(');
+  }
+
+  const value = (obis: string, index = 0) => objects[obis]?.[index];
+  const number = (obis: string) => parseNumber(value(obis));
+
+  const phase = (n: number): P1PhaseReading | undefined => {
+    const reading: P1PhaseReading = {
+      voltage: number(`1-0:${12 + n * 20}.7.0`),
+      current: number(`1-0:${11 + n * 20}.7.0`),
+      powerImported: number(`1-0:${1 + n * 20}.7.0`),
+      powerExported: number(`1-0:${2 + n * 20}.7.0`)
+    };
+    return Object.values(reading).some(v => v !== undefined) ? reading : undefined;
+  };
+
+  const importT1 = number('1-0:1.8.1');
+  const importT2 = number('1-0:1.8.2');
+  const exportT1 = number('1-0:2.8.1');
+  const exportT2 = number('1-0:2.8.2');
+
+  const telegram: P1Telegram = {
+    header,
+    version: value('1-3:0.2.8') ?? value('0-0:96.1.4'),
+    timestamp: value('0-0:1.0.0') ? parseDsmrTimestamp(value('0-0:1.0.0')!) : undefined,
+    equipmentId: value('0-0:96.1.1'),
+    tariff: number('0-0:96.14.0'),
+    energyImported: { tariff1: importT1, tariff2: importT2, total: sum([importT1, importT2]) },
+    energyExported: { tariff1: exportT1, tariff2: exportT2, total: sum([exportT1, exportT2]) },
+    powerImported: number('1-0:1.7.0'),
+    powerExported: number('1-0:2.7.0'),
+    phases: { l1: phase(1), l2: phase(2), l3: phase(3) },
+    crc,
+    objects
+  };
+
+  for (let channel = 1; channel <= 4; channel++) {
+    const equipmentId = value(`0-${channel}:96.1.0`);
+    const hourly = objects[`0-${channel}:24.2.1`];
+    const legacy = objects[`0-${channel}:24.3.0`];
+
+    if (hourly) {
+      // DSMR 4/5: (timestamp)(volume*m3)
+      telegram.gas = {
+        equipmentId,
+        timestamp: parseDsmrTimestamp(hourly[0]),
+        volume: parseNumber(hourly[1])!
+      };
+      break;
+    }
+
+    if (legacy) {
+      // DSMR 2.2: (timestamp)(period)(interval)(count)(obis)(unit)(volume)
+      telegram.gas = {
+        equipmentId,
+        timestamp: parseDsmrTimestamp(legacy[0]),
+        volume: parseNumber(legacy[legacy.length - 1])!
+      };
+      break;
+    }
+  }
+
+  return telegram;
+}
+
+/**
+ * Convert consecutive telegrams into interval measurements.
+ * Each measurement covers the energy delivered since the previous telegram,
+ * so n telegrams produce n - 1 measurements.
+ * @param telegrams Parsed telegrams in chronological order
+ * @param options Device ID, energy source and fallback timestamps for telegrams without one (DSMR 2.2)
+ * @returns Measurements ready for EnergyMeter.submitBatch
+ */
+export function telegramsToMeasurements(
+  telegrams: P1Telegram[],
+  options: { deviceId: string; source?: EnergySource; receivedAt?: string[] }
+): EnergyMeasurement[] {
+  const measurements: EnergyMeasurement[] = [];
+
+  for (let i = 1; i < telegrams.length; i++) {
+    const previous = telegrams[i - 1];
+    const current = telegrams[i];
+    const phases = [current.phases.l1, current.phases.l2, current.phases.l3].filter(
+      (p): p is P1PhaseReading => p !== undefined
+    );
+    const voltages = phases.map(p => p.voltage).filter((v): v is number => v !== undefined);
+    const currents = phases.map(p => p.current).filter((c): c is number => c !== undefined);
+
+    const timestamp = current.timestamp ?? options.receivedAt?.[i];
+    if (!timestamp) {
+      throw new Error(`Telegram ${i} has no timestamp; pass receivedAt for DSMR 2.2 meters`);
+    }
+
+    const round = (value: number) => Number(value.toFixed(6));
+
+    measurements.push({
+      deviceId: options.deviceId,
+      timestamp,
+      energy: round(Math.max(0, current.energyImported.total - previous.energyImported.total)),
+      exportEnergy: round(Math.max(0, current.energyExported.total - previous.energyExported.total)),
+      power: current.powerImported,
+      voltage: voltages.length > 0 ? round(voltages.reduce((a, b) => a + b, 0) / voltages.length) : undefined,
+      current: currents.length > 0 ? round(currents.reduce((a, b) => a + b, 0)) : undefined,
+      source: options.source || EnergySource.GRID,
+      metadata: {
+        dsmrVersion: current.version,
+        equipmentId: current.equipmentId,
+        tariff: current.tariff,
+        intervalStart: previous.timestamp ?? options.receivedAt?.[i - 1],
+        powerExported: current.powerExported,
+        registers: {
+          importTariff1: current.energyImported.tariff1,
+          importTariff2: current.energyImported.tariff2,
+          exportTariff1: current.energyExported.tariff1,
+          exportTariff2: current.energyExported.tariff2
+        },
+        gasVolume: current.gas?.volume,
+        gasDelta: current.gas && previous.gas ? round(current.gas.volume - previous.gas.volume) : undefined
+      }
+    });
+  }
+
+  return measurements;
+}
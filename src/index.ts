@@ -3,6 +3,9 @@
  * 
  * Voltage Settlement Network - P2P energy trading platform with real-time micropayments
  * 
+ * Runs in Node and browsers. Modules that need Node's file system or
+ * sockets are exported from `@voltnet/sdk/node`.
+ *
  * @packageDocumentation
  */
 
@@ -14,10 +17,40 @@ export { EnergyMeter } from './EnergyMeter';
 export { PricingEngine } from './PricingEngine';
 export { P2PMarket } from './P2PMarket';
 export { TransactionManager } from './TransactionManager';
+export { MeasurementChain, verifyChain, hashMeasurement, GENESIS_HASH } from './MeasurementChain';
+export { MqttBridge, jsonDecoder, compileTopicPattern } from './MqttBridge';
+export { DeviceProvisioner } from './DeviceProvisioner';
+export { MemoryKeystore } from './Keystore';
+export { AnomalyDetector } from './AnomalyDetector';
+export { DeviceSimulator } from './DeviceSimulator';
+export { RealtimeConnection } from './RealtimeConnection';
+export { MemoryCursorStore } from './CursorStore';
+export { ResponseCache } from './ResponseCache';
+export { MemoryCacheStore } from './CacheStore';
+export { ApiKeyAuth, OAuth2ClientCredentialsAuth, HmacAuth, hmacSignature, HMAC_HEADERS } from './AuthProvider';
+export { MockBackend } from './MockBackend';
+export { TokenBucketScheduler, classifyRequest } from './TokenBucketScheduler';
+export { RealtimeMultiplexer } from './RealtimeMultiplexer';
+export { ClientMetrics, routeTemplate } from './ClientMetrics';
+export {
+  VoltnetError,
+  AuthenticationError,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  RateLimitError,
+  NetworkError,
+  TimeoutError,
+  ServerError,
+  InvalidResponseError,
+  toVoltnetError,
+  parseRetryAfter
+} from './VoltnetError';
 
 // Types
 export {
   EnergySource,
+  EnergyDirection,
   ParticipantType,
   TransactionStatus,
   PricingModel,
@@ -31,11 +64,124 @@ export {
   DeviceRegistration,
   Balance,
   Statistics,
-  VoltnetEvents
+  VoltnetEvents,
+  SignatureAlgorithm,
+  SignatureFailureReason,
+  SignatureVerificationResult,
+  ChainHead,
+  ChainIssue,
+  ChainVerificationResult,
+  BufferStatus,
+  MeasurementBufferEvents,
+  SunSpecAdapterConfig,
+  SunSpecModelInfo,
+  SunSpecAdapterEvents,
+  P1Telegram,
+  P1PhaseReading,
+  MqttDecoder,
+  MqttBridgeRoute,
+  MqttClientLike,
+  MqttBridgeEvents,
+  RegisterReading,
+  RegisterFlag,
+  RegisterDelta,
+  IntervalQuality,
+  GapFillStrategy,
+  ResampleOptions,
+  EnergyFlowTotals,
+  NetInterval,
+  KeyRotation,
+  DeviceKey,
+  Keystore,
+  AnomalyType,
+  Anomaly,
+  AnomalyAction,
+  AnomalyAssessment,
+  AnomalyDetectorConfig,
+  AnomalyDetectorEvents,
+  SimulatorFaults,
+  DeviceSimulatorConfig,
+  DeviceSimulatorEvents,
+  WebSocketLike,
+  ConnectionState,
+  ConnectionStateDetails,
+  ReconnectOptions,
+  RealtimeConnectionConfig,
+  RealtimeConnectionEvents,
+  SubscriptionTopic,
+  SubscriptionPayloads,
+  Subscription,
+  EventCursor,
+  CursorStore,
+  EventReplayOptions,
+  SequencedEvent,
+  VoltnetErrorKind,
+  IdempotencyOptions,
+  TransactionFilters,
+  OfferFilters,
+  ParticipantQuery,
+  Page,
+  PageOptions,
+  TimeRange,
+  PaginationOptions,
+  CachedEndpoint,
+  CacheEntry,
+  CacheStore,
+  CachePolicy,
+  CacheOptions,
+  ValidationMode,
+  SchemaIssue,
+  Schema,
+  AuthRequest,
+  AuthProvider,
+  OAuth2ClientCredentialsOptions,
+  HmacAuthOptions,
+  MockParticipant,
+  MockFixtures,
+  MockBackendOptions,
+  MockRequest,
+  MockResponse,
+  MockEvent,
+  MockBackendEvents,
+  MockFault,
+  RouteClass,
+  RequestPriority,
+  ScheduledRequest,
+  RequestScheduler,
+  RateBudget,
+  TokenBucketSchedulerOptions,
+  RealtimeLink,
+  RealtimeTransport,
+  FleetParticipant,
+  VoltnetFleetConfig,
+  VoltnetFleetEvents,
+  LogLevel,
+  Logger,
+  LoggingOptions,
+  MiddlewareRequest,
+  MiddlewareResponse,
+  RequestMiddleware,
+  MetricsOptions,
+  LatencyHistogram,
+  RouteMetrics,
+  RealtimeMetrics,
+  MetricsSnapshot,
+  TraceContext,
+  Traceparent,
+  TracingOptions
 } from './types';
 
 // Utils
 export * as utils from './utils';
+export * as signing from './signing';
+export * as dsmr from './dsmr';
+export * as registers from './registers';
+export * as resampling from './resampling';
+export * as netMetering from './netMetering';
+export * as pagination from './pagination';
+export * as validation from './validation';
+export * as logging from './logging';
+export * as tracing from './tracing';
 
 /**
  * Create a new VOLTNET client instance
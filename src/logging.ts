@@ -0,0 +1,94 @@
+/**
+ * Logging for VOLTNET SDK
+ *
+ * Messages go through a pluggable logger filtered by level. Credentials
+ * never reach it: values of sensitive fields such as `authorization` or
+ * `apiKey`, bearer tokens and configured secrets are masked in messages
+ * and context alike.
+ */
+
+import { LogLevel, Logger, LoggingOptions } from './types';
+
+/** Replacement for masked values */
+export const REDACTED = '[REDACTED]';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+/** Field names whose values are always masked */
+const SENSITIVE_KEY = /authorization|api[-_]?key|token|secret|password|signature|cookie/i;
+
+const BEARER_TOKEN = /(Bearer|Basic)\s+[^\s"',]+/gi;
+
+/**
+ * Logger writing to the console, prefixed with `[VOLTNET]`
+ */
+export const consoleLogger: Logger = {
+  debug: (message, context) => console.debug(...consoleArgs(message, context)),
+  info: (message, context) => console.info(...consoleArgs(message, context)),
+  warn: (message, context) => console.warn(...consoleArgs(message, context)),
+  error: (message, context) => console.error(...consoleArgs(message, context))
+};
+
+function consoleArgs(message: string, context?: Record<string, unknown>): unknown[] {
+  return context === undefined ? [`[VOLTNET] ${message}`] : [`[VOLTNET] ${message}`, context];
+}
+
+/**
+ * Mask credentials in a value
+ * @param value String, or object whose strings and sensitive fields are masked
+ * @param secrets Values to mask wherever they appear
+ * @returns Copy with credentials replaced by `[REDACTED]`
+ */
+export function redact<T>(value: T, secrets: string[] = []): T {
+  return redactValue(value, secrets.filter(secret => secret.length > 0), new WeakSet()) as T;
+}
+
+function redactValue(value: unknown, secrets: string[], seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    let text = value.replace(BEARER_TOKEN, `$1 ${REDACTED}`);
+    for (const secret of secrets) {
+      text = text.split(secret).join(REDACTED);
+    }
+    return text;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (value instanceof Error) {
+    return redactValue(value.message, secrets, seen);
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, secrets, seen));
+  }
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = SENSITIVE_KEY.test(key) && item !== undefined ? REDACTED : redactValue(item, secrets, seen);
+  }
+  return copy;
+}
+
+/**
+ * Create a logger that drops messages below the configured level and
+ * masks credentials
+ * @param options Destination, level and further values to mask
+ * @param secrets Credentials of the client, e.g. its API key, or a function
+ *   returning them for credentials that change, such as access tokens
+ */
+export function createLogger(options: LoggingOptions = {}, secrets: string[] | (() => string[]) = []): Logger {
+  const target = options.logger || consoleLogger;
+  const threshold = LEVEL_ORDER[options.level ?? 'warn'];
+  const current = typeof secrets === 'function' ? secrets : () => secrets;
+
+  const log = (level: Exclude<LogLevel, 'silent'>) => (message: string, context?: Record<string, unknown>) => {
+    if (LEVEL_ORDER[level] < threshold) return;
+    const masked = [...current(), ...(options.redact || [])];
+    target[level](redact(message, masked), context === undefined ? undefined : redact(context, masked));
+  };
+
+  return { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') };
+}
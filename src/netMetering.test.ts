@@ -0,0 +1,114 @@
+/**
+ * Tests for net metering helpers
+ */
+
+import {
+  importedEnergy,
+  exportedEnergy,
+  netEnergy,
+  fromSignedEnergy,
+  flowTotals,
+  flowTotalsByDevice,
+  netIntervals
+} from './netMetering';
+import { EnergyMeter } from './EnergyMeter';
+import { VoltnetClient } from './VoltnetClient';
+import { EnergyMeasurement, EnergySource, EnergyDirection } from './types';
+
+function reading(time: string, energy: number, extra: Partial<EnergyMeasurement> = {}): EnergyMeasurement {
+  return {
+    deviceId: 'meter-001',
+    timestamp: `2024-01-15T${time}:00.000Z`,
+    energy,
+    source: EnergySource.GRID,
+    ...extra
+  };
+}
+
+describe('direction-aware readings', () => {
+  test('reads both registers of a bidirectional reading', () => {
+    const measurement = reading('12:15', 0.4, { exportEnergy: 1.1 });
+    expect(importedEnergy(measurement)).toBe(0.4);
+    expect(exportedEnergy(measurement)).toBe(1.1);
+    expect(netEnergy(measurement)).toBe(-0.7);
+  });
+
+  test('reads single-register readings by direction', () => {
+    const exported = reading('12:15', 2, { direction: EnergyDirection.EXPORT });
+    expect(importedEnergy(exported)).toBe(0);
+    expect(exportedEnergy(exported)).toBe(2);
+
+    expect(netEnergy(reading('12:15', 2))).toBe(2);
+  });
+
+  test('converts signed energy', () => {
+    expect(fromSignedEnergy(reading('12:15', -1.5, { power: -6 }))).toMatchObject({
+      energy: 1.5,
+      power: 6,
+      direction: EnergyDirection.EXPORT
+    });
+    expect(fromSignedEnergy(reading('12:15', 1.5)).direction).toBe(EnergyDirection.IMPORT);
+  });
+});
+
+describe('totals', () => {
+  const measurements = [
+    reading('12:05', 0.2, { exportEnergy: 0 }),
+    reading('12:10', 0, { exportEnergy: 0.5 }),
+    reading('12:20', 0.3, { exportEnergy: 0.1 }),
+    reading('12:15', 1, { deviceId: 'meter-002', direction: EnergyDirection.EXPORT })
+  ];
+
+  test('sums consumed and produced separately', () => {
+    expect(flowTotals(measurements)).toEqual({ consumed: 0.5, produced: 1.6, net: -1.1 });
+    expect(flowTotalsByDevice(measurements)).toEqual({
+      'meter-001': { consumed: 0.5, produced: 0.6, net: -0.1 },
+      'meter-002': { consumed: 0, produced: 1, net: -1 }
+    });
+  });
+
+  test('computes net energy per interval', () => {
+    expect(netIntervals(measurements.slice(0, 3), 15)).toEqual([
+      { intervalStart: '2024-01-15T12:00:00.000Z', intervalEnd: '2024-01-15T12:15:00.000Z', consumed: 0.2, produced: 0.5, net: -0.3 },
+      { intervalStart: '2024-01-15T12:15:00.000Z', intervalEnd: '2024-01-15T12:30:00.000Z', consumed: 0.3, produced: 0.1, net: 0.2 }
+    ]);
+  });
+});
+
+describe('EnergyMeter.calculateEnergyTotal', () => {
+  function meterWith(measurements: EnergyMeasurement[]): EnergyMeter {
+    const meter = new EnergyMeter(new VoltnetClient({ apiUrl: 'http://localhost', apiKey: 'key', participantId: 'participant-001' }));
+    jest.spyOn(meter, 'getMeasurements').mockResolvedValue(measurements);
+    return meter;
+  }
+
+  test('reports consumed and produced energy of a prosumer meter', async () => {
+    const meter = meterWith([
+      reading('12:15', 0.5, { exportEnergy: 0.25 }),
+      reading('12:30', 0.1, { exportEnergy: 1 })
+    ]);
+
+    expect(await meter.calculateEnergyTotal('meter-001', 'from', 'to')).toEqual({
+      total: 1.85,
+      source: EnergySource.GRID,
+      consumed: 0.6,
+      produced: 1.25,
+      net: -0.65
+    });
+  });
+
+  test('reads import and export registers of cumulative readings', async () => {
+    const meter = meterWith([
+      reading('12:00', 100, { exportEnergy: 50 }),
+      reading('12:15', 100.5, { exportEnergy: 51 }),
+      reading('12:30', 100.6, { exportEnergy: 52.5 })
+    ]);
+
+    expect(await meter.calculateEnergyTotal('meter-001', 'from', 'to', { cumulative: true })).toMatchObject({
+      consumed: 0.6,
+      produced: 2.5,
+      net: -1.9,
+      flags: []
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Net metering helpers for VOLTNET SDK
+ *
+ * Bidirectional meters report energy taken from the grid (import) and fed
+ * into it (export). A reading either carries both registers (`energy` as
+ * import plus `exportEnergy`) or a single register with a `direction`.
+ */
+
+import { alignToInterval } from './utils';
+import {
+  EnergyMeasurement,
+  EnergyDirection,
+  EnergyFlowTotals,
+  NetInterval
+} from './types';
+
+function round(value: number): number {
+  return Number(value.toFixed(6));
+}
+
+/**
+ * Energy imported (consumed) in a reading
+ * @param measurement Energy measurement
+ * @returns Imported energy in kWh
+ */
+export function importedEnergy(measurement: EnergyMeasurement): number {
+  return measurement.direction === EnergyDirection.EXPORT ? 0 : measurement.energy;
+}
+
+/**
+ * Energy exported (produced) in a reading
+ * @param measurement Energy measurement
+ * @returns Exported energy in kWh
+ */
+export function exportedEnergy(measurement: EnergyMeasurement): number {
+  return measurement.direction === EnergyDirection.EXPORT
+    ? measurement.energy
+    : measurement.exportEnergy ?? 0;
+}
+
+/**
+ * Net energy of a reading
+ * @param measurement Energy measurement
+ * @returns Imported minus exported energy in kWh
+ */
+export function netEnergy(measurement: EnergyMeasurement): number {
+  return round(importedEnergy(measurement) - exportedEnergy(measurement));
+}
+
+/**
+ * Convert a reading with signed energy (negative = export) into a
+ * direction-aware measurement
+ * @param measurement Measurement whose energy may be negative
+ * @returns Measurement with non-negative energy and a direction
+ */
+export function fromSignedEnergy(measurement: EnergyMeasurement): EnergyMeasurement {
+  return {
+    ...measurement,
+    energy: Math.abs(measurement.energy),
+    power: measurement.power !== undefined ? Math.abs(measurement.power) : undefined,
+    direction: measurement.energy < 0 ? EnergyDirection.EXPORT : EnergyDirection.IMPORT
+  };
+}
+
+/**
+ * Sum consumed and produced energy
+ * @param measurements Energy measurements
+ * @returns Consumed, produced and net energy
+ */
+export function flowTotals(measurements: EnergyMeasurement[]): EnergyFlowTotals {
+  const consumed = round(measurements.reduce((sum, m) => sum + importedEnergy(m), 0));
+  const produced = round(measurements.reduce((sum, m) => sum + exportedEnergy(m), 0));
+  return { consumed, produced, net: round(consumed - produced) };
+}
+
+/**
+ * Sum consumed and produced energy per device
+ * @param measurements Energy measurements from any number of meters
+ * @returns Totals keyed by device ID
+ */
+export function flowTotalsByDevice(measurements: EnergyMeasurement[]): Record<string, EnergyFlowTotals> {
+  const byDevice: Record<string, EnergyMeasurement[]> = {};
+  for (const measurement of measurements) {
+    if (!byDevice[measurement.deviceId]) byDevice[measurement.deviceId] = [];
+    byDevice[measurement.deviceId].push(measurement);
+  }
+
+  return Object.fromEntries(
+    Object.entries(byDevice).map(([deviceId, items]) => [deviceId, flowTotals(items)])
+  );
+}
+
+/**
+ * Compute net energy per interval. Each reading is assigned to the interval
+ * its timestamp ends, so interval readings stamped at their end land in
+ * their own interval.
+ * @param measurements Energy measurements of one meter
+ * @param intervalMinutes Interval length in minutes
+ * @returns Intervals with readings, in chronological order
+ */
+export function netIntervals(measurements: EnergyMeasurement[], intervalMinutes: number): NetInterval[] {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const groups = new Map<string, EnergyMeasurement[]>();
+
+  for (const measurement of measurements) {
+    const end = alignToInterval(measurement.timestamp, intervalMinutes, 'ceil');
+    const group = groups.get(end);
+    if (group) {
+      group.push(measurement);
+    } else {
+      groups.set(end, [measurement]);
+    }
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([end, items]) => ({
+      intervalStart: new Date(new Date(end).getTime() - intervalMs).toISOString(),
+      intervalEnd: end,
+      ...flowTotals(items)
+    }));
+}
@@ -0,0 +1,17 @@
+/**
+ * VOLTNET SDK - Node.js modules
+ *
+ * Modules that need Node's file system, sockets or HTTP server, kept out of
+ * the main entry so that it bundles for browsers. Import them from
+ * `@voltnet/sdk/node`; everything else comes from `@voltnet/sdk`.
+ *
+ * @packageDocumentation
+ */
+
+export { MeasurementBuffer } from './MeasurementBuffer';
+export { SunSpecAdapter } from './SunSpecAdapter';
+export { ModbusTcpClient } from './ModbusTcpClient';
+export { FileKeystore } from './FileKeystore';
+export { FileCursorStore } from './FileCursorStore';
+export { MockVoltnetServer } from './MockVoltnetServer';
+export { VoltnetFleet } from './VoltnetFleet';
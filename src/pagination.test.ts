@@ -0,0 +1,191 @@
+/**
+ * Tests for pagination helpers and the iterators of list endpoints
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { paginate, paginateTimeRange, splitTimeRange, toPage, DAY_MS } from './pagination';
+import { VoltnetClient } from './VoltnetClient';
+import { TransactionManager } from './TransactionManager';
+import { EnergyMeter } from './EnergyMeter';
+import { Page, PageOptions, TimeRange } from './types';
+
+// Serves `total` numbered items in pages, like a cursor-paginated endpoint
+function pagedSource(total: number) {
+  const requests: PageOptions[] = [];
+  const fetchPage = async (page: PageOptions): Promise<Page<number>> => {
+    requests.push(page);
+    const start = Number(page.cursor ?? 0);
+    const end = Math.min(total, start + (page.limit ?? 10));
+    const items = Array.from({ length: end - start }, (_, i) => start + i);
+    return { items, nextCursor: end < total ? String(end) : undefined };
+  };
+  return { requests, fetchPage };
+}
+
+describe('pagination', () => {
+  test('toPage accepts paged responses and plain arrays', () => {
+    expect(toPage({ items: [1, 2], nextCursor: 'c2' })).toEqual({ items: [1, 2], nextCursor: 'c2' });
+    expect(toPage([1, 2])).toEqual({ items: [1, 2] });
+  });
+
+  test('fetches pages lazily and stops when the consumer breaks', async () => {
+    const source = pagedSource(100);
+    const seen: number[] = [];
+
+    for await (const item of paginate(source.fetchPage, { pageSize: 10 })) {
+      seen.push(item);
+      if (item === 14) break;
+    }
+
+    expect(seen).toHaveLength(15);
+    expect(source.requests).toEqual([{ cursor: undefined, limit: 10 }, { cursor: '10', limit: 10 }]);
+  });
+
+  test('stops after maxItems without requesting more than needed', async () => {
+    const source = pagedSource(100);
+    const items: number[] = [];
+    for await (const item of paginate(source.fetchPage, { pageSize: 10, maxItems: 25 })) {
+      items.push(item);
+    }
+
+    expect(items).toHaveLength(25);
+    expect(source.requests.map(r => r.limit)).toEqual([10, 10, 5]);
+  });
+
+  test('rejects a cursor that does not advance', async () => {
+    const stuck = async () => ({ items: [1], nextCursor: 'same' });
+    const run = async () => {
+      for await (const _item of paginate(stuck)) {
+        // drain
+      }
+    };
+
+    await expect(run()).rejects.toThrow('did not advance');
+  });
+
+  test('splits a time range into inclusive chunks', () => {
+    expect(splitTimeRange('2024-01-01T00:00:00.000Z', '2024-01-03T12:00:00.000Z', DAY_MS)).toEqual([
+      { from: '2024-01-01T00:00:00.000Z', to: '2024-01-01T23:59:59.999Z' },
+      { from: '2024-01-02T00:00:00.000Z', to: '2024-01-02T23:59:59.999Z' },
+      { from: '2024-01-03T00:00:00.000Z', to: '2024-01-03T12:00:00.000Z' }
+    ]);
+    expect(() => splitTimeRange('2024-01-02', '2024-01-01', DAY_MS)).toThrow('starts after it ends');
+  });
+
+  test('fetches chunks ahead with concurrency and yields them in order', async () => {
+    const started: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const fetchPage = async (range: TimeRange): Promise<Page<string>> => {
+      started.push(range.from.slice(0, 10));
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      // Earlier chunks answer last
+      await new Promise(resolve => setTimeout(resolve, 40 - 10 * started.length));
+      inFlight--;
+      return { items: [range.from.slice(0, 10)] };
+    };
+
+    const days: string[] = [];
+    const range = { from: '2024-01-01T00:00:00.000Z', to: '2024-01-04T23:59:59.999Z' };
+    for await (const day of paginateTimeRange(range, fetchPage, { chunkSize: DAY_MS, concurrency: 3 })) {
+      days.push(day);
+    }
+
+    expect(days).toEqual(['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04']);
+    expect(maxInFlight).toBe(3);
+  });
+
+  test('fetches only the first page of chunks ahead', async () => {
+    const requested: string[] = [];
+    // Three pages per chunk
+    const fetchPage = async (range: TimeRange, page: PageOptions): Promise<Page<string>> => {
+      const index = Number(page.cursor ?? 0);
+      requested.push(`${range.from.slice(0, 10)}#${index}`);
+      return { items: [`${range.from.slice(0, 10)}#${index}`], nextCursor: index < 2 ? String(index + 1) : undefined };
+    };
+
+    const items: string[] = [];
+    const range = { from: '2024-01-01T00:00:00.000Z', to: '2024-01-04T23:59:59.999Z' };
+    for await (const item of paginateTimeRange(range, fetchPage, { chunkSize: DAY_MS, concurrency: 3 })) {
+      items.push(item);
+      if (items.length === 2) break;
+    }
+
+    expect(items).toEqual(['2024-01-01#0', '2024-01-01#1']);
+    expect(requested.sort()).toEqual(['2024-01-01#0', '2024-01-01#1', '2024-01-02#0', '2024-01-03#0']);
+  });
+});
+
+describe('list endpoint iterators', () => {
+  let server: Server;
+  let requests: URL[];
+  let client: VoltnetClient;
+
+  beforeEach(async () => {
+    requests = [];
+
+    // Stand-in for the API: one transaction per day of 2024, one reading per hour
+    server = createServer((request, response) => {
+      const url = new URL(request.url!, 'http://localhost');
+      requests.push(url);
+      const from = Date.parse(url.searchParams.get('from')!);
+      const to = Date.parse(url.searchParams.get('to')!);
+      const step = url.pathname === '/transactions' ? DAY_MS : DAY_MS / 24;
+
+      const all: Array<{ id: string; timestamp: string }> = [];
+      for (let time = Math.ceil(from / step) * step; time <= to; time += step) {
+        all.push({ id: `item-${time}`, timestamp: new Date(time).toISOString() });
+      }
+      const start = Number(url.searchParams.get('cursor') ?? 0);
+      const end = start + Number(url.searchParams.get('limit'));
+
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ items: all.slice(start, end), nextCursor: end < all.length ? String(end) : undefined }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    client = new VoltnetClient({
+      apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      apiKey: 'secret',
+      participantId: 'participant-001',
+      network: { retries: 0 }
+    });
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('iterates a year of transactions in 30-day chunks', async () => {
+    const transactions = new TransactionManager(client);
+    const timestamps: string[] = [];
+    const filters = { from: '2024-01-01T00:00:00.000Z', to: '2024-12-31T23:59:59.999Z' };
+
+    for await (const transaction of transactions.iterateTransactions(filters, { pageSize: 20 })) {
+      timestamps.push(transaction.timestamp);
+    }
+
+    expect(timestamps).toHaveLength(366);
+    expect(new Set(timestamps).size).toBe(366);
+    expect(timestamps[365]).toBe('2024-12-31T00:00:00.000Z');
+    expect(requests.every(url => url.searchParams.get('limit') === '20')).toBe(true);
+    expect(new Set(requests.map(url => url.searchParams.get('from'))).size).toBe(13);
+  });
+
+  test('stops requesting measurements once enough have been read', async () => {
+    const meter = new EnergyMeter(client);
+    const readings = meter.iterateMeasurements('meter-01', '2024-01-01T00:00:00.000Z', '2024-01-31T00:00:00.000Z', {
+      pageSize: 10
+    });
+
+    let count = 0;
+    for await (const _reading of readings) {
+      if (++count === 15) break;
+    }
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].searchParams.get('cursor')).toBe('10');
+  });
+});
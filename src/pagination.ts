@@ -0,0 +1,147 @@
+/**
+ * Pagination helpers for VOLTNET SDK
+ *
+ * List endpoints accept `cursor` and `limit` parameters and answer with
+ * `{ items, nextCursor }`. Servers that predate pagination answer with a
+ * plain array, which is treated as a single, final page. Long time ranges
+ * are split into chunks that are requested separately, so no single
+ * request spans more than the chunk size.
+ */
+
+import { Page, PageOptions, PaginationOptions, TimeRange } from './types';
+
+/** Items requested per page unless configured otherwise */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/** One day in ms, for chunk sizes */
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FetchPage<T> = (page: PageOptions) => Promise<Page<T>>;
+type FetchRangePage<T> = (range: TimeRange, page: PageOptions) => Promise<Page<T>>;
+
+/**
+ * Normalize a list response into a page
+ * @param data Response body: `{ items, nextCursor }` or a plain array
+ * @returns Page of items
+ */
+export function toPage<T>(data: any): Page<T> {
+  if (Array.isArray(data)) {
+    return { items: data };
+  }
+  return {
+    items: Array.isArray(data?.items) ? data.items : [],
+    nextCursor: data?.nextCursor ?? undefined
+  };
+}
+
+/**
+ * Iterate over all items of a list endpoint, fetching pages as they are
+ * consumed. Breaking out of `for await` stops further requests.
+ * @param fetchPage Fetches one page
+ * @param options Page size and item limit
+ * @returns Async iterator over items
+ */
+export async function* paginate<T>(
+  fetchPage: FetchPage<T>,
+  options: PaginationOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const maxItems = options.maxItems ?? Infinity;
+  let cursor: string | undefined;
+  let count = 0;
+
+  while (count < maxItems) {
+    const page = await fetchPage({ cursor, limit: Math.min(pageSize, maxItems - count) });
+
+    for (const item of page.items) {
+      yield item;
+      if (++count >= maxItems) return;
+    }
+
+    if (!page.nextCursor) return;
+    if (page.nextCursor === cursor) {
+      throw new Error(`Pagination cursor did not advance: ${cursor}`);
+    }
+    cursor = page.nextCursor;
+  }
+}
+
+/**
+ * Split a time range into consecutive chunks. Bounds are inclusive, so each
+ * chunk ends 1 ms before the next one starts.
+ * @param from Start of the range (ISO 8601)
+ * @param to End of the range (ISO 8601)
+ * @param chunkSize Maximum chunk length in ms
+ * @returns Chunks covering the range in order
+ */
+export function splitTimeRange(from: string, to: string, chunkSize: number): TimeRange[] {
+  const start = new Date(from).getTime();
+  const end = new Date(to).getTime();
+
+  if (isNaN(start) || isNaN(end)) {
+    throw new Error(`Invalid time range: ${from} - ${to}`);
+  }
+  if (start > end) {
+    throw new Error(`Time range starts after it ends: ${from} - ${to}`);
+  }
+  if (!(chunkSize > 0)) {
+    throw new Error(`Chunk size must be positive: ${chunkSize}`);
+  }
+
+  const ranges: TimeRange[] = [];
+  for (let chunkStart = start; chunkStart <= end; chunkStart += chunkSize) {
+    const chunkEnd = Math.min(end, chunkStart + chunkSize - 1);
+    ranges.push({ from: new Date(chunkStart).toISOString(), to: new Date(chunkEnd).toISOString() });
+  }
+  return ranges;
+}
+
+/**
+ * Iterate over all items of a list endpoint in a time range. The range is
+ * split into chunks of `options.chunkSize`; each chunk is paginated on its
+ * own. With `concurrency` above 1 the first pages of the following chunks
+ * are fetched ahead while the current one is consumed; their remaining pages
+ * are fetched as they are consumed. Items are always yielded in chunk order.
+ * @param range Time range to cover
+ * @param fetchPage Fetches one page of one chunk
+ * @param options Page size, item limit, chunk size and concurrency
+ * @returns Async iterator over items
+ */
+export async function* paginateTimeRange<T>(
+  range: TimeRange,
+  fetchPage: FetchRangePage<T>,
+  options: PaginationOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const ranges = options.chunkSize
+    ? splitTimeRange(range.from, range.to, options.chunkSize)
+    : [range];
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  const maxItems = options.maxItems ?? Infinity;
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  // Only first pages are fetched ahead, so an abandoned iteration leaves little in flight
+  const prefetched = new Map<number, Promise<Page<T>>>();
+
+  let count = 0;
+  for (let i = 0; i < ranges.length; i++) {
+    for (let j = i + 1; j < Math.min(ranges.length, i + concurrency); j++) {
+      if (!prefetched.has(j)) {
+        const first = fetchPage(ranges[j], { limit: Math.min(pageSize, maxItems) });
+        // Rejections surface when the chunk is reached; chunks never reached are ignored
+        first.catch(() => undefined);
+        prefetched.set(j, first);
+      }
+    }
+
+    const first = prefetched.get(i);
+    prefetched.delete(i);
+    const items = paginate(
+      page => first && page.cursor === undefined ? first : fetchPage(ranges[i], page),
+      { pageSize, maxItems: maxItems - count }
+    );
+
+    for await (const item of items) {
+      yield item;
+      if (++count >= maxItems) return;
+    }
+  }
+}
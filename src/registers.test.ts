@@ -0,0 +1,79 @@
+/**
+ * Tests for cumulative register conversion
+ */
+
+import { registerDeltas, registersToIntervals } from './registers';
+import { RegisterReading } from './types';
+
+function reading(time: string, value: number, meterSerial?: string): RegisterReading {
+  return { deviceId: 'meter-001', timestamp: `2024-01-15T${time}:00.000Z`, value, meterSerial };
+}
+
+describe('registerDeltas', () => {
+  test('computes plain deltas', () => {
+    const deltas = registerDeltas([reading('12:00', 100), reading('12:15', 101.5)]);
+    expect(deltas).toEqual([{
+      from: '2024-01-15T12:00:00.000Z',
+      to: '2024-01-15T12:15:00.000Z',
+      startValue: 100,
+      endValue: 101.5,
+      energy: 1.5,
+      rawDelta: 1.5,
+      flag: undefined
+    }]);
+  });
+
+  test('detects rollover', () => {
+    const [delta] = registerDeltas([reading('12:00', 99999.5), reading('12:15', 0.7)], { registerMax: 100000 });
+    expect(delta).toMatchObject({ flag: 'rollover', energy: 1.2 });
+  });
+
+  test('detects reset', () => {
+    const [delta] = registerDeltas([reading('12:00', 5234.2), reading('12:15', 0.3)], { registerMax: 100000 });
+    expect(delta).toMatchObject({ flag: 'reset', energy: 0.3 });
+  });
+
+  test('uses maxPowerKw to reject implausible rollovers', () => {
+    const [delta] = registerDeltas([reading('12:00', 99000), reading('12:15', 2)], { registerMax: 100000, maxPowerKw: 10 });
+    expect(delta).toMatchObject({ flag: 'reset', energy: 2 });
+  });
+
+  test('detects meter replacement', () => {
+    const [delta] = registerDeltas([reading('12:00', 5234.2, 'A'), reading('12:15', 12, 'B')]);
+    expect(delta).toMatchObject({ flag: 'meter-replacement', energy: 0 });
+  });
+
+  test('flags negative deltas instead of producing them', () => {
+    const [delta] = registerDeltas([reading('12:00', 100), reading('12:15', 99.9)]);
+    expect(delta).toMatchObject({ flag: 'negative-delta', energy: 0, rawDelta: -0.1 });
+  });
+});
+
+describe('registersToIntervals', () => {
+  test('apportions irregular readings to 15-minute intervals', () => {
+    const intervals = registersToIntervals(
+      [reading('11:55', 100), reading('12:10', 101.5), reading('12:40', 103.5)],
+      { intervalMinutes: 15 }
+    );
+
+    // 11:55-12:10 at 6 kWh/h, 12:10-12:40 at 4 kWh/h
+    expect(intervals.map(i => [i.metadata!.intervalStart.slice(11, 16), i.energy])).toEqual([
+      ['12:00', 1.333333],
+      ['12:15', 1]
+    ]);
+    expect(intervals[0].timestamp).toBe('2024-01-15T12:15:00.000Z');
+  });
+
+  test('carries flags into affected intervals', () => {
+    const intervals = registersToIntervals(
+      [reading('12:00', 99999.5), reading('12:05', 0.5), reading('12:10', 0.4), reading('12:15', 0.9)],
+      { intervalMinutes: 5, registerMax: 100000 }
+    );
+
+    expect(intervals.map(i => [i.energy, i.metadata!.flags])).toEqual([
+      [1, ['rollover']],
+      [0, ['negative-delta']],
+      [0.5, undefined]
+    ]);
+  });
+});
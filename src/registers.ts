@@ -0,0 +1,143 @@
+/**
+ * Cumulative register conversion for VOLTNET SDK
+ *
+ * Meters report monotonically increasing kWh registers; settlement needs
+ * the energy used in each interval. Rollovers, resets and meter
+ * replacements are detected and flagged instead of producing negative energy.
+ */
+
+import { alignToInterval } from './utils';
+import {
+  EnergyMeasurement,
+  EnergySource,
+  RegisterReading,
+  RegisterDelta,
+  RegisterFlag
+} from './types';
+
+/**
+ * Options for register conversion
+ */
+export interface RegisterOptions {
+  /** Value at which the register wraps to zero (e.g. 100000 for a 5-digit kWh register) */
+  registerMax?: number;
+  /** Maximum plausible power in kW, used to tell rollovers from resets */
+  maxPowerKw?: number;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(6));
+}
+
+/**
+ * Compute the energy between consecutive register readings
+ * @param readings Readings from one device, in chronological order
+ * @param options Register size and plausibility limits
+ * @returns One delta per consecutive pair of readings
+ */
+export function registerDeltas(readings: RegisterReading[], options: RegisterOptions = {}): RegisterDelta[] {
+  const sorted = [...readings].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const deltas: RegisterDelta[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const current = sorted[i];
+    const rawDelta = round(current.value - previous.value);
+    const hours = (new Date(current.timestamp).getTime() - new Date(previous.timestamp).getTime()) / 3600000;
+
+    let energy = rawDelta;
+    let flag: RegisterFlag | undefined;
+
+    if (previous.meterSerial && current.meterSerial && previous.meterSerial !== current.meterSerial) {
+      // Energy between removal of the old meter and installation of the new one is unknown
+      flag = 'meter-replacement';
+      energy = 0;
+    } else if (rawDelta < 0) {
+      const rolledOver = options.registerMax !== undefined
+        ? round(options.registerMax - previous.value + current.value)
+        : undefined;
+      const plausible = (value: number) =>
+        options.maxPowerKw === undefined || value <= options.maxPowerKw * hours;
+
+      // A wrap means the register went from near its maximum to near zero
+      if (rolledOver !== undefined && rolledOver >= 0 && rolledOver < options.registerMax! / 2 && plausible(rolledOver)) {
+        flag = 'rollover';
+        energy = rolledOver;
+      } else if (plausible(current.value) && current.value < previous.value / 2) {
+        // Register restarted from zero; only energy since the reset is known
+        flag = 'reset';
+        energy = current.value;
+      } else {
+        flag = 'negative-delta';
+        energy = 0;
+      }
+    }
+
+    deltas.push({
+      from: previous.timestamp,
+      to: current.timestamp,
+      startValue: previous.value,
+      endValue: current.value,
+      energy: round(energy),
+      rawDelta,
+      flag
+    });
+  }
+
+  return deltas;
+}
+
+/**
+ * Convert cumulative register readings into interval measurements aligned
+ * to interval boundaries. Energy of each span between readings is
+ * apportioned to the intervals it overlaps, pro rata by time. Only intervals
+ * fully covered by readings are returned.
+ * @param readings Readings from one device
+ * @param options Interval length, energy source and register options
+ * @returns Interval measurements; timestamp is the interval end, metadata.flags lists irregularities
+ */
+export function registersToIntervals(
+  readings: RegisterReading[],
+  options: RegisterOptions & { intervalMinutes: 5 | 15 | 60; source?: EnergySource }
+): EnergyMeasurement[] {
+  if (readings.length < 2) return [];
+
+  const intervalMs = options.intervalMinutes * 60 * 1000;
+  const deltas = registerDeltas(readings, options);
+  const first = alignToInterval(deltas[0].from, options.intervalMinutes, 'ceil');
+  const last = alignToInterval(deltas[deltas.length - 1].to, options.intervalMinutes, 'floor');
+  const intervals = new Map<number, { energy: number; flags: Set<RegisterFlag> }>();
+
+  for (let start = new Date(first).getTime(); start + intervalMs <= new Date(last).getTime(); start += intervalMs) {
+    intervals.set(start, { energy: 0, flags: new Set() });
+  }
+
+  for (const delta of deltas) {
+    const from = new Date(delta.from).getTime();
+    const to = new Date(delta.to).getTime();
+    const firstStart = Math.floor(from / intervalMs) * intervalMs;
+
+    for (let start = firstStart; start < to || (from === to && start === firstStart); start += intervalMs) {
+      const interval = intervals.get(start);
+      if (!interval) continue;
+
+      const overlap = from === to ? 1 : (Math.min(to, start + intervalMs) - Math.max(from, start)) / (to - from);
+      interval.energy += delta.energy * overlap;
+      if (delta.flag) interval.flags.add(delta.flag);
+    }
+  }
+
+  return Array.from(intervals.entries()).map(([start, { energy, flags }]) => ({
+    deviceId: readings[0].deviceId,
+    timestamp: new Date(start + intervalMs).toISOString(),
+    energy: round(energy),
+    source: options.source || EnergySource.GRID,
+    metadata: {
+      intervalStart: new Date(start).toISOString(),
+      intervalMinutes: options.intervalMinutes,
+      ...(flags.size > 0 ? { flags: Array.from(flags) } : {})
+    }
+  }));
+}
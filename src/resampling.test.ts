@@ -0,0 +1,139 @@
+/**
+ * Tests for interval resampling and gap filling
+ */
+
+import { resample } from './resampling';
+import { EnergyMeasurement, EnergySource } from './types';
+
+function reading(end: string, energy: number, start?: string): EnergyMeasurement {
+  return {
+    deviceId: 'meter-001',
+    timestamp: `2024-01-15T${end}:00.000Z`,
+    energy,
+    power: 0,
+    source: EnergySource.SOLAR,
+    ...(start ? { metadata: { intervalStart: `2024-01-15T${start}:00.000Z` } } : {})
+  };
+}
+
+function summary(intervals: EnergyMeasurement[]) {
+  return intervals.map(i => [i.metadata!.intervalStart.slice(11, 16), i.energy, i.metadata!.quality]);
+}
+
+describe('resample', () => {
+  test('apportions irregular readings across interval boundaries', () => {
+    const intervals = resample(
+      [reading('11:55', 0), reading('12:10', 1.5), reading('12:25', 0.5), reading('12:30', 0.5)],
+      { intervalMinutes: 15 }
+    );
+
+    expect(summary(intervals)).toEqual([
+      ['12:00', 1.166667, 'measured'],
+      ['12:15', 0.833333, 'measured']
+    ]);
+    expect(intervals[0]).toMatchObject({
+      timestamp: '2024-01-15T12:15:00.000Z',
+      power: 4.666667,
+      source: EnergySource.SOLAR
+    });
+  });
+
+  const withGap = [
+    reading('12:15', 1, '12:00'),
+    reading('12:30', 2, '12:15'),
+    reading('13:15', 5, '13:00'),
+    reading('13:30', 0.5, '13:15')
+  ];
+
+  test('marks missing intervals by default', () => {
+    expect(summary(resample(withGap, { intervalMinutes: 15 }))).toEqual([
+      ['12:00', 1, 'measured'],
+      ['12:15', 2, 'measured'],
+      ['12:30', 0, 'missing'],
+      ['12:45', 0, 'missing'],
+      ['13:00', 5, 'measured'],
+      ['13:15', 0.5, 'measured']
+    ]);
+  });
+
+  test('fills gaps linearly between neighbouring intervals', () => {
+    expect(summary(resample(withGap, { intervalMinutes: 15, fill: 'linear' })).slice(2, 4)).toEqual([
+      ['12:30', 3, 'estimated'],
+      ['12:45', 4, 'estimated']
+    ]);
+  });
+
+  test('fills gaps with zero', () => {
+    expect(summary(resample(withGap, { intervalMinutes: 15, fill: 'zero' })).slice(2, 4)).toEqual([
+      ['12:30', 0, 'estimated'],
+      ['12:45', 0, 'estimated']
+    ]);
+  });
+
+  test('fills gaps from the previous day profile', () => {
+    const yesterday = reading('12:45', 0.7, '12:30');
+    yesterday.timestamp = '2024-01-14T12:45:00.000Z';
+    yesterday.metadata!.intervalStart = '2024-01-14T12:30:00.000Z';
+
+    const intervals = resample([yesterday, ...withGap], {
+      intervalMinutes: 15,
+      fill: 'previous-day',
+      from: '2024-01-14T12:30:00.000Z'
+    });
+
+    expect(summary(intervals.slice(-4, -2))).toEqual([
+      ['12:30', 0.7, 'estimated'],
+      ['12:45', 0, 'missing']
+    ]);
+  });
+
+  test('only estimates the uncovered part of partially covered intervals', () => {
+    const intervals = resample(
+      [reading('12:15', 1, '12:00'), reading('12:35', 0.5, '12:30'), reading('12:45', 1, '12:35')],
+      { intervalMinutes: 15, fill: 'linear', to: '2024-01-15T13:00:00.000Z' }
+    );
+
+    // 12:30-12:45 fully covered, 12:15-12:30 has nothing, 12:45-13:00 nothing
+    expect(summary(intervals)).toEqual([
+      ['12:00', 1, 'measured'],
+      ['12:15', 1.25, 'estimated'],
+      ['12:30', 1.5, 'measured'],
+      ['12:45', 1.5, 'estimated']
+    ]);
+    expect(intervals[1].metadata!.coverage).toBe(0);
+  });
+
+  test('marks intervals of readings spanning a long outage as estimated', () => {
+    const intervals = resample(
+      [reading('12:00', 0), reading('12:15', 1), reading('13:15', 4)],
+      { intervalMinutes: 15 }
+    );
+
+    expect(summary(intervals)).toEqual([
+      ['12:00', 1, 'measured'],
+      ['12:15', 1, 'estimated'],
+      ['12:30', 1, 'estimated'],
+      ['12:45', 1, 'estimated'],
+      ['13:00', 1, 'estimated']
+    ]);
+  });
+
+  test('resamples exported energy alongside imports', () => {
+    const intervals = resample(
+      [
+        { ...reading('12:10', 0.3, '12:00'), exportEnergy: 1.2 },
+        { ...reading('12:30', 0.2, '12:10'), exportEnergy: 0.4 }
+      ],
+      { intervalMinutes: 15 }
+    );
+
+    expect(intervals.map(i => [i.energy, i.exportEnergy])).toEqual([[0.35, 1.3], [0.15, 0.3]]);
+  });
+
+  test('rejects measurements from several devices', () => {
+    expect(() => resample(
+      [reading('12:15', 1), { ...reading('12:30', 1), deviceId: 'other' }],
+      { intervalMinutes: 15 }
+    )).toThrow('multiple devices');
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Time-series resampling for VOLTNET SDK
+ *
+ * Settlement works on fixed intervals, while devices report at irregular
+ * times and sometimes not at all. Readings are aligned to interval
+ * boundaries with their energy apportioned pro rata by time, and gaps are
+ * filled with a configurable strategy. Every interval carries a quality
+ * flag in metadata.quality. Exported energy of bidirectional meters is
+ * resampled alongside and reported as exportEnergy.
+ */
+
+import { alignToInterval } from './utils';
+import { importedEnergy, exportedEnergy } from './netMetering';
+import {
+  EnergyMeasurement,
+  EnergyDirection,
+  IntervalQuality,
+  ResampleOptions
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Span {
+  start: number;
+  end: number;
+  energy: number;
+  exportEnergy: number;
+  /** False when the reading covered too long a span to know how its energy was distributed */
+  exact: boolean;
+}
+
+interface Bucket {
+  start: number;
+  energy: number;
+  exportEnergy: number;
+  coverage: number;
+  quality: IntervalQuality | 'gap';
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(6));
+}
+
+function time(timestamp: string): number {
+  return new Date(timestamp).getTime();
+}
+
+/**
+ * Determine the time span each reading's energy covers.
+ * Readings with metadata.intervalStart cover [intervalStart, timestamp];
+ * other readings cover the time since the previous reading, so the first
+ * of them only anchors the series.
+ */
+function toSpans(sorted: EnergyMeasurement[], maxSpanMs: number): Span[] {
+  const spans: Span[] = [];
+
+  sorted.forEach((measurement, i) => {
+    const end = time(measurement.timestamp);
+    const intervalStart = measurement.metadata?.intervalStart;
+    const start = intervalStart !== undefined
+      ? time(intervalStart)
+      : i > 0 ? time(sorted[i - 1].timestamp) : undefined;
+
+    if (start === undefined || end <= start) return;
+
+    spans.push({
+      start,
+      end,
+      energy: importedEnergy(measurement),
+      exportEnergy: exportedEnergy(measurement),
+      exact: intervalStart !== undefined || end - start <= maxSpanMs
+    });
+  });
+
+  return spans;
+}
+
+/**
+ * Estimate the energy of a full interval for a gap
+ * @returns Estimated energy, or undefined if the strategy has nothing to go on
+ */
+function estimate(
+  buckets: Bucket[],
+  resolved: Bucket[],
+  index: number,
+  key: 'energy' | 'exportEnergy',
+  options: ResampleOptions
+): number | undefined {
+  switch (options.fill) {
+    case 'zero':
+      return 0;
+
+    case 'linear': {
+      let before = index - 1;
+      while (before >= 0 && buckets[before].quality === 'gap') before--;
+      let after = index + 1;
+      while (after < buckets.length && buckets[after].quality === 'gap') after++;
+
+      const hasBefore = before >= 0;
+      const hasAfter = after < buckets.length;
+      if (hasBefore && hasAfter) {
+        const ratio = (index - before) / (after - before);
+        return buckets[before][key] + (buckets[after][key] - buckets[before][key]) * ratio;
+      }
+      if (hasBefore) return buckets[before][key];
+      if (hasAfter) return buckets[after][key];
+      return undefined;
+    }
+
+    case 'previous-day': {
+      const previous = resolved[index - DAY_MS / (options.intervalMinutes * 60 * 1000)];
+      return previous && previous.quality !== 'missing' ? previous[key] : undefined;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Resample measurements of one device to fixed intervals
+ * @param measurements Readings in any order; energy covers metadata.intervalStart
+ *   (or the previous reading) up to the timestamp
+ * @param options Interval length, output range and gap filling strategy
+ * @returns One measurement per interval; timestamp is the interval end and
+ *   metadata holds intervalStart, intervalMinutes, quality and coverage
+ */
+export function resample(
+  measurements: EnergyMeasurement[],
+  options: ResampleOptions
+): EnergyMeasurement[] {
+  if (measurements.length === 0) return [];
+
+  const deviceId = measurements[0].deviceId;
+  if (measurements.some(m => m.deviceId !== deviceId)) {
+    throw new Error('Cannot resample measurements from multiple devices together');
+  }
+
+  const intervalMinutes = options.intervalMinutes;
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const sorted = [...measurements].sort((a, b) => time(a.timestamp) - time(b.timestamp));
+  const spans = toSpans(sorted, (options.maxSpanMinutes ?? intervalMinutes * 2) * 60 * 1000);
+
+  if (spans.length === 0 && (!options.from || !options.to)) return [];
+
+  const first = options.from
+    ? time(alignToInterval(options.from, intervalMinutes, 'floor'))
+    : time(alignToInterval(new Date(spans.reduce((min, s) => Math.min(min, s.start), Infinity)).toISOString(), intervalMinutes, 'ceil'));
+  const last = options.to
+    ? time(alignToInterval(options.to, intervalMinutes, 'ceil'))
+    : time(alignToInterval(new Date(spans[spans.length - 1].end).toISOString(), intervalMinutes, 'floor'));
+
+  // Spans are ordered by end; no span starts earlier than its end minus the longest duration
+  const longest = spans.reduce((max, s) => Math.max(max, s.end - s.start), 0);
+  const buckets: Bucket[] = [];
+  let firstSpan = 0;
+
+  for (let start = first; start + intervalMs <= last; start += intervalMs) {
+    const end = start + intervalMs;
+    let energy = 0;
+    let exportEnergy = 0;
+    let covered = 0;
+    let exact = true;
+
+    while (firstSpan < spans.length && spans[firstSpan].end <= start) firstSpan++;
+
+    for (let i = firstSpan; i < spans.length && spans[i].end - longest < end; i++) {
+      const span = spans[i];
+      const overlap = Math.min(end, span.end) - Math.max(start, span.start);
+      if (overlap <= 0) continue;
+
+      energy += span.energy * overlap / (span.end - span.start);
+      exportEnergy += span.exportEnergy * overlap / (span.end - span.start);
+      covered += overlap;
+      exact = exact && span.exact;
+    }
+
+    // Overlapping readings can add up to more than the interval
+    const coverage = Math.min(covered / intervalMs, 1);
+    const quality = coverage < 1 - 1e-9 ? 'gap' : exact ? 'measured' : 'estimated';
+    buckets.push({ start, energy, exportEnergy, coverage, quality });
+  }
+
+  // Resolve gaps in order so previous-day estimates can build on earlier days
+  const resolved: Bucket[] = [];
+  buckets.forEach((bucket, i) => {
+    if (bucket.quality !== 'gap') {
+      resolved.push(bucket);
+      return;
+    }
+
+    const estimated = estimate(buckets, resolved, i, 'energy', options);
+    const estimatedExport = estimate(buckets, resolved, i, 'exportEnergy', options);
+    resolved.push(estimated === undefined || estimatedExport === undefined
+      ? { ...bucket, quality: 'missing' }
+      : {
+        ...bucket,
+        energy: bucket.energy + estimated * (1 - bucket.coverage),
+        exportEnergy: bucket.exportEnergy + estimatedExport * (1 - bucket.coverage),
+        quality: 'estimated'
+      });
+  });
+
+  const hours = intervalMinutes / 60;
+  const bidirectional = sorted.some(m => m.direction === EnergyDirection.EXPORT || m.exportEnergy !== undefined);
+  return resolved.map(bucket => ({
+    deviceId,
+    timestamp: new Date(bucket.start + intervalMs).toISOString(),
+    energy: round(bucket.energy),
+    ...(bidirectional ? { exportEnergy: round(bucket.exportEnergy) } : {}),
+    power: round(bucket.energy / hours),
+    source: sorted[0].source,
+    metadata: {
+      intervalStart: new Date(bucket.start).toISOString(),
+      intervalMinutes,
+      quality: bucket.quality as IntervalQuality,
+      coverage: round(bucket.coverage)
+    }
+  }));
+}
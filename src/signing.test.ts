@@ -0,0 +1,86 @@
+/**
+ * Tests for measurement signing
+ */
+
+import {
+  canonicalize,
+  generateDeviceKeyPair,
+  signMeasurement,
+  verifyMeasurement
+} from './signing';
+import { EnergyMeasurement, EnergySource } from './types';
+
+const measurement: Omit<EnergyMeasurement, 'signature'> = {
+  deviceId: 'meter-001',
+  timestamp: '2024-01-15T12:00:00.000Z',
+  energy: 1.25,
+  power: 5,
+  voltage: 230,
+  current: 21.7,
+  source: EnergySource.SOLAR,
+  metadata: { interval: 15, site: 'roof' }
+};
+
+describe('Canonical serialization', () => {
+  test('canonicalize sorts keys and drops undefined', () => {
+    expect(canonicalize({ b: 1, a: { d: undefined, c: [2, 1] } })).toBe('{"a":{"c":[2,1]},"b":1}');
+  });
+});
+
+describe.each(['ed25519', 'ecdsa-p256'] as const)('Signing with %s', algorithm => {
+  const keys = generateDeviceKeyPair(algorithm);
+
+  test('signed measurement verifies', () => {
+    const signed = signMeasurement(measurement, keys.privateKey);
+    expect(signed.signature).toMatch(new RegExp(`^${algorithm}:`));
+    expect(verifyMeasurement(signed, keys.publicKey)).toEqual({ valid: true, algorithm });
+  });
+
+  test('any changed field is detected', () => {
+    const signed = signMeasurement(measurement, keys.privateKey);
+    expect(verifyMeasurement({ ...signed, energy: 1.26 }, keys.publicKey).reason).toBe('payload-tampered');
+    expect(verifyMeasurement({ ...signed, current: 30 }, keys.publicKey).reason).toBe('payload-tampered');
+    expect(verifyMeasurement({ ...signed, metadata: { interval: 5, site: 'roof' } }, keys.publicKey).reason)
+      .toBe('payload-tampered');
+  });
+
+  test('stale readings are rejected when maxAgeMs is set', () => {
+    const signed = signMeasurement(measurement, keys.privateKey);
+    const now = new Date('2024-01-15T12:10:00.000Z');
+    expect(verifyMeasurement(signed, keys.publicKey, { maxAgeMs: 60000, now }).reason).toBe('stale-timestamp');
+    expect(verifyMeasurement(signed, keys.publicKey, { maxAgeMs: 3600000, now }).valid).toBe(true);
+  });
+
+  test('future-dated readings are rejected beyond the allowed clock skew', () => {
+    const signed = signMeasurement(measurement, keys.privateKey);
+    const now = new Date('2024-01-15T11:50:00.000Z');
+    expect(verifyMeasurement(signed, keys.publicKey, { maxAgeMs: 60000, now }).reason).toBe('future-timestamp');
+    expect(verifyMeasurement(signed, keys.publicKey, { maxAgeMs: 60000, maxSkewMs: 3600000, now }).valid).toBe(true);
+  });
+});
+
+describe('Verification failures', () => {
+  const ed = generateDeviceKeyPair('ed25519');
+  const ec = generateDeviceKeyPair('ecdsa-p256');
+
+  test('reports missing signature', () => {
+    expect(verifyMeasurement(measurement, ed.publicKey).reason).toBe('missing-signature');
+  });
+
+  test('reports bad key', () => {
+    const signed = signMeasurement(measurement, ed.privateKey);
+    expect(verifyMeasurement(signed, 'not a key').reason).toBe('invalid-key');
+    expect(verifyMeasurement(signed, undefined).reason).toBe('invalid-key');
+  });
+
+  test('reports wrong algorithm', () => {
+    const signed = signMeasurement(measurement, ed.privateKey);
+    expect(verifyMeasurement(signed, ec.publicKey).reason).toBe('algorithm-mismatch');
+  });
+
+  test('reports signature from another key', () => {
+    const signed = signMeasurement(measurement, ed.privateKey);
+    const other = generateDeviceKeyPair('ed25519');
+    expect(verifyMeasurement(signed, other.publicKey).reason).toBe('payload-tampered');
+  });
+});
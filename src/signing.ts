@@ -0,0 +1,352 @@
+/**
+ * Measurement signing for VOLTNET SDK
+ *
+ * Readings are signed over a canonical serialization so that any
+ * change to a signed field invalidates the signature.
+ */
+
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  KeyObject
+} from 'crypto';
+import {
+  EnergyMeasurement,
+  KeyRotation,
+  SignatureAlgorithm,
+  SignatureVerificationResult
+} from './types';
+
+/**
+ * Key material accepted by the signing helpers (PEM string or KeyObject)
+ */
+export type KeyInput = string | KeyObject;
+
+/**
+ * Serialize a value as JSON with object keys sorted at every level.
+ * Undefined properties are dropped, matching JSON.stringify.
+ * @param value Value to serialize
+ * @returns Canonical JSON string
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .sort()
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Build the canonical payload that is signed for a measurement.
+ * Covers every field except `signature`.
+ * @param measurement Measurement to serialize
+ * @returns Canonical payload as a Buffer
+ */
+export function getSigningPayload(measurement: EnergyMeasurement | Omit<EnergyMeasurement, 'signature'>): Buffer {
+  const { signature: _signature, ...unsigned } = measurement as EnergyMeasurement;
+  return Buffer.from(canonicalize(unsigned), 'utf8');
+}
+
+/**
+ * Detect the signature algorithm of a key
+ * @param key Private or public key
+ * @returns Algorithm, or undefined if the key type is not supported
+ */
+export function getKeyAlgorithm(key: KeyObject): SignatureAlgorithm | undefined {
+  if (key.asymmetricKeyType === 'ed25519') {
+    return 'ed25519';
+  }
+
+  if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ecdsa-p256';
+  }
+
+  return undefined;
+}
+
+/**
+ * Generate a new device keypair
+ * @param algorithm Signature algorithm
+ * @returns PEM-encoded public (SPKI) and private (PKCS#8) keys
+ */
+export function generateDeviceKeyPair(
+  algorithm: SignatureAlgorithm = 'ed25519'
+): { algorithm: SignatureAlgorithm; publicKey: string; privateKey: string } {
+  const { publicKey, privateKey } = algorithm === 'ed25519'
+    ? generateKeyPairSync('ed25519', {
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    })
+    : generateKeyPairSync('ec', {
+      namedCurve: 'prime256v1',
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    });
+
+  return { algorithm, publicKey, privateKey };
+}
+
+/**
+ * Sign an arbitrary payload.
+ * Signatures are encoded as `<algorithm>:<base64>`; ECDSA signatures
+ * use the fixed-length IEEE P1363 (r || s) encoding.
+ * @param payload Bytes to sign
+ * @param privateKey Private key (Ed25519 or ECDSA P-256)
+ * @returns Encoded signature
+ */
+export function signPayload(payload: Buffer, privateKey: KeyInput): string {
+  const key = typeof privateKey === 'string' ? createPrivateKey(privateKey) : privateKey;
+  const algorithm = getKeyAlgorithm(key);
+
+  if (!algorithm) {
+    throw new Error(`Unsupported signing key type: ${key.asymmetricKeyType}`);
+  }
+
+  const signature = algorithm === 'ed25519'
+    ? sign(null, payload, key)
+    : sign('sha256', payload, { key, dsaEncoding: 'ieee-p1363' });
+
+  return `${algorithm}:${signature.toString('base64')}`;
+}
+
+/**
+ * Verify a payload signature produced by signPayload
+ * @param payload Signed bytes
+ * @param signature Encoded signature
+ * @param publicKey Public key (Ed25519 or ECDSA P-256)
+ * @returns Verification result with failure reason if invalid
+ */
+export function verifyPayload(
+  payload: Buffer,
+  signature: string | undefined,
+  publicKey: KeyInput | undefined
+): SignatureVerificationResult {
+  if (!signature) {
+    return { valid: false, reason: 'missing-signature' };
+  }
+
+  let key: KeyObject;
+  try {
+    if (!publicKey) throw new Error('No public key');
+    key = typeof publicKey === 'string' ? createPublicKey(publicKey) : publicKey;
+  } catch (error) {
+    return { valid: false, reason: 'invalid-key', message: (error as Error).message };
+  }
+
+  const keyAlgorithm = getKeyAlgorithm(key);
+  if (!keyAlgorithm) {
+    return {
+      valid: false,
+      reason: 'invalid-key',
+      message: `Unsupported key type: ${key.asymmetricKeyType}`
+    };
+  }
+
+  const separator = signature.indexOf(':');
+  const algorithm = signature.slice(0, separator);
+  if (separator < 0 || (algorithm !== 'ed25519' && algorithm !== 'ecdsa-p256')) {
+    return { valid: false, reason: 'malformed-signature', algorithm: keyAlgorithm };
+  }
+
+  if (algorithm !== keyAlgorithm) {
+    return {
+      valid: false,
+      reason: 'algorithm-mismatch',
+      algorithm: keyAlgorithm,
+      message: `Signature uses ${algorithm} but device key is ${keyAlgorithm}`
+    };
+  }
+
+  const bytes = Buffer.from(signature.slice(separator + 1), 'base64');
+  let valid: boolean;
+  try {
+    valid = keyAlgorithm === 'ed25519'
+      ? verify(null, payload, key, bytes)
+      : verify('sha256', payload, { key, dsaEncoding: 'ieee-p1363' }, bytes);
+  } catch {
+    valid = false;
+  }
+
+  return valid
+    ? { valid: true, algorithm: keyAlgorithm }
+    : { valid: false, reason: 'payload-tampered', algorithm: keyAlgorithm };
+}
+
+/**
+ * Sign a measurement
+ * @param measurement Measurement data without signature
+ * @param privateKey Private key (Ed25519 or ECDSA P-256)
+ * @returns Signed measurement
+ */
+export function signMeasurement(
+  measurement: Omit<EnergyMeasurement, 'signature'>,
+  privateKey: KeyInput
+): EnergyMeasurement {
+  return {
+    ...measurement,
+    signature: signPayload(getSigningPayload(measurement), privateKey)
+  };
+}
+
+/**
+ * Verify a measurement signature
+ * @param measurement Signed measurement
+ * @param publicKey Public key of the device
+ * @param options Freshness options; with `maxAgeMs`, readings more than
+ *   `maxSkewMs` (default 60000) in the future are rejected too
+ * @returns Verification result with failure reason if invalid
+ */
+export function verifyMeasurement(
+  measurement: EnergyMeasurement,
+  publicKey: KeyInput | undefined,
+  options: { maxAgeMs?: number; maxSkewMs?: number; now?: Date } = {}
+): SignatureVerificationResult {
+  const result = verifyPayload(getSigningPayload(measurement), measurement.signature, publicKey);
+  if (!result.valid || options.maxAgeMs === undefined) {
+    return result;
+  }
+
+  const now = (options.now ?? new Date()).getTime();
+  const age = now - new Date(measurement.timestamp).getTime();
+  if (isNaN(age) || age > options.maxAgeMs) {
+    return {
+      valid: false,
+      reason: 'stale-timestamp',
+      algorithm: result.algorithm,
+      message: `Measurement is older than ${options.maxAgeMs} ms`
+    };
+  }
+  const maxSkewMs = options.maxSkewMs ?? 60000;
+  if (age < -maxSkewMs) {
+    return {
+      valid: false,
+      reason: 'future-timestamp',
+      algorithm: result.algorithm,
+      message: `Measurement is more than ${maxSkewMs} ms in the future`
+    };
+  }
+
+  return result;
+}
+
+function toPem(key: KeyInput): string {
+  return (typeof key === 'string' ? key : key.export({ type: 'spki', format: 'pem' }).toString()).trim();
+}
+
+/**
+ * Sign a key rotation statement with the key being replaced
+ * @param statement Rotation statement without signature
+ * @param previousPrivateKey Private key of the previous public key
+ * @returns Signed rotation statement
+ */
+export function signKeyRotation(
+  statement: Omit<KeyRotation, 'signature'>,
+  previousPrivateKey: KeyInput
+): KeyRotation {
+  return {
+    ...statement,
+    signature: signPayload(Buffer.from(canonicalize(statement), 'utf8'), previousPrivateKey)
+  };
+}
+
+/**
+ * Verify that a key rotation was signed by the previous key
+ * @param rotation Signed rotation statement
+ * @returns Verification result with failure reason if invalid
+ */
+export function verifyKeyRotation(rotation: KeyRotation): SignatureVerificationResult {
+  const { signature, ...statement } = rotation;
+  return verifyPayload(Buffer.from(canonicalize(statement), 'utf8'), signature, rotation.previousPublicKey);
+}
+
+/**
+ * Keys a device has used, oldest first, with the range of reading timestamps
+ * each may sign. Rotations are followed back from the current key for as long
+ * as each was signed by the key it replaced.
+ */
+function deviceKeys(
+  deviceId: string,
+  publicKey: KeyInput,
+  rotations: KeyRotation[]
+): { publicKey: KeyInput; from: number; until: number }[] {
+  const keys = [{ publicKey, from: -Infinity, until: Infinity }];
+  for (let i = rotations.length - 1; i >= 0; i--) {
+    const rotation = rotations[i];
+    const newest = keys[0];
+    if (
+      rotation.deviceId !== deviceId ||
+      toPem(rotation.publicKey) !== toPem(newest.publicKey) ||
+      !verifyKeyRotation(rotation).valid
+    ) {
+      break;
+    }
+    newest.from = new Date(rotation.rotatedAt).getTime();
+    keys.unshift({ publicKey: rotation.previousPublicKey, from: -Infinity, until: new Date(rotation.graceUntil).getTime() });
+  }
+  return keys;
+}
+
+/**
+ * Verify a measurement against the key the device held when the reading was
+ * taken. A key signs readings dated from its rotation until the grace window of
+ * the rotation that replaced it ends, so readings dated within a grace window
+ * may be signed by either key.
+ *
+ * New submissions are checked against the wall clock too: once a grace window
+ * is over, the replaced key no longer counts, so back-dated readings cannot be
+ * signed with a retired key. Pass `history: true` to check stored readings,
+ * which stay valid under the key that signed them.
+ * @param measurement Signed measurement
+ * @param device Registered public key and key rotations of the device
+ * @param options Freshness options, and whether the reading is a stored one
+ * @returns Verification result; `key` tells whether the current key verified it
+ */
+export function verifyDeviceMeasurement(
+  measurement: EnergyMeasurement,
+  device: { publicKey?: KeyInput; keyRotations?: KeyRotation[] },
+  options: { maxAgeMs?: number; maxSkewMs?: number; now?: Date; history?: boolean } = {}
+): SignatureVerificationResult {
+  const keys = device.publicKey ? deviceKeys(measurement.deviceId, device.publicKey, device.keyRotations ?? []) : [];
+  if (keys.length <= 1) {
+    const result = verifyMeasurement(measurement, device.publicKey, options);
+    return result.valid ? { ...result, key: 'current' } : result;
+  }
+
+  const timestamp = new Date(measurement.timestamp).getTime();
+  const now = (options.now ?? new Date()).getTime();
+  const current = keys[keys.length - 1];
+  const candidates = keys
+    .filter(key => timestamp >= key.from && timestamp <= key.until)
+    .filter(key => options.history || key === current || now <= key.until)
+    .reverse();
+
+  if (candidates.length === 0) {
+    return {
+      valid: false,
+      reason: 'stale-timestamp',
+      message: `Measurement is dated before the device's last key rotation and its grace window is over`
+    };
+  }
+
+  let first: SignatureVerificationResult | undefined;
+  for (const key of candidates) {
+    const result = verifyMeasurement(measurement, key.publicKey, options);
+    if (result.valid) {
+      return { ...result, key: key === current ? 'current' : 'previous' };
+    }
+    first = first ?? result;
+  }
+  return first!;
+}
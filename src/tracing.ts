@@ -0,0 +1,62 @@
+/**
+ * W3C trace context for VOLTNET SDK
+ *
+ * Every request attempt is a span of its own: it carries the caller's
+ * trace ID, or a new one, with a fresh parent ID in the `traceparent`
+ * header, so the API's spans join the caller's distributed trace.
+ * `tracestate` is passed on unchanged.
+ * See https://www.w3.org/TR/trace-context/
+ */
+
+import { TraceContext, Traceparent } from './types';
+
+export const TRACEPARENT_HEADER = 'traceparent';
+export const TRACESTATE_HEADER = 'tracestate';
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Parse a `traceparent` header
+ * @returns Fields, or undefined if the header is malformed
+ */
+export function parseTraceparent(value: string | undefined): Traceparent | undefined {
+  const match = TRACEPARENT.exec(String(value ?? '').trim().toLowerCase());
+  if (!match) return undefined;
+
+  const [, version, traceId, parentId, flags, rest] = match;
+  // Version ff is invalid, and version 00 has nothing after the flags
+  if (version === 'ff' || (version === '00' && rest !== undefined)) return undefined;
+  if (/^0+$/.test(traceId) || /^0+$/.test(parentId)) return undefined;
+
+  return { traceId, parentId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/**
+ * Format a `traceparent` header
+ */
+export function formatTraceparent({ traceId, parentId, sampled }: Traceparent): string {
+  return `00-${traceId}-${parentId}-${sampled ? '01' : '00'}`;
+}
+
+/**
+ * Start a span as child of the caller's context
+ * @param parent Caller's active context; a malformed or missing one starts a new, unsampled trace
+ * @returns Headers to send and the span's IDs
+ */
+export function startSpan(parent?: TraceContext): TraceContext & { traceId: string; spanId: string } {
+  const parsed = parseTraceparent(parent?.traceparent);
+  const traceId = parsed?.traceId ?? randomHex(16);
+  const spanId = randomHex(8);
+
+  return {
+    traceparent: formatTraceparent({ traceId, parentId: spanId, sampled: parsed?.sampled ?? false }),
+    tracestate: parsed ? parent?.tracestate : undefined,
+    traceId,
+    spanId
+  };
+}
+
+function randomHex(bytes: number): string {
+  const values = globalThis.crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -27,6 +27,14 @@ export enum ParticipantType {
   GRID_OPERATOR = 'grid_operator'
 }
 
+/**
+ * Direction of energy flow at a meter, seen from the participant
+ */
+export enum EnergyDirection {
+  IMPORT = 'import', // Taken from the grid (consumed)
+  EXPORT = 'export' // Fed into the grid (produced)
+}
+
 /**
  * Transaction status
  */
@@ -55,8 +63,12 @@ export interface EnergyMeasurement {
   deviceId: string;
   /** Timestamp of measurement (ISO 8601) */
   timestamp: string;
-  /** Energy in kWh */
+  /** Energy in kWh (imported, unless direction is export) */
   energy: number;
+  /** Direction of `energy` for single-register readings (default: import) */
+  direction?: EnergyDirection;
+  /** Energy exported in kWh, for bidirectional meters reporting both registers */
+  exportEnergy?: number;
   /** Power in kW (instantaneous) */
   power?: number;
   /** Voltage in V */
@@ -65,6 +77,10 @@ export interface EnergyMeasurement {
   current?: number;
   /** Energy source type */
   source: EnergySource;
+  /** Position in the device's measurement chain (starts at 1) */
+  sequence?: number;
+  /** SHA-256 hash of the previous signed reading in the chain */
+  previousHash?: string;
   /** Digital signature of the measurement */
   signature?: string;
   /** Additional metadata */
@@ -213,19 +229,49 @@ export interface MarketOffer {
 export interface VoltnetConfig {
   /** API endpoint URL */
   apiUrl: string;
-  /** API key for authentication */
-  apiKey: string;
+  /** API key for authentication; required unless `auth` is set */
+  apiKey?: string;
   /** Participant ID */
   participantId: string;
+  /** Credentials for API requests and the real-time connection (default: `apiKey` as bearer token) */
+  auth?: AuthProvider;
   /** Network configuration */
   network?: {
     /** Timeout for requests in ms */
     timeout?: number;
-    /** Retry attempts */
+    /** Retry attempts (default 3; 0 disables retries) */
     retries?: number;
+    /** Backoff unit in ms: retry n waits 2^n × retryDelay unless a 429 says how long to wait (default 1000) */
+    retryDelay?: number;
+    /** Longest Retry-After in ms that is waited for; a 429 asking for more is not retried (default 60000) */
+    maxRetryDelay?: number;
+    /** Agent for http: URLs in Node, e.g. to share a keep-alive pool between clients */
+    httpAgent?: unknown;
+    /** Agent for https: URLs in Node */
+    httpsAgent?: unknown;
   };
+  /** Rate limiting and ordering of requests (default: a TokenBucketScheduler of this client's own) */
+  scheduler?: RequestScheduler;
   /** Enable real-time updates via WebSocket */
   enableRealtime?: boolean;
+  /** Real-time connection options */
+  realtime?: Omit<RealtimeConnectionConfig, 'url' | 'authenticate'>;
+  /** Carries the real-time link over a shared connection (default: a RealtimeConnection of this client's own) */
+  realtimeTransport?: RealtimeTransport;
+  /** Catch-up of events missed while the real-time connection was down */
+  eventReplay?: EventReplayOptions;
+  /** Cache for frequently read endpoints (default: disabled) */
+  cache?: CacheOptions;
+  /** Checking of API responses and real-time payloads against their schemas (default 'off') */
+  validation?: ValidationMode;
+  /** Log destination, level and redaction */
+  logging?: LoggingOptions;
+  /** Hooks around every request attempt */
+  middleware?: RequestMiddleware[];
+  /** Collection of request and real-time metrics */
+  metrics?: MetricsOptions;
+  /** Propagation of W3C trace context to the API (default: disabled) */
+  tracing?: TracingOptions;
 }
 
 /**
@@ -252,10 +298,60 @@ export interface DeviceRegistration {
   };
   /** Public key for signature verification */
   publicKey?: string;
+  /** Key rotations, oldest first, each signed by the key it replaced */
+  keyRotations?: KeyRotation[];
   /** Metadata */
   metadata?: Record<string, any>;
 }
 
+/**
+ * Statement replacing a device's public key, signed by the previous key
+ */
+export interface KeyRotation {
+  /** Device ID */
+  deviceId: string;
+  /** New public key (PEM) */
+  publicKey: string;
+  /** Replaced public key (PEM) */
+  previousPublicKey: string;
+  /** Time of the rotation (ISO 8601) */
+  rotatedAt: string;
+  /** Readings dated up to this time may be signed by the previous key, which new submissions may use until then (ISO 8601) */
+  graceUntil: string;
+  /** Signature of the statement by the previous key */
+  signature: string;
+}
+
+/**
+ * Device keypair held by a keystore
+ */
+export interface DeviceKey {
+  /** Device ID */
+  deviceId: string;
+  /** Signature algorithm */
+  algorithm: SignatureAlgorithm;
+  /** Public key (PEM, SPKI) */
+  publicKey: string;
+  /** Private key (PEM, PKCS#8) */
+  privateKey: string;
+  /** Creation time (ISO 8601) */
+  createdAt: string;
+  /** Key being replaced by a rotation the server has not confirmed yet */
+  previous?: DeviceKey;
+}
+
+/**
+ * Storage for device private keys
+ */
+export interface Keystore {
+  /** Get the key of a device */
+  get(deviceId: string): Promise<DeviceKey | undefined>;
+  /** Store or replace the key of a device */
+  set(key: DeviceKey): Promise<void>;
+  /** Remove the key of a device */
+  delete(deviceId: string): Promise<void>;
+}
+
 /**
  * Balance information
  */
@@ -301,6 +397,105 @@ export interface Statistics {
   avgPriceReceived?: number;
   /** Breakdown by energy source */
   sourceBreakdown?: Record<EnergySource, number>;
+  /** Net energy in kWh (consumed minus produced) */
+  netEnergy?: number;
+  /** Consumed and produced energy per meter */
+  deviceBreakdown?: Record<string, EnergyFlowTotals>;
+}
+
+/**
+ * Imported and exported energy of a meter or period
+ */
+export interface EnergyFlowTotals {
+  /** Energy imported (consumed) in kWh */
+  consumed: number;
+  /** Energy exported (produced) in kWh */
+  produced: number;
+  /** consumed - produced; negative when more was exported */
+  net: number;
+}
+
+/**
+ * Imported, exported and net energy of one interval
+ */
+export interface NetInterval extends EnergyFlowTotals {
+  /** Interval start (ISO 8601) */
+  intervalStart: string;
+  /** Interval end (ISO 8601) */
+  intervalEnd: string;
+}
+
+/**
+ * Supported measurement signature algorithms
+ */
+export type SignatureAlgorithm = 'ed25519' | 'ecdsa-p256';
+
+/**
+ * Reason a measurement signature failed verification
+ */
+export type SignatureFailureReason =
+  | 'missing-signature'
+  | 'malformed-signature'
+  | 'invalid-key'
+  | 'algorithm-mismatch'
+  | 'payload-tampered'
+  | 'stale-timestamp'
+  | 'future-timestamp';
+
+/**
+ * Result of verifying a measurement signature
+ */
+export interface SignatureVerificationResult {
+  /** Whether the signature is valid */
+  valid: boolean;
+  /** Why verification failed */
+  reason?: SignatureFailureReason;
+  /** Algorithm of the verifying key */
+  algorithm?: SignatureAlgorithm;
+  /** Whether the device's current key or a replaced one verified the signature */
+  key?: 'current' | 'previous';
+  /** Human-readable details */
+  message?: string;
+}
+
+/**
+ * Latest entry of a device's measurement chain
+ */
+export interface ChainHead {
+  /** Device ID */
+  deviceId: string;
+  /** Sequence number of the latest reading */
+  sequence: number;
+  /** Hash of the latest signed reading */
+  hash: string;
+  /** Timestamp of the latest reading */
+  timestamp: string;
+}
+
+/**
+ * Problem found while verifying a measurement chain
+ */
+export interface ChainIssue {
+  /** Issue type */
+  type: 'gap' | 'reorder' | 'fork' | 'edited' | 'unchained';
+  /** Sequence number the issue was found at */
+  sequence?: number;
+  /** Index in the verified measurement list */
+  index: number;
+  /** Human-readable details */
+  message: string;
+}
+
+/**
+ * Result of verifying a measurement chain
+ */
+export interface ChainVerificationResult {
+  /** True if no issues were found */
+  valid: boolean;
+  /** Issues in chain order */
+  issues: ChainIssue[];
+  /** Last verified entry */
+  head?: ChainHead;
 }
 
 /**
@@ -313,5 +508,1161 @@ export interface VoltnetEvents {
   'offer': (data: MarketOffer) => void;
   'price-update': (data: PriceInfo) => void;
   'balance-update': (data: Balance) => void;
+  'connection-state': (state: ConnectionState, details: ConnectionStateDetails) => void;
   'error': (error: Error) => void;
 }
+
+/**
+ * Queue status reported by MeasurementBuffer
+ */
+export interface BufferStatus {
+  /** Number of readings waiting to be submitted */
+  depth: number;
+  /** Age of the oldest pending reading in ms (0 when empty) */
+  oldestPendingAgeMs: number;
+}
+
+/**
+ * Event types emitted by MeasurementBuffer
+ */
+export interface MeasurementBufferEvents {
+  'enqueued': (measurement: EnergyMeasurement) => void;
+  'status': (status: BufferStatus) => void;
+  'drain-progress': (progress: { sent: number; remaining: number }) => void;
+  'drained': (result: { sent: number }) => void;
+  'rejected': (measurements: EnergyMeasurement[], error: Error) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * Configuration for SunSpecAdapter
+ */
+export interface SunSpecAdapterConfig {
+  /** Modbus TCP host */
+  host: string;
+  /** Modbus TCP port (default 502) */
+  port?: number;
+  /** Modbus unit/slave ID (default 1) */
+  unitId?: number;
+  /** Device ID used for produced measurements */
+  deviceId: string;
+  /** Device IDs per SunSpec model ID, for endpoints exposing several devices */
+  deviceIds?: Record<number, string>;
+  /** SunSpec base register (default: probe 40000, 0 and 50000) */
+  baseAddress?: number;
+  /** Polling interval in ms (default 60000) */
+  pollInterval?: number;
+  /** Request timeout in ms (default 5000) */
+  timeout?: number;
+  /** Energy source for inverter models (default solar) */
+  source?: EnergySource;
+}
+
+/**
+ * SunSpec model block discovered on a device
+ */
+export interface SunSpecModelInfo {
+  /** SunSpec model ID */
+  id: number;
+  /** Register address of the first data register (after ID and length) */
+  address: number;
+  /** Number of data registers */
+  length: number;
+}
+
+/**
+ * Event types emitted by SunSpecAdapter
+ */
+export interface SunSpecAdapterEvents {
+  'measurement': (measurement: EnergyMeasurement) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * Per-phase values from a DSMR P1 telegram
+ */
+export interface P1PhaseReading {
+  /** Voltage in V */
+  voltage?: number;
+  /** Current in A */
+  current?: number;
+  /** Power delivered to the client in kW */
+  powerImported?: number;
+  /** Power returned by the client in kW */
+  powerExported?: number;
+}
+
+/**
+ * Parsed DSMR P1 (IEC 62056-21) telegram
+ */
+export interface P1Telegram {
+  /** Meter identification line (without leading '/') */
+  header: string;
+  /** DSMR version ('42', '50', ...); undefined for DSMR 2.2 */
+  version?: string;
+  /** Telegram timestamp (ISO 8601) */
+  timestamp?: string;
+  /** Electricity equipment identifier */
+  equipmentId?: string;
+  /** Active tariff (1 = low, 2 = normal) */
+  tariff?: number;
+  /** Energy delivered to the client in kWh */
+  energyImported: { tariff1?: number; tariff2?: number; total: number };
+  /** Energy returned by the client in kWh */
+  energyExported: { tariff1?: number; tariff2?: number; total: number };
+  /** Actual power delivered in kW */
+  powerImported?: number;
+  /** Actual power returned in kW */
+  powerExported?: number;
+  /** Per-phase readings */
+  phases: { l1?: P1PhaseReading; l2?: P1PhaseReading; l3?: P1PhaseReading };
+  /** Gas meter reading */
+  gas?: {
+    /** Gas equipment identifier */
+    equipmentId?: string;
+    /** Time of the gas reading (ISO 8601) */
+    timestamp?: string;
+    /** Delivered volume in m3 */
+    volume: number;
+  };
+  /** CRC from the telegram (hex); undefined for DSMR 2.2 */
+  crc?: string;
+  /** Raw values by OBIS code */
+  objects: Record<string, string[]>;
+}
+
+/**
+ * Decodes an MQTT payload into measurements.
+ * Receives the values matched by each `+`/`#` wildcard of the route topic.
+ */
+export type MqttDecoder = (
+  payload: Buffer,
+  context: { topic: string; wildcards: string[] }
+) => EnergyMeasurement | EnergyMeasurement[] | null | undefined;
+
+/**
+ * Topic subscription handled by MqttBridge
+ */
+export interface MqttBridgeRoute {
+  /** Topic pattern, e.g. 'site/+/meter/+/reading' */
+  topic: string;
+  /** Subscription QoS (default 1); only QoS 1 messages are redelivered after a failed upload */
+  qos?: 0 | 1 | 2;
+  /** Payload decoder (default: JSON measurement or array of measurements) */
+  decoder?: MqttDecoder;
+}
+
+/**
+ * Subset of the MQTT.js client used by MqttBridge
+ */
+export interface MqttClientLike {
+  subscribe(topic: string, opts: { qos: 0 | 1 | 2 }, callback: (error: Error | null) => void): unknown;
+  unsubscribe(topic: string, callback: (error?: Error) => void): unknown;
+  /** Called once per incoming message; a QoS 1 PUBACK is sent only after callback() without error (QoS 2 is already PUBREC'd) */
+  handleMessage(packet: { topic: string; payload: Buffer | string; qos: number }, callback: (error?: Error) => void): void;
+}
+
+/**
+ * Event types emitted by MqttBridge
+ */
+export interface MqttBridgeEvents {
+  'forwarded': (measurements: EnergyMeasurement[], topic: string) => void;
+  'invalid': (details: { topic: string; errors: string[]; measurement?: unknown }) => void;
+  'upload-failed': (error: Error, topic: string) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * Raw cumulative register reading from a meter
+ */
+export interface RegisterReading {
+  /** Device/meter ID */
+  deviceId: string;
+  /** Timestamp of the reading (ISO 8601) */
+  timestamp: string;
+  /** Cumulative register value in kWh */
+  value: number;
+  /** Serial number of the physical meter, used to detect replacements */
+  meterSerial?: string;
+}
+
+/**
+ * Irregularity detected between two register readings
+ */
+export type RegisterFlag = 'rollover' | 'reset' | 'meter-replacement' | 'negative-delta';
+
+/**
+ * Energy between two consecutive register readings
+ */
+export interface RegisterDelta {
+  /** Start timestamp */
+  from: string;
+  /** End timestamp */
+  to: string;
+  /** Register value at start */
+  startValue: number;
+  /** Register value at end */
+  endValue: number;
+  /** Energy attributed to the span in kWh (never negative) */
+  energy: number;
+  /** Raw difference endValue - startValue */
+  rawDelta: number;
+  /** Irregularity, if any */
+  flag?: RegisterFlag;
+}
+
+/**
+ * Data quality of a resampled interval
+ */
+export type IntervalQuality = 'measured' | 'estimated' | 'missing';
+
+/**
+ * How intervals without (complete) readings are filled
+ */
+export type GapFillStrategy = 'linear' | 'previous-day' | 'zero' | 'mark-missing';
+
+/**
+ * Options for resampling measurements to fixed intervals
+ */
+export interface ResampleOptions {
+  /** Interval length in minutes */
+  intervalMinutes: 5 | 15 | 60;
+  /** Start of the output range (defaults to the first fully covered interval) */
+  from?: string;
+  /** End of the output range (defaults to the end of the last fully covered interval) */
+  to?: string;
+  /** Gap filling strategy (default: mark-missing) */
+  fill?: GapFillStrategy;
+  /** Longest span a reading without metadata.intervalStart may cover in minutes (default: 2 intervals) */
+  maxSpanMinutes?: number;
+}
+
+/**
+ * Kind of physically implausible reading
+ */
+export type AnomalyType = 'over-capacity' | 'power-mismatch' | 'energy-mismatch' | 'spike';
+
+/**
+ * One finding of the anomaly detector
+ */
+export interface Anomaly {
+  /** Kind of anomaly */
+  type: AnomalyType;
+  /** Severity from 0.5 (just past tolerance) to 1 */
+  score: number;
+  /** Human-readable details */
+  message: string;
+}
+
+/**
+ * What happens to a reading after anomaly scoring
+ */
+export type AnomalyAction = 'accept' | 'annotate' | 'quarantine' | 'reject';
+
+/**
+ * Scored reading
+ */
+export interface AnomalyAssessment {
+  /** Reading as assessed (annotated copies carry metadata.anomalies) */
+  measurement: EnergyMeasurement;
+  /** Highest anomaly score, 0 if none */
+  score: number;
+  /** Findings */
+  anomalies: Anomaly[];
+  /** Resulting action */
+  action: AnomalyAction;
+}
+
+/**
+ * Configuration for AnomalyDetector
+ */
+export interface AnomalyDetectorConfig {
+  /** Allowed excess over capabilities.maxPower, relative (default 0.1) */
+  capacityMargin?: number;
+  /** Lowest plausible power factor when comparing power with V×I (default 0.5) */
+  minPowerFactor?: number;
+  /** Allowed relative deviation of power from V×I (default 0.1) */
+  powerTolerance?: number;
+  /** Allowed relative deviation of energy from power × interval (default 0.5) */
+  energyTolerance?: number;
+  /** Power above this multiple of the recent median is a spike (default 5) */
+  spikeFactor?: number;
+  /** Readings kept per device for spike detection (default 20) */
+  historySize?: number;
+  /** Readings needed before spikes are detected (default 5) */
+  minHistory?: number;
+  /** Score from which readings are quarantined (default 0.7) */
+  quarantineScore?: number;
+  /** Score from which readings are rejected (default 0.9) */
+  rejectScore?: number;
+}
+
+/**
+ * Event types emitted by AnomalyDetector
+ */
+export interface AnomalyDetectorEvents {
+  'annotated': (assessment: AnomalyAssessment) => void;
+  'quarantined': (assessment: AnomalyAssessment) => void;
+  'rejected': (assessment: AnomalyAssessment) => void;
+}
+
+/**
+ * Faults injected by DeviceSimulator
+ */
+export interface SimulatorFaults {
+  /** Probability that a reading is dropped (0-1) */
+  dropoutRate?: number;
+  /** Probability that a reading is multiplied by spikeFactor (0-1) */
+  spikeRate?: number;
+  /** Multiplier for spiked readings (default 5) */
+  spikeFactor?: number;
+  /** Offset of device clocks in ms, for all devices or per device ID */
+  clockSkewMs?: number | Record<string, number>;
+}
+
+/**
+ * Configuration for DeviceSimulator
+ */
+export interface DeviceSimulatorConfig {
+  /** Simulated devices; the type selects the model (meter and other simulate household load) */
+  devices: DeviceRegistration[];
+  /** Random seed; equal seeds produce equal streams (default 1) */
+  seed?: number;
+  /** Simulated start time (ISO 8601, default: now aligned to the interval) */
+  start?: string;
+  /** Reading interval in minutes (default 5) */
+  intervalMinutes?: number;
+  /** Simulated time per real time when running (default 60: one hour per minute) */
+  speed?: number;
+  /** Mean cloud cover for solar panels, 0-1 (default 0.3) */
+  cloudiness?: number;
+  /** Injected faults */
+  faults?: SimulatorFaults;
+}
+
+/**
+ * Event types emitted by DeviceSimulator
+ */
+export interface DeviceSimulatorEvents {
+  'measurements': (measurements: EnergyMeasurement[], time: string) => void;
+  'dropout': (deviceId: string, timestamp: string) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * Minimal WebSocket interface implemented by browsers and the `ws` package.
+ * Handlers take loosely typed events, since each implementation has its
+ * own event classes; only `data` of messages and `code` and `reason` of
+ * close events are read.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+}
+
+/**
+ * State of the real-time connection
+ * - connecting: opening, authenticating or waiting to reconnect
+ * - open: authenticated and healthy
+ * - degraded: open, but a heartbeat went unanswered
+ * - closed: stopped by disconnect(), a rejected login or exhausted retries
+ */
+export type ConnectionState = 'connecting' | 'open' | 'degraded' | 'closed';
+
+/**
+ * Details accompanying a connection state change
+ */
+export interface ConnectionStateDetails {
+  /** Previous state */
+  previous: ConnectionState;
+  /** Reconnect attempt, starting at 1 (connecting only) */
+  attempt?: number;
+  /** Delay before the attempt in ms (connecting only) */
+  delayMs?: number;
+  /** Why the connection was lost or closed */
+  reason?: string;
+}
+
+/**
+ * Reconnection backoff options
+ */
+export interface ReconnectOptions {
+  /** Base delay in ms (default 1000) */
+  initialDelay?: number;
+  /** Upper bound of the delay in ms (default 30000) */
+  maxDelay?: number;
+  /** Give up after this many consecutive failed attempts (default: never) */
+  maxAttempts?: number;
+}
+
+/**
+ * Configuration for RealtimeConnection
+ */
+export interface RealtimeConnectionConfig {
+  /** WebSocket URL (without credentials) */
+  url: string;
+  /** Builds the authentication message sent right after the socket opens */
+  authenticate?: () => Record<string, any> | Promise<Record<string, any>>;
+  /** WebSocket implementation (default: global WebSocket, or the `ws` package in Node) */
+  WebSocket?: new (url: string) => WebSocketLike;
+  /** Interval between heartbeat pings in ms (default 25000) */
+  heartbeatInterval?: number;
+  /** Time without any message after a ping before the connection is degraded, and again before it is dropped, in ms (default 10000) */
+  heartbeatTimeout?: number;
+  /** Time to wait for the authentication result in ms (default 10000) */
+  authTimeout?: number;
+  /** Backoff options */
+  reconnect?: ReconnectOptions;
+  /** Random source for jitter, 0-1 (default Math.random) */
+  random?: () => number;
+}
+
+/**
+ * Event types emitted by RealtimeConnection
+ */
+export interface RealtimeConnectionEvents {
+  'state': (state: ConnectionState, details: ConnectionStateDetails) => void;
+  'message': (message: any) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * Realtime topic, filtered on the server
+ * - measurements: readings of one device
+ * - offers: new market offers, optionally by source, maximum price or region
+ * - transaction: status updates of one transaction
+ * - prices: price updates, optionally for one energy source
+ */
+export type SubscriptionTopic =
+  | { type: 'measurements'; deviceId: string }
+  | {
+      type: 'offers';
+      source?: EnergySource;
+      maxPrice?: number;
+      region?: { latitude: number; longitude: number; radius: number };
+    }
+  | { type: 'transaction'; transactionId: string }
+  | { type: 'prices'; source?: EnergySource };
+
+/**
+ * Payload delivered for each topic type
+ */
+export interface SubscriptionPayloads {
+  'measurements': EnergyMeasurement;
+  'offers': MarketOffer;
+  'transaction': EnergyTransaction;
+  'prices': PriceInfo;
+}
+
+/**
+ * Handle of a realtime subscription
+ */
+export interface Subscription {
+  /** Subscription ID, sent in subscribe and unsubscribe frames */
+  readonly id: string;
+  /** Subscribed topic */
+  readonly topic: SubscriptionTopic;
+  /** False once disposed or rejected by the server */
+  readonly active: boolean;
+  /** Unsubscribe; safe to call more than once */
+  dispose(): void;
+}
+
+/**
+ * Position in the participant's event sequence
+ */
+export interface EventCursor {
+  /** Sequence number of the last delivered event */
+  seq: number;
+  /** Time of the last delivered event, used for REST backfill */
+  timestamp: string;
+}
+
+/**
+ * Persistent storage for the event cursor
+ */
+export interface CursorStore {
+  load(): Promise<EventCursor | undefined>;
+  save(cursor: EventCursor): Promise<void>;
+}
+
+/**
+ * Options for catching up on missed real-time events
+ */
+export interface EventReplayOptions {
+  /** Where the cursor is kept between sessions (default: in memory) */
+  cursorStore?: CursorStore;
+  /** Time to wait for the server to finish a replay before falling back to REST backfill, in ms (default 10000) */
+  replayTimeout?: number;
+}
+
+/**
+ * Participant event with its position in the event sequence
+ */
+export interface SequencedEvent {
+  type: string;
+  payload: any;
+  /** Sequence number; events without one come from REST backfill */
+  seq?: number;
+  /** Event time */
+  timestamp?: string;
+}
+
+/**
+ * Kind of failure reported by a VoltnetError
+ */
+export type VoltnetErrorKind =
+  | 'auth'
+  | 'validation'
+  | 'not-found'
+  | 'conflict'
+  | 'rate-limited'
+  | 'network'
+  | 'timeout'
+  | 'server'
+  | 'invalid-response'
+  | 'unknown';
+
+/**
+ * Options for requests that move money or create resources
+ */
+export interface IdempotencyOptions {
+  /**
+   * Key identifying the logical operation. The same key is sent on every
+   * retry; pass your own to deduplicate across process restarts or your
+   * own retry loops (default: a new random UUID per call).
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * One page of a list endpoint
+ */
+export interface Page<T> {
+  items: T[];
+  /** Cursor of the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/**
+ * Filters for transaction lists
+ */
+export interface TransactionFilters {
+  from?: string;
+  to?: string;
+  status?: TransactionStatus;
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+/**
+ * Filters for market offer lists
+ */
+export interface OfferFilters {
+  source?: EnergySource;
+  maxPrice?: number;
+  minEnergy?: number;
+  location?: { lat: number; lon: number; radius: number };
+}
+
+/**
+ * Query for participant search
+ */
+export interface ParticipantQuery {
+  type?: string;
+  location?: { lat: number; lon: number; radius: number };
+  limit?: number;
+}
+
+/**
+ * Page to request from a list endpoint
+ */
+export interface PageOptions {
+  /** Cursor returned with the previous page (default: first page) */
+  cursor?: string;
+  /** Maximum number of items in the page */
+  limit?: number;
+}
+
+/**
+ * Time range with inclusive ISO 8601 bounds
+ */
+export interface TimeRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Options for iterating over all items of a list endpoint
+ */
+export interface PaginationOptions {
+  /** Items requested per page (default 100) */
+  pageSize?: number;
+  /** Stop after this many items */
+  maxItems?: number;
+  /**
+   * Length of the chunks a time range is split into, in ms. Each chunk is
+   * requested separately (default per endpoint, e.g. 30 days for transactions).
+   */
+  chunkSize?: number;
+  /** Number of time-range chunks fetched in parallel (default 1) */
+  concurrency?: number;
+}
+
+/**
+ * Endpoints whose responses can be cached
+ */
+export type CachedEndpoint = 'currentPrice' | 'timeOfUseSchedule' | 'profile' | 'marketStats' | 'balance';
+
+/**
+ * Cached response with its expiry times in ms since the epoch
+ */
+export interface CacheEntry {
+  value: unknown;
+  /** Served without a request until then */
+  expiresAt: number;
+  /** Served while being refreshed in the background until then */
+  staleUntil: number;
+}
+
+/**
+ * Storage for cached responses. Methods may return promises, so entries
+ * can live outside the process (e.g. Redis) and be shared.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Caching policy of one endpoint
+ */
+export interface CachePolicy {
+  /** Time a response is served without a request, in ms; 0 disables caching */
+  ttl?: number;
+  /** Time after expiry a response is still served while it is refreshed in the background, in ms */
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * Response cache configuration
+ */
+export interface CacheOptions {
+  /** Entry storage (default: in-memory LRU store) */
+  store?: CacheStore;
+  /** Entries kept by the default store (default 1000) */
+  maxEntries?: number;
+  /**
+   * Policy per endpoint. Defaults: currentPrice 5 s (stale 30 s),
+   * timeOfUseSchedule 1 h (stale 1 h), profile 60 s (stale 5 min),
+   * marketStats 10 s (stale 60 s), balance not cached.
+   */
+  endpoints?: Partial<Record<CachedEndpoint, CachePolicy>>;
+}
+
+/**
+ * How responses that do not match their schema are handled:
+ * - strict: reject the call (or drop the real-time event) with an InvalidResponseError
+ * - warn: log a warning and pass the data on
+ * - off: do not check
+ */
+export type ValidationMode = 'strict' | 'warn' | 'off';
+
+/**
+ * First mismatch found while checking a value against a schema
+ */
+export interface SchemaIssue {
+  /** Path of the offending value, e.g. `items[2].energyAvailable`; empty for the value itself */
+  path: string;
+  /** Expected type */
+  expected: string;
+  /** Received type and value */
+  received: string;
+}
+
+/**
+ * Runtime schema of a value of type T
+ */
+export interface Schema<T = unknown> {
+  /** Type name used in messages, e.g. `number` or `MarketOffer` */
+  readonly name: string;
+  /** Check a value; returns the first mismatch, or undefined if it matches */
+  check(value: unknown, path: string): SchemaIssue | undefined;
+  /** Type carried by the schema, never set at runtime */
+  readonly type?: T;
+}
+
+/**
+ * Request to be authenticated
+ */
+export interface AuthRequest {
+  /** HTTP method, upper case */
+  method: string;
+  /** Path and query string as sent, e.g. `/market/offers?limit=50` */
+  path: string;
+  /**
+   * Request body as sent; empty if there is none, undefined if its bytes
+   * are only known when it is sent, e.g. FormData or a stream
+   */
+  body?: string | Uint8Array;
+}
+
+/**
+ * Supplies credentials for API requests and the real-time connection
+ */
+export interface AuthProvider {
+  /** Headers that authenticate a request */
+  getHeaders(request: AuthRequest): Record<string, string> | Promise<Record<string, string>>;
+  /** Fields added to the real-time `auth` message; the request describes the WebSocket upgrade */
+  getRealtimeCredentials(request: AuthRequest): Record<string, unknown> | Promise<Record<string, unknown>>;
+  /**
+   * Called when the server rejects the credentials. Return true if fresh
+   * credentials can be obtained; the request is then retried once.
+   */
+  invalidate?(): boolean | Promise<boolean>;
+  /** Credentials currently in use, e.g. keys and tokens; masked in log messages */
+  secrets?(): string[];
+}
+
+/**
+ * OAuth2 client-credentials grant configuration
+ */
+export interface OAuth2ClientCredentialsOptions {
+  /** Token endpoint URL */
+  tokenUrl: string;
+  /** Client ID */
+  clientId: string;
+  /** Client secret */
+  clientSecret: string;
+  /** Requested scope */
+  scope?: string;
+  /** Requested audience, for servers that need one */
+  audience?: string;
+  /** Refresh tokens this long before they expire, in ms (default 60000) */
+  refreshMargin?: number;
+  /** Token request timeout in ms (default 10000) */
+  timeout?: number;
+}
+
+/**
+ * HMAC request signing configuration
+ */
+export interface HmacAuthOptions {
+  /** ID of the shared secret, sent with every request */
+  keyId: string;
+  /** Shared secret */
+  secret: string | Uint8Array;
+}
+
+/**
+ * Participant seeded into MockBackend
+ */
+export interface MockParticipant extends Participant {
+  /** API key the participant authenticates with; without one it cannot log in */
+  apiKey?: string;
+  /** Available balance (default 0) */
+  balance?: number;
+}
+
+/**
+ * State seeded into MockBackend
+ */
+export interface MockFixtures {
+  participants?: MockParticipant[];
+  devices?: DeviceRegistration[];
+  measurements?: EnergyMeasurement[];
+  offers?: MarketOffer[];
+  transactions?: EnergyTransaction[];
+  settlements?: Settlement[];
+  /** Price updates, oldest first; the latest per source is the current price */
+  prices?: PriceInfo[];
+}
+
+/**
+ * Configuration for MockBackend
+ */
+export interface MockBackendOptions {
+  /** Currency of balances, prices and transactions (default 'EUR') */
+  currency?: string;
+  /** Price per kWh until a price is seeded or set (default 0.25) */
+  basePrice?: number;
+  /** Share of each sale kept by the network, 0-1 (default 0.01) */
+  networkFeeRate?: number;
+  /** Events kept per participant for replay after reconnects (default 1000) */
+  eventRetention?: number;
+  /** Initial state */
+  fixtures?: MockFixtures;
+}
+
+/**
+ * HTTP request handled by MockBackend
+ */
+export interface MockRequest {
+  /** HTTP method */
+  method: string;
+  /** Path with query string, e.g. `/market/offers?limit=50` */
+  url: string;
+  /** Request headers with lower-case names */
+  headers: Record<string, string | string[] | undefined>;
+  /** Raw request body; empty if there is none */
+  body?: string;
+}
+
+/**
+ * HTTP response produced by MockBackend
+ */
+export interface MockResponse {
+  status: number;
+  /** Response body; strings are sent as text, anything else as JSON */
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Real-time event published by MockBackend
+ */
+export interface MockEvent {
+  type: string;
+  payload: any;
+  /** Receiving participant; undefined for events sent to everyone */
+  participantId?: string;
+  /** Position in the participant's event sequence; broadcasts have none */
+  seq?: number;
+  timestamp: string;
+}
+
+/**
+ * Event types emitted by MockBackend
+ */
+export interface MockBackendEvents {
+  'event': (event: MockEvent) => void;
+}
+
+/**
+ * Failure injected by MockVoltnetServer into matching requests
+ */
+export interface MockFault {
+  /** HTTP method to match (default: any) */
+  method?: string;
+  /** Path to match, without query string: exact for strings */
+  path: string | RegExp;
+  /** Answer with this status instead of the backend's response */
+  status?: number;
+  /** Body sent with `status` */
+  body?: unknown;
+  /** Headers sent with `status`, e.g. Retry-After */
+  headers?: Record<string, string>;
+  /** Wait this long before answering, in ms */
+  delay?: number;
+  /** Drop the connection without answering */
+  reset?: boolean;
+  /** Carry out the request before failing, as when the response is lost (default false) */
+  afterHandling?: boolean;
+  /** Number of requests to fail (default: until removed) */
+  times?: number;
+}
+
+/**
+ * Budget a request is counted against:
+ * - read: GET, HEAD and OPTIONS requests
+ * - write: other requests
+ * - measurement: measurement uploads
+ */
+export type RouteClass = 'read' | 'write' | 'measurement';
+
+/**
+ * Order in which queued requests are sent: high for transaction and
+ * settlement calls, low for measurement uploads
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Request waiting for a RequestScheduler slot
+ */
+export interface ScheduledRequest {
+  /** HTTP method */
+  method: string;
+  /** Path relative to the API URL, without query string */
+  path: string;
+  routeClass: RouteClass;
+  priority: RequestPriority;
+}
+
+/**
+ * Decides when requests are sent; share one instance between clients to
+ * share its limits
+ */
+export interface RequestScheduler {
+  /**
+   * Wait until the request may be sent
+   * @returns Function to call once the request has completed
+   */
+  acquire(request: ScheduledRequest): Promise<() => void>;
+  /**
+   * Report a response, so limits announced by the server are honored
+   * @param headers Response headers with lower-case names
+   */
+  observe(request: ScheduledRequest, status: number, headers: Record<string, unknown>): void;
+}
+
+/**
+ * Token bucket for one route class
+ */
+export interface RateBudget {
+  /** Requests per second */
+  rate: number;
+  /** Requests that can be sent at once after a quiet period (default: rate, at least 1) */
+  burst?: number;
+}
+
+/**
+ * Configuration for TokenBucketScheduler
+ */
+export interface TokenBucketSchedulerOptions {
+  /**
+   * Budget per route class. Defaults: read 20/s (burst 40),
+   * write 10/s (burst 20), measurement 50/s (burst 100).
+   */
+  budgets?: Partial<Record<RouteClass, RateBudget>>;
+  /** Requests in flight at once across all route classes (default 8) */
+  maxConcurrent?: number;
+}
+
+/**
+ * Real-time link used by VoltnetClient: a RealtimeConnection, or a
+ * participant's channel on a shared connection
+ */
+export interface RealtimeLink {
+  connect(): void;
+  disconnect(): void;
+  send(message: Record<string, any>): boolean;
+  getState(): ConnectionState;
+  on(event: 'state', listener: RealtimeConnectionEvents['state']): unknown;
+  on(event: 'message', listener: RealtimeConnectionEvents['message']): unknown;
+  on(event: 'error', listener: RealtimeConnectionEvents['error']): unknown;
+  removeAllListeners(): unknown;
+}
+
+/**
+ * Opens real-time links for participants over a shared connection
+ */
+export interface RealtimeTransport {
+  /**
+   * Open a participant's link; it connects on connect()
+   * @param participantId Participant the link belongs to
+   * @param authenticate Builds the participant's `auth` message
+   */
+  open(participantId: string, authenticate: () => Promise<Record<string, any>>): RealtimeLink;
+}
+
+/**
+ * Participant identity held by VoltnetFleet
+ */
+export interface FleetParticipant {
+  participantId: string;
+  /** API key; required unless `auth` is set */
+  apiKey?: string;
+  /** Credentials (default: `apiKey` as bearer token) */
+  auth?: AuthProvider;
+  /** Where the participant's event cursor is kept (default: in memory) */
+  cursorStore?: CursorStore;
+}
+
+/**
+ * Configuration for VoltnetFleet. Options apply to every participant.
+ */
+export interface VoltnetFleetConfig extends Omit<
+  VoltnetConfig,
+  'participantId' | 'apiKey' | 'auth' | 'realtimeTransport' | 'eventReplay'
+> {
+  /** Participants to add right away */
+  participants?: FleetParticipant[];
+  /** Sockets per host in the shared HTTP pool (default 50) */
+  maxSockets?: number;
+  /** Time to wait for the server to finish a replay, in ms (default 10000) */
+  replayTimeout?: number;
+}
+
+/**
+ * Event types emitted by VoltnetFleet. Participant events carry the
+ * participant they belong to; offers and prices are emitted once.
+ */
+export interface VoltnetFleetEvents {
+  'measurement': (data: EnergyMeasurement, participantId: string) => void;
+  'transaction': (data: EnergyTransaction, participantId: string) => void;
+  'settlement': (data: Settlement, participantId: string) => void;
+  'balance-update': (data: Balance, participantId: string) => void;
+  'offer': (data: MarketOffer) => void;
+  'price-update': (data: PriceInfo) => void;
+  /** State of a participant's real-time link */
+  'connection-state': (state: ConnectionState, details: ConnectionStateDetails, participantId: string) => void;
+  /** Errors of a participant's client, or of the shared connection without participant */
+  'error': (error: Error, participantId?: string) => void;
+}
+
+/**
+ * Log levels, from most to least verbose; `silent` logs nothing
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Destination for log messages, e.g. a pino or winston logger
+ */
+export interface Logger {
+  debug(message: string, context?: Record<string, unknown>): void;
+  info(message: string, context?: Record<string, unknown>): void;
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+}
+
+/**
+ * Logging configuration
+ */
+export interface LoggingOptions {
+  /** Destination (default: the console, prefixed with `[VOLTNET]`) */
+  logger?: Logger;
+  /** Least severe level logged (default 'warn') */
+  level?: LogLevel;
+  /** Further values to mask wherever they appear, besides the API key */
+  redact?: string[];
+}
+
+/**
+ * Request as seen by middleware
+ */
+export interface MiddlewareRequest {
+  /** HTTP method */
+  method: string;
+  /** Path relative to the API URL, without query string */
+  path: string;
+  /** Path with IDs replaced by `:id`, e.g. `/transactions/:id` */
+  route: string;
+  /** Headers to send; changes are sent. Credentials are added afterwards. */
+  headers: Record<string, string>;
+  /** Body as sent (JSON) */
+  body?: string;
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** Trace ID sent in `traceparent`, if tracing is enabled */
+  traceId?: string;
+  /** Span ID of this attempt, if tracing is enabled */
+  spanId?: string;
+}
+
+/**
+ * Response as seen by middleware
+ */
+export interface MiddlewareResponse {
+  status: number;
+  /** Response headers with lower-case names */
+  headers: Record<string, unknown>;
+  data: unknown;
+  /** Time from sending the request to the response, in ms */
+  durationMs: number;
+}
+
+/**
+ * Hooks around every request attempt, including retries. An error thrown
+ * by onRequest fails the call; errors of the other hooks are logged.
+ */
+export interface RequestMiddleware {
+  onRequest?(request: MiddlewareRequest): void | Promise<void>;
+  /** Response of any status arrived */
+  onResponse?(request: MiddlewareRequest, response: MiddlewareResponse): void | Promise<void>;
+  /** Attempt failed without response, e.g. on a network error or timeout; it may still be retried */
+  onError?(request: MiddlewareRequest, error: Error, durationMs: number): void | Promise<void>;
+}
+
+/**
+ * Metrics configuration
+ */
+export interface MetricsOptions {
+  /** Upper bounds of the latency histogram buckets in ms (default 5 ms to 10 s) */
+  latencyBuckets?: number[];
+}
+
+/**
+ * Latency histogram; `counts[i]` counts durations up to `bounds[i]`
+ * above the previous bound, and the last count those above all bounds
+ */
+export interface LatencyHistogram {
+  bounds: number[];
+  counts: number[];
+  count: number;
+  /** Sum of all durations in ms */
+  sum: number;
+}
+
+/**
+ * Metrics of one route
+ */
+export interface RouteMetrics {
+  /** Attempts, including retries */
+  requests: number;
+  /** Attempts by response status; `error` for attempts without response */
+  statuses: Record<string, number>;
+  /** Retried attempts */
+  retries: number;
+  latency: LatencyHistogram;
+}
+
+/**
+ * Metrics of the real-time connection
+ */
+export interface RealtimeMetrics {
+  /** Reconnection attempts after the connection was lost */
+  reconnectAttempts: number;
+  /** Times the connection was open again after being lost */
+  reconnects: number;
+  /** Received events by type, including topic and replayed events */
+  events: Record<string, number>;
+  /** Received events per second since `since` */
+  eventsPerSecond: number;
+}
+
+/**
+ * Metrics collected by a client
+ */
+export interface MetricsSnapshot {
+  /** Start of collection (ISO 8601) */
+  since: string;
+  /** By method and route, e.g. `GET /transactions/:id` */
+  routes: Record<string, RouteMetrics>;
+  realtime: RealtimeMetrics;
+}
+
+/**
+ * W3C trace context headers
+ */
+export interface TraceContext {
+  traceparent: string;
+  tracestate?: string;
+}
+
+/**
+ * Fields of a `traceparent` header
+ */
+export interface Traceparent {
+  /** 32 hex digits */
+  traceId: string;
+  /** Span ID of the caller, 16 hex digits */
+  parentId: string;
+  sampled: boolean;
+}
+
+/**
+ * Trace context propagation
+ */
+export interface TracingOptions {
+  /** Returns the caller's active trace context, e.g. filled by OpenTelemetry's `propagation.inject` */
+  getContext?: () => TraceContext | undefined;
+  /** Start a new trace for calls without an active one (default true) */
+  startTraces?: boolean;
+}
@@ -89,6 +89,21 @@ describe('Validation', () => {
     expect(result.valid).toBe(false);
     expect(result.errors.length).toBeGreaterThan(0);
   });
+
+  test('validateMeasurement checks direction and export energy', () => {
+    const base = {
+      deviceId: 'meter-001',
+      timestamp: new Date().toISOString(),
+      energy: 1.0,
+      source: 'grid'
+    };
+
+    expect(validateMeasurement({ ...base, exportEnergy: 0.5 }).valid).toBe(true);
+    expect(validateMeasurement({ ...base, direction: 'export' }).valid).toBe(true);
+    expect(validateMeasurement({ ...base, direction: 'sideways' }).errors).toEqual(['direction must be import or export']);
+    expect(validateMeasurement({ ...base, exportEnergy: -1 }).errors).toEqual(['exportEnergy must be a non-negative number']);
+    expect(validateMeasurement({ ...base, direction: 'export', exportEnergy: 1 }).valid).toBe(false);
+  });
 });
 
 describe('Environmental Calculations', () => {
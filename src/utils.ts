@@ -2,6 +2,11 @@
  * Utility functions for VOLTNET SDK
  */
 
+import { SubscriptionTopic } from './types';
+
+/** Header that lets the server recognize a repeated request */
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
 /**
  * Convert watts to kilowatts
  */
@@ -144,6 +149,31 @@ export function isWithinRadius(
   return distance <= radiusKm;
 }
 
+/**
+ * Check whether a real-time event belongs to a subscription topic
+ * @param topic Topic and its filters
+ * @param type Event type, e.g. 'offer'
+ * @param payload Event payload
+ * @returns True if the event matches the topic
+ */
+export function matchesTopic(topic: SubscriptionTopic, type: string, payload: any): boolean {
+  switch (topic.type) {
+    case 'measurements':
+      return type === 'measurement' && payload.deviceId === topic.deviceId;
+    case 'transaction':
+      return type === 'transaction' && payload.id === topic.transactionId;
+    case 'prices':
+      return type === 'price-update' && (!topic.source || payload.source === topic.source);
+    case 'offers':
+      return type === 'offer' &&
+        (!topic.source || payload.source === topic.source) &&
+        (topic.maxPrice === undefined || payload.pricePerKwh <= topic.maxPrice) &&
+        (!topic.region || (payload.location !== undefined && calculateDistance(
+          topic.region.latitude, topic.region.longitude, payload.location.latitude, payload.location.longitude
+        ) <= topic.region.radius));
+  }
+}
+
 /**
  * Generate unique ID
  * @returns Unique identifier string
@@ -152,6 +182,15 @@ export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Request headers carrying an idempotency key
+ * @param key Caller-supplied key (default: a new random UUID)
+ * @returns Headers for the request config
+ */
+export function idempotencyHeaders(key?: string): Record<string, string> {
+  return { [IDEMPOTENCY_HEADER]: key ?? globalThis.crypto.randomUUID() };
+}
+
 /**
  * Validate ISO 8601 timestamp
  * @param timestamp Timestamp string
@@ -183,6 +222,26 @@ export function getHoursDifference(start: string, end: string): number {
   return diffMs / (1000 * 60 * 60);
 }
 
+/**
+ * Align a timestamp to an interval boundary (UTC)
+ * @param timestamp Timestamp
+ * @param intervalMinutes Interval length in minutes (e.g. 5, 15, 60)
+ * @param mode Round down to the interval start or up to the next boundary
+ * @returns Aligned timestamp
+ */
+export function alignToInterval(
+  timestamp: string,
+  intervalMinutes: number,
+  mode: 'floor' | 'ceil' = 'floor'
+): string {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const time = new Date(timestamp).getTime();
+  const aligned = mode === 'floor'
+    ? Math.floor(time / intervalMs) * intervalMs
+    : Math.ceil(time / intervalMs) * intervalMs;
+  return new Date(aligned).toISOString();
+}
+
 /**
  * Parse energy value from string
  * @param value String value (e.g., "10 kWh", "500 Wh")
@@ -239,6 +298,19 @@ export function validateMeasurement(measurement: any): {
     errors.push('power must be a non-negative number');
   }
 
+  if (measurement.direction !== undefined &&
+      measurement.direction !== 'import' && measurement.direction !== 'export') {
+    errors.push('direction must be import or export');
+  }
+
+  if (measurement.exportEnergy !== undefined) {
+    if (typeof measurement.exportEnergy !== 'number' || measurement.exportEnergy < 0) {
+      errors.push('exportEnergy must be a non-negative number');
+    } else if (measurement.direction === 'export') {
+      errors.push('exportEnergy cannot be combined with direction export');
+    }
+  }
+
   if (!measurement.source) {
     errors.push('source is required');
   }
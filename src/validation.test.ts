@@ -0,0 +1,173 @@
+/**
+ * Tests for runtime schemas and response validation
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { schemas, validate, formatIssue, responseSchema, array, object, optional, number, string } from './validation';
+import { VoltnetClient } from './VoltnetClient';
+import { P2PMarket } from './P2PMarket';
+import { TransactionManager } from './TransactionManager';
+import { InvalidResponseError, VoltnetError } from './VoltnetError';
+import { MarketOffer, PriceInfo, ValidationMode } from './types';
+
+const offer: MarketOffer = {
+  id: 'offer-1',
+  sellerId: 'participant-002',
+  energyAvailable: 12.5,
+  pricePerKwh: 0.11,
+  currency: 'EUR',
+  source: 'solar' as MarketOffer['source'],
+  createdAt: '2024-01-15T12:00:00.000Z',
+  expiresAt: '2024-01-15T18:00:00.000Z',
+  status: 'active'
+};
+
+describe('schemas', () => {
+  test('report the path of the first mismatch', () => {
+    const offers = [offer, { ...offer, id: 'offer-2', energyAvailable: '12.5' }];
+    const issue = validate(array(schemas.MarketOffer), offers);
+
+    expect(issue).toEqual({ path: '[1].energyAvailable', expected: 'number', received: 'string "12.5"' });
+    expect(formatIssue(issue!)).toBe('[1].energyAvailable must be number, received string "12.5"');
+  });
+
+  test('check nested objects, enums and timestamps', () => {
+    expect(validate(schemas.MarketOffer, offer)).toBeUndefined();
+    expect(validate(schemas.MarketOffer, { ...offer, location: { latitude: 52.37, longitude: null } })).toMatchObject({
+      path: 'location.longitude',
+      received: 'null'
+    });
+    expect(validate(schemas.MarketOffer, { ...offer, source: 'coal' })).toMatchObject({
+      path: 'source',
+      expected: expect.stringContaining('"solar"')
+    });
+    expect(validate(schemas.MarketOffer, { ...offer, createdAt: 'yesterday' })).toMatchObject({
+      path: 'createdAt',
+      expected: 'timestamp'
+    });
+  });
+
+  test('allow missing or null optional fields and unknown fields', () => {
+    const schema = object<{ id: string; note?: number }>('Thing', { id: string(), note: optional(number()) });
+
+    expect(validate(schema, { id: 'a' })).toBeUndefined();
+    expect(validate(schema, { id: 'a', note: null, extra: true })).toBeUndefined();
+    expect(validate(schema, { note: 1 })).toEqual({ path: 'id', expected: 'string', received: 'undefined' });
+  });
+
+  test('pick response schemas by method and path', () => {
+    expect(responseSchema('get', '/market/offers/offer-1')).toBe(schemas.MarketOffer);
+    expect(responseSchema('GET', '/market/offers/my?limit=5')!.name).toBe('MarketOffer[]');
+    expect(responseSchema('post', '/market/offers/offer-1/accept')).toBe(schemas.EnergyTransaction);
+    expect(responseSchema('get', '/transactions/summary')).toBeUndefined();
+    expect(responseSchema('get', '/transactions/tx-1')).toBe(schemas.EnergyTransaction);
+  });
+});
+
+describe('response validation', () => {
+  let server: Server;
+  let body: unknown;
+  let apiUrl: string;
+  let warn: jest.SpyInstance;
+
+  const createClient = (validation: ValidationMode) =>
+    new VoltnetClient({ apiUrl, apiKey: 'secret', participantId: 'participant-001', validation, network: { retries: 0 } });
+
+  beforeEach(async () => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    server = createServer((_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json', 'X-Request-Id': 'req-7' });
+      response.end(JSON.stringify(body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    warn.mockRestore();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('strict mode rejects with the failing path', async () => {
+    body = { items: [offer, { ...offer, energyAvailable: '3' }], nextCursor: 'c2' };
+    const error = await new P2PMarket(createClient('strict')).getOffersPage().catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error).toBeInstanceOf(VoltnetError);
+    expect(error).toMatchObject({ kind: 'invalid-response', path: 'items[1].energyAvailable', requestId: 'req-7' });
+    expect(error.message).toBe(
+      'GET /market/offers returned an invalid response: items[1].energyAvailable must be number, received string "3"'
+    );
+  });
+
+  test('warn mode logs and returns the data', async () => {
+    body = { ...offer, status: 'archived' };
+    const result = await new P2PMarket(createClient('warn')).getOffer('offer-1');
+
+    expect(result.status).toBe('archived');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('status must be "active" | "fulfilled" | "expired" | "cancelled"'));
+  });
+
+  test('off mode does not check', async () => {
+    body = [{ id: 'tx-1' }];
+    const result = await new TransactionManager(createClient('off')).getTransactions();
+
+    expect(result).toEqual([{ id: 'tx-1' }]);
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
+
+describe('real-time payload validation', () => {
+  let server: WebSocketServer;
+  let sockets: WebSocket[];
+  let client: VoltnetClient;
+
+  beforeEach(async () => {
+    sockets = [];
+    server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise(resolve => server.once('listening', resolve));
+    server.on('connection', socket => {
+      sockets.push(socket);
+      socket.on('message', data => {
+        if (JSON.parse(data.toString()).type === 'auth') {
+          socket.send(JSON.stringify({ type: 'auth-ok' }));
+        }
+      });
+    });
+
+    client = new VoltnetClient({
+      apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      apiKey: 'secret',
+      participantId: 'participant-001',
+      enableRealtime: true,
+      validation: 'strict',
+      realtime: { WebSocket }
+    });
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    sockets.forEach(socket => socket.terminate());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('strict mode drops invalid events and reports them', async () => {
+    const prices: PriceInfo[] = [];
+    const errors: Error[] = [];
+    client.on('price-update', price => prices.push(price));
+    client.on('error', error => errors.push(error));
+    await new Promise(resolve => client.on('connection-state', state => state === 'open' && resolve(undefined)));
+
+    const price = { pricePerKwh: 0.12, currency: 'EUR', model: 'dynamic', validFrom: '2024-01-15T12:00:00.000Z' };
+    sockets[0].send(JSON.stringify({ type: 'price-update', payload: { ...price, pricePerKwh: 'NaN' } }));
+    sockets[0].send(JSON.stringify({ type: 'price-update', payload: price }));
+    await new Promise(resolve => client.once('price-update', resolve));
+
+    expect(prices).toEqual([price]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ name: 'InvalidResponseError', path: 'pricePerKwh' });
+  });
+});
@@ -0,0 +1,439 @@
+/**
+ * Runtime schemas for VOLTNET SDK
+ *
+ * TypeScript types say what the API is supposed to return; these schemas
+ * check what it actually returned, so a changed field is reported where it
+ * enters the SDK with the path of the offending value. Objects may carry
+ * fields beyond those listed. Optional fields may be missing or null.
+ */
+
+import {
+  Schema,
+  SchemaIssue,
+  Page,
+  EnergySource,
+  ParticipantType,
+  EnergyDirection,
+  TransactionStatus,
+  PricingModel,
+  EnergyMeasurement,
+  Participant,
+  PriceInfo,
+  EnergyTransaction,
+  Settlement,
+  MarketOffer,
+  DeviceRegistration,
+  KeyRotation,
+  Balance,
+  Statistics,
+  EnergyFlowTotals
+} from './types';
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') {
+    return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value)}`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return `${typeof value} ${value}`;
+  }
+  return typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown): SchemaIssue {
+  return { path, expected, received: describe(value) };
+}
+
+function child(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(name: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    name,
+    check: (value, path) => (test(value) ? undefined : fail(path, name, value))
+  };
+}
+
+/** Any string */
+export const string = (): Schema<string> => primitive('string', value => typeof value === 'string');
+
+/** Finite number */
+export const number = (): Schema<number> =>
+  primitive('number', value => typeof value === 'number' && Number.isFinite(value));
+
+/** true or false */
+export const boolean = (): Schema<boolean> => primitive('boolean', value => typeof value === 'boolean');
+
+/** String that parses as a date, e.g. ISO 8601 */
+export const timestamp = (): Schema<string> =>
+  primitive('timestamp', value => typeof value === 'string' && !isNaN(Date.parse(value)));
+
+/** Anything, unchecked */
+export const any = (): Schema<any> => ({ name: 'any', check: () => undefined });
+
+/**
+ * One of a fixed set of strings
+ * @param values Allowed values, e.g. the values of a string enum
+ */
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  const name = values.map(value => JSON.stringify(value)).join(' | ');
+  return primitive(name, value => values.includes(value as T));
+}
+
+/**
+ * Value of a string enum
+ * @param values Enum object
+ */
+export function enumOf<T extends string>(values: Record<string, T>): Schema<T> {
+  return oneOf(Object.values(values));
+}
+
+/**
+ * Value that may be missing or null
+ * @param schema Schema of the value when present
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    name: `${schema.name} (optional)`,
+    check: (value, path) => (value === undefined || value === null ? undefined : schema.check(value, path))
+  };
+}
+
+/**
+ * Value that may be null
+ * @param schema Schema of the value when not null
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    name: `${schema.name} | null`,
+    check: (value, path) => (value === null ? undefined : schema.check(value, path))
+  };
+}
+
+/**
+ * Array whose items all match a schema
+ * @param item Schema of each item
+ */
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    name: `${item.name}[]`,
+    check: (value, path) => {
+      if (!Array.isArray(value)) return fail(path, `${item.name}[]`, value);
+      for (let i = 0; i < value.length; i++) {
+        const issue = item.check(value[i], `${path}[${i}]`);
+        if (issue) return issue;
+      }
+      return undefined;
+    }
+  };
+}
+
+/**
+ * Object with arbitrary keys whose values all match a schema
+ * @param value Schema of each value
+ */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  const name = `Record<string, ${value.name}>`;
+  return {
+    name,
+    check: (input, path) => {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) return fail(path, name, input);
+      for (const [key, entry] of Object.entries(input)) {
+        const issue = value.check(entry, child(path, key));
+        if (issue) return issue;
+      }
+      return undefined;
+    }
+  };
+}
+
+/**
+ * Object with known fields
+ * @param name Type name used in messages
+ * @param shape Schema of each field
+ */
+export function object<T>(name: string, shape: Shape<T>): Schema<T> {
+  const fields = Object.entries(shape) as Array<[string, Schema]>;
+  return {
+    name,
+    check: (value, path) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(path, name, value);
+      for (const [key, schema] of fields) {
+        const issue = schema.check((value as Record<string, unknown>)[key], child(path, key));
+        if (issue) return issue;
+      }
+      return undefined;
+    }
+  };
+}
+
+/**
+ * Response of a list endpoint: a plain array or a page
+ * @param item Schema of each item
+ */
+export function list<T>(item: Schema<T>): Schema<T[] | Page<T>> {
+  const items = array(item);
+  const page = object<Page<T>>(`Page<${item.name}>`, { items, nextCursor: optional(string()) });
+  return {
+    name: `${item.name}[]`,
+    check: (value, path) => (Array.isArray(value) ? items.check(value, path) : page.check(value, path))
+  };
+}
+
+/**
+ * Check a value against a schema
+ * @param schema Schema
+ * @param value Value to check
+ * @returns First mismatch, or undefined if the value matches
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): SchemaIssue | undefined {
+  return schema.check(value, '');
+}
+
+/**
+ * Describe a mismatch for error messages
+ * @param issue Mismatch
+ * @returns e.g. `items[2].energyAvailable must be number, received string "12.5"`
+ */
+export function formatIssue(issue: SchemaIssue): string {
+  return `${issue.path || 'value'} must be ${issue.expected}, received ${issue.received}`;
+}
+
+const location = object<{ latitude: number; longitude: number }>('Location', {
+  latitude: number(),
+  longitude: number()
+});
+
+const energyFlowTotals = object<EnergyFlowTotals>('EnergyFlowTotals', {
+  consumed: number(),
+  produced: number(),
+  net: number()
+});
+
+const keyRotation = object<KeyRotation>('KeyRotation', {
+  deviceId: string(),
+  publicKey: string(),
+  previousPublicKey: string(),
+  rotatedAt: timestamp(),
+  graceUntil: timestamp(),
+  signature: string()
+});
+
+/**
+ * Schemas of the API's data types, by interface name
+ */
+export const schemas = {
+  EnergyMeasurement: object<EnergyMeasurement>('EnergyMeasurement', {
+    deviceId: string(),
+    timestamp: timestamp(),
+    energy: number(),
+    direction: optional(enumOf(EnergyDirection)),
+    exportEnergy: optional(number()),
+    power: optional(number()),
+    voltage: optional(number()),
+    current: optional(number()),
+    source: enumOf(EnergySource),
+    sequence: optional(number()),
+    previousHash: optional(string()),
+    signature: optional(string()),
+    metadata: optional(record(any()))
+  }),
+
+  Participant: object<Participant>('Participant', {
+    id: string(),
+    type: enumOf(ParticipantType),
+    name: optional(string()),
+    location: optional(object<NonNullable<Participant['location']>>('Location', {
+      latitude: number(),
+      longitude: number(),
+      address: optional(string())
+    })),
+    walletAddress: string(),
+    devices: optional(array(string())),
+    metadata: optional(record(any()))
+  }),
+
+  PriceInfo: object<PriceInfo>('PriceInfo', {
+    pricePerKwh: number(),
+    currency: string(),
+    model: enumOf(PricingModel),
+    validFrom: timestamp(),
+    validUntil: optional(timestamp()),
+    source: optional(enumOf(EnergySource)),
+    factors: optional(object<NonNullable<PriceInfo['factors']>>('PriceFactors', {
+      timeOfDay: optional(number()),
+      demandLoad: optional(number()),
+      greenEnergy: optional(number())
+    }))
+  }),
+
+  EnergyTransaction: object<EnergyTransaction>('EnergyTransaction', {
+    id: string(),
+    sellerId: string(),
+    buyerId: string(),
+    energy: number(),
+    pricePerKwh: number(),
+    totalCost: number(),
+    currency: string(),
+    timestamp: timestamp(),
+    source: enumOf(EnergySource),
+    status: enumOf(TransactionStatus),
+    settlement: optional(object<NonNullable<EnergyTransaction['settlement']>>('TransactionSettlement', {
+      settlementId: string(),
+      settlementTime: optional(timestamp()),
+      txHash: optional(string())
+    })),
+    metadata: optional(record(any()))
+  }),
+
+  Settlement: object<Settlement>('Settlement', {
+    id: string(),
+    participants: array(string()),
+    transactions: array(string()),
+    totalAmount: number(),
+    currency: string(),
+    timestamp: timestamp(),
+    txHash: optional(string()),
+    status: oneOf(['pending', 'completed', 'failed'])
+  }),
+
+  MarketOffer: object<MarketOffer>('MarketOffer', {
+    id: string(),
+    sellerId: string(),
+    energyAvailable: number(),
+    pricePerKwh: number(),
+    currency: string(),
+    source: enumOf(EnergySource),
+    createdAt: timestamp(),
+    expiresAt: timestamp(),
+    location: optional(object<NonNullable<MarketOffer['location']>>('OfferLocation', {
+      latitude: number(),
+      longitude: number(),
+      radius: optional(number())
+    })),
+    status: oneOf(['active', 'fulfilled', 'expired', 'cancelled']),
+    metadata: optional(record(any()))
+  }),
+
+  DeviceRegistration: object<DeviceRegistration>('DeviceRegistration', {
+    deviceId: string(),
+    type: oneOf(['meter', 'charger', 'solar_panel', 'battery', 'other']),
+    ownerId: string(),
+    capabilities: object<DeviceRegistration['capabilities']>('DeviceCapabilities', {
+      canProduce: boolean(),
+      canConsume: boolean(),
+      maxPower: optional(number()),
+      maxEnergy: optional(number())
+    }),
+    location: optional(location),
+    publicKey: optional(string()),
+    keyRotations: optional(array(keyRotation)),
+    metadata: optional(record(any()))
+  }),
+
+  KeyRotation: keyRotation,
+
+  Balance: object<Balance>('Balance', {
+    participantId: string(),
+    available: number(),
+    pending: number(),
+    currency: string(),
+    energyCredit: optional(number()),
+    lastUpdated: timestamp()
+  }),
+
+  Statistics: object<Statistics>('Statistics', {
+    participantId: string(),
+    period: object<Statistics['period']>('Period', { from: timestamp(), to: timestamp() }),
+    totalConsumed: number(),
+    totalProduced: number(),
+    totalSpent: number(),
+    totalEarned: number(),
+    currency: string(),
+    avgPricePaid: optional(number()),
+    avgPriceReceived: optional(number()),
+    sourceBreakdown: optional(record(number()) as Schema<Statistics['sourceBreakdown']>),
+    netEnergy: optional(number()),
+    deviceBreakdown: optional(record(energyFlowTotals))
+  }),
+
+  EnergyFlowTotals: energyFlowTotals
+};
+
+/** Response schemas by method and path; the first match applies, null means unchecked */
+const RESPONSE_SCHEMAS: Array<[string, RegExp, Schema | null]> = [
+  ['get', /^\/participants\/search$/, list(schemas.Participant)],
+  ['get', /^\/participants\/[^/]+\/balance$/, schemas.Balance],
+  ['get', /^\/participants\/[^/]+\/statistics$/, schemas.Statistics],
+  ['get|patch', /^\/participants\/[^/]+$/, schemas.Participant],
+
+  ['post', /^\/measurements$/, schemas.EnergyMeasurement],
+  ['get', /^\/measurements$/, list(schemas.EnergyMeasurement)],
+  ['get', /^\/measurements\/[^/]+\/latest$/, schemas.EnergyMeasurement],
+  ['post', /^\/devices$/, schemas.DeviceRegistration],
+  ['get', /^\/devices$/, array(schemas.DeviceRegistration)],
+  ['get|patch', /^\/devices\/[^/]+$/, schemas.DeviceRegistration],
+
+  ['get', /^\/pricing\/current$/, schemas.PriceInfo],
+  ['get', /^\/pricing\/(history|forecast)$/, array(schemas.PriceInfo)],
+  ['post', /^\/pricing\/custom$/, schemas.PriceInfo],
+
+  ['get', /^\/market\/offers$/, list(schemas.MarketOffer)],
+  ['get', /^\/market\/offers\/(my|nearby)$/, array(schemas.MarketOffer)],
+  ['post', /^\/market\/offers$/, schemas.MarketOffer],
+  ['post', /^\/market\/offers\/best$/, nullable(schemas.MarketOffer)],
+  ['post', /^\/market\/offers\/recurring$/, object<{ scheduleId: string; nextOffer: MarketOffer }>('RecurringOffer', {
+    scheduleId: string(),
+    nextOffer: schemas.MarketOffer
+  })],
+  ['post', /^\/market\/offers\/[^/]+\/accept$/, schemas.EnergyTransaction],
+  ['get|patch', /^\/market\/offers\/[^/]+$/, schemas.MarketOffer],
+
+  ['get', /^\/transactions$/, list(schemas.EnergyTransaction)],
+  ['get', /^\/transactions\/(sales|purchases)$/, list(schemas.EnergyTransaction)],
+  ['get', /^\/transactions\/(summary|export)$/, null],
+  ['post', /^\/transactions$/, schemas.EnergyTransaction],
+  ['post', /^\/transactions\/[^/]+\/cancel$/, schemas.EnergyTransaction],
+  ['get', /^\/transactions\/[^/]+$/, schemas.EnergyTransaction],
+
+  ['get', /^\/settlements$/, list(schemas.Settlement)],
+  ['get', /^\/settlements\/pending$/, array(schemas.Settlement)],
+  ['post', /^\/settlements\/trigger$/, schemas.Settlement],
+  ['get', /^\/settlements\/[^/]+$/, schemas.Settlement]
+];
+
+/** Payload schemas of real-time events */
+const EVENT_SCHEMAS: Record<string, Schema> = {
+  'measurement': schemas.EnergyMeasurement,
+  'transaction': schemas.EnergyTransaction,
+  'settlement': schemas.Settlement,
+  'offer': schemas.MarketOffer,
+  'price-update': schemas.PriceInfo,
+  'balance-update': schemas.Balance
+};
+
+/**
+ * Schema of an API response
+ * @param method HTTP method
+ * @param path Request path relative to the API URL, with or without query string
+ * @returns Schema, or undefined for endpoints that are not checked
+ */
+export function responseSchema(method: string, path: string): Schema | undefined {
+  const route = path.split('?')[0];
+  const verb = method.toLowerCase();
+  const match = RESPONSE_SCHEMAS.find(([methods, pattern]) => methods.split('|').includes(verb) && pattern.test(route));
+  return match?.[2] ?? undefined;
+}
+
+/**
+ * Schema of a real-time event payload
+ * @param type Event type, e.g. `offer`
+ * @returns Schema, or undefined for unknown events
+ */
+export function eventSchema(type: string): Schema | undefined {
+  return EVENT_SCHEMAS[type];
+}
@@ -0,0 +1,43 @@
+/**
+ * Helpers shared by the tests
+ */
+
+import { EnergySource, MarketOffer, MockFixtures, MockParticipant } from '../src/types';
+
+/**
+ * Poll until a condition holds
+ * @param predicate Condition to wait for
+ * @param timeout Time to wait in ms before rejecting
+ */
+export function waitFor(predicate: () => boolean, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      if (predicate()) return resolve();
+      if (Date.now() > deadline) return reject(new Error('Timed out waiting for condition'));
+      setTimeout(poll, 5);
+    };
+    poll();
+  });
+}
+
+/**
+ * Backend fixtures with the given participants and one active offer,
+ * `offer-1`: 20 kWh of solar energy at 0.2 EUR/kWh
+ * @param participants Participants of the backend
+ * @param sellerId Participant selling the offer
+ */
+export function fixtures(participants: MockParticipant[], sellerId: string): MockFixtures {
+  const offer: MarketOffer = {
+    id: 'offer-1',
+    sellerId,
+    energyAvailable: 20,
+    pricePerKwh: 0.2,
+    currency: 'EUR',
+    source: EnergySource.SOLAR,
+    createdAt: '2024-01-15T10:00:00.000Z',
+    expiresAt: '2099-01-01T00:00:00.000Z',
+    status: 'active'
+  };
+  return { participants, offers: [offer] };
+}